@@ -2,7 +2,7 @@ import type {
   ExtensionAPI,
   ExtensionContext,
 } from "@mariozechner/pi-coding-agent";
-
+import { runExportCommand, runImportCommand } from "./src/bundle-command.js";
 import {
   buildCandidates,
   candidateKey,
@@ -10,14 +10,58 @@ import {
   findIgnoreMapping,
   sortCandidates,
 } from "./src/candidates.js";
-import { loadConfig } from "./src/config.js";
-import { CooldownManager } from "./src/cooldown.js";
-
-import { createModelLockCoordinator, modelLockKey } from "./src/model-locks.js";
-import { runSelector, type SelectorReason } from "./src/selector.js";
-import type { LoadedConfig, UsageSnapshot } from "./src/types.js";
-import { notify, writeDebugLog } from "./src/types.js";
+import { ConfigWatcher } from "./src/config-watcher.js";
+import { COOLDOWN_DURATION, CooldownManager } from "./src/cooldown.js";
+import { runCooldownsCommand } from "./src/cooldowns-command.js";
+import {
+  getLockServerCompletions,
+  runLockServerCommand,
+} from "./src/lock-server-command.js";
+import { runLocksCommand } from "./src/locks-command.js";
+import {
+  createModelLockBackend,
+  type ModelLockServer,
+} from "./src/model-lock-server.js";
+import {
+  createModelLockCoordinator,
+  modelLockKey,
+  resolveModelLockSlots,
+} from "./src/model-locks.js";
+import {
+  getProfileCompletions,
+  runProfileCommand,
+} from "./src/profile-command.js";
+import {
+  formatSelectionTrace,
+  getLastSelectionTrace,
+} from "./src/selection-trace.js";
+import {
+  getEffectiveDisabledProviders,
+  runSelector,
+  type SelectorReason,
+} from "./src/selector.js";
+import {
+  buildSkipEntries,
+  describeSkipDuration,
+  getSkipCompletions,
+  parseSkipArgs,
+  resolveSkipTargets,
+  type SkipEntry,
+  type SkipRequest,
+  type SkipScope,
+} from "./src/skip.js";
+import {
+  buildCandidateStatusRows,
+  formatCandidateStatusReport,
+} from "./src/status.js";
+import type {
+  LoadedConfig,
+  UsageCandidate,
+  UsageSnapshot,
+} from "./src/types.js";
+import { notify, setGlobalConfig, writeDebugLog } from "./src/types.js";
 import { fetchAllUsages } from "./src/usage-fetchers.js";
+import { runValidateCommand } from "./src/validate-command.js";
 import {
   getWidgetState,
   renderUsageWidget,
@@ -64,7 +108,32 @@ export default function modelSelectorExtension(pi: ExtensionAPI) {
         );
       }
     },
-    activeModelLockKey = { current: null as string | null };
+    activeModelLockKey = { current: null as string | null },
+    lockServer = { current: null as ModelLockServer | null },
+    lockBackendKey = { current: "" },
+    syncLockBackend = async (config: LoadedConfig | null): Promise<void> => {
+      // Keep the current backend while the config is invalid
+      if (!config) return;
+      const url = config.lockServer?.url,
+        key = url ? `${url}\n${config.lockServer?.token ?? ""}` : "";
+      if (key === lockBackendKey.current) return;
+      // Locks held through the previous backend would never be refreshed again
+      await releaseActiveModelLock();
+      try {
+        await modelLockCoordinator.releaseAll();
+      } catch (err) {
+        writeDebugLog(
+          `Error while releasing model locks before switching backends: ${String(err)}`,
+        );
+      }
+      modelLockCoordinator.setBackend(
+        createModelLockBackend(config.lockServer),
+      );
+      lockBackendKey.current = key;
+      writeDebugLog(
+        `Model locks now coordinated through ${url ?? "the lock file"}`,
+      );
+    };
 
   let running = false;
 
@@ -90,6 +159,10 @@ export default function modelSelectorExtension(pi: ExtensionAPI) {
     running = true;
 
     try {
+      // Served from memory while the config files are watched
+      const preloadedConfig =
+        options.preloadedConfig ?? (await configWatcher.load(ctx));
+      if (!preloadedConfig) return false;
       const result = await runSelector(
         ctx,
         cooldownManager,
@@ -98,7 +171,7 @@ export default function modelSelectorExtension(pi: ExtensionAPI) {
         activeModelLockKey,
         autoSelectionDisabled,
         reason,
-        options,
+        { ...options, preloadedConfig },
         pi,
         selfInitiatedModelChange,
       );
@@ -111,7 +184,28 @@ export default function modelSelectorExtension(pi: ExtensionAPI) {
     }
   };
 
+  const configWatcher = new ConfigWatcher({
+    onReload: async (ctx, config) => {
+      await syncLockBackend(config);
+      setGlobalConfig(config);
+      const state = getWidgetState();
+      if (state) {
+        updateWidgetState({ ...state, config });
+        renderUsageWidget(ctx);
+      }
+      if (!config.hotReload?.reselect || autoSelectionDisabled) return;
+      if (running) {
+        writeDebugLog(
+          "Skipping re-selection after config reload: selector busy",
+        );
+        return;
+      }
+      await runSelectorWrapper(ctx, "auto");
+    },
+  });
+
   pi.on("session_start", async (event, ctx) => {
+    await syncLockBackend(await configWatcher.start(ctx));
     // SDK ≥0.58 fires session_start (reason "new"/"resume") for what used to be
     // the session_switch event; reset the per-session disable flag in that case.
     if (event.reason === "new" || event.reason === "resume") {
@@ -189,7 +283,7 @@ export default function modelSelectorExtension(pi: ExtensionAPI) {
     // a new lock if the model has changed.
     if (autoSelectionDisabled) {
       writeDebugLog("Skipping model selection: auto-selection is disabled");
-      const lockingConfig = await loadConfig(ctx, {
+      const lockingConfig = await configWatcher.load(ctx, {
         requireMappings: false,
         seedGlobal: false,
       });
@@ -211,8 +305,18 @@ export default function modelSelectorExtension(pi: ExtensionAPI) {
           // This ensures we never run without coordination if the lock is busy.
           const oldLockKey = activeModelLockKey.current;
           try {
-            const acquireResult =
-              await modelLockCoordinator.acquire(currentModelKey);
+            const acquireResult = await modelLockCoordinator.acquire(
+              currentModelKey,
+              {
+                slots: lockingConfig
+                  ? resolveModelLockSlots(
+                      lockingConfig,
+                      ctx.model.provider,
+                      ctx.model.id,
+                    )
+                  : 1,
+              },
+            );
             if (!acquireResult.acquired) {
               const heldByMsg = acquireResult.heldBy
                 ? ` (held by ${acquireResult.heldBy.instanceId}, pid ${acquireResult.heldBy.pid})`
@@ -263,7 +367,7 @@ export default function modelSelectorExtension(pi: ExtensionAPI) {
 
   pi.on("agent_end", async (_event, ctx) => {
     await releaseActiveModelLock();
-    const config = await loadConfig(ctx, { requireMappings: false });
+    const config = await configWatcher.load(ctx, { requireMappings: false });
     if (config?.autoRun) {
       // Skip auto-run if auto-selection is disabled
       if (autoSelectionDisabled) {
@@ -275,8 +379,13 @@ export default function modelSelectorExtension(pi: ExtensionAPI) {
   });
 
   pi.on("session_shutdown", async () => {
+    configWatcher.stop();
     await releaseActiveModelLock();
     await modelLockCoordinator.releaseAll();
+    if (lockServer.current) {
+      await lockServer.current.close();
+      lockServer.current = null;
+    }
     autoSelectionDisabled = false; // Reset session-scoped flag
   });
 
@@ -296,7 +405,7 @@ export default function modelSelectorExtension(pi: ExtensionAPI) {
         }
         notify(ctx, "info", "Auto model selection re-enabled.");
       }
-      const config = await loadConfig(ctx);
+      const config = await configWatcher.load(ctx);
       if (!config) return;
       await runSelectorWrapper(ctx, "command", { preloadedConfig: config });
       if (!config.enableModelLocking) {
@@ -310,51 +419,123 @@ export default function modelSelectorExtension(pi: ExtensionAPI) {
     handler: async (_args, ctx) => {
       void _args;
       await runMappingWizard(ctx);
+      // The watcher only sees the wizard's changes on its next poll
+      configWatcher.invalidate();
     },
   });
 
-  pi.registerCommand("model-skip", {
+  pi.registerCommand("model-select-validate", {
     description:
-      "Skip the current best model for 1 hour and select the next best",
+      "Check the config files for invalid values and unknown keys without applying them",
     handler: async (_args, ctx) => {
       void _args;
-      // Load persisted state first (for print-mode support)
-      await cooldownManager.loadPersistedCooldowns();
+      await runValidateCommand(ctx);
+    },
+  });
 
-      const config = await loadConfig(ctx);
+  pi.registerCommand("model-select-export", {
+    description:
+      "Write the mappings, priority, fallback and provider settings to a shareable bundle file, without secrets",
+    handler: async (args, ctx) => {
+      const config = await configWatcher.load(ctx, { requireMappings: false });
       if (!config) return;
+      await runExportCommand(ctx, typeof args === "string" ? args : "", config);
+    },
+  });
 
-      const usages = await fetchAllUsages(
-        ctx.modelRegistry,
-        config.disabledProviders,
-        config.providerSettings,
+  pi.registerCommand("model-select-import", {
+    description:
+      "Merge a bundle from /model-select-export into the global or project config",
+    handler: async (args, ctx) => {
+      const imported = await runImportCommand(
+        ctx,
+        typeof args === "string" ? args : "",
       );
+      // The watcher only sees the change on its next poll
+      if (imported) configWatcher.invalidate();
+    },
+  });
+
+  pi.registerCommand("model-skip", {
+    description:
+      "Skip a usage bucket, model or provider (default: the current best model for 1 hour) and select the next best",
+    getArgumentCompletions: (prefix) => {
+      const state = getWidgetState();
+      return state
+        ? getSkipCompletions(prefix, state.candidates, state.config.mappings)
+        : null;
+    },
+    handler: async (args, ctx) => {
+      let request: SkipRequest;
+      try {
+        request = parseSkipArgs(typeof args === "string" ? args : "");
+      } catch (err) {
+        notify(ctx, "error", err instanceof Error ? err.message : String(err));
+        return;
+      }
 
-      let lastSelectedCandidateKey = cooldownManager.getLastSelectedKey();
+      // Load persisted state first (for print-mode support)
+      await cooldownManager.loadPersistedCooldowns();
 
-      if (!lastSelectedCandidateKey) {
-        const candidates = combineCandidates(
+      const config = await configWatcher.load(ctx);
+      if (!config) return;
+
+      const usages = await fetchAllUsages(
+          ctx.modelRegistry,
+          config.disabledProviders,
+          config.providerSettings,
+        ),
+        candidates = combineCandidates(
           buildCandidates(usages),
           config.mappings,
-        );
-        const eligible = candidates.filter(
-          (c) =>
-            !findIgnoreMapping(c, config.mappings) && c.remainingPercent > 0,
-        );
-        const ranked = sortCandidates(
-          eligible,
-          config.priority,
+        ),
+        duration = request.duration ?? COOLDOWN_DURATION,
+        now = Date.now();
+
+      let targets: UsageCandidate[],
+        scope: SkipScope,
+        lastSelectedCandidateKey = cooldownManager.getLastSelectedKey();
+
+      if (request.target) {
+        targets = resolveSkipTargets(
+          request.target,
+          candidates,
           config.mappings,
         );
-        if (ranked.length > 0) {
+        if (targets.length === 0) {
+          notify(
+            ctx,
+            "error",
+            `No usage bucket, mapped model or provider matches "${request.target}".`,
+          );
+          return;
+        }
+        // A bare provider name skips the whole provider unless a scope says otherwise
+        scope =
+          request.scope ??
+          (request.target.includes("/") ? "bucket" : "provider");
+      } else {
+        if (!lastSelectedCandidateKey) {
+          const eligible = candidates.filter(
+            (c) =>
+              !findIgnoreMapping(c, config.mappings) && c.remainingPercent > 0,
+          );
+          const ranked = sortCandidates(
+            eligible,
+            config.priority,
+            config.mappings,
+          );
           const topCandidate = ranked[0];
           if (topCandidate) {
             lastSelectedCandidateKey = candidateKey(topCandidate);
           }
         }
-      }
 
-      if (lastSelectedCandidateKey) {
+        if (!lastSelectedCandidateKey) {
+          notify(ctx, "error", "Could not determine a candidate to skip.");
+          return;
+        }
+
         // Check if the last selected model is the fallback
         if (lastSelectedCandidateKey.startsWith("fallback:")) {
           notify(
@@ -365,28 +546,62 @@ export default function modelSelectorExtension(pi: ExtensionAPI) {
           return;
         }
 
-        cooldownManager.addCooldown(lastSelectedCandidateKey);
-        await cooldownManager.persistCooldowns(); // Save to file immediately
-        notify(
-          ctx,
-          "info",
-          `Added temporary cooldown (1h) for usage bucket: ${lastSelectedCandidateKey}`,
-        );
-        lastSelectedCandidateKey = null;
-        cooldownManager.setLastSelectedKey(null);
-        // Run selector with pre-fetched usages to avoid second network roundtrip
-        await runSelectorWrapper(ctx, "command", {
-          preloadedConfig: config,
-          preloadedUsages: usages,
-        });
-        // Explicitly refresh widget to show updated cooldown state
-        const state = getWidgetState();
-        if (state) {
-          updateWidgetState({ ...state, config });
-          renderUsageWidget(ctx);
+        const lastKey = lastSelectedCandidateKey;
+        targets = candidates.filter((c) => candidateKey(c) === lastKey);
+        scope = request.scope ?? "bucket";
+      }
+
+      let entries: SkipEntry[];
+      if (targets.length === 0 && lastSelectedCandidateKey) {
+        // The last selected bucket is no longer reported, so only its key is known
+        if (scope !== "bucket" || duration === "until-reset") {
+          notify(
+            ctx,
+            "error",
+            "The last selected usage bucket is no longer reported. Name a target to skip instead.",
+          );
+          return;
         }
+        entries = [
+          {
+            key: lastSelectedCandidateKey,
+            expiresAt: now + duration,
+            label: `usage bucket ${lastSelectedCandidateKey}`,
+          },
+        ];
       } else {
-        notify(ctx, "error", "Could not determine a candidate to skip.");
+        try {
+          entries = buildSkipEntries(targets, scope, duration, now);
+        } catch (err) {
+          notify(
+            ctx,
+            "error",
+            err instanceof Error ? err.message : String(err),
+          );
+          return;
+        }
+      }
+
+      for (const entry of entries) {
+        cooldownManager.addCooldown(entry.key, entry.expiresAt);
+      }
+      await cooldownManager.persistCooldowns(); // Save to file immediately
+      notify(
+        ctx,
+        "info",
+        `Added temporary cooldown (${describeSkipDuration(duration, entries, now)}) for ${entries.map((entry) => entry.label).join(", ")}`,
+      );
+      cooldownManager.setLastSelectedKey(null);
+      // Run selector with pre-fetched usages to avoid second network roundtrip
+      await runSelectorWrapper(ctx, "command", {
+        preloadedConfig: config,
+        preloadedUsages: usages,
+      });
+      // Explicitly refresh widget to show updated cooldown state
+      const state = getWidgetState();
+      if (state) {
+        updateWidgetState({ ...state, config });
+        renderUsageWidget(ctx);
       }
     },
   });
@@ -409,7 +624,7 @@ export default function modelSelectorExtension(pi: ExtensionAPI) {
           `Cleared ${removedCount} skip cooldown(s). Skipped models are now eligible.`,
         );
         // Re-run selection to pick from the newly un-skipped models
-        const config = await loadConfig(ctx);
+        const config = await configWatcher.load(ctx);
         if (config) {
           const usages = await fetchAllUsages(
             ctx.modelRegistry,
@@ -430,7 +645,7 @@ export default function modelSelectorExtension(pi: ExtensionAPI) {
       } else {
         notify(ctx, "info", "No skip cooldowns to clear.");
         // Still refresh widget to reflect current state
-        const config = await loadConfig(ctx);
+        const config = await configWatcher.load(ctx);
         if (config) {
           const state = getWidgetState();
           if (state) {
@@ -442,11 +657,137 @@ export default function modelSelectorExtension(pi: ExtensionAPI) {
     },
   });
 
+  pi.registerCommand("model-cooldowns", {
+    description: "List active cooldowns and clear, extend or shorten them",
+    handler: async (_args, ctx) => {
+      void _args;
+      const changed = await runCooldownsCommand(ctx, cooldownManager);
+      if (!changed) return;
+
+      // Re-run selection so cleared or shortened cooldowns take effect immediately
+      const config = await configWatcher.load(ctx);
+      if (!config) return;
+      const usages = await fetchAllUsages(
+        ctx.modelRegistry,
+        config.disabledProviders,
+        config.providerSettings,
+      );
+      await runSelectorWrapper(ctx, "command", {
+        preloadedConfig: config,
+        preloadedUsages: usages,
+      });
+    },
+  });
+
+  pi.registerCommand("model-profile", {
+    description:
+      "Switch this project to a named config profile, or back to the base config",
+    getArgumentCompletions: (prefix) =>
+      getProfileCompletions(prefix, getWidgetState()?.config.profiles ?? []),
+    handler: async (args, ctx) => {
+      const config = await configWatcher.load(ctx, { requireMappings: false });
+      if (!config) return;
+      const changed = await runProfileCommand(
+        ctx,
+        typeof args === "string" ? args : "",
+        config,
+      );
+      if (!changed) return;
+
+      // Select under the new profile right away
+      configWatcher.invalidate();
+      const profileConfig = await configWatcher.load(ctx);
+      if (!profileConfig) return;
+      await runSelectorWrapper(ctx, "command", {
+        preloadedConfig: profileConfig,
+      });
+    },
+  });
+
+  pi.registerCommand("model-locks", {
+    description:
+      "Show model lock holders and force-release stale or foreign locks",
+    handler: async (_args, ctx) => {
+      void _args;
+      try {
+        await runLocksCommand(ctx, modelLockCoordinator);
+      } catch (err) {
+        notify(ctx, "error", `Failed to read model locks: ${String(err)}`);
+      }
+    },
+  });
+
+  pi.registerCommand("model-lock-server", {
+    description:
+      "Start, stop or show a lock server that shares model locks across machines",
+    getArgumentCompletions: (prefix) => getLockServerCompletions(prefix),
+    handler: async (args, ctx) => {
+      const config = await configWatcher.load(ctx, { requireMappings: false });
+      if (!config) return;
+      await runLockServerCommand(
+        ctx,
+        typeof args === "string" ? args : "",
+        lockServer,
+        config.lockServer,
+      );
+    },
+  });
+
+  pi.registerCommand("model-status", {
+    description:
+      "Show every usage candidate with its rank, mapping, cooldown and lock state",
+    handler: async (_args, ctx) => {
+      void _args;
+      await cooldownManager.loadPersistedCooldowns();
+
+      const config = await configWatcher.load(ctx, { requireMappings: false });
+      if (!config) return;
+
+      const usages = await fetchAllUsages(
+          ctx.modelRegistry,
+          getEffectiveDisabledProviders(config),
+          config.providerSettings,
+        ),
+        candidates = combineCandidates(
+          buildCandidates(usages),
+          config.mappings,
+        );
+
+      let locks = {};
+      try {
+        locks = await modelLockCoordinator.listLocks();
+      } catch (err) {
+        writeDebugLog(`Failed to read model locks for status: ${String(err)}`);
+      }
+
+      const rows = buildCandidateStatusRows(
+        candidates,
+        config,
+        cooldownManager,
+        locks,
+      );
+      notify(ctx, "info", formatCandidateStatusReport(rows, config));
+    },
+  });
+
+  pi.registerCommand("model-explain", {
+    description: "Explain how the last model selection was made, step by step",
+    handler: async (_args, ctx) => {
+      void _args;
+      const trace = getLastSelectionTrace();
+      if (!trace) {
+        notify(ctx, "info", "No model selection has run in this session yet.");
+        return;
+      }
+      notify(ctx, "info", formatSelectionTrace(trace));
+    },
+  });
+
   pi.registerCommand("model-auto-toggle", {
     description: "Toggle auto model selection on/off for this session",
     handler: async (_args, ctx) => {
       void _args;
-      const config = await loadConfig(ctx, { requireMappings: false });
+      const config = await configWatcher.load(ctx, { requireMappings: false });
       if (!config) return;
 
       autoSelectionDisabled = !autoSelectionDisabled;
@@ -524,3 +865,12 @@ export {
   loadCooldownState,
   saveCooldownState,
 } from "./src/cooldown.js";
+
+// Registry for usage fetchers contributed by other extensions
+export {
+  getRegisteredUsageFetchers,
+  registerUsageFetcher,
+  type UsageFetcherRegistration,
+  unregisterUsageFetcher,
+} from "./src/fetcher-registry.js";
+export type { RateWindow, UsageSnapshot } from "./src/types.js";
@@ -0,0 +1,473 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import {
+  getRawMappings,
+  loadConfig,
+  migrateConfigRaw,
+  readConfigFile,
+  saveConfigFile,
+  upsertMapping,
+} from "./config.js";
+import { getConfigFormat, stringifyConfig } from "./config-format.js";
+import { validateAgainstSchema } from "./config-schema.js";
+import type {
+  CommandProviderSettings,
+  CustomProviderSettings,
+  LoadedConfig,
+  MappingEntry,
+  ProviderSettings,
+} from "./types.js";
+import { CONFIG_VERSION, mappingKey, notify } from "./types.js";
+import { selectWrapped } from "./ui-helpers.js";
+import { formatConfigProblems } from "./validate-command.js";
+
+const DEFAULT_BUNDLE_FILE = "model-selector.bundle.json",
+  IMPORT_USAGE = "Usage: /model-select-import <file> [global|project]",
+  // Keys a bundle carries besides its version
+  BUNDLE_KEYS = ["mappings", "priority", "fallback", "providerSettings"],
+  // Values referencing an environment variable hold no secret themselves
+  ENV_REFERENCE = /\$\{[A-Za-z_][A-Za-z0-9_]*\}/,
+  // Command arguments naming an option, like `--team`, carry no value
+  OPTION_NAME = /^--?[A-Za-z][\w-]*$/;
+
+function describeError(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+// Drops query parameters with a literal value, since tokens are often passed
+// that way, keeping `${NAME}` references and parameters without a value
+function redactUrl(
+  url: string,
+  providerName: string,
+  redacted: string[],
+): string {
+  const queryStart = url.indexOf("?");
+  if (queryStart === -1) return url;
+  const hashStart = url.indexOf("#", queryStart),
+    queryEnd = hashStart === -1 ? url.length : hashStart,
+    params = url
+      .slice(queryStart + 1, queryEnd)
+      .split("&")
+      .filter((param) => {
+        const [name, value = ""] = param.split("=", 2);
+        if (value === "" || ENV_REFERENCE.test(value)) return true;
+        redacted.push(
+          `query parameter "${name}" of custom provider "${providerName}"`,
+        );
+        return false;
+      });
+  return `${url.slice(0, queryStart)}${params.length > 0 ? `?${params.join("&")}` : ""}${url.slice(queryEnd)}`;
+}
+
+// Drops header values and query parameters that would leak a token, keeping
+// `${NAME}` references
+function redactCustomProvider(
+  provider: CustomProviderSettings,
+  redacted: string[],
+): CustomProviderSettings {
+  const { headers: rawHeaders, ...rest } = provider,
+    url = redactUrl(provider.url, provider.name, redacted);
+  if (!rawHeaders) return { ...rest, url };
+  const headers = Object.entries(rawHeaders).filter(([name, value]) => {
+    if (ENV_REFERENCE.test(value)) return true;
+    redacted.push(`header "${name}" of custom provider "${provider.name}"`);
+    return false;
+  });
+  return headers.length > 0
+    ? { ...rest, url, headers: Object.fromEntries(headers) }
+    : { ...rest, url };
+}
+
+// Drops argument values such as `--token abc`, keeping option names and
+// `${NAME}` references
+function redactCommandProvider(
+  command: CommandProviderSettings,
+  redacted: string[],
+): CommandProviderSettings {
+  if (!command.args) return command;
+  const args = command.args.filter((arg, index) => {
+    if (OPTION_NAME.test(arg) || ENV_REFERENCE.test(arg)) return true;
+    redacted.push(
+      `argument ${index + 1} of command provider "${command.name}"`,
+    );
+    return false;
+  });
+  const { args: _args, ...rest } = command;
+  return args.length > 0 ? { ...rest, args } : rest;
+}
+
+/**
+ * Builds a portable bundle from the effective mappings, priority, fallback and
+ * provider settings of a loaded config. The bundle is itself a valid config
+ * file, so it can also be pulled in with `extends`. Secrets such as the
+ * Minimax group id, and literal values in custom provider headers, custom
+ * provider query strings and command arguments, are left out.
+ * @returns The bundle, and a description of each secret left out.
+ */
+export function createConfigBundle(config: LoadedConfig): {
+  bundle: Record<string, unknown>;
+  redacted: string[];
+} {
+  const redacted: string[] = [],
+    settings = config.providerSettings ?? {},
+    providerSettings: ProviderSettings = {};
+  if (settings.minimax?.groupId) redacted.push("Minimax groupId");
+  if (settings.custom?.length) {
+    providerSettings.custom = settings.custom.map((provider) =>
+      redactCustomProvider(provider, redacted),
+    );
+  }
+  if (settings.commands?.length) {
+    providerSettings.commands = settings.commands.map((command) =>
+      redactCommandProvider(command, redacted),
+    );
+  }
+
+  return {
+    bundle: {
+      version: CONFIG_VERSION,
+      // Loading fills in `ignore: false`, which only adds noise
+      mappings: config.mappings.map(({ ignore, ...mapping }) =>
+        ignore ? { ...mapping, ignore } : mapping,
+      ),
+      priority: config.priority,
+      ...(config.fallback ? { fallback: config.fallback } : {}),
+      ...(Object.keys(providerSettings).length > 0 ? { providerSettings } : {}),
+    },
+    redacted,
+  };
+}
+
+/**
+ * Writes the current config as a shareable bundle to the given file, or to
+ * `model-selector.bundle.json` in the project directory. The format follows
+ * the file extension. An existing file is only replaced after confirmation.
+ * @returns True if the bundle was written.
+ */
+export async function runExportCommand(
+  ctx: ExtensionContext,
+  args: string,
+  config: LoadedConfig,
+): Promise<boolean> {
+  const file = path.resolve(ctx.cwd, args.trim() || DEFAULT_BUNDLE_FILE);
+  if (fs.existsSync(file)) {
+    if (!ctx.hasUI) {
+      notify(ctx, "error", `${file} already exists. Export to another file.`);
+      return false;
+    }
+    const replace = await ctx.ui.confirm(
+      "Replace existing file?",
+      `${file} already exists and will be overwritten.`,
+    );
+    if (!replace) {
+      notify(ctx, "info", "Export cancelled.");
+      return false;
+    }
+  }
+
+  const { bundle, redacted } = createConfigBundle(config);
+  try {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(
+      file,
+      stringifyConfig(bundle, getConfigFormat(file)),
+      "utf-8",
+    );
+  } catch (err) {
+    notify(ctx, "error", `Failed to write ${file}: ${describeError(err)}`);
+    return false;
+  }
+
+  const lines = [
+    `Exported ${plural(config.mappings.length, "mapping")} with the priority${config.fallback ? ", fallback" : ""}${bundle.providerSettings ? " and provider settings" : ""} to ${file}.`,
+  ];
+  if (redacted.length > 0) {
+    lines.push(
+      `Left out secrets: ${redacted.join(", ")}. Whoever imports the bundle sets them in their own config.`,
+    );
+  }
+  notify(ctx, "info", lines.join("\n"));
+  return true;
+}
+
+// A bundle's custom provider updates the importer's one field by field. While
+// it points at the same endpoint, header values and a query string that export
+// would have left out are kept, so the importer's own token survives without
+// ever being sent to a host the bundle picked
+function mergeCustomProvider(
+  existing: CustomProviderSettings,
+  incoming: CustomProviderSettings,
+): CustomProviderSettings {
+  const { headers: _headers, ...rest } = { ...existing, ...incoming };
+  if (redactUrl(existing.url, existing.name, []) !== incoming.url) {
+    return incoming.headers ? { ...rest, headers: incoming.headers } : rest;
+  }
+  const headers = {
+    ...Object.fromEntries(
+      Object.entries(existing.headers ?? {}).filter(
+        ([, value]) => !ENV_REFERENCE.test(value),
+      ),
+    ),
+    ...incoming.headers,
+  };
+  return {
+    ...rest,
+    url: existing.url,
+    ...(Object.keys(headers).length > 0 ? { headers } : {}),
+  };
+}
+
+// A bundle's command provider updates the importer's one field by field. The
+// importer's arguments are kept when the bundle carries them with the secret
+// values left out
+function mergeCommandProvider(
+  existing: CommandProviderSettings,
+  incoming: CommandProviderSettings,
+): CommandProviderSettings {
+  const exported = redactCommandProvider(existing, []).args ?? [],
+    keepArgs =
+      existing.command === incoming.command &&
+      exported.length === (incoming.args ?? []).length &&
+      exported.every((arg, index) => arg === incoming.args?.[index]),
+    { args: _args, ...rest } = { ...existing, ...incoming },
+    args = keepArgs ? existing.args : incoming.args;
+  return args ? { ...rest, args } : rest;
+}
+
+// Entries of `incoming` update same-named entries of `existing` in place and
+// are appended otherwise
+function mergeByName<T extends { name: string }>(
+  existing: unknown,
+  incoming: T[],
+  merge: (existing: T, incoming: T) => T,
+): unknown[] {
+  const merged: unknown[] = Array.isArray(existing) ? [...existing] : [];
+  for (const provider of incoming) {
+    const index = merged.findIndex(
+      (entry) =>
+        !!entry &&
+        typeof entry === "object" &&
+        (entry as { name?: unknown }).name === provider.name,
+    );
+    if (index === -1) {
+      merged.push(provider);
+    } else {
+      merged[index] = merge(merged[index] as T, provider);
+    }
+  }
+  return merged;
+}
+
+// Shows what an imported provider contacts or runs, since its name alone
+// does not
+function describeProvider(
+  provider: CustomProviderSettings | CommandProviderSettings,
+): string {
+  if ("url" in provider) return provider.url;
+  return [provider.command, ...(provider.args ?? [])]
+    .map((word) => (/\s/.test(word) ? JSON.stringify(word) : word))
+    .join(" ");
+}
+
+// Splits "<file> [global|project]", allowing spaces in the file name
+function parseImportArgs(
+  args: string,
+): { file: string; scope?: "global" | "project" } | null {
+  const words = args.trim().split(/\s+/).filter(Boolean),
+    last = words.at(-1);
+  if (last === "global" || last === "project") {
+    return words.length > 1
+      ? { file: words.slice(0, -1).join(" "), scope: last }
+      : null;
+  }
+  return words.length > 0 ? { file: words.join(" ") } : null;
+}
+
+/**
+ * Merges a bundle written by `/model-select-export` into the global or project
+ * config file. Mappings are upserted by usage bucket like the wizard does,
+ * the priority and fallback are replaced, and custom and command providers
+ * update those of the same name field by field, keeping the importer's
+ * secrets; they are only imported into the global config. The confirmation
+ * lists the URL or command line of each. Other keys in the file are ignored.
+ * Without
+ * a scope argument the target is picked from a list, or is the global config
+ * when there is no UI.
+ * @returns True if the config file was updated.
+ */
+export async function runImportCommand(
+  ctx: ExtensionContext,
+  args: string,
+): Promise<boolean> {
+  const parsed = parseImportArgs(args);
+  if (!parsed) {
+    notify(ctx, "error", IMPORT_USAGE);
+    return false;
+  }
+
+  const file = path.resolve(ctx.cwd, parsed.file),
+    errors: string[] = [],
+    bundle = await readConfigFile(file, errors);
+  if (!bundle) {
+    notify(ctx, "error", errors.join("\n") || `${file} was not found.`);
+    return false;
+  }
+  // Bundles from older releases are upgraded before they are checked
+  if (!migrateConfigRaw(bundle, file, errors)) {
+    notify(ctx, "error", errors.join("\n"));
+    return false;
+  }
+  const schemaProblems = validateAgainstSchema(bundle);
+  if (schemaProblems.length > 0) {
+    notify(
+      ctx,
+      "error",
+      formatConfigProblems(
+        schemaProblems.map((problem) => ({ file, ...problem })),
+      ),
+    );
+    return false;
+  }
+  // Normalizing only checks the entries; they are stored as written
+  getRawMappings(bundle, errors, file);
+  const mappings = (bundle.mappings ?? []) as MappingEntry[];
+  if (errors.length > 0) {
+    notify(ctx, "error", errors.join("\n"));
+    return false;
+  }
+
+  const config = await loadConfig(ctx, { requireMappings: false });
+  if (!config) return false;
+
+  let scope = parsed.scope;
+  if (!scope) {
+    if (ctx.hasUI) {
+      const labels = [
+          `Global (${config.sources.globalPath})`,
+          `Project (${config.sources.projectPath})`,
+        ],
+        choice = await selectWrapped(ctx, "Import bundle into", labels);
+      if (!choice) return false;
+      scope = choice === labels[1] ? "project" : "global";
+    } else {
+      scope = "global";
+    }
+  }
+  const targetRaw =
+      scope === "project" ? config.raw.project : config.raw.global,
+    targetPath =
+      scope === "project"
+        ? config.sources.projectPath
+        : config.sources.globalPath;
+
+  const existing = new Set(getRawMappings(targetRaw).map(mappingKey)),
+    replaced = mappings.filter((mapping) =>
+      existing.has(mappingKey(mapping)),
+    ).length,
+    summary = [
+      `${plural(mappings.length - replaced, "mapping")} added, ${replaced} replaced`,
+    ];
+  for (const mapping of mappings) {
+    upsertMapping(targetRaw, mapping);
+  }
+  if (bundle.priority !== undefined) {
+    targetRaw.priority = bundle.priority;
+    summary.push(`priority: ${(bundle.priority as string[]).join(" → ")}`);
+  }
+  if (bundle.fallback !== undefined) {
+    const fallback = bundle.fallback as { provider: string; id: string };
+    targetRaw.fallback = fallback;
+    summary.push(`fallback: ${fallback.provider}/${fallback.id}`);
+  }
+  const incoming = (bundle.providerSettings ?? {}) as ProviderSettings;
+  if (incoming.minimax || incoming.custom || incoming.commands) {
+    const settings = (
+      targetRaw.providerSettings &&
+      typeof targetRaw.providerSettings === "object"
+        ? targetRaw.providerSettings
+        : {}
+    ) as Record<string, unknown>;
+    if (incoming.minimax) {
+      settings.minimax = {
+        ...(settings.minimax as Record<string, unknown> | undefined),
+        ...incoming.minimax,
+      };
+      summary.push("Minimax settings");
+    }
+    for (const key of ["custom", "commands"] as const) {
+      const providers = incoming[key];
+      if (!providers) continue;
+      const label = `${key === "custom" ? "custom" : "command"} provider`;
+      if (scope === "project") {
+        summary.push(
+          `skipped ${label}s (${providers.map((provider) => provider.name).join(", ")}): only the global config may declare them`,
+        );
+        continue;
+      }
+      const declared = new Set(
+        (Array.isArray(settings[key]) ? (settings[key] as unknown[]) : []).map(
+          (entry) => (entry as { name?: unknown } | null)?.name,
+        ),
+      );
+      for (const provider of providers) {
+        summary.push(
+          `${label} ${provider.name}${declared.has(provider.name) ? " (updated)" : ""}: ${describeProvider(provider)}`,
+        );
+      }
+      settings[key] =
+        key === "custom"
+          ? mergeByName(
+              settings[key],
+              incoming.custom ?? [],
+              mergeCustomProvider,
+            )
+          : mergeByName(
+              settings[key],
+              incoming.commands ?? [],
+              mergeCommandProvider,
+            );
+    }
+    targetRaw.providerSettings = settings;
+  }
+  const ignored = Object.keys(bundle).filter(
+    (key) =>
+      key !== "version" && key !== "$schema" && !BUNDLE_KEYS.includes(key),
+  );
+  if (ignored.length > 0) {
+    summary.push(`ignored: ${ignored.join(", ")}`);
+  }
+
+  const summaryLines = summary.map((line) => `• ${line}`);
+  if (ctx.hasUI) {
+    const confirmed = await ctx.ui.confirm(
+      "Import bundle?",
+      `This will update ${targetPath}:\n${summaryLines.join("\n")}`,
+    );
+    if (!confirmed) {
+      notify(ctx, "info", "Import cancelled.");
+      return false;
+    }
+  }
+
+  try {
+    await saveConfigFile(targetPath, targetRaw);
+  } catch (err) {
+    notify(
+      ctx,
+      "error",
+      `Failed to write ${targetPath}: ${describeError(err)}`,
+    );
+    return false;
+  }
+  notify(
+    ctx,
+    "info",
+    [`Imported ${file} into ${targetPath}:`, ...summaryLines].join("\n"),
+  );
+  return true;
+}
@@ -1,3 +1,4 @@
+import { getScheduleStart } from "./schedule.js";
 import type {
   MappingEntry,
   PriorityRule,
@@ -15,6 +16,33 @@ function clampPercent(value: number): number {
   return Math.max(0, Math.min(100, value));
 }
 
+const HOUR_MS = 60 * 60 * 1000,
+  DAY_MS = 24 * HOUR_MS,
+  WINDOW_UNIT_MS: Record<string, number> = {
+    m: 60 * 1000,
+    h: HOUR_MS,
+    d: DAY_MS,
+    w: 7 * DAY_MS,
+  };
+
+/**
+ * Infers a quota window length from labels such as "5h", "1w" or "Week".
+ * Returns undefined when the label does not describe a duration.
+ */
+export function inferWindowMs(label: string): number | undefined {
+  const normalized = label.trim().toLowerCase(),
+    match = /^(\d+(?:\.\d+)?)\s*([mhdw])$/.exec(normalized);
+  if (match?.[1] && match[2]) {
+    const unit = WINDOW_UNIT_MS[match[2]],
+      amount = Number(match[1]);
+    return unit !== undefined && amount > 0 ? amount * unit : undefined;
+  }
+  if (normalized === "week" || normalized === "weekly") return 7 * DAY_MS;
+  if (normalized === "day" || normalized === "daily") return DAY_MS;
+  if (normalized === "month" || normalized === "monthly") return 30 * DAY_MS;
+  return undefined;
+}
+
 /**
  * Builds a list of usage candidates from raw usage snapshots.
  */
@@ -37,6 +65,10 @@ export function buildCandidates(usages: UsageSnapshot[]): UsageCandidate[] {
       if (window.resetsAt !== undefined) {
         candidate.resetsAt = window.resetsAt;
       }
+      const windowMs = window.windowMs ?? inferWindowMs(window.label);
+      if (windowMs !== undefined) {
+        candidate.windowMs = windowMs;
+      }
       if (usage.account !== undefined) {
         candidate.account = usage.account;
       }
@@ -51,6 +83,24 @@ export function buildCandidates(usages: UsageSnapshot[]): UsageCandidate[] {
 // Candidate Comparison
 // ============================================================================
 
+/**
+ * Returns how many percentage points a candidate is under (positive) or over
+ * (negative) an even burn rate for its window. Quota that is under-consumed
+ * close to reset would otherwise be wasted, so higher scores are preferred.
+ * Returns undefined when the reset time or window length is unknown.
+ */
+export function pacingScore(
+  candidate: UsageCandidate,
+  now = Date.now(),
+): number | undefined {
+  const resetsAt = candidate.resetsAt?.getTime(),
+    windowMs = candidate.windowMs;
+  if (resetsAt === undefined || !windowMs || windowMs <= 0) return undefined;
+  const remainingMs = Math.max(0, Math.min(windowMs, resetsAt - now)),
+    elapsedPercent = ((windowMs - remainingMs) / windowMs) * 100;
+  return elapsedPercent - candidate.usedPercent;
+}
+
 /**
  * Compares two candidates to determine their sorting order based on priority rules and mappings.
  */
@@ -97,6 +147,17 @@ export function compareCandidates(
       if (bReset === undefined) return { diff: -1, rule };
       const diff = bReset - aReset;
       if (diff !== 0) return { diff, rule };
+      continue;
+    }
+    if (rule === "pacing") {
+      const aPace = pacingScore(a),
+        bPace = pacingScore(b);
+      if (aPace === undefined && bPace === undefined) {
+        continue;
+      }
+      // Unknown pacing is treated as on-curve so it neither wins nor loses outright
+      const diff = (aPace ?? 0) - (bPace ?? 0);
+      if (diff !== 0) return { diff, rule };
     }
   }
   return { diff: 0 };
@@ -161,6 +222,14 @@ export function selectionReason(
       : "unknown";
     return `earlier reset (vs ${runnerReset})`;
   }
+  if (result.rule === "pacing") {
+    const formatPace = (candidate: UsageCandidate) => {
+      const pace = pacingScore(candidate);
+      if (pace === undefined) return "unknown";
+      return `${pace >= 0 ? "+" : ""}${pace.toFixed(0)}%`;
+    };
+    return `better pacing (${formatPace(best)} vs ${formatPace(runnerUp)})`;
+  }
 
   return "tied";
 }
@@ -313,6 +382,19 @@ export function getReserveThreshold(
   return mapping.reserve ?? 0;
 }
 
+/**
+ * Returns when the schedule of a candidate's model mapping next lets it be
+ * selected, or undefined when it is within its schedule or has none.
+ */
+export function getScheduleStartFor(
+  candidate: UsageCandidate,
+  mappings: MappingEntry[],
+  now = Date.now(),
+): number | undefined {
+  const schedule = findModelMapping(candidate, mappings)?.schedule;
+  return schedule ? getScheduleStart(schedule, now) : undefined;
+}
+
 /**
  * Generates a unique key for a candidate based on provider, account, window, and synthethic flag.
  */
@@ -408,6 +490,9 @@ export function combineCandidates(
     if (bottleneck.resetsAt !== undefined) {
       candidate.resetsAt = bottleneck.resetsAt;
     }
+    if (bottleneck.windowMs !== undefined) {
+      candidate.windowMs = bottleneck.windowMs;
+    }
     if (account) {
       candidate.account = account;
     }
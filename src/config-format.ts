@@ -0,0 +1,594 @@
+import * as path from "node:path";
+import {
+  applyEdits,
+  createScanner,
+  type Edit,
+  findNodeAtLocation,
+  type JSONPath,
+  type Node as JsoncNode,
+  modify,
+  type ParseError,
+  ParseErrorCode,
+  type ParseOptions,
+  parseTree,
+  printParseErrorCode,
+  SyntaxKind,
+} from "jsonc-parser";
+import {
+  type Document,
+  isMap,
+  isNode,
+  isScalar,
+  isSeq,
+  parseDocument,
+  stringify as stringifyYaml,
+} from "yaml";
+
+/**
+ * Syntax of a config file, chosen by its extension.
+ */
+export type ConfigFormat = "json" | "jsonc" | "yaml";
+
+/**
+ * Names a config file may have, in order of precedence when several exist in
+ * the same directory.
+ */
+export const CONFIG_FILE_NAMES: readonly string[] = [
+  "model-selector.json",
+  "model-selector.jsonc",
+  "model-selector.yaml",
+  "model-selector.yml",
+];
+
+/**
+ * Returns the format of a config file from its extension. Unknown extensions
+ * are read as strict JSON.
+ */
+export function getConfigFormat(filePath: string): ConfigFormat {
+  switch (path.extname(filePath).toLowerCase()) {
+    case ".jsonc":
+      return "jsonc";
+    case ".yaml":
+    case ".yml":
+      return "yaml";
+    default:
+      return "json";
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Mapping entries are identified by their usage bucket, providers by name, so
+// an edited entry keeps its comments even when it moves
+function itemIdentity(value: unknown): string | undefined {
+  if (!isRecord(value)) return undefined;
+  for (const key of ["usage", "name"]) {
+    if (Object.hasOwn(value, key))
+      return `${key}:${JSON.stringify(value[key])}`;
+  }
+  return undefined;
+}
+
+// For each item of `next`, the index of the `prev` item it continues, if any
+function alignItems(
+  prev: unknown[],
+  next: unknown[],
+): Array<number | undefined> {
+  const used = new Set<number>(),
+    result: Array<number | undefined> = next.map(() => undefined),
+    claim = (index: number, match: (old: unknown, k: number) => boolean) => {
+      const found = prev.findIndex((old, k) => !used.has(k) && match(old, k));
+      if (found < 0) return;
+      used.add(found);
+      result[index] = found;
+    };
+
+  next.forEach((item, index) => {
+    claim(index, (old) => isDeepEqual(old, item));
+  });
+  next.forEach((item, index) => {
+    const identity = itemIdentity(item);
+    if (result[index] !== undefined || identity === undefined) return;
+    claim(index, (old) => itemIdentity(old) === identity);
+  });
+  // Plain values changed in place, e.g. one rule of a priority list
+  next.forEach((item, index) => {
+    if (result[index] !== undefined || itemIdentity(item) !== undefined) return;
+    claim(index, (old, k) => k === index && itemIdentity(old) === undefined);
+  });
+  return result;
+}
+
+// ============================================================================
+// JSONC
+// ============================================================================
+
+const JSONC_OPTIONS: ParseOptions = { allowTrailingComma: true };
+
+// Syntax tree of JSONC text, which must be valid
+function parseJsonc(text: string): JsoncNode {
+  const errors: ParseError[] = [],
+    root = parseTree(text, errors, JSONC_OPTIONS),
+    [error] = errors;
+  if (root && !error) return root;
+  // Text holding no value at all has no tree but always an error
+  const offset = error?.offset ?? 0,
+    before = text.slice(0, offset);
+  throw new SyntaxError(
+    `${printParseErrorCode(error?.error ?? ParseErrorCode.ValueExpected)} at line ${before.split("\n").length}, column ${offset - before.lastIndexOf("\n")}`,
+  );
+}
+
+// Like JSON.parse, "__proto__" is an own key and the last of duplicate keys wins
+function jsoncValue(node: JsoncNode): unknown {
+  switch (node.type) {
+    case "object":
+      return Object.fromEntries(
+        (node.children ?? []).flatMap(({ children: [key, value] = [] }) =>
+          key && value ? [[key.value, jsoncValue(value)]] : [],
+        ),
+      );
+    case "array":
+      return (node.children ?? []).map(jsoncValue);
+    default:
+      return node.value;
+  }
+}
+
+function jsoncNodeAt(text: string, path: JSONPath): JsoncNode | undefined {
+  const root = parseTree(text, [], JSONC_OPTIONS);
+  return root && findNodeAtLocation(root, path);
+}
+
+function lineIndent(text: string, pos: number): string {
+  const lineStart = text.lastIndexOf("\n", pos - 1) + 1;
+  return /^[ \t]*/.exec(text.slice(lineStart))?.[0] ?? "";
+}
+
+function indentJson(value: unknown, unit: string, indent: string): string {
+  return JSON.stringify(value, null, unit).split("\n").join(`\n${indent}`);
+}
+
+function inlineJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(inlineJson).join(", ")}]`;
+  if (isRecord(value)) {
+    const members = Object.entries(value).map(
+      ([key, member]) => `${JSON.stringify(key)}: ${inlineJson(member)}`,
+    );
+    return members.length > 0 ? `{ ${members.join(", ")} }` : "{}";
+  }
+  return JSON.stringify(value);
+}
+
+// Where the entry at `index` of a container starts, and the comma ending the
+// entry before it (-1 if none). The entry starts at the end of the previous
+// entry's line, so the comments above it go with it while a comment ending
+// that line stays there. `index` may be the number of entries, for the space
+// before the closing bracket.
+function entryBounds(
+  text: string,
+  container: JsoncNode,
+  index: number,
+): { start: number; comma: number } {
+  const children = container.children ?? [],
+    previous = children[index - 1],
+    from = previous ? previous.offset + previous.length : container.offset + 1,
+    to = children[index]?.offset ?? container.offset + container.length - 1,
+    scanner = createScanner(text.slice(from, to));
+  let start = from,
+    comma = -1;
+  for (
+    let token = scanner.scan();
+    token !== SyntaxKind.EOF;
+    token = scanner.scan()
+  ) {
+    if (token === SyntaxKind.LineBreakTrivia) {
+      return { start: from + scanner.getTokenOffset(), comma };
+    }
+    if (token === SyntaxKind.CommaToken) {
+      comma = from + scanner.getTokenOffset();
+      start = comma + 1;
+    }
+  }
+  return { start, comma };
+}
+
+// jsonc-parser's own removals and insertions take the comment above the next
+// entry along and reformat the entries around them, so entries are added and
+// dropped here with their comments
+function removeJsoncEntry(
+  text: string,
+  container: JsoncNode,
+  index: number,
+): string {
+  const children = container.children ?? [],
+    child = children[index],
+    following = children[index + 1];
+  if (!child) return text;
+  if (children.length === 1) {
+    return applyEdits(text, [
+      {
+        offset: container.offset + 1,
+        length: container.length - 2,
+        content: "",
+      },
+    ]);
+  }
+
+  const { start, comma } = entryBounds(text, container, index),
+    end = entryBounds(text, container, index + 1),
+    edits: Edit[] = [];
+  if (index === 0 && text[end.start] !== "\n") {
+    // Inline containers keep the space after their opening bracket
+    const spaces = /^[ \t]*/.exec(text.slice(end.start))?.[0] ?? "";
+    edits.push({
+      offset: child.offset,
+      length: end.start + spaces.length - child.offset,
+      content: "",
+    });
+  } else {
+    edits.push({ offset: start, length: end.start - start, content: "" });
+    // The entry before the last one keeps its comma only as a trailing comma
+    if (!following && end.comma < 0 && comma >= 0) {
+      edits.push({ offset: comma, length: 1, content: "" });
+    }
+  }
+  return applyEdits(text, edits);
+}
+
+// Adds an entry at `index` of a container. `entry` gives its text for the
+// indent of its first line, or on one line when there is none.
+function insertJsoncEntry(
+  text: string,
+  container: JsoncNode,
+  index: number,
+  entry: (indent?: string) => string,
+  unit: string,
+): string {
+  const children = container.children ?? [],
+    indent = lineIndent(text, container.offset),
+    inline = !text
+      .slice(container.offset, container.offset + container.length)
+      .includes("\n"),
+    ownLine = children.find((child) =>
+      /^[ \t]*$/.test(
+        text.slice(text.lastIndexOf("\n", child.offset - 1) + 1, child.offset),
+      ),
+    ),
+    childIndent = ownLine
+      ? lineIndent(text, ownLine.offset)
+      : `${indent}${unit}`,
+    insert = (offset: number, content: string) =>
+      applyEdits(text, [{ offset, length: 0, content }]);
+
+  if (inline && children.length === 0) {
+    // Filling an empty container spreads it over lines
+    return applyEdits(text, [
+      {
+        offset: container.offset + 1,
+        length: container.length - 2,
+        content: `\n${childIndent}${entry(childIndent)}\n${indent}`,
+      },
+    ]);
+  }
+  const { start, comma } = entryBounds(text, container, index),
+    onLines = text[start] === "\n",
+    child = children[index];
+  if (child) {
+    return onLines
+      ? insert(start, `\n${childIndent}${entry(childIndent)},`)
+      : insert(child.offset, `${entry()}, `);
+  }
+  const last = children.at(-1),
+    // A comma after a line comment would be commented out
+    edits: Edit[] =
+      last && comma < 0
+        ? [{ offset: last.offset + last.length, length: 0, content: "," }]
+        : [];
+  edits.push({
+    offset: start,
+    length: 0,
+    content: onLines
+      ? `\n${childIndent}${entry(childIndent)}${comma >= 0 ? "," : ""}`
+      : `${last ? " " : ""}${entry()}${comma >= 0 ? "," : ""}`,
+  });
+  return applyEdits(text, edits);
+}
+
+// Old indices of the items that can stay where they are: the longest run of
+// kept items already in their new order
+function itemsInPlace(aligned: Array<number | undefined>): Set<number> {
+  const runs: number[][] = [],
+    longer = (a: number[], b: number[]) => (b.length > a.length ? b : a);
+  for (const old of aligned) {
+    if (old === undefined) continue;
+    const before = runs
+      .filter((run) => (run.at(-1) ?? -1) < old)
+      .reduce(longer, []);
+    runs.push([...before, old]);
+  }
+  return new Set(runs.reduce(longer, []));
+}
+
+function updateJsoncObject(
+  text: string,
+  path: JSONPath,
+  prev: Record<string, unknown>,
+  next: Record<string, unknown>,
+  unit: string,
+): string {
+  const keyAt = (node: JsoncNode | undefined, index: number) =>
+      node?.children?.[index]?.children?.[0]?.value as string | undefined,
+    count = jsoncNodeAt(text, path)?.children?.length ?? 0;
+  // Later duplicates of a key override the earlier ones, which are dropped
+  for (let index = count - 1; index >= 0; index--) {
+    const node = jsoncNodeAt(text, path),
+      key = keyAt(node, index),
+      later = node?.children
+        ?.slice(index + 1)
+        .some((_, offset) => keyAt(node, index + 1 + offset) === key);
+    if (node && (key === undefined || !Object.hasOwn(next, key) || later)) {
+      text = removeJsoncEntry(text, node, index);
+    }
+  }
+  for (const [key, value] of Object.entries(next)) {
+    if (Object.hasOwn(prev, key)) {
+      text = updateJsoncNode(text, [...path, key], prev[key], value, unit);
+    }
+  }
+  // New keys go after the key preceding them in the new value
+  let position = 0;
+  for (const [key, value] of Object.entries(next)) {
+    const node = jsoncNodeAt(text, path),
+      index = (node?.children ?? []).findIndex(
+        (_, child) => keyAt(node, child) === key,
+      );
+    if (index >= 0) {
+      position = index + 1;
+    } else if (node) {
+      text = insertJsoncEntry(
+        text,
+        node,
+        position++,
+        (indent) =>
+          `${JSON.stringify(key)}: ${indent === undefined ? inlineJson(value) : indentJson(value, unit, indent)}`,
+        unit,
+      );
+    }
+  }
+  return text;
+}
+
+function updateJsoncArray(
+  text: string,
+  path: JSONPath,
+  prev: unknown[],
+  next: unknown[],
+  unit: string,
+): string {
+  const aligned = alignItems(prev, next);
+  aligned.forEach((old, index) => {
+    if (old !== undefined) {
+      text = updateJsoncNode(
+        text,
+        [...path, old],
+        prev[old],
+        next[index],
+        unit,
+      );
+    }
+  });
+
+  // Moved items are taken out with the comments above them and put back
+  const inPlace = itemsInPlace(aligned),
+    node = jsoncNodeAt(text, path),
+    moved = new Map<number, string>();
+  aligned.forEach((old) => {
+    const child = old === undefined ? undefined : node?.children?.[old];
+    if (old === undefined || !node || !child || inPlace.has(old)) return;
+    const { start } = entryBounds(text, node, old);
+    moved.set(old, text.slice(start, child.offset + child.length).trimStart());
+  });
+  for (let old = prev.length - 1; old >= 0; old--) {
+    const current = jsoncNodeAt(text, path);
+    if (current && !inPlace.has(old)) {
+      text = removeJsoncEntry(text, current, old);
+    }
+  }
+  next.forEach((value, index) => {
+    const old = aligned[index],
+      current = jsoncNodeAt(text, path),
+      raw = old === undefined ? undefined : moved.get(old);
+    if (!current || (old !== undefined && inPlace.has(old))) return;
+    text = insertJsoncEntry(
+      text,
+      current,
+      index,
+      (indent) =>
+        raw ??
+        (indent === undefined
+          ? inlineJson(value)
+          : indentJson(value, unit, indent)),
+      unit,
+    );
+  });
+  return text;
+}
+
+function updateJsoncNode(
+  text: string,
+  path: JSONPath,
+  prev: unknown,
+  next: unknown,
+  unit: string,
+): string {
+  if (isDeepEqual(prev, next)) return text;
+  const node = jsoncNodeAt(text, path);
+  if (node?.type === "object" && isRecord(prev) && isRecord(next)) {
+    return updateJsoncObject(text, path, prev, next, unit);
+  }
+  if (node?.type === "array" && Array.isArray(prev) && Array.isArray(next)) {
+    return updateJsoncArray(text, path, prev, next, unit);
+  }
+  return applyEdits(
+    text,
+    modify(text, path, next, {
+      formattingOptions: {
+        insertSpaces: !unit.includes("\t"),
+        tabSize: unit.length,
+        eol: "\n",
+      },
+    }),
+  );
+}
+
+// ============================================================================
+// YAML
+// ============================================================================
+
+function yamlKey(key: unknown): string {
+  return String(isScalar(key) ? key.value : key);
+}
+
+function updateYamlNode(
+  doc: Document,
+  node: unknown,
+  prev: unknown,
+  next: unknown,
+): unknown {
+  if (node !== null && node !== undefined && isDeepEqual(prev, next)) {
+    return node;
+  }
+  if (isMap(node) && isRecord(prev) && isRecord(next)) {
+    node.items = node.items.filter((pair) =>
+      Object.hasOwn(next, yamlKey(pair.key)),
+    );
+    // New keys go after the key preceding them in the new value
+    let position = 0;
+    for (const [key, value] of Object.entries(next)) {
+      const index = node.items.findIndex((item) => yamlKey(item.key) === key),
+        pair = node.items[index];
+      if (pair) {
+        pair.value = updateYamlNode(doc, pair.value, prev[key], value);
+        position = index + 1;
+      } else {
+        const created = doc.createPair(key, value),
+          first = node.items[0]?.key;
+        // A comment heading the file stays at its top
+        if (
+          position === 0 &&
+          node === doc.contents &&
+          isNode(first) &&
+          first.commentBefore &&
+          isNode(created.key)
+        ) {
+          created.key.commentBefore = first.commentBefore;
+          first.commentBefore = null;
+        }
+        node.items.splice(position++, 0, created);
+      }
+    }
+    return node;
+  }
+  if (isSeq(node) && Array.isArray(prev) && Array.isArray(next)) {
+    const items = node.items;
+    node.items = alignItems(prev, next).map((old, index) =>
+      old === undefined
+        ? doc.createNode(next[index])
+        : updateYamlNode(doc, items[old], prev[old], next[index]),
+    );
+    return node;
+  }
+  if (isScalar(node) && typeof node.value === typeof next) {
+    node.value = next;
+    return node;
+  }
+  const created = doc.createNode(next);
+  if (isNode(node)) {
+    // Comments belong to the key, whatever its new value
+    if (node.commentBefore) created.commentBefore = node.commentBefore;
+    if (node.comment) created.comment = node.comment;
+  }
+  return created;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Parses the text of a config file.
+ * @throws SyntaxError when the text is not valid in its format.
+ */
+export function parseConfigText(text: string, format: ConfigFormat): unknown {
+  switch (format) {
+    case "jsonc":
+      return jsoncValue(parseJsonc(text));
+    case "yaml": {
+      const doc = parseDocument(text),
+        [error] = doc.errors;
+      if (error) throw new SyntaxError(error.message);
+      // A file holding only comments is an empty config
+      return doc.toJS() ?? {};
+    }
+    default:
+      return JSON.parse(text);
+  }
+}
+
+/**
+ * Serializes a config object as the content of a new file.
+ */
+export function stringifyConfig(
+  raw: Record<string, unknown>,
+  format: ConfigFormat,
+): string {
+  return format === "yaml"
+    ? stringifyYaml(raw)
+    : `${JSON.stringify(raw, null, 2)}\n`;
+}
+
+/**
+ * Rewrites the text of a config file so it holds `next`. JSONC and YAML files
+ * keep the comments and layout of everything that did not change; an edited
+ * mapping keeps its comments even when it moves. Strict JSON is reformatted.
+ * @throws SyntaxError when the current text is not valid in its format.
+ */
+export function updateConfigText(
+  text: string,
+  format: ConfigFormat,
+  next: Record<string, unknown>,
+): string {
+  switch (format) {
+    case "jsonc": {
+      const unit = /\n([ \t]+)\S/.exec(text)?.[1] ?? "  ";
+      return updateJsoncNode(
+        text,
+        [],
+        jsoncValue(parseJsonc(text)),
+        next,
+        unit,
+      );
+    }
+    case "yaml": {
+      const doc = parseDocument(text),
+        [error] = doc.errors;
+      if (error) throw new SyntaxError(error.message);
+      doc.contents = updateYamlNode(
+        doc,
+        doc.contents,
+        doc.toJS(),
+        next,
+      ) as typeof doc.contents;
+      return doc.toString();
+    }
+    default:
+      return stringifyConfig(next, format);
+  }
+}
@@ -0,0 +1,510 @@
+import {
+  ALL_PROVIDERS,
+  CONFIG_VERSION,
+  type CommandProviderSettings,
+  type ConfigProfile,
+  type CustomProviderSettings,
+  type DebugLogConfig,
+  type FailureBackoffConfig,
+  type FallbackConfig,
+  type HotReloadConfig,
+  type LockServerConfig,
+  type MappingEntry,
+  type MappingSchedule,
+  type MinimaxSettings,
+  type ModelMappingTarget,
+  type ModelSelectorConfig,
+  type PriorityRule,
+  type ProviderSettings,
+  type UsageCacheConfig,
+  type UsageCachePolicy,
+  type UsageMappingKey,
+  WEEKDAYS,
+  type WidgetConfig,
+} from "./types.js";
+
+/**
+ * The subset of JSON Schema (draft-07) used to describe model-selector.json.
+ * `patternErrorMessage` is the VS Code extension keyword shown when a pattern
+ * does not match.
+ */
+export interface ConfigSchema {
+  type?: "string" | "number" | "integer" | "boolean" | "object" | "array";
+  description?: string;
+  properties?: Record<string, ConfigSchema>;
+  additionalProperties?: boolean | ConfigSchema;
+  required?: string[];
+  items?: ConfigSchema;
+  enum?: readonly string[];
+  examples?: readonly string[];
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  minItems?: number;
+  minLength?: number;
+  pattern?: string;
+  patternErrorMessage?: string;
+  format?: "regex";
+}
+
+/**
+ * One schema violation in a config file.
+ */
+export interface ConfigSchemaProblem {
+  /** JSON pointer (RFC 6901) to the offending value, `""` for the root. */
+  pointer: string;
+  message: string;
+}
+
+// Keyed by every field of T, so the schema fails to compile when the config
+// types gain or lose a field
+type SchemaProperties<T> = { [K in keyof Required<T>]: ConfigSchema };
+
+function objectSchema<T>(
+  description: string,
+  properties: SchemaProperties<T>,
+  required: Array<keyof T & string> = [],
+): ConfigSchema {
+  return {
+    type: "object",
+    description,
+    properties,
+    additionalProperties: false,
+    ...(required.length > 0 ? { required } : {}),
+  };
+}
+
+const STRING: ConfigSchema = { type: "string" },
+  NON_EMPTY_STRING: ConfigSchema = { type: "string", minLength: 1 },
+  BOOLEAN: ConfigSchema = { type: "boolean" },
+  HTTP_URL: ConfigSchema = {
+    type: "string",
+    pattern: "^https?://[^/]",
+    patternErrorMessage: "must be an http:// or https:// URL",
+  },
+  JSON_PATH: ConfigSchema = {
+    type: "string",
+    pattern: "^\\s*\\$",
+    patternErrorMessage: 'must be a JSON path starting with "$"',
+  };
+
+const PRIORITY_RULES: readonly PriorityRule[] = [
+  "fullAvailability",
+  "remainingPercent",
+  "earliestReset",
+  "pacing",
+];
+
+const MAPPING_SCHEMA = objectSchema<MappingEntry>(
+  "Connects a usage bucket to a model, ignores it, or combines it with others.",
+  {
+    usage: objectSchema<UsageMappingKey>(
+      "Usage bucket the mapping applies to.",
+      {
+        provider: { ...STRING, description: "Usage provider name." },
+        account: { ...STRING, description: "Provider account." },
+        window: { ...STRING, description: "Exact usage window label." },
+        windowPattern: {
+          ...STRING,
+          format: "regex",
+          description: "Regular expression matched against window labels.",
+        },
+      },
+      ["provider"],
+    ),
+    model: objectSchema<ModelMappingTarget>(
+      "Pi model selected when the bucket wins.",
+      {
+        provider: STRING,
+        id: STRING,
+        concurrency: {
+          type: "integer",
+          minimum: 1,
+          description: "Pi instances that may hold this model's lock at once.",
+        },
+      },
+      ["provider", "id"],
+    ),
+    ignore: { ...BOOLEAN, description: "Never select this bucket." },
+    combine: {
+      ...STRING,
+      description: "Name of a synthetic bucket merging the matched windows.",
+    },
+    reserve: {
+      type: "integer",
+      minimum: 0,
+      maximum: 99,
+      description: "Remaining percentage to keep in reserve.",
+    },
+    schedule: objectSchema<MappingSchedule>(
+      "Times the bucket may be selected; outside them it is skipped.",
+      {
+        hours: {
+          type: "string",
+          pattern:
+            "^([01]\\d|2[0-3]):[0-5]\\d\\s*-\\s*(([01]\\d|2[0-3]):[0-5]\\d|24:00)$",
+          patternErrorMessage: 'must be "HH:MM-HH:MM", e.g. "09:00-18:00"',
+          description:
+            "Daily hours; an end before the start runs past midnight.",
+        },
+        weekdays: {
+          type: "array",
+          minItems: 1,
+          items: { type: "string", enum: WEEKDAYS },
+          description: "Days the hours start on (default: every day).",
+        },
+        timezone: {
+          ...NON_EMPTY_STRING,
+          description:
+            'IANA timezone the hours are read in, e.g. "Europe/Berlin" (default: the system timezone).',
+        },
+      },
+    ),
+  },
+  ["usage"],
+);
+
+const CACHE_POLICY_PROPERTIES: SchemaProperties<UsageCachePolicy> = {
+  ttlSeconds: { type: "number", minimum: 0 },
+  staleSeconds: { type: "number", minimum: 0 },
+};
+
+const CUSTOM_PROVIDER_SCHEMA = objectSchema<CustomProviderSettings>(
+  "HTTP quota endpoint for a provider without a built-in fetcher.",
+  {
+    name: NON_EMPTY_STRING,
+    displayName: STRING,
+    url: HTTP_URL,
+    headers: { type: "object", additionalProperties: STRING },
+    windows: JSON_PATH,
+    label: NON_EMPTY_STRING,
+    usedPercent: JSON_PATH,
+    used: JSON_PATH,
+    limit: JSON_PATH,
+    resetsAt: JSON_PATH,
+  },
+  ["name", "url"],
+);
+
+const COMMAND_PROVIDER_SCHEMA = objectSchema<CommandProviderSettings>(
+  "Command printing usage for a provider without a built-in fetcher.",
+  {
+    name: NON_EMPTY_STRING,
+    displayName: STRING,
+    command: NON_EMPTY_STRING,
+    args: { type: "array", items: STRING },
+    timeoutMs: { type: "number", exclusiveMinimum: 0 },
+  },
+  ["name", "command"],
+);
+
+// Shared with the top level, which profiles override field by field
+const PROFILE_PROPERTIES: SchemaProperties<ConfigProfile> = {
+  mappings: { type: "array", items: MAPPING_SCHEMA },
+  priority: {
+    type: "array",
+    minItems: 1,
+    items: { type: "string", enum: PRIORITY_RULES },
+    description: "Ranking rules applied in order.",
+  },
+  fallback: objectSchema<FallbackConfig>(
+    "Model selected when every mapped bucket is exhausted.",
+    { provider: NON_EMPTY_STRING, id: NON_EMPTY_STRING, lock: BOOLEAN },
+    ["provider", "id"],
+  ),
+  disabledProviders: {
+    type: "array",
+    // Custom, command and registered providers are only known once the config
+    // loads, so /model-select-validate reports unknown names instead
+    items: { ...NON_EMPTY_STRING, examples: ALL_PROVIDERS },
+    description:
+      "Providers whose usage is never fetched: built-in, custom, command or registered ones.",
+  },
+};
+
+const CONFIG_PROPERTIES: SchemaProperties<ModelSelectorConfig> = {
+  mappings: PROFILE_PROPERTIES.mappings,
+  priority: PROFILE_PROPERTIES.priority,
+  widget: objectSchema<WidgetConfig>("Usage widget display.", {
+    enabled: BOOLEAN,
+    placement: { type: "string", enum: ["aboveEditor", "belowEditor"] },
+    showCount: { type: "integer", minimum: 1 },
+  }),
+  autoRun: {
+    ...BOOLEAN,
+    description: "Re-run selection after every agent turn.",
+  },
+  enableModelLocking: {
+    ...BOOLEAN,
+    description: "Coordinate models across Pi instances.",
+  },
+  fallback: PROFILE_PROPERTIES.fallback,
+  preserveDefaultModel: {
+    ...BOOLEAN,
+    description: "Leave Pi's default model setting untouched.",
+  },
+  usageCache: objectSchema<UsageCacheConfig>(
+    "Usage fetch cache shared across Pi instances.",
+    {
+      ...CACHE_POLICY_PROPERTIES,
+      enabled: BOOLEAN,
+      providers: {
+        type: "object",
+        additionalProperties: objectSchema<UsageCachePolicy>(
+          "Cache lifetimes for one usage provider.",
+          CACHE_POLICY_PROPERTIES,
+        ),
+      },
+    },
+  ),
+  failureBackoff: objectSchema<FailureBackoffConfig>(
+    "Pause for providers whose usage fetches keep failing.",
+    {
+      enabled: BOOLEAN,
+      baseSeconds: { type: "number", exclusiveMinimum: 0 },
+      maxSeconds: { type: "number", exclusiveMinimum: 0 },
+    },
+  ),
+  lockConcurrency: {
+    type: "object",
+    description: "Lock slots per provider/model key or provider name.",
+    additionalProperties: { type: "integer", minimum: 1 },
+  },
+  lockServer: objectSchema<LockServerConfig>(
+    "Lock server shared by instances on several machines.",
+    {
+      url: HTTP_URL,
+      token: NON_EMPTY_STRING,
+      listen: {
+        type: "string",
+        pattern: "^(?:(?:\\[[^\\]]+\\]|[^:]+):)?\\d{1,5}$",
+        patternErrorMessage: 'must be "port" or "host:port"',
+      },
+    },
+  ),
+  hotReload: objectSchema<HotReloadConfig>(
+    "Reloading of the config files when they change on disk.",
+    {
+      enabled: BOOLEAN,
+      reselect: {
+        ...BOOLEAN,
+        description: "Re-run selection after a reload.",
+      },
+    },
+  ),
+  debugLog: objectSchema<DebugLogConfig>("Debug log output.", {
+    enabled: BOOLEAN,
+    path: STRING,
+  }),
+  disabledProviders: PROFILE_PROPERTIES.disabledProviders,
+  providerSettings: objectSchema<ProviderSettings>(
+    "Settings consumed by usage fetchers.",
+    {
+      minimax: objectSchema<MinimaxSettings>("Minimax account.", {
+        groupId: STRING,
+      }),
+      custom: {
+        type: "array",
+        items: CUSTOM_PROVIDER_SCHEMA,
+        description:
+          "Usage endpoints. Only read from the global config, since they can send environment variables.",
+      },
+      commands: {
+        type: "array",
+        items: COMMAND_PROVIDER_SCHEMA,
+        description:
+          "Usage commands. Only read from the global config, since they run programs.",
+      },
+    },
+  ),
+  extends: {
+    type: "array",
+    description:
+      "Config files merged beneath this one, in order. Relative paths resolve against this file; a * in the file name matches every file of that directory.",
+    items: NON_EMPTY_STRING,
+  },
+  version: {
+    type: "integer",
+    minimum: 1,
+    maximum: CONFIG_VERSION,
+    description:
+      "Config format version. Files without one are version 1; older files are migrated on load.",
+  },
+  profiles: {
+    type: "object",
+    description:
+      "Named strategies switched with /model-profile. Names may contain letters, digits, _ and -.",
+    additionalProperties: objectSchema<ConfigProfile>(
+      "Settings replacing the base config while the profile is active.",
+      PROFILE_PROPERTIES,
+    ),
+  },
+};
+
+/**
+ * JSON Schema for model-selector.json, published as
+ * `config/model-selector.schema.json`.
+ */
+export const MODEL_SELECTOR_CONFIG_SCHEMA: ConfigSchema & {
+  $schema: string;
+  title: string;
+} = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  title: "pi-model-selector configuration",
+  type: "object",
+  properties: {
+    $schema: { ...STRING, description: "Schema reference for editors." },
+    ...CONFIG_PROPERTIES,
+  },
+  additionalProperties: false,
+};
+
+function escapePointerToken(token: string): string {
+  return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function typeOf(value: unknown): NonNullable<ConfigSchema["type"]> | "null" {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value as "string" | "boolean" | "object";
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length] ?? 0;
+}
+
+function suggestKey(key: string, known: string[]): string | undefined {
+  const lower = key.toLowerCase();
+  return known.find(
+    (candidate) => editDistance(lower, candidate.toLowerCase()) <= 2,
+  );
+}
+
+/**
+ * Checks a parsed config value against a schema and returns every violation,
+ * including keys the schema does not know. Nothing stops at the first problem.
+ */
+export function validateAgainstSchema(
+  value: unknown,
+  schema: ConfigSchema = MODEL_SELECTOR_CONFIG_SCHEMA,
+  pointer = "",
+): ConfigSchemaProblem[] {
+  const problems: ConfigSchemaProblem[] = [],
+    report = (message: string, at = pointer) =>
+      problems.push({ pointer: at, message });
+
+  if (schema.type) {
+    const actual = typeOf(value),
+      matches =
+        actual === schema.type ||
+        (schema.type === "number" && actual === "integer");
+    if (!matches) {
+      const article = /^[aeiou]/.test(schema.type) ? "an" : "a";
+      report(`must be ${article} ${schema.type} (got ${actual})`);
+      return problems;
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.enum && !schema.enum.includes(value)) {
+      report(
+        `must be one of ${schema.enum.map((item) => JSON.stringify(item)).join(", ")} (got ${JSON.stringify(value)})`,
+      );
+    }
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      report("must not be empty");
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      report(schema.patternErrorMessage ?? `must match /${schema.pattern}/`);
+    }
+    if (schema.format === "regex") {
+      try {
+        new RegExp(value);
+      } catch (error) {
+        report(
+          `is not a valid regular expression: ${String(error instanceof Error ? error.message : error).replace(/^Invalid regular expression: \/.*\/\w*: /, "")}`,
+        );
+      }
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      report(`must be >= ${schema.minimum} (got ${value})`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      report(`must be <= ${schema.maximum} (got ${value})`);
+    }
+    if (
+      schema.exclusiveMinimum !== undefined &&
+      value <= schema.exclusiveMinimum
+    ) {
+      report(`must be > ${schema.exclusiveMinimum} (got ${value})`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      report(`must have at least ${schema.minItems} item(s)`);
+    }
+    const { items } = schema;
+    if (items) {
+      value.forEach((item, index) => {
+        problems.push(
+          ...validateAgainstSchema(item, items, `${pointer}/${index}`),
+        );
+      });
+    }
+  } else if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>,
+      properties = schema.properties ?? {},
+      known = Object.keys(properties);
+    for (const key of schema.required ?? []) {
+      if (!Object.hasOwn(record, key)) {
+        report("is required", `${pointer}/${escapePointerToken(key)}`);
+      }
+    }
+    for (const [key, child] of Object.entries(record)) {
+      const childPointer = `${pointer}/${escapePointerToken(key)}`,
+        childSchema = properties[key];
+      if (childSchema) {
+        problems.push(
+          ...validateAgainstSchema(child, childSchema, childPointer),
+        );
+      } else if (schema.additionalProperties === false) {
+        const suggestion = suggestKey(key, known);
+        report(
+          suggestion
+            ? `is not a known key (did you mean "${suggestion}"?)`
+            : "is not a known key",
+          childPointer,
+        );
+      } else if (typeof schema.additionalProperties === "object") {
+        problems.push(
+          ...validateAgainstSchema(
+            child,
+            schema.additionalProperties,
+            childPointer,
+          ),
+        );
+      }
+    }
+  }
+
+  return problems;
+}
@@ -0,0 +1,235 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import {
+  getGlobalConfigPath,
+  getProjectConfigPath,
+  loadConfig,
+} from "./config.js";
+import { CONFIG_FILE_NAMES } from "./config-format.js";
+import type { LoadedConfig } from "./types.js";
+import { notify, writeDebugLog } from "./types.js";
+
+const DEFAULT_POLL_INTERVAL_MS = 1_000,
+  DEFAULT_DEBOUNCE_MS = 200;
+
+// Every name the global or project config file may have, so switching to
+// another format is picked up as well
+function withOtherFormats(files: string[]): string[] {
+  return files
+    .filter(Boolean)
+    .flatMap((file) =>
+      CONFIG_FILE_NAMES.includes(path.basename(file))
+        ? CONFIG_FILE_NAMES.map((name) => path.join(path.dirname(file), name))
+        : [file],
+    );
+}
+
+// Files whose changes affect a loaded config
+function configPaths(config: LoadedConfig): string[] {
+  return [
+    ...withOtherFormats([
+      config.sources.globalPath,
+      config.sources.projectPath,
+    ]),
+    ...(config.sources.includes ?? []),
+    // Picks up files added to or removed from drop-in directories
+    ...(config.sources.includeDirs ?? []),
+  ];
+}
+
+/**
+ * Options for {@link ConfigWatcher}.
+ */
+export interface ConfigWatcherOptions {
+  /** Called after a changed config was loaded and validated. */
+  onReload?: (ctx: ExtensionContext, config: LoadedConfig) => Promise<void>;
+  /** How often the config files are checked for changes (default: 1s). */
+  intervalMs?: number;
+  /** Quiet time before a change is reloaded, so saves settle (default: 200ms). */
+  debounceMs?: number;
+}
+
+/**
+ * Keeps the last valid config of a project in memory and reloads it when the
+ * global or project config file, or a file they extend, changes. The files are polled rather than
+ * watched for events, so files that are replaced on save or created later are
+ * picked up as well.
+ */
+export class ConfigWatcher {
+  private readonly onReload: ConfigWatcherOptions["onReload"];
+  private readonly intervalMs: number;
+  private readonly debounceMs: number;
+  private ctx: ExtensionContext | null = null;
+  private cached: LoadedConfig | null = null;
+  private watchedPaths: string[] = [];
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private lastRejection = "";
+  private reloading: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a watcher that is idle until {@link ConfigWatcher.start}.
+   */
+  constructor(options: ConfigWatcherOptions = {}) {
+    this.onReload = options.onReload;
+    this.intervalMs = options.intervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  }
+
+  private readonly onFileChange = (): void => {
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.reloading = this.reloading
+        .then(() => this.reload())
+        .catch((err: unknown) => {
+          writeDebugLog(`Config reload failed: ${String(err)}`);
+        });
+    }, this.debounceMs);
+  };
+
+  /**
+   * Loads the config for the context's project and watches its files while
+   * `hotReload.enabled` is on. Any previous watch is stopped first.
+   * @returns The loaded config, or null if it is invalid.
+   */
+  async start(ctx: ExtensionContext): Promise<LoadedConfig | null> {
+    this.stop();
+    this.ctx = ctx;
+    const config = await loadConfig(ctx, {
+      requireMappings: false,
+      seedGlobal: false,
+    });
+    if (config && !config.hotReload?.enabled) return config;
+
+    // An invalid config is watched too, so fixing it takes effect
+    this.watch(
+      config
+        ? configPaths(config)
+        : withOtherFormats([
+            await getGlobalConfigPath(),
+            getProjectConfigPath(ctx.cwd),
+          ]),
+    );
+    if (this.watchedPaths.length > 0) this.cached = config;
+    return config;
+  }
+
+  // Watches exactly the given paths, keeping watches that are still needed
+  private watch(paths: string[]): void {
+    const next = [...new Set(paths.filter(Boolean))];
+    for (const filePath of this.watchedPaths) {
+      if (!next.includes(filePath)) {
+        fs.unwatchFile(filePath, this.onFileChange);
+      }
+    }
+    for (const filePath of next) {
+      if (!this.watchedPaths.includes(filePath)) {
+        fs.watchFile(
+          filePath,
+          { interval: this.intervalMs, persistent: false },
+          this.onFileChange,
+        );
+      }
+    }
+    this.watchedPaths = next;
+  }
+
+  /**
+   * Stops watching and drops the cached config.
+   */
+  stop(): void {
+    for (const filePath of this.watchedPaths) {
+      fs.unwatchFile(filePath, this.onFileChange);
+    }
+    this.watchedPaths = [];
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.cached = null;
+    this.lastRejection = "";
+  }
+
+  /**
+   * Drops the cached config, so the next {@link ConfigWatcher.load} reads the
+   * files again. Used after changes the watcher cannot see, such as switching
+   * profiles.
+   */
+  invalidate(): void {
+    this.cached = null;
+  }
+
+  /**
+   * Returns the cached config while the context's project is watched, and
+   * otherwise loads it with `loadConfig`. A cached config without mappings is
+   * loaded again when mappings are required, so the usual error is reported.
+   * The cache is also bypassed while the global file it was loaded without is
+   * still missing and seeding is wanted, so the global file gets seeded.
+   */
+  async load(
+    ctx: ExtensionContext,
+    options: { requireMappings?: boolean; seedGlobal?: boolean } = {},
+  ): Promise<LoadedConfig | null> {
+    const watching = this.watchedPaths.length > 0 && ctx.cwd === this.ctx?.cwd;
+    if (
+      watching &&
+      this.cached &&
+      (options.requireMappings === false || this.cached.mappings.length > 0) &&
+      (options.seedGlobal === false ||
+        fs.existsSync(this.cached.sources.globalPath))
+    ) {
+      return this.cached;
+    }
+    const config = await loadConfig(ctx, options);
+    if (watching && config) this.cached = config;
+    return config;
+  }
+
+  /**
+   * Waits for pending reloads to finish.
+   */
+  async flush(): Promise<void> {
+    await this.reloading;
+  }
+
+  private async reload(): Promise<void> {
+    const ctx = this.ctx;
+    if (!ctx || this.watchedPaths.length === 0) return;
+
+    const errors: string[] = [],
+      config = await loadConfig(ctx, {
+        requireMappings: false,
+        seedGlobal: false,
+        // Rewriting a file that was just saved would race the editor
+        saveMigrations: false,
+        errors,
+      });
+    if (!config) {
+      const rejection = errors.join("\n");
+      // Editors save several times while a change is being made
+      if (rejection !== this.lastRejection) {
+        this.lastRejection = rejection;
+        notify(
+          ctx,
+          "error",
+          `Config change not applied; the last valid config stays in use:\n${rejection}`,
+        );
+      }
+      return;
+    }
+
+    this.lastRejection = "";
+    this.cached = config;
+    writeDebugLog(
+      `Config reloaded from ${config.sources.globalPath} and ${config.sources.projectPath}`,
+    );
+    if (config.hotReload?.enabled) {
+      // The files extended may have changed as well
+      this.watch(configPaths(config));
+    } else {
+      this.stop();
+    }
+    await this.onReload?.(ctx, config);
+  }
+}
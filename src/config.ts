@@ -3,48 +3,97 @@ import * as os from "node:os";
 import * as path from "node:path";
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
 import { EXTENSION_DIR, isOmp } from "./adapter.js";
-
+import {
+  CONFIG_FILE_NAMES,
+  getConfigFormat,
+  parseConfigText,
+  stringifyConfig,
+  updateConfigText,
+} from "./config-format.js";
+import { getKnownProviderNames } from "./fetcher-registry.js";
+import { parseListenAddress } from "./model-lock-server.js";
+import {
+  BASE_PROFILE_ARG,
+  loadActiveProfile,
+  PROFILE_ENV_VAR,
+  PROFILE_NAME_PATTERN,
+} from "./profiles.js";
+import { isValidTimezone, parseScheduleHours } from "./schedule.js";
 import type {
+  CommandProviderSettings,
+  ConfigProfile,
+  ConfigValueKey,
+  ConfigValueSource,
+  CustomProviderSettings,
+  FailureBackoffConfig,
   FallbackConfig,
+  HotReloadConfig,
   LoadedConfig,
+  LockServerConfig,
   MappingEntry,
+  MappingSchedule,
   MinimaxSettings,
   PriorityRule,
   ProviderSettings,
+  UsageCacheConfig,
+  UsageCachePolicy,
+  Weekday,
   WidgetConfig,
 } from "./types.js";
 import {
   ALL_PROVIDERS,
+  CONFIG_VERSION,
   DEFAULT_DISABLED_PROVIDERS,
+  DEFAULT_FAILURE_BACKOFF_CONFIG,
+  DEFAULT_HOT_RELOAD_CONFIG,
   DEFAULT_MAPPINGS,
   DEFAULT_PRIORITY,
+  DEFAULT_USAGE_CACHE_CONFIG,
   DEFAULT_WIDGET_CONFIG,
   mappingKey,
   notify,
-  type ProviderName,
+  WEEKDAYS,
+  writeDebugLog,
 } from "./types.js";
 
-// We'll determine the config path dynamically
-let cachedGlobalConfigPath: string | null = null;
+// We'll determine the config directory dynamically
+let cachedGlobalConfigDir: string | null = null;
+
+// Command provider names already reported as clashing with a custom provider
+const reportedCommandClashes = new Set<string>();
+// Project files already reported as needing a migration
+const reportedProjectMigrations = new Set<string>();
 
-function findGlobalConfigPath(): string {
-  if (cachedGlobalConfigPath) return cachedGlobalConfigPath;
+function findGlobalConfigDir(): string {
+  if (cachedGlobalConfigDir) return cachedGlobalConfigDir;
 
   // The global config is now stored in the user's home directory
   // to avoid conflicts with the extension source or project files.
-  cachedGlobalConfigPath = path.join(
-    os.homedir(),
-    EXTENSION_DIR,
-    "model-selector.json",
+  cachedGlobalConfigDir = path.join(os.homedir(), EXTENSION_DIR);
+  return cachedGlobalConfigDir;
+}
+
+// The first config file name present in a directory, or the JSON one
+function findConfigFile(dir: string): string {
+  return (
+    CONFIG_FILE_NAMES.map((name) => path.join(dir, name)).find((file) =>
+      fs.existsSync(file),
+    ) ?? path.join(dir, "model-selector.json")
   );
-  return cachedGlobalConfigPath;
 }
 
 /**
  * Resolves the path to the global configuration file.
  */
 export function getGlobalConfigPath(): Promise<string> {
-  return Promise.resolve(findGlobalConfigPath());
+  return Promise.resolve(findConfigFile(findGlobalConfigDir()));
+}
+
+/**
+ * Resolves the path to a project's configuration file.
+ */
+export function getProjectConfigPath(cwd: string): string {
+  return findConfigFile(path.join(cwd, EXTENSION_DIR));
 }
 
 // ============================================================================
@@ -52,7 +101,8 @@ export function getGlobalConfigPath(): Promise<string> {
 // ============================================================================
 
 /**
- * Reads and parses a JSON configuration file from disk.
+ * Reads and parses a configuration file from disk, as JSON, JSONC or YAML
+ * depending on its extension.
  */
 export async function readConfigFile(
   filePath: string,
@@ -71,10 +121,13 @@ export async function readConfigFile(
     return null;
   }
   try {
-    const raw = await fs.promises.readFile(filePath, "utf-8"),
-      parsed: unknown = JSON.parse(raw);
+    const format = getConfigFormat(filePath),
+      raw = await fs.promises.readFile(filePath, "utf-8"),
+      parsed = parseConfigText(raw, format);
     if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
-      errors.push(`Failed to read ${filePath}: expected a JSON object`);
+      errors.push(
+        `Failed to read ${filePath}: expected a ${format === "yaml" ? "YAML mapping" : "JSON object"}`,
+      );
       return null;
     }
     return parsed as Record<string, unknown>;
@@ -85,20 +138,33 @@ export async function readConfigFile(
 }
 
 /**
- * Saves a configuration object to disk as formatted JSON.
+ * Saves a configuration object to disk in the format of its extension. An
+ * existing JSONC or YAML file keeps its comments and layout where the values
+ * did not change.
+ * @throws SyntaxError when the existing file cannot be parsed.
  */
 export async function saveConfigFile(
   filePath: string,
   raw: Record<string, unknown>,
 ): Promise<void> {
+  const format = getConfigFormat(filePath);
+  let content = stringifyConfig(raw, format);
+  if (format !== "json") {
+    try {
+      content = updateConfigText(
+        await fs.promises.readFile(filePath, "utf-8"),
+        format,
+        raw,
+      );
+    } catch (err) {
+      if ((err as { code?: string }).code !== "ENOENT") throw err;
+    }
+  }
+
   await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
   const tempPath = `${filePath}.tmp.${Date.now()}.${process.pid}.${Math.random().toString(36).slice(2)}`;
   try {
-    await fs.promises.writeFile(
-      tempPath,
-      `${JSON.stringify(raw, null, 2)}\n`,
-      "utf-8",
-    );
+    await fs.promises.writeFile(tempPath, content, "utf-8");
     await fs.promises.rename(tempPath, filePath);
   } catch (error) {
     try {
@@ -126,6 +192,12 @@ function asConfigShape(raw: Record<string, unknown>): {
   disabledProviders?: unknown;
   providerSettings?: unknown;
   preserveDefaultModel?: unknown;
+  usageCache?: unknown;
+  failureBackoff?: unknown;
+  lockConcurrency?: unknown;
+  lockServer?: unknown;
+  profiles?: unknown;
+  hotReload?: unknown;
 } {
   const shape: {
     mappings?: unknown[];
@@ -138,6 +210,12 @@ function asConfigShape(raw: Record<string, unknown>): {
     disabledProviders?: unknown;
     providerSettings?: unknown;
     preserveDefaultModel?: unknown;
+    usageCache?: unknown;
+    failureBackoff?: unknown;
+    lockConcurrency?: unknown;
+    lockServer?: unknown;
+    profiles?: unknown;
+    hotReload?: unknown;
   } = {};
 
   if (Array.isArray(raw.mappings)) {
@@ -170,6 +248,24 @@ function asConfigShape(raw: Record<string, unknown>): {
   if (raw.providerSettings && typeof raw.providerSettings === "object") {
     shape.providerSettings = raw.providerSettings;
   }
+  if (Object.hasOwn(raw, "usageCache")) {
+    shape.usageCache = raw.usageCache;
+  }
+  if (Object.hasOwn(raw, "failureBackoff")) {
+    shape.failureBackoff = raw.failureBackoff;
+  }
+  if (Object.hasOwn(raw, "lockConcurrency")) {
+    shape.lockConcurrency = raw.lockConcurrency;
+  }
+  if (Object.hasOwn(raw, "lockServer")) {
+    shape.lockServer = raw.lockServer;
+  }
+  if (Object.hasOwn(raw, "profiles")) {
+    shape.profiles = raw.profiles;
+  }
+  if (Object.hasOwn(raw, "hotReload")) {
+    shape.hotReload = raw.hotReload;
+  }
 
   return shape;
 }
@@ -189,19 +285,200 @@ function normalizeDebugLog(
   return { enabled, path: String(logPath) };
 }
 
+// Files keep every name, since a provider may be registered after the config
+// loads. With `known`, other names are dropped and reported
 function normalizeDisabledProviders(
   raw: ReturnType<typeof asConfigShape>,
-): ProviderName[] {
+  known?: Set<string>,
+  sourceLabel?: string,
+  errors?: string[],
+): string[] {
   if (!raw.disabledProviders || !Array.isArray(raw.disabledProviders))
     return [];
-  const validProviders = new Set<string>(ALL_PROVIDERS);
-  return raw.disabledProviders.filter(
-    (p): p is ProviderName => typeof p === "string" && validProviders.has(p),
-  );
+  return raw.disabledProviders.filter((p): p is string => {
+    if (typeof p !== "string") return false;
+    if (!known || known.has(p.toLowerCase())) return true;
+    errors?.push(
+      `[${sourceLabel}] disabledProviders contains unknown provider: ${p}`,
+    );
+    return false;
+  });
+}
+
+const CUSTOM_PROVIDER_PATH_FIELDS = [
+  "windows",
+  "label",
+  "usedPercent",
+  "used",
+  "limit",
+  "resetsAt",
+] as const;
+
+function normalizeCustomProviders(
+  raw: unknown,
+  sourceLabel: string,
+  errors: string[],
+): CustomProviderSettings[] {
+  if (!Array.isArray(raw)) {
+    errors.push(`[${sourceLabel}] providerSettings.custom must be an array`);
+    return [];
+  }
+
+  const builtInProviders = new Set<string>(ALL_PROVIDERS),
+    result: CustomProviderSettings[] = [];
+
+  for (const [index, item] of raw.entries()) {
+    const label = `[${sourceLabel}] providerSettings.custom[${index}]`;
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      errors.push(`${label} must be an object`);
+      continue;
+    }
+    const entry = item as Record<string, unknown>;
+
+    if (typeof entry.name !== "string" || !entry.name.trim()) {
+      errors.push(`${label}.name must be a non-empty string`);
+      continue;
+    }
+    const name = entry.name.trim();
+    if (builtInProviders.has(name)) {
+      errors.push(`${label}.name "${name}" conflicts with a built-in provider`);
+      continue;
+    }
+    if (typeof entry.url !== "string" || !/^https?:\/\//.test(entry.url)) {
+      errors.push(`${label}.url must be an http(s) URL`);
+      continue;
+    }
+
+    const custom: CustomProviderSettings = { name, url: entry.url };
+    if (entry.displayName !== undefined) {
+      if (typeof entry.displayName !== "string") {
+        errors.push(`${label}.displayName must be a string`);
+        continue;
+      }
+      custom.displayName = entry.displayName;
+    }
+    if (entry.headers !== undefined) {
+      if (
+        !entry.headers ||
+        typeof entry.headers !== "object" ||
+        Array.isArray(entry.headers) ||
+        Object.values(entry.headers).some((v) => typeof v !== "string")
+      ) {
+        errors.push(`${label}.headers must map header names to strings`);
+        continue;
+      }
+      custom.headers = { ...(entry.headers as Record<string, string>) };
+    }
+
+    let valid = true;
+    for (const field of CUSTOM_PROVIDER_PATH_FIELDS) {
+      const value = entry[field];
+      if (value === undefined) continue;
+      if (typeof value !== "string" || !value.trim()) {
+        errors.push(`${label}.${field} must be a non-empty string`);
+        valid = false;
+        continue;
+      }
+      // The label may be a literal; every other field must be a JSON path
+      if (field !== "label" && !value.trim().startsWith("$")) {
+        errors.push(`${label}.${field} must be a JSON path starting with "$"`);
+        valid = false;
+        continue;
+      }
+      custom[field] = value;
+    }
+    if (!valid) continue;
+
+    if (!custom.usedPercent && !(custom.used && custom.limit)) {
+      errors.push(`${label} must define usedPercent or both used and limit`);
+      continue;
+    }
+
+    result.push(custom);
+  }
+
+  return result;
+}
+
+function normalizeCommandProviders(
+  raw: unknown,
+  sourceLabel: string,
+  errors: string[],
+): CommandProviderSettings[] {
+  if (!Array.isArray(raw)) {
+    errors.push(`[${sourceLabel}] providerSettings.commands must be an array`);
+    return [];
+  }
+
+  const builtInProviders = new Set<string>(ALL_PROVIDERS),
+    result: CommandProviderSettings[] = [];
+
+  for (const [index, item] of raw.entries()) {
+    const label = `[${sourceLabel}] providerSettings.commands[${index}]`;
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      errors.push(`${label} must be an object`);
+      continue;
+    }
+    const entry = item as Record<string, unknown>;
+
+    if (typeof entry.name !== "string" || !entry.name.trim()) {
+      errors.push(`${label}.name must be a non-empty string`);
+      continue;
+    }
+    const name = entry.name.trim();
+    if (builtInProviders.has(name)) {
+      errors.push(`${label}.name "${name}" conflicts with a built-in provider`);
+      continue;
+    }
+    if (typeof entry.command !== "string" || !entry.command.trim()) {
+      errors.push(`${label}.command must be a non-empty string`);
+      continue;
+    }
+
+    const command: CommandProviderSettings = {
+      name,
+      command: entry.command.trim(),
+    };
+    if (entry.displayName !== undefined) {
+      if (typeof entry.displayName !== "string") {
+        errors.push(`${label}.displayName must be a string`);
+        continue;
+      }
+      command.displayName = entry.displayName;
+    }
+    if (entry.args !== undefined) {
+      if (
+        !Array.isArray(entry.args) ||
+        entry.args.some((arg) => typeof arg !== "string")
+      ) {
+        errors.push(`${label}.args must be an array of strings`);
+        continue;
+      }
+      command.args = [...(entry.args as string[])];
+    }
+    if (entry.timeoutMs !== undefined) {
+      if (
+        typeof entry.timeoutMs !== "number" ||
+        !Number.isFinite(entry.timeoutMs) ||
+        entry.timeoutMs <= 0
+      ) {
+        errors.push(`${label}.timeoutMs must be a positive number`);
+        continue;
+      }
+      command.timeoutMs = entry.timeoutMs;
+    }
+
+    result.push(command);
+  }
+
+  return result;
 }
 
 function normalizeProviderSettings(
   raw: ReturnType<typeof asConfigShape>,
+  sourceLabel: string,
+  errors: string[],
+  scope?: "global" | "project",
 ): ProviderSettings {
   if (!raw.providerSettings || typeof raw.providerSettings !== "object") {
     return {};
@@ -221,9 +498,52 @@ function normalizeProviderSettings(
     result.minimax = minimaxSettings;
   }
 
+  // A cloned repository must not be able to run programs, or send environment
+  // variables to a host of its choosing, on every selection
+  if (scope === "project") {
+    for (const [key, reason] of [
+      ["custom", "it can send environment variables to any host"],
+      ["commands", "it runs programs"],
+    ] as const) {
+      if (settings[key] === undefined) continue;
+      errors.push(
+        `[${sourceLabel}] providerSettings.${key} is only read from the global config and ${CONFIG_ENV_VARS.providerSettings.name}, since ${reason}`,
+      );
+    }
+    return result;
+  }
+
+  if (settings.custom !== undefined) {
+    result.custom = normalizeCustomProviders(
+      settings.custom,
+      sourceLabel,
+      errors,
+    );
+  }
+
+  if (settings.commands !== undefined) {
+    result.commands = normalizeCommandProviders(
+      settings.commands,
+      sourceLabel,
+      errors,
+    );
+  }
+
   return result;
 }
 
+function mergeNamedProviders<T extends { name: string }>(
+  globalEntries: T[] = [],
+  projectEntries: T[] = [],
+): T[] {
+  // Later layers replace earlier declarations with the same name
+  const merged = new Map<string, T>();
+  for (const entry of [...globalEntries, ...projectEntries]) {
+    merged.set(entry.name, entry);
+  }
+  return [...merged.values()];
+}
+
 function normalizePriority(
   raw: ReturnType<typeof asConfigShape>,
   sourceLabel: string,
@@ -239,6 +559,7 @@ function normalizePriority(
       "fullAvailability",
       "remainingPercent",
       "earliestReset",
+      "pacing",
     ]),
     priority: PriorityRule[] = [];
 
@@ -369,6 +690,224 @@ function normalizeFallback(
   };
 }
 
+function normalizeCachePolicy(
+  raw: Record<string, unknown>,
+  label: string,
+  errors: string[],
+): UsageCachePolicy {
+  const result: UsageCachePolicy = {};
+  for (const field of ["ttlSeconds", "staleSeconds"] as const) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      errors.push(`${label}.${field} must be a non-negative number`);
+      continue;
+    }
+    result[field] = value;
+  }
+  return result;
+}
+
+function normalizeUsageCache(
+  raw: ReturnType<typeof asConfigShape>,
+  sourceLabel: string,
+  errors: string[],
+): UsageCacheConfig | undefined {
+  if (raw.usageCache === undefined) return undefined;
+  const label = `[${sourceLabel}] usageCache`;
+  if (
+    !raw.usageCache ||
+    typeof raw.usageCache !== "object" ||
+    Array.isArray(raw.usageCache)
+  ) {
+    errors.push(`${label} must be an object`);
+    return undefined;
+  }
+
+  const usageCache = raw.usageCache as Record<string, unknown>,
+    result: UsageCacheConfig = normalizeCachePolicy(usageCache, label, errors);
+
+  if (usageCache.enabled !== undefined) {
+    if (typeof usageCache.enabled !== "boolean") {
+      errors.push(`${label}.enabled must be a boolean`);
+    } else {
+      result.enabled = usageCache.enabled;
+    }
+  }
+
+  if (usageCache.providers !== undefined) {
+    const providers = usageCache.providers;
+    if (
+      !providers ||
+      typeof providers !== "object" ||
+      Array.isArray(providers)
+    ) {
+      errors.push(`${label}.providers must map provider names to objects`);
+    } else {
+      result.providers = {};
+      for (const [provider, policy] of Object.entries(providers)) {
+        if (!policy || typeof policy !== "object" || Array.isArray(policy)) {
+          errors.push(`${label}.providers.${provider} must be an object`);
+          continue;
+        }
+        result.providers[provider] = normalizeCachePolicy(
+          policy as Record<string, unknown>,
+          `${label}.providers.${provider}`,
+          errors,
+        );
+      }
+    }
+  }
+
+  return result;
+}
+
+function normalizeFailureBackoff(
+  raw: ReturnType<typeof asConfigShape>,
+  sourceLabel: string,
+  errors: string[],
+): FailureBackoffConfig | undefined {
+  if (raw.failureBackoff === undefined) return undefined;
+  const label = `[${sourceLabel}] failureBackoff`;
+  if (
+    !raw.failureBackoff ||
+    typeof raw.failureBackoff !== "object" ||
+    Array.isArray(raw.failureBackoff)
+  ) {
+    errors.push(`${label} must be an object`);
+    return undefined;
+  }
+
+  const backoff = raw.failureBackoff as Record<string, unknown>,
+    result: FailureBackoffConfig = {};
+  if (backoff.enabled !== undefined) {
+    if (typeof backoff.enabled !== "boolean") {
+      errors.push(`${label}.enabled must be a boolean`);
+    } else {
+      result.enabled = backoff.enabled;
+    }
+  }
+  for (const field of ["baseSeconds", "maxSeconds"] as const) {
+    const value = backoff[field];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+      errors.push(`${label}.${field} must be a positive number`);
+      continue;
+    }
+    result[field] = value;
+  }
+  return result;
+}
+
+function isLockSlotCount(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1;
+}
+
+function normalizeLockConcurrency(
+  raw: ReturnType<typeof asConfigShape>,
+  sourceLabel: string,
+  errors: string[],
+): Record<string, number> {
+  if (raw.lockConcurrency === undefined) return {};
+  const label = `[${sourceLabel}] lockConcurrency`;
+  if (
+    !raw.lockConcurrency ||
+    typeof raw.lockConcurrency !== "object" ||
+    Array.isArray(raw.lockConcurrency)
+  ) {
+    errors.push(`${label} must be an object`);
+    return {};
+  }
+
+  const result: Record<string, number> = {};
+  for (const [key, value] of Object.entries(raw.lockConcurrency)) {
+    if (!isLockSlotCount(value)) {
+      errors.push(`${label}["${key}"] must be a positive integer`);
+      continue;
+    }
+    result[key] = value;
+  }
+  return result;
+}
+
+function normalizeLockServer(
+  raw: ReturnType<typeof asConfigShape>,
+  sourceLabel: string,
+  errors: string[],
+): LockServerConfig {
+  if (raw.lockServer === undefined) return {};
+  const label = `[${sourceLabel}] lockServer`;
+  if (
+    !raw.lockServer ||
+    typeof raw.lockServer !== "object" ||
+    Array.isArray(raw.lockServer)
+  ) {
+    errors.push(`${label} must be an object`);
+    return {};
+  }
+
+  const server = raw.lockServer as Record<string, unknown>,
+    result: LockServerConfig = {};
+  if (server.url !== undefined) {
+    if (
+      typeof server.url !== "string" ||
+      !/^https?:\/\/[^/]/.test(server.url)
+    ) {
+      errors.push(`${label}.url must be an http:// or https:// URL`);
+    } else {
+      result.url = server.url;
+    }
+  }
+  if (server.token !== undefined) {
+    if (typeof server.token !== "string" || server.token.trim() === "") {
+      errors.push(`${label}.token must be a non-empty string`);
+    } else {
+      result.token = server.token;
+    }
+  }
+  if (server.listen !== undefined) {
+    if (
+      typeof server.listen !== "string" ||
+      parseListenAddress(server.listen) === undefined
+    ) {
+      errors.push(`${label}.listen must be "port" or "host:port"`);
+    } else {
+      result.listen = server.listen;
+    }
+  }
+  return result;
+}
+
+function normalizeHotReload(
+  raw: ReturnType<typeof asConfigShape>,
+  sourceLabel: string,
+  errors: string[],
+): HotReloadConfig {
+  if (raw.hotReload === undefined) return {};
+  const label = `[${sourceLabel}] hotReload`;
+  if (
+    !raw.hotReload ||
+    typeof raw.hotReload !== "object" ||
+    Array.isArray(raw.hotReload)
+  ) {
+    errors.push(`${label} must be an object`);
+    return {};
+  }
+
+  const hotReload = raw.hotReload as Record<string, unknown>,
+    result: HotReloadConfig = {};
+  for (const field of ["enabled", "reselect"] as const) {
+    const value = hotReload[field];
+    if (value === undefined) continue;
+    if (typeof value !== "boolean") {
+      errors.push(`${label}.${field} must be a boolean`);
+      continue;
+    }
+    result[field] = value;
+  }
+  return result;
+}
+
 interface RawMappingItem {
   usage?: {
     provider?: unknown;
@@ -379,10 +918,59 @@ interface RawMappingItem {
   model?: {
     provider?: unknown;
     id?: unknown;
+    concurrency?: unknown;
   };
   ignore?: unknown;
   combine?: unknown;
   reserve?: unknown;
+  schedule?: unknown;
+}
+
+function normalizeMappingSchedule(
+  raw: unknown,
+  sourceLabel: string,
+  entry: string,
+  errors: string[],
+): MappingSchedule | null {
+  if (!isRawObject(raw)) {
+    errors.push(`[${sourceLabel}] ${entry}.schedule must be an object`);
+    return null;
+  }
+  const schedule: MappingSchedule = {};
+  if (raw.hours !== undefined) {
+    if (typeof raw.hours !== "string" || !parseScheduleHours(raw.hours)) {
+      errors.push(
+        `[${sourceLabel}] ${entry}.schedule.hours must be "HH:MM-HH:MM" with different start and end times (got ${JSON.stringify(raw.hours)})`,
+      );
+      return null;
+    }
+    schedule.hours = raw.hours.trim();
+  }
+  if (raw.weekdays !== undefined) {
+    if (
+      !Array.isArray(raw.weekdays) ||
+      raw.weekdays.length === 0 ||
+      !raw.weekdays.every(
+        (day) => typeof day === "string" && WEEKDAYS.includes(day as Weekday),
+      )
+    ) {
+      errors.push(
+        `[${sourceLabel}] ${entry}.schedule.weekdays must be a non-empty list of ${WEEKDAYS.join(", ")} (got ${JSON.stringify(raw.weekdays)})`,
+      );
+      return null;
+    }
+    schedule.weekdays = raw.weekdays as Weekday[];
+  }
+  if (raw.timezone !== undefined) {
+    if (typeof raw.timezone !== "string" || !isValidTimezone(raw.timezone)) {
+      errors.push(
+        `[${sourceLabel}] ${entry}.schedule.timezone must be an IANA timezone such as "Europe/Berlin" (got ${JSON.stringify(raw.timezone)})`,
+      );
+      return null;
+    }
+    schedule.timezone = raw.timezone;
+  }
+  return schedule;
 }
 
 function normalizeMappings(
@@ -393,18 +981,20 @@ function normalizeMappings(
   if (!raw.mappings) return [];
 
   const mappings: MappingEntry[] = [];
-  for (const rawItem of raw.mappings) {
-    const item = rawItem as RawMappingItem;
+  for (const [index, rawItem] of raw.mappings.entries()) {
+    // Messages name the entry, e.g. `mappings[3].reserve`, so validation can point at it
+    const item = rawItem as RawMappingItem,
+      entry = `mappings[${index}]`;
     if (!item || typeof item !== "object" || !item.usage) {
       errors.push(
-        `[${sourceLabel}] invalid mapping entry: ${JSON.stringify(item)}`,
+        `[${sourceLabel}] ${entry} is not a valid mapping entry: ${JSON.stringify(item)}`,
       );
       continue;
     }
 
     const { usage } = item;
     if (typeof usage.provider !== "string") {
-      errors.push(`[${sourceLabel}] mapping.usage.provider must be a string`);
+      errors.push(`[${sourceLabel}] ${entry}.usage.provider must be a string`);
       continue;
     }
 
@@ -416,7 +1006,7 @@ function normalizeMappings(
         new RegExp(usage.windowPattern);
       } catch {
         errors.push(
-          `[${sourceLabel}] invalid windowPattern "${usage.windowPattern}"`,
+          `[${sourceLabel}] ${entry}.usage.windowPattern is not a valid regular expression (got "${usage.windowPattern}")`,
         );
         continue;
       }
@@ -432,7 +1022,7 @@ function normalizeMappings(
 
     if ((ignore && model) || (ignore && combine) || (model && combine)) {
       errors.push(
-        `[${sourceLabel}] invalid mapping entry: "model", "ignore: true", and "combine" are mutually exclusive`,
+        `[${sourceLabel}] ${entry}: "model", "ignore: true", and "combine" are mutually exclusive`,
       );
       continue;
     }
@@ -442,31 +1032,49 @@ function normalizeMappings(
     if (item.reserve !== undefined) {
       if (typeof item.reserve !== "number") {
         errors.push(
-          `[${sourceLabel}] mapping.reserve must be a number if provided`,
+          `[${sourceLabel}] ${entry}.reserve must be a number if provided`,
         );
         continue;
       }
       if (!Number.isInteger(item.reserve)) {
         errors.push(
-          `[${sourceLabel}] mapping.reserve must be an integer (got ${item.reserve})`,
+          `[${sourceLabel}] ${entry}.reserve must be an integer (got ${item.reserve})`,
         );
         continue;
       }
       if (item.reserve < 0 || item.reserve >= 100) {
         errors.push(
-          `[${sourceLabel}] mapping.reserve must be >= 0 and < 100 (got ${item.reserve})`,
+          `[${sourceLabel}] ${entry}.reserve must be >= 0 and < 100 (got ${item.reserve})`,
         );
         continue;
       }
       if (!model) {
         errors.push(
-          `[${sourceLabel}] mapping.reserve is only valid on mappings with a model target`,
+          `[${sourceLabel}] ${entry}.reserve is only valid on mappings with a model target`,
         );
         continue;
       }
       reserve = item.reserve;
     }
 
+    let schedule: MappingSchedule | undefined;
+    if (item.schedule !== undefined) {
+      const normalizedSchedule = normalizeMappingSchedule(
+        item.schedule,
+        sourceLabel,
+        entry,
+        errors,
+      );
+      if (!normalizedSchedule) continue;
+      if (!model) {
+        errors.push(
+          `[${sourceLabel}] ${entry}.schedule is only valid on mappings with a model target`,
+        );
+        continue;
+      }
+      schedule = normalizedSchedule;
+    }
+
     if (!model && !ignore && !combine) {
       continue; // Skip entries without model, ignore, or combine
     }
@@ -476,7 +1084,16 @@ function normalizeMappings(
       (typeof model.provider !== "string" || typeof model.id !== "string")
     ) {
       errors.push(
-        `[${sourceLabel}] mapping.model must have provider and id strings`,
+        `[${sourceLabel}] ${entry}.model must have provider and id strings`,
+      );
+      continue;
+    }
+    if (
+      model?.concurrency !== undefined &&
+      !isLockSlotCount(model.concurrency)
+    ) {
+      errors.push(
+        `[${sourceLabel}] ${entry}.model.concurrency must be a positive integer (got ${JSON.stringify(model.concurrency)})`,
       );
       continue;
     }
@@ -505,6 +1122,9 @@ function normalizeMappings(
         provider: model.provider as string,
         id: model.id as string,
       };
+      if (model.concurrency !== undefined) {
+        normalizedMapping.model.concurrency = model.concurrency as number;
+      }
     }
     if (combine !== undefined) {
       normalizedMapping.combine = combine;
@@ -512,6 +1132,9 @@ function normalizeMappings(
     if (reserve !== undefined) {
       normalizedMapping.reserve = reserve;
     }
+    if (schedule !== undefined) {
+      normalizedMapping.schedule = schedule;
+    }
 
     mappings.push(normalizedMapping);
   }
@@ -533,6 +1156,138 @@ function mergeMappings(
   return Array.from(merged.values());
 }
 
+function normalizeProfiles(
+  raw: ReturnType<typeof asConfigShape>,
+  sourceLabel: string,
+  errors: string[],
+): Record<string, ConfigProfile> {
+  const profiles: Record<string, ConfigProfile> = {};
+  if (raw.profiles === undefined) return profiles;
+  if (
+    !raw.profiles ||
+    typeof raw.profiles !== "object" ||
+    Array.isArray(raw.profiles)
+  ) {
+    errors.push(`[${sourceLabel}] profiles must be an object`);
+    return profiles;
+  }
+
+  const prefix = `[${sourceLabel}] `;
+  for (const [name, value] of Object.entries(raw.profiles)) {
+    if (!PROFILE_NAME_PATTERN.test(name)) {
+      errors.push(
+        `${prefix}profile name "${name}" may only contain letters, digits, "_" and "-"`,
+      );
+      continue;
+    }
+    if (name === BASE_PROFILE_ARG) {
+      errors.push(
+        `${prefix}profile name "${name}" is reserved for switching back to the base config`,
+      );
+      continue;
+    }
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      errors.push(`${prefix}profiles.${name} must be an object`);
+      continue;
+    }
+
+    const shape = asConfigShape(value as Record<string, unknown>),
+      profileErrors: string[] = [],
+      profile: ConfigProfile = {};
+    if (shape.mappings) {
+      profile.mappings = normalizeMappings(shape, sourceLabel, profileErrors);
+    }
+    const priority = normalizePriority(shape, sourceLabel, profileErrors),
+      fallback = normalizeFallback(shape, sourceLabel, profileErrors);
+    if (priority) profile.priority = priority;
+    if (fallback) profile.fallback = fallback;
+    if (shape.disabledProviders) {
+      profile.disabledProviders = normalizeDisabledProviders(shape);
+    }
+    // Name the profile in messages about its fields
+    for (const error of profileErrors) {
+      errors.push(
+        error.startsWith(prefix)
+          ? `${prefix}profiles.${name}: ${error.slice(prefix.length)}`
+          : error,
+      );
+    }
+    profiles[name] = profile;
+  }
+  return profiles;
+}
+
+function mergeProfiles(
+  globalProfiles: Record<string, ConfigProfile>,
+  projectProfiles: Record<string, ConfigProfile>,
+): Record<string, ConfigProfile> {
+  const merged = { ...globalProfiles };
+  for (const [name, profile] of Object.entries(projectProfiles)) {
+    const base = merged[name];
+    // Same-named profiles merge like the files they come from
+    merged[name] = base
+      ? {
+          ...base,
+          ...profile,
+          ...(base.mappings && profile.mappings
+            ? { mappings: mergeMappings(base.mappings, profile.mappings) }
+            : {}),
+          ...(base.disabledProviders && profile.disabledProviders
+            ? {
+                disabledProviders: [
+                  ...new Set([
+                    ...base.disabledProviders,
+                    ...profile.disabledProviders,
+                  ]),
+                ],
+              }
+            : {}),
+        }
+      : profile;
+  }
+  return merged;
+}
+
+function mergeUsageCacheConfig(
+  globalCache: UsageCacheConfig | undefined,
+  projectCache: UsageCacheConfig | undefined,
+): Required<UsageCacheConfig> {
+  const providers: Record<string, UsageCachePolicy> = {
+    ...(globalCache?.providers ?? {}),
+  };
+  for (const [provider, policy] of Object.entries(
+    projectCache?.providers ?? {},
+  )) {
+    providers[provider] = { ...providers[provider], ...policy };
+  }
+  return {
+    enabled:
+      projectCache?.enabled ??
+      globalCache?.enabled ??
+      DEFAULT_USAGE_CACHE_CONFIG.enabled,
+    ttlSeconds:
+      projectCache?.ttlSeconds ??
+      globalCache?.ttlSeconds ??
+      DEFAULT_USAGE_CACHE_CONFIG.ttlSeconds,
+    staleSeconds:
+      projectCache?.staleSeconds ??
+      globalCache?.staleSeconds ??
+      DEFAULT_USAGE_CACHE_CONFIG.staleSeconds,
+    providers,
+  };
+}
+
+function mergeFailureBackoffConfig(
+  globalBackoff: FailureBackoffConfig | undefined,
+  projectBackoff: FailureBackoffConfig | undefined,
+): Required<FailureBackoffConfig> {
+  return {
+    ...DEFAULT_FAILURE_BACKOFF_CONFIG,
+    ...globalBackoff,
+    ...projectBackoff,
+  };
+}
+
 function mergeWidgetConfig(
   globalWidget: Partial<WidgetConfig> | undefined,
   projectWidget: Partial<WidgetConfig> | undefined,
@@ -553,21 +1308,476 @@ function mergeWidgetConfig(
   };
 }
 
+// ============================================================================
+// Environment Overrides
+// ============================================================================
+
+type EnvValueKind = "json" | "list" | "boolean" | "model";
+
+// Keyed by every config key, so a new key cannot be left without a variable
+const CONFIG_ENV_VARS: Record<
+  ConfigValueKey,
+  { name: string; kind: EnvValueKind }
+> = {
+  mappings: { name: "PI_MODEL_SELECTOR_MAPPINGS", kind: "json" },
+  priority: { name: "PI_MODEL_SELECTOR_PRIORITY", kind: "list" },
+  widget: { name: "PI_MODEL_SELECTOR_WIDGET", kind: "json" },
+  autoRun: { name: "PI_MODEL_SELECTOR_AUTORUN", kind: "boolean" },
+  enableModelLocking: {
+    name: "PI_MODEL_SELECTOR_ENABLE_MODEL_LOCKING",
+    kind: "boolean",
+  },
+  fallback: { name: "PI_MODEL_SELECTOR_FALLBACK", kind: "model" },
+  preserveDefaultModel: {
+    name: "PI_MODEL_SELECTOR_PRESERVE_DEFAULT_MODEL",
+    kind: "boolean",
+  },
+  usageCache: { name: "PI_MODEL_SELECTOR_USAGE_CACHE", kind: "json" },
+  failureBackoff: { name: "PI_MODEL_SELECTOR_FAILURE_BACKOFF", kind: "json" },
+  lockConcurrency: { name: "PI_MODEL_SELECTOR_LOCK_CONCURRENCY", kind: "json" },
+  lockServer: { name: "PI_MODEL_SELECTOR_LOCK_SERVER", kind: "json" },
+  debugLog: { name: "PI_MODEL_SELECTOR_DEBUG_LOG", kind: "json" },
+  disabledProviders: {
+    name: "PI_MODEL_SELECTOR_DISABLED_PROVIDERS",
+    kind: "list",
+  },
+  providerSettings: {
+    name: "PI_MODEL_SELECTOR_PROVIDER_SETTINGS",
+    kind: "json",
+  },
+  profiles: { name: "PI_MODEL_SELECTOR_PROFILES", kind: "json" },
+  hotReload: { name: "PI_MODEL_SELECTOR_HOT_RELOAD", kind: "json" },
+};
+
+const TRUE_WORDS = new Set(["true", "1", "yes", "on"]),
+  FALSE_WORDS = new Set(["false", "0", "no", "off"]);
+
+function parseEnvValue(value: string, kind: EnvValueKind): unknown {
+  const trimmed = value.trim();
+  switch (kind) {
+    case "boolean": {
+      const word = trimmed.toLowerCase();
+      if (TRUE_WORDS.has(word)) return true;
+      if (FALSE_WORDS.has(word)) return false;
+      throw new Error(`must be true or false (got "${trimmed}")`);
+    }
+    case "list":
+      if (trimmed.startsWith("[")) return JSON.parse(trimmed);
+      return trimmed
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean);
+    case "model": {
+      if (trimmed.startsWith("{")) return JSON.parse(trimmed);
+      // Model ids may contain slashes themselves, e.g. openrouter/openai/gpt-5
+      const slash = trimmed.indexOf("/");
+      if (slash <= 0 || slash === trimmed.length - 1) {
+        throw new Error(
+          `must be "provider/id" or a JSON object (got "${trimmed}")`,
+        );
+      }
+      return {
+        provider: trimmed.slice(0, slash),
+        id: trimmed.slice(slash + 1),
+      };
+    }
+    default:
+      return JSON.parse(trimmed);
+  }
+}
+
+function readEnvOverrides(
+  env: NodeJS.ProcessEnv,
+  errors: string[],
+): Record<string, unknown> {
+  const raw: Record<string, unknown> = {};
+  for (const [key, { name, kind }] of Object.entries(CONFIG_ENV_VARS)) {
+    const value = env[name];
+    if (value === undefined || value.trim() === "") continue;
+    try {
+      raw[key] = parseEnvValue(value, kind);
+    } catch (error) {
+      const message =
+        error instanceof SyntaxError
+          ? `must be valid JSON (${error.message})`
+          : error instanceof Error
+            ? error.message
+            : String(error);
+      errors.push(`[${name}] ${key} ${message}`);
+    }
+  }
+  return raw;
+}
+
+// ============================================================================
+// Config Layering
+// ============================================================================
+
+// One config file in merge order, lowest precedence first
+interface ConfigLayer {
+  path: string;
+  raw: Record<string, unknown>;
+  scope: "global" | "project";
+  // Directory relative debug log paths resolve against
+  basePath: string;
+}
+
+function expandHome(filePath: string): string {
+  return filePath === "~" || filePath.startsWith("~/")
+    ? path.join(os.homedir(), filePath.slice(1))
+    : filePath;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Resolves `extends` entries to file paths, expanding `*` file name patterns
+async function resolveExtends(
+  value: unknown,
+  filePath: string,
+  errors: string[],
+  includeDirs: Set<string>,
+): Promise<string[]> {
+  if (
+    !Array.isArray(value) ||
+    !value.every((entry) => typeof entry === "string" && entry.trim())
+  ) {
+    errors.push(`[${filePath}] extends must be an array of file paths`);
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of value as string[]) {
+    const resolved = path.resolve(
+        path.dirname(filePath),
+        expandHome(entry.trim()),
+      ),
+      dir = path.dirname(resolved),
+      name = path.basename(resolved);
+    if (dir.includes("*")) {
+      errors.push(
+        `[${filePath}] extends "${entry}" may only use * in the file name`,
+      );
+      continue;
+    }
+    if (!name.includes("*")) {
+      try {
+        await fs.promises.access(resolved);
+        files.push(resolved);
+      } catch {
+        errors.push(`[${filePath}] extends "${entry}" was not found`);
+      }
+      continue;
+    }
+
+    includeDirs.add(dir);
+    const pattern = new RegExp(
+      `^${name.split("*").map(escapeRegExp).join("[^/]*")}$`,
+    );
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch {
+      // A missing drop-in directory simply contributes nothing
+      continue;
+    }
+    files.push(
+      ...entries
+        .filter((dirent) => dirent.isFile() && pattern.test(dirent.name))
+        .map((dirent) => path.join(dir, dirent.name))
+        .sort(),
+    );
+  }
+  return files;
+}
+
+// Returns the files a config file extends, depth first, followed by the file
+// itself. Each file is merged once, at its first position.
+async function collectConfigLayers(
+  layer: ConfigLayer,
+  errors: string[],
+  seen: Set<string>,
+  includeDirs: Set<string>,
+  chain: string[] = [layer.path],
+): Promise<ConfigLayer[]> {
+  seen.add(layer.path);
+  if (!Object.hasOwn(layer.raw, "extends")) return [layer];
+
+  const layers: ConfigLayer[] = [];
+  for (const included of await resolveExtends(
+    layer.raw.extends,
+    layer.path,
+    errors,
+    includeDirs,
+  )) {
+    if (chain.includes(included)) {
+      errors.push(
+        `[${layer.path}] extends cycle: ${[...chain, included].join(" -> ")}`,
+      );
+      continue;
+    }
+    if (seen.has(included)) continue;
+    const raw = await readConfigFile(included, errors);
+    if (!raw) continue;
+    layers.push(
+      ...(await collectConfigLayers(
+        {
+          path: included,
+          raw,
+          scope: layer.scope,
+          basePath: path.dirname(included),
+        },
+        errors,
+        seen,
+        includeDirs,
+        [...chain, included],
+      )),
+    );
+  }
+  layers.push(layer);
+  return layers;
+}
+
+// Last value a layer defined, if any
+function lastDefined<T>(values: Array<T | undefined>): T | undefined {
+  for (let index = values.length - 1; index >= 0; index--) {
+    if (values[index] !== undefined) return values[index];
+  }
+  return undefined;
+}
+
+// ============================================================================
+// Config Migrations
+// ============================================================================
+
+// Models the built-in mappings used to point at, keyed by provider/id
+const RETIRED_MODEL_IDS = new Map([
+  ["anthropic/claude-3-5-sonnet-latest", "claude-sonnet-4-5"],
+  ["anthropic/claude-3-opus-latest", "claude-opus-4-1"],
+  ["google/gemini-1.5-flash", "gemini-2.5-flash"],
+]);
+
+function isRawObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function removeExamplesBlock(raw: Record<string, unknown>): string | undefined {
+  if (!Object.hasOwn(raw, "examples")) return undefined;
+  delete raw.examples;
+  return 'Removed unused top-level "examples" block.';
+}
+
+// Older releases wrote the global debug log path relative to the home
+// directory instead of the global config directory
+function fixGlobalDebugLogPath(
+  raw: Record<string, unknown>,
+): string | undefined {
+  if (!isRawObject(raw.debugLog) || typeof raw.debugLog.path !== "string") {
+    return undefined;
+  }
+  const originalPath = raw.debugLog.path.trim(),
+    correctedPath = originalPath.replace(
+      new RegExp(`^(?:\\.\\/)?${escapeRegExp(EXTENSION_DIR)}\\/`),
+      "",
+    );
+  if (correctedPath.length === 0 || correctedPath === originalPath) {
+    return undefined;
+  }
+  raw.debugLog.path = correctedPath;
+  return `Fixed global debug log path from "${originalPath}" to "${correctedPath}".`;
+}
+
+function replaceRetiredModelIds(raw: Record<string, unknown>): string[] {
+  const profiles = isRawObject(raw.profiles)
+      ? Object.values(raw.profiles).filter(isRawObject)
+      : [],
+    targets = [raw, ...profiles].flatMap((section) => [
+      ...(Array.isArray(section.mappings)
+        ? section.mappings.filter(isRawObject).map((mapping) => mapping.model)
+        : []),
+      section.fallback,
+    ]),
+    replaced = new Map<string, number>();
+
+  for (const target of targets) {
+    if (
+      !isRawObject(target) ||
+      typeof target.provider !== "string" ||
+      typeof target.id !== "string"
+    ) {
+      continue;
+    }
+    const id = RETIRED_MODEL_IDS.get(`${target.provider}/${target.id}`);
+    if (!id) continue;
+    const change = `"${target.provider}/${target.id}" with "${target.provider}/${id}"`;
+    replaced.set(change, (replaced.get(change) ?? 0) + 1);
+    target.id = id;
+  }
+  return [...replaced].map(
+    ([change, count]) =>
+      `Replaced retired model ${change} (${count} place${count === 1 ? "" : "s"}).`,
+  );
+}
+
+// Steps upgrading a config file to the version they are listed under. Each
+// returns one summary line per change it made.
+const CONFIG_MIGRATIONS: Array<{
+  version: number;
+  migrate: (
+    raw: Record<string, unknown>,
+    scope: "global" | undefined,
+  ) => string[];
+}> = [
+  {
+    version: 2,
+    migrate: (raw, scope) =>
+      [
+        removeExamplesBlock(raw),
+        scope === "global" ? fixGlobalDebugLogPath(raw) : undefined,
+        ...replaceRetiredModelIds(raw),
+      ].filter((line): line is string => line !== undefined),
+  },
+];
+
+/**
+ * The outcome of upgrading a config file with {@link migrateConfigRaw}.
+ */
+export interface ConfigMigrationResult {
+  /** The version the file had; {@link CONFIG_VERSION} when it was current. */
+  fromVersion: number;
+  /** One line per change made, empty when only the version was stamped. */
+  summary: string[];
+}
+
+/**
+ * Upgrades a raw config file in place to {@link CONFIG_VERSION}, running each
+ * migration newer than the file's `version` in turn. Files without a version
+ * are version 1. The debug log path fix only applies to the global config.
+ * @returns Null when the version is invalid or newer than supported, after
+ * pushing the reason to `errors`.
+ */
+export function migrateConfigRaw(
+  raw: Record<string, unknown>,
+  label: string,
+  errors: string[],
+  scope?: "global",
+): ConfigMigrationResult | null {
+  const fromVersion = raw.version ?? 1;
+  if (
+    typeof fromVersion !== "number" ||
+    !Number.isInteger(fromVersion) ||
+    fromVersion < 1
+  ) {
+    errors.push(`[${label}] version must be a positive integer`);
+    return null;
+  }
+  if (fromVersion > CONFIG_VERSION) {
+    errors.push(
+      `[${label}] version ${fromVersion} is newer than the supported version ${CONFIG_VERSION}; update pi-model-selector to load this file`,
+    );
+    return null;
+  }
+  if (fromVersion === CONFIG_VERSION) return { fromVersion, summary: [] };
+
+  const summary = CONFIG_MIGRATIONS.filter(
+    (migration) => migration.version > fromVersion,
+  ).flatMap((migration) => migration.migrate(raw, scope));
+  // The version goes first, after an editor schema reference
+  const { $schema, version: _version, ...rest } = raw;
+  for (const key of Object.keys(raw)) delete raw[key];
+  Object.assign(
+    raw,
+    $schema !== undefined ? { $schema } : {},
+    { version: CONFIG_VERSION },
+    rest,
+  );
+  return { fromVersion, summary };
+}
+
+// Keeps the original next to a migrated file, then saves the upgraded content
+async function saveMigratedConfig(
+  ctx: ExtensionContext,
+  layer: ConfigLayer,
+  migration: ConfigMigrationResult,
+): Promise<void> {
+  const backupPath = `${layer.path}.v${migration.fromVersion}.bak`;
+  try {
+    await fs.promises.copyFile(layer.path, backupPath);
+    await saveConfigFile(layer.path, layer.raw);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    notify(
+      ctx,
+      "error",
+      `Failed to migrate ${layer.path} to config version ${CONFIG_VERSION}: ${message}`,
+    );
+    return;
+  }
+  notify(
+    ctx,
+    "info",
+    [
+      `Migrated ${layer.path} from config version ${migration.fromVersion} to ${CONFIG_VERSION}; the original is saved as ${backupPath}.`,
+      ...migration.summary.map((line) => `- ${line}`),
+    ].join("\n"),
+  );
+}
+
+// Project files are usually committed, so loading never rewrites them. The
+// upgrade is reported once and saved whenever the wizard next writes the file.
+function reportProjectMigration(
+  ctx: ExtensionContext,
+  layer: ConfigLayer,
+  migration: ConfigMigrationResult,
+): void {
+  if (reportedProjectMigrations.has(layer.path)) return;
+  reportedProjectMigrations.add(layer.path);
+  notify(
+    ctx,
+    "info",
+    [
+      `${layer.path} is written for config version ${migration.fromVersion} and is upgraded to ${CONFIG_VERSION} each time it loads. /model-select-config saves the upgrade the next time it writes to the file:`,
+      ...migration.summary.map((line) => `- ${line}`),
+    ].join("\n"),
+  );
+}
+
 // ============================================================================
 // Config Loading
 // ============================================================================
 
 /**
- * Loads and merges the global and project configurations.
+ * Loads and merges the global and project configurations, each preceded by
+ * the files it extends, then applies the project's active profile and the
+ * `PI_MODEL_SELECTOR_*` environment variables on top. Validation errors are
+ * notified, or appended to `options.errors` when it is given. Files written
+ * for an older config version are migrated in memory first. Unless
+ * `options.saveMigrations` is false, a global file the migration changed is
+ * then saved back with a backup, and a changed project file is reported.
  */
 export async function loadConfig(
   ctx: ExtensionContext,
-  options: { requireMappings?: boolean; seedGlobal?: boolean } = {},
+  options: {
+    requireMappings?: boolean;
+    seedGlobal?: boolean;
+    saveMigrations?: boolean;
+    errors?: string[];
+  } = {},
 ): Promise<LoadedConfig | null> {
   const errors: string[] = [],
+    reportErrors = (): null => {
+      if (options.errors) {
+        options.errors.push(...errors);
+      } else {
+        notify(ctx, "error", errors.join("\n"));
+      }
+      return null;
+    },
     requireMappings = options.requireMappings ?? true,
     seedGlobal = options.seedGlobal ?? true,
-    projectPath = path.join(ctx.cwd, EXTENSION_DIR, "model-selector.json"),
+    saveMigrations = options.saveMigrations ?? true,
+    projectPath = getProjectConfigPath(ctx.cwd),
     globalConfigPath = await getGlobalConfigPath();
 
   let globalRaw = await readConfigFile(globalConfigPath, errors),
@@ -578,6 +1788,7 @@ export async function loadConfig(
     // indicates the file was missing.
     shouldSeedGlobal = true;
     globalRaw = {
+      version: CONFIG_VERSION,
       priority: DEFAULT_PRIORITY,
       widget: DEFAULT_WIDGET_CONFIG,
       mappings: DEFAULT_MAPPINGS,
@@ -585,63 +1796,221 @@ export async function loadConfig(
     };
   }
 
-  const projectRaw = (await readConfigFile(projectPath, errors)) ?? {
-    mappings: [],
-  };
+  const projectFileRaw = await readConfigFile(projectPath, errors),
+    projectRaw = projectFileRaw ?? { mappings: [] },
+    envRaw = readEnvOverrides(process.env, errors),
+    seen = new Set<string>([globalConfigPath, projectPath]),
+    includeDirs = new Set<string>(),
+    fileLayers = [
+      ...(await collectConfigLayers(
+        {
+          path: globalConfigPath,
+          raw: globalRaw ?? {},
+          scope: "global",
+          basePath: path.dirname(globalConfigPath),
+        },
+        errors,
+        seen,
+        includeDirs,
+      )),
+      ...(await collectConfigLayers(
+        {
+          path: projectPath,
+          raw: projectFileRaw ?? {},
+          scope: "project",
+          basePath: ctx.cwd,
+        },
+        errors,
+        seen,
+        includeDirs,
+      )),
+    ],
+    migrations: Array<{ layer: ConfigLayer; result: ConfigMigrationResult }> =
+      [];
+
+  // Older files are upgraded before they are read. Only the global and
+  // project files are saved or reported; extended files may be shared with
+  // others. A migration that just stamps the version is not worth a write.
+  for (const layer of fileLayers) {
+    const result = migrateConfigRaw(
+      layer.raw,
+      layer.path,
+      errors,
+      layer.path === globalConfigPath ? "global" : undefined,
+    );
+    if (
+      result &&
+      result.summary.length > 0 &&
+      ((layer.path === globalConfigPath && !shouldSeedGlobal) ||
+        (layer.path === projectPath && projectFileRaw !== null))
+    ) {
+      migrations.push({ layer, result });
+    }
+  }
 
   if (errors.length > 0) {
-    notify(ctx, "error", errors.join("\n"));
-    return null;
+    return reportErrors();
   }
 
-  const globalConfig = asConfigShape(globalRaw ?? {}),
-    projectConfig = asConfigShape(projectRaw),
-    globalMappings = normalizeMappings(globalConfig, globalConfigPath, errors),
-    projectMappings = normalizeMappings(projectConfig, projectPath, errors),
-    globalPriority = normalizePriority(globalConfig, globalConfigPath, errors),
-    projectPriority = normalizePriority(projectConfig, projectPath, errors),
-    globalWidget = normalizeWidget(globalConfig),
-    projectWidget = normalizeWidget(projectConfig),
-    globalAutoRun = normalizeAutoRun(globalConfig),
-    projectAutoRun = normalizeAutoRun(projectConfig),
-    globalEnableModelLocking = normalizeEnableModelLocking(
-      globalConfig,
-      globalConfigPath,
+  const layers = fileLayers.map((layer) => ({
+      ...layer,
+      shape: asConfigShape(layer.raw),
+    })),
+    envConfig = asConfigShape(envRaw),
+    envLabel = (key: ConfigValueKey): string => CONFIG_ENV_VARS[key].name,
+    fileMappings = layers
+      .map((layer) => normalizeMappings(layer.shape, layer.path, errors))
+      .reduce<MappingEntry[]>(mergeMappings, []),
+    filePriority = lastDefined(
+      layers.map((layer) => normalizePriority(layer.shape, layer.path, errors)),
+    ),
+    fileWidget = layers.reduce<Required<WidgetConfig>>(
+      (widget, layer) =>
+        mergeWidgetConfig(widget, normalizeWidget(layer.shape)),
+      DEFAULT_WIDGET_CONFIG,
+    ),
+    fileAutoRun = lastDefined(
+      layers.map((layer) => normalizeAutoRun(layer.shape)),
+    ),
+    fileEnableModelLocking = lastDefined(
+      layers.map((layer) =>
+        normalizeEnableModelLocking(layer.shape, layer.path, errors),
+      ),
+    ),
+    filePreserveDefaultModel = lastDefined(
+      layers.map((layer) =>
+        normalizePreserveDefaultModel(layer.shape, layer.path, errors),
+      ),
+    ),
+    fileFallback = lastDefined(
+      layers.map((layer) => normalizeFallback(layer.shape, layer.path, errors)),
+    ),
+    debugLayer = [...layers].reverse().find((layer) => layer.shape.debugLog),
+    fileDisabled = [
+      ...new Set(
+        layers.flatMap((layer) => normalizeDisabledProviders(layer.shape)),
+      ),
+    ],
+    fileProviderSettings = layers.map((layer) =>
+      normalizeProviderSettings(layer.shape, layer.path, errors, layer.scope),
+    ),
+    fileUsageCache = layers.reduce<Required<UsageCacheConfig>>(
+      (cache, layer) =>
+        mergeUsageCacheConfig(
+          cache,
+          normalizeUsageCache(layer.shape, layer.path, errors),
+        ),
+      DEFAULT_USAGE_CACHE_CONFIG,
+    ),
+    fileFailureBackoff = layers.reduce<Required<FailureBackoffConfig>>(
+      (backoff, layer) =>
+        mergeFailureBackoffConfig(
+          backoff,
+          normalizeFailureBackoff(layer.shape, layer.path, errors),
+        ),
+      DEFAULT_FAILURE_BACKOFF_CONFIG,
+    ),
+    lockConcurrency = [
+      ...layers.map((layer) =>
+        normalizeLockConcurrency(layer.shape, layer.path, errors),
+      ),
+      normalizeLockConcurrency(envConfig, envLabel("lockConcurrency"), errors),
+    ].reduce((merged, slots) => Object.assign(merged, slots), {}),
+    // Taken whole from the last layer that sets it, so a project file naming
+    // only a url is never sent the token from the global config
+    lockServer =
+      lastDefined<LockServerConfig>([
+        ...layers.map((layer) =>
+          layer.shape.lockServer === undefined
+            ? undefined
+            : normalizeLockServer(layer.shape, layer.path, errors),
+        ),
+        envConfig.lockServer === undefined
+          ? undefined
+          : normalizeLockServer(envConfig, envLabel("lockServer"), errors),
+      ]) ?? {},
+    hotReload = [
+      ...layers.map((layer) =>
+        normalizeHotReload(layer.shape, layer.path, errors),
+      ),
+      normalizeHotReload(envConfig, envLabel("hotReload"), errors),
+    ].reduce<Required<HotReloadConfig>>(
+      (merged, reload) => Object.assign(merged, reload),
+      { ...DEFAULT_HOT_RELOAD_CONFIG },
+    ),
+    profiles = [
+      ...layers.map((layer) =>
+        normalizeProfiles(layer.shape, layer.path, errors),
+      ),
+      normalizeProfiles(envConfig, envLabel("profiles"), errors),
+    ].reduce(mergeProfiles, {}),
+    // Environment variables override every file, and the active profile
+    envMappings = envConfig.mappings
+      ? normalizeMappings(envConfig, envLabel("mappings"), errors)
+      : undefined,
+    envPriority = normalizePriority(envConfig, envLabel("priority"), errors),
+    envEnableModelLocking = normalizeEnableModelLocking(
+      envConfig,
+      envLabel("enableModelLocking"),
       errors,
     ),
-    projectEnableModelLocking = normalizeEnableModelLocking(
-      projectConfig,
-      projectPath,
+    envPreserveDefaultModel = normalizePreserveDefaultModel(
+      envConfig,
+      envLabel("preserveDefaultModel"),
       errors,
     ),
-    globalPreserveDefaultModel = normalizePreserveDefaultModel(
-      globalConfig,
-      globalConfigPath,
+    envFallback = normalizeFallback(envConfig, envLabel("fallback"), errors),
+    envProviderSettings = normalizeProviderSettings(
+      envConfig,
+      envLabel("providerSettings"),
       errors,
     ),
-    projectPreserveDefaultModel = normalizePreserveDefaultModel(
-      projectConfig,
-      projectPath,
+    envDisabledList = normalizeDisabledProviders(
+      envConfig,
+      getKnownProviderNames([...fileProviderSettings, envProviderSettings]),
+      envLabel("disabledProviders"),
+      errors,
+    ),
+    // A list whose names are all unknown must not re-enable what the files disable
+    envDisabled =
+      Array.isArray(envConfig.disabledProviders) &&
+      (envDisabledList.length > 0 || envConfig.disabledProviders.length === 0)
+        ? envDisabledList
+        : undefined,
+    envUsageCache = normalizeUsageCache(
+      envConfig,
+      envLabel("usageCache"),
       errors,
     ),
-    globalFallback = normalizeFallback(globalConfig, globalConfigPath, errors),
-    projectFallback = normalizeFallback(projectConfig, projectPath, errors),
-    globalDebugLog = normalizeDebugLog(
-      globalConfig,
-      path.dirname(globalConfigPath),
+    envFailureBackoff = normalizeFailureBackoff(
+      envConfig,
+      envLabel("failureBackoff"),
+      errors,
     ),
-    projectDebugLog = normalizeDebugLog(projectConfig, ctx.cwd),
-    globalDisabled = normalizeDisabledProviders(globalConfig),
-    projectDisabled = normalizeDisabledProviders(projectConfig),
-    globalProviderSettings = normalizeProviderSettings(globalConfig),
-    projectProviderSettings = normalizeProviderSettings(projectConfig);
+    profileNames = Object.keys(profiles),
+    envProfileName = process.env[PROFILE_ENV_VAR]?.trim() || undefined;
+  if (envProfileName !== undefined && !profiles[envProfileName]) {
+    errors.push(
+      `[${PROFILE_ENV_VAR}] profile "${envProfileName}" is not defined${profileNames.length > 0 ? ` (defined: ${profileNames.join(", ")})` : ""}`,
+    );
+  }
 
   if (errors.length > 0) {
-    notify(ctx, "error", errors.join("\n"));
-    return null;
+    return reportErrors();
+  }
+
+  const profileName =
+      envProfileName ??
+      // The state file is only consulted when there is a profile to apply
+      (profileNames.length > 0 ? await loadActiveProfile(ctx.cwd) : undefined),
+    profile = profileName !== undefined ? profiles[profileName] : undefined;
+  if (profileName !== undefined && !profile) {
+    writeDebugLog(
+      `Active profile "${profileName}" is no longer defined; using the base config`,
+    );
   }
 
-  const mappings = mergeMappings(globalMappings, projectMappings);
+  const mappings = envMappings ?? profile?.mappings ?? fileMappings;
   // Ensure we have mappings before proceeding
   if (requireMappings && mappings.length === 0) {
     notify(
@@ -666,32 +2035,123 @@ export async function loadConfig(
       );
     }
   }
+  if (saveMigrations) {
+    for (const { layer, result } of migrations) {
+      if (layer.path === projectPath) {
+        reportProjectMigration(ctx, layer, result);
+      } else {
+        await saveMigratedConfig(ctx, layer, result);
+      }
+    }
+  }
 
-  const mergedFallback = projectFallback ?? globalFallback;
+  const mergedFallback = envFallback ?? profile?.fallback ?? fileFallback,
+    allProviderSettings = [...fileProviderSettings, envProviderSettings];
+
+  const providerSettings: ProviderSettings = Object.assign(
+    {},
+    ...allProviderSettings,
+    {
+      minimax: Object.assign(
+        {},
+        ...allProviderSettings.map((settings) => settings.minimax),
+      ),
+    },
+  );
+  const customProviders = allProviderSettings.reduce<CustomProviderSettings[]>(
+      (merged, settings) => mergeNamedProviders(merged, settings.custom),
+      [],
+    ),
+    customNames = new Set(customProviders.map((custom) => custom.name)),
+    commandProviders = allProviderSettings
+      .reduce<CommandProviderSettings[]>(
+        (merged, settings) => mergeNamedProviders(merged, settings.commands),
+        [],
+      )
+      .filter((command) => {
+        if (!customNames.has(command.name)) return true;
+        // Config loads run on almost every event, so the clash is logged once
+        if (!reportedCommandClashes.has(command.name)) {
+          reportedCommandClashes.add(command.name);
+          writeDebugLog(
+            `Ignoring providerSettings.commands entry "${command.name}": the name is already used by providerSettings.custom`,
+          );
+        }
+        return false;
+      });
+  if (customProviders.length > 0) {
+    providerSettings.custom = customProviders;
+  } else {
+    delete providerSettings.custom;
+  }
+  if (commandProviders.length > 0) {
+    providerSettings.commands = commandProviders;
+  } else {
+    delete providerSettings.commands;
+  }
 
-  const providerSettings: ProviderSettings = {
-    ...globalProviderSettings,
-    ...projectProviderSettings,
-    minimax: {
-      ...(globalProviderSettings.minimax ?? {}),
-      ...(projectProviderSettings.minimax ?? {}),
+  // Names the highest-precedence layer, and file, that set each key
+  const fileSource = (key: ConfigValueKey): ConfigLayer | undefined =>
+      [...layers].reverse().find(
+        (layer) =>
+          Object.hasOwn(layer.raw, key) &&
+          // A seeded global config only holds the defaults
+          !(shouldSeedGlobal && layer.path === globalConfigPath),
+      ),
+    valueSource = (key: ConfigValueKey): ConfigValueSource => {
+      if (Object.hasOwn(envRaw, key)) return "env";
+      if (profile && Object.hasOwn(profile, key)) return "profile";
+      return fileSource(key)?.scope ?? "default";
     },
-  };
+    keys = Object.keys(CONFIG_ENV_VARS) as ConfigValueKey[],
+    values = Object.fromEntries(
+      keys.map((key) => [key, valueSource(key)]),
+    ) as Record<ConfigValueKey, ConfigValueSource>,
+    files: Partial<Record<ConfigValueKey, string>> = {};
+  for (const key of keys) {
+    const layer = values[key] === "env" ? undefined : fileSource(key);
+    if (layer && values[key] !== "profile") files[key] = layer.path;
+  }
+  const includes = layers
+    .map((layer) => layer.path)
+    .filter((file) => file !== globalConfigPath && file !== projectPath);
 
   return {
     mappings,
-    priority: projectPriority ?? globalPriority ?? DEFAULT_PRIORITY,
-    widget: mergeWidgetConfig(globalWidget, projectWidget),
-    autoRun: projectAutoRun ?? globalAutoRun ?? false,
-    enableModelLocking:
-      projectEnableModelLocking ?? globalEnableModelLocking ?? true,
+    priority:
+      envPriority ?? profile?.priority ?? filePriority ?? DEFAULT_PRIORITY,
+    widget: mergeWidgetConfig(fileWidget, normalizeWidget(envConfig)),
+    autoRun: normalizeAutoRun(envConfig) ?? fileAutoRun ?? false,
+    enableModelLocking: envEnableModelLocking ?? fileEnableModelLocking ?? true,
     preserveDefaultModel:
-      projectPreserveDefaultModel ?? globalPreserveDefaultModel ?? isOmp,
-    disabledProviders: [...new Set([...globalDisabled, ...projectDisabled])],
+      envPreserveDefaultModel ?? filePreserveDefaultModel ?? isOmp,
+    disabledProviders:
+      envDisabled ?? profile?.disabledProviders ?? fileDisabled,
     providerSettings,
     ...(mergedFallback !== undefined ? { fallback: mergedFallback } : {}),
-    debugLog: projectConfig.debugLog ? projectDebugLog : globalDebugLog,
-    sources: { globalPath: globalConfigPath, projectPath },
+    usageCache: mergeUsageCacheConfig(fileUsageCache, envUsageCache),
+    failureBackoff: mergeFailureBackoffConfig(
+      fileFailureBackoff,
+      envFailureBackoff,
+    ),
+    ...(Object.keys(lockConcurrency).length > 0 ? { lockConcurrency } : {}),
+    ...(Object.keys(lockServer).length > 0 ? { lockServer } : {}),
+    hotReload,
+    ...(profileNames.length > 0 ? { profiles: profileNames } : {}),
+    ...(profile && profileName !== undefined ? { profile: profileName } : {}),
+    debugLog: envConfig.debugLog
+      ? normalizeDebugLog(envConfig, ctx.cwd)
+      : debugLayer
+        ? normalizeDebugLog(debugLayer.shape, debugLayer.basePath)
+        : normalizeDebugLog({}, path.dirname(globalConfigPath)),
+    sources: {
+      globalPath: globalConfigPath,
+      projectPath,
+      values,
+      files,
+      ...(includes.length > 0 ? { includes } : {}),
+      ...(includeDirs.size > 0 ? { includeDirs: [...includeDirs] } : {}),
+    },
     raw: { global: globalRaw ?? {}, project: projectRaw },
   };
 }
@@ -737,34 +2197,19 @@ export function cleanupConfigRaw(
     removedUnavailableModelMappings = 0,
     changed = false;
 
-  if (Object.hasOwn(raw, "examples")) {
-    delete raw.examples;
+  const examplesChange = removeExamplesBlock(raw);
+  if (examplesChange) {
     removedExamples = true;
     changed = true;
-    summary.push('Removed unused top-level "examples" block.');
+    summary.push(examplesChange);
   }
 
-  if (raw.debugLog && typeof raw.debugLog === "object") {
-    const debug = raw.debugLog as Record<string, unknown>;
-    if (options.scope === "global" && typeof debug.path === "string") {
-      const originalPath = debug.path.trim(),
-        escapedExtensionDir = EXTENSION_DIR.replace(
-          /[.*+?^${}()|[\]\\]/g,
-          "\\$&",
-        ),
-        correctedPath = originalPath.replace(
-          new RegExp(`^(?:\\.\\/)?${escapedExtensionDir}\\/`),
-          "",
-        );
-      if (correctedPath.length > 0 && correctedPath !== originalPath) {
-        debug.path = correctedPath;
-        fixedDebugLogPath = true;
-        changed = true;
-        summary.push(
-          `Fixed global debug log path from "${originalPath}" to "${correctedPath}".`,
-        );
-      }
-    }
+  const debugLogChange =
+    options.scope === "global" ? fixGlobalDebugLogPath(raw) : undefined;
+  if (debugLogChange) {
+    fixedDebugLogPath = true;
+    changed = true;
+    summary.push(debugLogChange);
   }
 
   // Validate fallback model against registry if modelExists is provided
@@ -1020,12 +2465,16 @@ export function updateProviderSettings(
 // Utility: return normalized mapping entries from a raw config object
 /**
  * Extracts and normalizes mapping entries from a raw configuration object.
+ * Invalid entries are left out; pass `errors` to learn why.
  */
-export function getRawMappings(raw: Record<string, unknown>): MappingEntry[] {
+export function getRawMappings(
+  raw: Record<string, unknown>,
+  errors: string[] = [],
+  label = "<raw>",
+): MappingEntry[] {
   try {
-    const errors: string[] = [];
     const shape = asConfigShape(raw);
-    return normalizeMappings(shape, "<raw>", errors);
+    return normalizeMappings(shape, label, errors);
   } catch {
     return [];
   }
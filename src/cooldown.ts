@@ -4,7 +4,21 @@ import * as path from "node:path";
 import { EXTENSION_DIR } from "./adapter.js";
 
 import { candidateKey } from "./candidates.js";
-import type { UsageCandidate } from "./types.js";
+import type {
+  FailureBackoffConfig,
+  UsageCandidate,
+  UsageErrorInfo,
+} from "./types.js";
+
+/**
+ * Consecutive usage fetch failures for one provider/account pair.
+ */
+export interface ProviderBackoff {
+  /** Failures since the last successful fetch. */
+  failures: number;
+  /** Timestamp until which the provider is not fetched again. */
+  until: number;
+}
 
 /**
  * Persisted skip and provider cooldown data shared across Pi sessions.
@@ -14,11 +28,78 @@ export interface CooldownState {
   cooldowns: Record<string, number>;
   /** Last selected candidate key used by manual skip commands. */
   lastSelected: string | null;
+  /** Failure backoff by provider wildcard key; absent in files from older versions. */
+  backoff?: Record<string, ProviderBackoff>;
 }
 
 /** Default duration for manual skips and provider cooldowns, in milliseconds. */
 export const COOLDOWN_DURATION = 60 * 60 * 1000; // 1 hour
 
+// Bounds for cooldowns sized from provider rate-limit headers
+const MIN_RATE_LIMIT_COOLDOWN = 60 * 1000;
+const MAX_RATE_LIMIT_COOLDOWN = 24 * 60 * 60 * 1000;
+
+/**
+ * Sizes a provider cooldown from a rate-limited response's Retry-After or reset
+ * headers, falling back to COOLDOWN_DURATION when the provider sent neither.
+ */
+export function rateLimitCooldownDuration(
+  info: UsageErrorInfo | undefined,
+  now: number,
+): number {
+  const hinted =
+    info?.retryAfterMs ??
+    (info?.resetsAt !== undefined ? info.resetsAt - now : undefined);
+  if (hinted === undefined || !Number.isFinite(hinted)) {
+    return COOLDOWN_DURATION;
+  }
+  return Math.min(
+    MAX_RATE_LIMIT_COOLDOWN,
+    Math.max(MIN_RATE_LIMIT_COOLDOWN, hinted),
+  );
+}
+
+/**
+ * Formats a cooldown length for notifications, e.g. "1 hour" or "2 hours 5 minutes".
+ */
+export function formatCooldownDuration(ms: number): string {
+  const totalMinutes = Math.max(1, Math.ceil(ms / 60_000)),
+    hours = Math.floor(totalMinutes / 60),
+    minutes = totalMinutes % 60,
+    plural = (count: number, unit: string) =>
+      `${count} ${unit}${count === 1 ? "" : "s"}`;
+  if (hours === 0) return plural(minutes, "minute");
+  return minutes === 0
+    ? plural(hours, "hour")
+    : `${plural(hours, "hour")} ${plural(minutes, "minute")}`;
+}
+
+// Failure counts are forgotten once a backoff has been over this long
+const BACKOFF_RESET_AFTER = 24 * 60 * 60 * 1000;
+
+/**
+ * Returns the pause after a given number of consecutive failures:
+ * baseSeconds doubled for every failure after the first, capped at maxSeconds.
+ */
+export function failureBackoffDuration(
+  failures: number,
+  config: Required<FailureBackoffConfig>,
+): number {
+  const exponent = Math.max(0, failures - 1),
+    seconds = Math.min(config.maxSeconds, config.baseSeconds * 2 ** exponent);
+  return seconds * 1000;
+}
+
+function isProviderBackoff(value: unknown): value is ProviderBackoff {
+  if (!value || typeof value !== "object") return false;
+  const entry = value as Partial<ProviderBackoff>;
+  return (
+    typeof entry.failures === "number" &&
+    entry.failures > 0 &&
+    typeof entry.until === "number"
+  );
+}
+
 const COOLDOWN_STATE_PATH = path.join(
   os.homedir(),
   EXTENSION_DIR,
@@ -38,12 +119,18 @@ export async function loadCooldownState(): Promise<CooldownState> {
           ? parsed.cooldowns
           : {},
       lastSelected =
-        typeof parsed.lastSelected === "string" ? parsed.lastSelected : null;
-    return { cooldowns, lastSelected };
+        typeof parsed.lastSelected === "string" ? parsed.lastSelected : null,
+      backoff: Record<string, ProviderBackoff> = {};
+    if (parsed.backoff && typeof parsed.backoff === "object") {
+      for (const [key, entry] of Object.entries(parsed.backoff)) {
+        if (isProviderBackoff(entry)) backoff[key] = entry;
+      }
+    }
+    return { cooldowns, lastSelected, backoff };
   } catch {
     // Ignore read errors or missing file, start fresh
   }
-  return { cooldowns: {}, lastSelected: null };
+  return { cooldowns: {}, lastSelected: null, backoff: {} };
 }
 
 /**
@@ -77,11 +164,32 @@ export function getWildcardKey(
   return `${provider}|${account ?? ""}|*`;
 }
 
+/**
+ * One active entry of the cooldown map.
+ */
+export interface CooldownEntry {
+  key: string;
+  expiresAt: number;
+}
+
+/**
+ * Builds the key used for manual /model-skip cooldowns covering a whole provider,
+ * or one account of it when an account is given. Unlike wildcard keys, these are
+ * removed by /model-unskip.
+ */
+export function getProviderSkipKey(
+  provider: string,
+  account?: string | null,
+): string {
+  return `${provider}|${account ?? ""}|*|skip`;
+}
+
 /**
  * Tracks manual skip and provider-wide cooldowns for model candidates.
  */
 export class CooldownManager {
   private modelCooldowns = new Map<string, number>();
+  private providerBackoff = new Map<string, ProviderBackoff>();
   private cooldownsLoaded = false;
   private lastSelectedCandidateKey: string | null = null;
 
@@ -102,7 +210,8 @@ export class CooldownManager {
         if (
           !key.endsWith("|raw") &&
           !key.endsWith("|synthetic") &&
-          !key.endsWith("|*")
+          !key.endsWith("|*") &&
+          !key.endsWith("|skip")
         ) {
           this.modelCooldowns.set(`${key}|raw`, expiry);
         }
@@ -122,6 +231,10 @@ export class CooldownManager {
         this.lastSelectedCandidateKey = `${this.lastSelectedCandidateKey}|raw`;
       }
     }
+
+    for (const [key, entry] of Object.entries(state.backoff ?? {})) {
+      this.providerBackoff.set(key, entry);
+    }
     this.cooldownsLoaded = true;
   }
 
@@ -141,11 +254,14 @@ export class CooldownManager {
     await saveCooldownState({
       cooldowns,
       lastSelected: this.lastSelectedCandidateKey,
+      backoff: Object.fromEntries(this.providerBackoff),
     });
   }
 
   /**
    * Removes expired cooldown entries and reports whether anything changed.
+   * Failure counts outlive their backoff so the next failure doubles the pause,
+   * but are dropped once a provider has been left alone for a day.
    */
   pruneExpiredCooldowns(now = Date.now()): boolean {
     let removed = false;
@@ -155,20 +271,89 @@ export class CooldownManager {
         removed = true;
       }
     }
+    for (const [key, entry] of this.providerBackoff) {
+      if (entry.until + BACKOFF_RESET_AFTER <= now) {
+        this.providerBackoff.delete(key);
+        removed = true;
+      }
+    }
     return removed;
   }
 
+  /**
+   * Counts a failed usage fetch and starts the next backoff period.
+   * Failures reported while a backoff is still running are not counted again.
+   * @returns The new backoff length in milliseconds, or undefined if one was already running.
+   */
+  recordProviderFailure(
+    provider: string,
+    account: string | undefined,
+    now: number,
+    config: Required<FailureBackoffConfig>,
+  ): number | undefined {
+    const key = getWildcardKey(provider, account),
+      existing = this.providerBackoff.get(key);
+    if (existing && existing.until > now) return undefined;
+
+    const failures = (existing?.failures ?? 0) + 1,
+      durationMs = failureBackoffDuration(failures, config);
+    this.providerBackoff.set(key, { failures, until: now + durationMs });
+    return durationMs;
+  }
+
+  /**
+   * Resets the failure backoff after a successful usage fetch.
+   * A success for any account also clears the provider-level entry.
+   * @returns True if any backoff state was removed.
+   */
+  recordProviderSuccess(
+    provider: string,
+    account: string | undefined,
+  ): boolean {
+    const removedAccount = this.providerBackoff.delete(
+        getWildcardKey(provider, account),
+      ),
+      removedProvider = this.providerBackoff.delete(getWildcardKey(provider));
+    return removedAccount || removedProvider;
+  }
+
+  /**
+   * Returns the failure backoff for a provider/account pair, if any.
+   */
+  getProviderBackoff(
+    provider: string,
+    account: string | undefined,
+  ): ProviderBackoff | undefined {
+    return this.providerBackoff.get(getWildcardKey(provider, account));
+  }
+
+  /**
+   * Returns providers whose provider-level backoff is still running.
+   * Their usage is not fetched until it ends.
+   */
+  getBackedOffProviders(now = Date.now()): string[] {
+    const providers: string[] = [];
+    for (const [key, entry] of this.providerBackoff) {
+      if (entry.until > now && key.endsWith("||*")) {
+        providers.push(key.slice(0, -"||*".length));
+      }
+    }
+    return providers;
+  }
+
   /**
    * Applies or extends a provider-wide cooldown after a rate-limit response.
+   * An existing cooldown is never shortened.
    */
   setOrExtendProviderCooldown(
     provider: string,
     account: string | undefined,
     now: number,
+    durationMs = COOLDOWN_DURATION,
   ): boolean {
     const wildcardKey = getWildcardKey(provider, account),
       existingExpiry = this.modelCooldowns.get(wildcardKey) ?? 0,
-      newExpiry = now + COOLDOWN_DURATION;
+      newExpiry = now + durationMs;
     if (newExpiry <= existingExpiry) {
       return false;
     }
@@ -180,23 +365,52 @@ export class CooldownManager {
    * Reports whether a candidate is blocked by model-specific or provider cooldowns.
    */
   isOnCooldown(c: UsageCandidate, now = Date.now()): boolean {
+    return this.getCooldownExpiry(c, now) !== undefined;
+  }
+
+  /**
+   * Returns the latest active cooldown expiry blocking a candidate, if any.
+   */
+  getCooldownExpiry(c: UsageCandidate, now = Date.now()): number | undefined {
     const key = candidateKey(c);
     const wildcardKey = getWildcardKey(c.provider, c.account);
 
-    const expiry = this.modelCooldowns.get(key);
-    const wildcardExpiry = this.modelCooldowns.get(wildcardKey);
-
-    return (
-      (expiry !== undefined && expiry > now) ||
-      (wildcardExpiry !== undefined && wildcardExpiry > now)
+    const active = [
+      this.modelCooldowns.get(key),
+      this.modelCooldowns.get(wildcardKey),
+      this.modelCooldowns.get(getProviderSkipKey(c.provider, c.account)),
+      this.modelCooldowns.get(getProviderSkipKey(c.provider)),
+    ].filter(
+      (expiry): expiry is number => expiry !== undefined && expiry > now,
     );
+
+    return active.length > 0 ? Math.max(...active) : undefined;
+  }
+
+  /**
+   * Adds a skip cooldown for a candidate or provider skip key, lasting one hour
+   * unless an expiry timestamp is given.
+   */
+  addCooldown(key: string, expiresAt = Date.now() + COOLDOWN_DURATION): void {
+    this.modelCooldowns.set(key, expiresAt);
+  }
+
+  /**
+   * Returns every active cooldown, soonest expiry first.
+   */
+  listCooldowns(now = Date.now()): CooldownEntry[] {
+    return [...this.modelCooldowns]
+      .filter(([, expiresAt]) => expiresAt > now)
+      .map(([key, expiresAt]) => ({ key, expiresAt }))
+      .sort((a, b) => a.expiresAt - b.expiresAt || a.key.localeCompare(b.key));
   }
 
   /**
-   * Adds a model-specific cooldown for a candidate key.
+   * Removes a single cooldown entry.
+   * @returns True if the key had a cooldown.
    */
-  addCooldown(key: string): void {
-    this.modelCooldowns.set(key, Date.now() + COOLDOWN_DURATION);
+  removeCooldown(key: string): boolean {
+    return this.modelCooldowns.delete(key);
   }
 
   /**
@@ -218,8 +432,8 @@ export class CooldownManager {
   }
 
   /**
-   * Removes all model-specific skip cooldowns (non-wildcard keys).
-   * This clears cooldowns added by /model-skip but preserves
+   * Removes all skip cooldowns (non-wildcard keys), including provider and
+   * account skips. This clears cooldowns added by /model-skip but preserves
    * provider-wide 429 rate-limit cooldowns.
    */
   clearSkipCooldowns(): number {
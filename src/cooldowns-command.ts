@@ -0,0 +1,157 @@
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import {
+  type CooldownEntry,
+  type CooldownManager,
+  formatCooldownDuration,
+} from "./cooldown.js";
+import { notify } from "./types.js";
+import { selectWrapped } from "./ui-helpers.js";
+
+/**
+ * Origin of a cooldown entry, derived from the shape of its key.
+ */
+export type CooldownKind = "skip" | "provider-skip" | "rate-limit";
+
+/**
+ * Cooldown key split into the parts shown to the user.
+ */
+export interface CooldownKeyInfo {
+  kind: CooldownKind;
+  provider: string;
+  account?: string;
+  window?: string;
+}
+
+const KIND_LABELS: Record<CooldownKind, string> = {
+  skip: "bucket skip",
+  "provider-skip": "provider skip",
+  "rate-limit": "rate limit",
+};
+
+const COOLDOWN_ACTIONS: Array<{ label: string; deltaMs?: number }> = [
+  { label: "Clear" },
+  { label: "Extend by 30 minutes", deltaMs: 30 * 60 * 1000 },
+  { label: "Extend by 1 hour", deltaMs: 60 * 60 * 1000 },
+  { label: "Extend by 4 hours", deltaMs: 4 * 60 * 60 * 1000 },
+  { label: "Shorten by 30 minutes", deltaMs: -30 * 60 * 1000 },
+  { label: "Shorten by 1 hour", deltaMs: -60 * 60 * 1000 },
+];
+
+const BACK = "Back",
+  DONE = "Done";
+
+/**
+ * Splits a cooldown key into its kind, provider, account and bucket.
+ * Handles candidate keys (with or without their `|raw`/`|synthetic` suffix),
+ * provider wildcard keys and provider skip keys.
+ */
+export function parseCooldownKey(key: string): CooldownKeyInfo {
+  const withAccount = (
+    kind: CooldownKind,
+    base: string,
+    window?: string,
+  ): CooldownKeyInfo => {
+    const [provider = "", account = ""] = base.split("|"),
+      info: CooldownKeyInfo = { kind, provider };
+    if (account) info.account = account;
+    if (window !== undefined) info.window = window;
+    return info;
+  };
+
+  if (key.endsWith("|*|skip")) {
+    return withAccount("provider-skip", key.slice(0, -"|*|skip".length));
+  }
+  if (key.endsWith("|*")) {
+    return withAccount("rate-limit", key.slice(0, -"|*".length));
+  }
+  const parts = key.replace(/\|(raw|synthetic)$/, "").split("|"),
+    [provider = "", account = "", ...window] = parts;
+  return withAccount("skip", `${provider}|${account}`, window.join("|"));
+}
+
+function cooldownTarget(info: CooldownKeyInfo): string {
+  const account = info.account ? ` (${info.account})` : "";
+  return info.kind === "skip"
+    ? `${info.provider}/${info.window}${account}`
+    : `${info.provider}${account || " (all accounts)"}`;
+}
+
+/**
+ * Formats one cooldown entry as a single line, e.g.
+ * `anthropic/Opus - bucket skip, 45 minutes left`.
+ */
+export function formatCooldownEntry(entry: CooldownEntry, now: number): string {
+  const info = parseCooldownKey(entry.key);
+  return `${cooldownTarget(info)} - ${KIND_LABELS[info.kind]}, ${formatCooldownDuration(entry.expiresAt - now)} left`;
+}
+
+/**
+ * Formats the active cooldowns as a plain-text report for notifications.
+ */
+export function formatCooldownList(
+  entries: CooldownEntry[],
+  now: number,
+): string {
+  if (entries.length === 0) return "No active cooldowns.";
+  return [
+    `Active cooldowns (${entries.length}):`,
+    ...entries.map((entry) => `  ${formatCooldownEntry(entry, now)}`),
+  ].join("\n");
+}
+
+/**
+ * Lists active cooldowns and lets the user clear, extend or shorten them one at
+ * a time until they choose Done. Without a UI, the list is only reported.
+ * @returns True if any cooldown was changed and persisted.
+ */
+export async function runCooldownsCommand(
+  ctx: ExtensionContext,
+  cooldownManager: CooldownManager,
+): Promise<boolean> {
+  await cooldownManager.loadPersistedCooldowns();
+  let entries = cooldownManager.listCooldowns();
+  if (entries.length === 0 || !ctx.hasUI) {
+    notify(ctx, "info", formatCooldownList(entries, Date.now()));
+    return false;
+  }
+
+  let changed = false;
+  while (entries.length > 0) {
+    const now = Date.now(),
+      options = entries.map(
+        (entry, index) => `${index + 1}. ${formatCooldownEntry(entry, now)}`,
+      ),
+      choice = await selectWrapped(ctx, "Active cooldowns", [...options, DONE]);
+    const entry = choice ? entries[options.indexOf(choice)] : undefined;
+    if (!entry) break;
+
+    const actionLabel = await selectWrapped(
+        ctx,
+        `Change cooldown: ${formatCooldownEntry(entry, now)}`,
+        [...COOLDOWN_ACTIONS.map((action) => action.label), BACK],
+      ),
+      action = COOLDOWN_ACTIONS.find((item) => item.label === actionLabel);
+    if (action) {
+      const info = parseCooldownKey(entry.key),
+        label = `${KIND_LABELS[info.kind]} for ${cooldownTarget(info)}`,
+        // Shortening past the current time clears the entry
+        expiresAt =
+          action.deltaMs === undefined ? now : entry.expiresAt + action.deltaMs;
+      if (expiresAt <= now) {
+        cooldownManager.removeCooldown(entry.key);
+        notify(ctx, "info", `Cleared ${label}.`);
+      } else {
+        cooldownManager.addCooldown(entry.key, expiresAt);
+        notify(
+          ctx,
+          "info",
+          `The ${label} now ends in ${formatCooldownDuration(expiresAt - now)}.`,
+        );
+      }
+      await cooldownManager.persistCooldowns();
+      changed = true;
+    }
+    entries = cooldownManager.listCooldowns();
+  }
+  return changed;
+}
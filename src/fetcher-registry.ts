@@ -0,0 +1,98 @@
+import {
+  ALL_PROVIDERS,
+  type ProviderSettings,
+  type UsageSnapshot,
+} from "./types.js";
+
+/**
+ * Usage fetcher contributed by another extension at runtime.
+ * Snapshots should use `provider` as their provider name so mappings can match them.
+ */
+export interface UsageFetcherRegistration {
+  provider: string;
+  displayName: string;
+  fetch: () => Promise<UsageSnapshot | UsageSnapshot[]>;
+}
+
+const registeredFetchers = new Map<string, UsageFetcherRegistration>();
+
+/**
+ * Registers a usage fetcher that fetchAllUsages calls alongside the built-in ones.
+ * @returns A function that removes this registration.
+ * @throws If the provider name is empty, built-in, or already registered.
+ */
+export function registerUsageFetcher(
+  registration: UsageFetcherRegistration,
+): () => void {
+  const provider = registration.provider?.trim();
+  if (!provider) {
+    throw new Error("Usage fetcher provider must be a non-empty string");
+  }
+  if ((ALL_PROVIDERS as readonly string[]).includes(provider)) {
+    throw new Error(
+      `Usage fetcher provider "${provider}" conflicts with a built-in provider`,
+    );
+  }
+  if (registeredFetchers.has(provider)) {
+    throw new Error(
+      `Usage fetcher provider "${provider}" is already registered`,
+    );
+  }
+  if (typeof registration.fetch !== "function") {
+    throw new Error(
+      `Usage fetcher "${provider}" must provide a fetch function`,
+    );
+  }
+
+  const entry: UsageFetcherRegistration = {
+    provider,
+    displayName: registration.displayName?.trim() || provider,
+    fetch: registration.fetch,
+  };
+  registeredFetchers.set(provider, entry);
+  return () => {
+    // Only remove the entry this call created, not a later re-registration
+    if (registeredFetchers.get(provider) === entry) {
+      registeredFetchers.delete(provider);
+    }
+  };
+}
+
+/**
+ * Removes a registered usage fetcher.
+ * @returns True if a fetcher was registered under that provider name.
+ */
+export function unregisterUsageFetcher(provider: string): boolean {
+  return registeredFetchers.delete(provider);
+}
+
+/** Returns the registered usage fetchers in registration order. */
+export function getRegisteredUsageFetchers(): UsageFetcherRegistration[] {
+  return [...registeredFetchers.values()];
+}
+
+/** Removes every registered usage fetcher. */
+export function clearRegisteredUsageFetchers(): void {
+  registeredFetchers.clear();
+}
+
+/**
+ * Returns the lowercased names of every provider usage can be fetched for: the
+ * built-in providers, the custom and command providers declared in the given
+ * settings, and the registered ones.
+ */
+export function getKnownProviderNames(
+  settings: ProviderSettings[],
+): Set<string> {
+  return new Set(
+    [
+      ...ALL_PROVIDERS,
+      ...settings.flatMap((entry) =>
+        [...(entry.custom ?? []), ...(entry.commands ?? [])].map(
+          (provider) => provider.name,
+        ),
+      ),
+      ...registeredFetchers.keys(),
+    ].map((name) => name.toLowerCase()),
+  );
+}
@@ -1,14 +1,18 @@
 import * as os from "node:os";
-import type { RateWindow, UsageSnapshot } from "../types.js";
+import type { RateWindow, UsageErrorInfo, UsageSnapshot } from "../types.js";
 import {
   execAsync,
   fetchWithTimeout,
   formatReset,
+  httpErrorInfo,
   parseEpochMillis,
   safeDate,
   URLS,
 } from "./common.js";
 
+const FIVE_HOUR_MS = 5 * 60 * 60 * 1000,
+  SEVEN_DAY_MS = 7 * 24 * 60 * 60 * 1000;
+
 type ClaudeCredential = {
   token: string;
   source: string;
@@ -90,6 +94,7 @@ function buildClaudeWindows(data: unknown): RateWindow[] {
       const window: RateWindow = {
         label,
         usedPercent: finalUtilization * 100,
+        windowMs: SEVEN_DAY_MS,
       };
       if (finalResetsAt) {
         window.resetDescription = formatReset(finalResetsAt);
@@ -121,6 +126,7 @@ function buildClaudeWindows(data: unknown): RateWindow[] {
     const window: RateWindow = {
       label: "5h",
       usedPercent: (dataTyped.five_hour.utilization ?? 0) * 100,
+      windowMs: FIVE_HOUR_MS,
     };
     if (resetsAt) {
       window.resetDescription = formatReset(resetsAt);
@@ -134,6 +140,7 @@ function buildClaudeWindows(data: unknown): RateWindow[] {
     const window: RateWindow = {
       label: "Week",
       usedPercent: (dataTyped.seven_day.utilization ?? 0) * 100,
+      windowMs: SEVEN_DAY_MS,
     };
     if (resetsAt) {
       window.resetDescription = formatReset(resetsAt);
@@ -301,7 +308,9 @@ export async function fetchClaudeUsage(
 
   let lastAttemptedSource: string | undefined;
   let lastAuthFailure: { status: number; source: string } | undefined;
-  let lastError: { message: string; source: string } | undefined;
+  let lastError:
+    | { message: string; source: string; errorInfo?: UsageErrorInfo }
+    | undefined;
 
   const tryToken = async (
     token: string,
@@ -333,6 +342,7 @@ export async function fetchClaudeUsage(
         lastError = {
           message: `HTTP ${res.status}`,
           source: source,
+          errorInfo: httpErrorInfo(res),
         };
       }
     } catch (err) {
@@ -365,6 +375,9 @@ export async function fetchClaudeUsage(
         windows: [],
         error: lastError.message,
       };
+      if (lastError.errorInfo) {
+        snapshot.errorInfo = lastError.errorInfo;
+      }
       if (lastError.source !== undefined) {
         snapshot.account = lastError.source;
       }
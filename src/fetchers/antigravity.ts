@@ -4,6 +4,7 @@ import {
   ANTIGRAVITY_USER_AGENT,
   fetchWithTimeout,
   formatReset,
+  httpErrorInfo,
   refreshGoogleToken,
   URLS,
 } from "./common.js";
@@ -301,6 +302,7 @@ export async function fetchAntigravityUsage(
         displayName: "Antigravity",
         windows: [],
         error: `HTTP ${res.status}`,
+        errorInfo: httpErrorInfo(res),
         account: "pi-auth",
       };
     }
@@ -2,7 +2,12 @@ import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
 import type { RateWindow, UsageSnapshot } from "../types.js";
-import { fetchWithTimeout, formatReset, URLS } from "./common.js";
+import {
+  fetchWithTimeout,
+  formatReset,
+  httpErrorInfo,
+  URLS,
+} from "./common.js";
 
 interface CodexCredential {
   accessToken: string;
@@ -223,6 +228,7 @@ async function fetchCodexUsageForCredential(
         displayName,
         windows: [],
         error: `HTTP ${res.status}`,
+        errorInfo: httpErrorInfo(res),
         account: cred.source,
       };
     }
@@ -274,6 +280,7 @@ async function fetchCodexUsageForCredential(
       const entry: RateWindow = {
         label,
         usedPercent: used,
+        windowMs: hours * 60 * 60 * 1000,
       };
       if (resetAt) {
         entry.resetDescription = formatReset(resetAt);
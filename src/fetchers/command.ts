@@ -0,0 +1,167 @@
+import type {
+  CommandProviderSettings,
+  RateWindow,
+  UsageSnapshot,
+} from "../types.js";
+import { execFileAsync, formatReset, parseResetDate } from "./common.js";
+
+/** Default time a usage command may run before it is killed. */
+export const DEFAULT_COMMAND_TIMEOUT_MS = 10000;
+
+const USAGE_LINE =
+  /^(.+?):\s*(\d+(?:\.\d+)?)\s*(?:%|\/\s*(\d+(?:\.\d+)?))(?:\s+resets\s+(\S+))?\s*$/i;
+
+function buildWindow(
+  label: string,
+  usedPercent: number,
+  resetsAtValue: unknown,
+  windowMs?: unknown,
+): RateWindow {
+  const window: RateWindow = {
+    label,
+    usedPercent: Math.min(100, Math.max(0, usedPercent)),
+  };
+  const resetsAt = parseResetDate(resetsAtValue);
+  if (resetsAt) {
+    window.resetsAt = resetsAt;
+    window.resetDescription = formatReset(resetsAt);
+  }
+  if (typeof windowMs === "number" && windowMs > 0) {
+    window.windowMs = windowMs;
+  }
+  return window;
+}
+
+function parseJsonOutput(
+  output: string,
+  snapshot: UsageSnapshot,
+): UsageSnapshot {
+  let data: unknown;
+  try {
+    data = JSON.parse(output);
+  } catch (error) {
+    throw new Error(
+      `Invalid JSON output: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("JSON output must be an object with a windows array");
+  }
+
+  const json = data as Record<string, unknown>;
+  if (typeof json.displayName === "string" && json.displayName.trim()) {
+    snapshot.displayName = json.displayName.trim();
+  }
+  for (const field of ["account", "plan", "error"] as const) {
+    const value = json[field];
+    if (typeof value === "string" && value.trim()) {
+      snapshot[field] = value.trim();
+    }
+  }
+  if (json.windows !== undefined && !Array.isArray(json.windows)) {
+    throw new Error("JSON output windows must be an array");
+  }
+
+  for (const item of (json.windows as unknown[] | undefined) ?? []) {
+    if (!item || typeof item !== "object") continue;
+    const entry = item as Record<string, unknown>;
+    if (
+      typeof entry.label !== "string" ||
+      !entry.label.trim() ||
+      typeof entry.usedPercent !== "number" ||
+      !Number.isFinite(entry.usedPercent)
+    ) {
+      continue;
+    }
+    snapshot.windows.push(
+      buildWindow(
+        entry.label.trim(),
+        entry.usedPercent,
+        entry.resetsAt,
+        entry.windowMs,
+      ),
+    );
+  }
+  return snapshot;
+}
+
+function parseLineOutput(
+  output: string,
+  snapshot: UsageSnapshot,
+): UsageSnapshot {
+  for (const rawLine of output.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const field = /^(account|plan|error):\s*(.+)$/i.exec(line);
+    if (field?.[1] && field[2]) {
+      snapshot[field[1].toLowerCase() as "account" | "plan" | "error"] =
+        field[2].trim();
+      continue;
+    }
+
+    const match = USAGE_LINE.exec(line);
+    if (!match?.[1] || !match[2]) continue;
+    const used = Number(match[2]),
+      limit = match[3] === undefined ? undefined : Number(match[3]);
+    if (limit !== undefined && limit <= 0) continue;
+    snapshot.windows.push(
+      buildWindow(
+        match[1].trim(),
+        limit === undefined ? used : (used / limit) * 100,
+        match[4],
+      ),
+    );
+  }
+  return snapshot;
+}
+
+/**
+ * Parses usage command stdout into a snapshot for the given provider.
+ * Accepts a JSON object in the UsageSnapshot shape (`resetsAt` as a date string or
+ * epoch value) or plain lines such as `Daily: 42%` and `Monthly: 300/1000 resets 2026-03-07T05:00:00Z`,
+ * plus optional `account:`, `plan:` and `error:` lines.
+ * @throws If JSON output is malformed or no windows or error were reported.
+ */
+export function parseCommandOutput(
+  output: string,
+  provider: string,
+  displayName: string,
+): UsageSnapshot {
+  const trimmed = output.trim(),
+    empty: UsageSnapshot = { provider, displayName, windows: [] },
+    snapshot = trimmed.startsWith("{")
+      ? parseJsonOutput(trimmed, empty)
+      : parseLineOutput(trimmed, empty);
+
+  if (snapshot.windows.length === 0 && !snapshot.error) {
+    throw new Error("Command output contained no usage windows");
+  }
+  return snapshot;
+}
+
+/**
+ * Runs a user-declared usage command and parses its stdout.
+ * Failures are thrown so fetchAllUsages records them through its fallback snapshot.
+ * @param settings The command declaration from providerSettings.commands.
+ * @returns A promise resolving to the usage snapshot.
+ */
+export async function fetchCommandUsage(
+  settings: CommandProviderSettings,
+): Promise<UsageSnapshot> {
+  const { stdout } = await execFileAsync(
+    settings.command,
+    settings.args ?? [],
+    {
+      encoding: "utf-8",
+      timeout: settings.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS,
+      maxBuffer: 1024 * 1024,
+      windowsHide: true,
+    },
+  );
+  return parseCommandOutput(
+    stdout,
+    settings.name,
+    settings.displayName ?? settings.name,
+  );
+}
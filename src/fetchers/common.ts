@@ -4,6 +4,7 @@ import * as os from "node:os";
 import * as path from "node:path";
 import { promisify } from "node:util";
 import { EXTENSION_DIR, isOmp } from "../adapter.js";
+import type { UsageErrorInfo } from "../types.js";
 
 /** Executes a shell command asynchronously. */
 export const execAsync = promisify(exec);
@@ -112,6 +113,21 @@ export function parseEpochMillis(value: unknown): number | undefined {
   return undefined;
 }
 
+// Epoch values below this are treated as seconds rather than milliseconds
+const EPOCH_SECONDS_THRESHOLD = 1e12;
+
+/** Parses a reset time given as a date string or epoch seconds/milliseconds. */
+export function parseResetDate(value: unknown): Date | undefined {
+  const millis = parseEpochMillis(value);
+  if (millis === undefined) return undefined;
+  const isNumeric =
+    typeof value === "number" ||
+    (typeof value === "string" && /^\d+$/.test(value));
+  return safeDate(
+    isNumeric && millis < EPOCH_SECONDS_THRESHOLD ? millis * 1000 : millis,
+  );
+}
+
 /** Safely converts a value to a Date object. */
 export function safeDate(value: unknown): Date | undefined {
   // Fix safeDate Epoch Issue: returns undefined for value = 0, ignoring the valid Epoch timestamp.
@@ -150,6 +166,84 @@ export function formatReset(date: Date): string {
   }
 }
 
+// Rate-limit reset headers, in the order providers most commonly send them
+const RATE_LIMIT_RESET_HEADERS = [
+  "x-ratelimit-reset",
+  "ratelimit-reset",
+  "x-ratelimit-reset-requests",
+  "x-ratelimit-reset-tokens",
+  "anthropic-ratelimit-requests-reset",
+  "anthropic-ratelimit-tokens-reset",
+  "anthropic-ratelimit-unified-reset",
+];
+
+const DURATION_HEADER =
+  /^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+(?:\.\d+)?)ms)?$/;
+
+/**
+ * Parses a rate-limit reset header into epoch milliseconds.
+ * Accepts epoch seconds or milliseconds, delta seconds, durations such as `1m30s`, and dates.
+ */
+export function parseRateLimitReset(
+  value: string,
+  now = Date.now(),
+): number | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+
+  if (/^\d+(?:\.\d+)?$/.test(trimmed)) {
+    const numeric = Number(trimmed);
+    if (numeric >= 1e12) return numeric;
+    if (numeric >= 1e9) return numeric * 1000;
+    return now + numeric * 1000;
+  }
+
+  const duration = DURATION_HEADER.exec(trimmed);
+  if (duration) {
+    const [, hours, minutes, seconds, millis] = duration.map(Number);
+    return (
+      now +
+      (hours || 0) * 3_600_000 +
+      (minutes || 0) * 60_000 +
+      (seconds || 0) * 1000 +
+      (millis || 0)
+    );
+  }
+
+  const parsed = Date.parse(trimmed);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Builds structured error details from a failed HTTP response, including the
+ * Retry-After delay and the latest rate-limit reset it reports.
+ */
+export function httpErrorInfo(res: Response, now = Date.now()): UsageErrorInfo {
+  const info: UsageErrorInfo = { status: res.status },
+    header = (name: string) => res.headers?.get?.(name) ?? null;
+
+  const retryAfter = header("retry-after");
+  if (retryAfter !== null) {
+    const retryAt = /^\d+(?:\.\d+)?$/.test(retryAfter.trim())
+      ? now + Number(retryAfter) * 1000
+      : Date.parse(retryAfter);
+    if (!Number.isNaN(retryAt)) {
+      info.retryAfterMs = Math.max(0, retryAt - now);
+    }
+  }
+
+  for (const name of RATE_LIMIT_RESET_HEADERS) {
+    const value = header(name);
+    const resetsAt =
+      value === null ? undefined : parseRateLimitReset(value, now);
+    if (resetsAt !== undefined && resetsAt > (info.resetsAt ?? 0)) {
+      info.resetsAt = resetsAt;
+    }
+  }
+
+  return info;
+}
+
 /** Fetches a URL with a specified timeout. */
 export async function fetchWithTimeout(
   url: string,
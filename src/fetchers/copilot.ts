@@ -7,6 +7,7 @@ import {
   execAsync,
   fetchWithTimeout,
   formatReset,
+  httpErrorInfo,
   safeDate,
   URLS,
 } from "./common.js";
@@ -388,6 +389,7 @@ export async function fetchCopilotUsage(
             displayName: "Copilot",
             windows: [],
             error: `HTTP ${res.status}`,
+            errorInfo: httpErrorInfo(res),
             account: sourceLabel,
           };
         } catch (e: unknown) {
@@ -0,0 +1,241 @@
+import type {
+  CustomProviderSettings,
+  RateWindow,
+  UsageErrorInfo,
+  UsageSnapshot,
+} from "../types.js";
+import {
+  fetchWithTimeout,
+  formatReset,
+  httpErrorInfo,
+  parseResetDate,
+} from "./common.js";
+
+type JsonPathSegment = string | number | "*";
+
+const JSON_PATH_SEGMENT =
+  /\.([A-Za-z_$][\w$-]*)|\.\*|\[(\d+|\*|'[^']*'|"[^"]*")\]/y;
+
+function parseJsonPath(expression: string): JsonPathSegment[] {
+  const trimmed = expression.trim();
+  if (!trimmed.startsWith("$")) {
+    throw new Error(`Invalid JSON path "${expression}": must start with "$"`);
+  }
+
+  const segments: JsonPathSegment[] = [];
+  JSON_PATH_SEGMENT.lastIndex = 1;
+  while (JSON_PATH_SEGMENT.lastIndex < trimmed.length) {
+    const start = JSON_PATH_SEGMENT.lastIndex,
+      match = JSON_PATH_SEGMENT.exec(trimmed);
+    if (!match) {
+      throw new Error(`Invalid JSON path "${expression}" at position ${start}`);
+    }
+    const [token, name, bracket] = match;
+    if (name !== undefined) {
+      segments.push(name);
+    } else if (token === ".*" || bracket === "*") {
+      segments.push("*");
+    } else if (bracket !== undefined && /^\d+$/.test(bracket)) {
+      segments.push(Number(bracket));
+    } else if (bracket !== undefined) {
+      segments.push(bracket.slice(1, -1));
+    }
+  }
+  return segments;
+}
+
+/**
+ * Evaluates a JSON path against a value and returns every matching node.
+ * Supports `$`, `.name`, `['name']`, `[index]`, and `[*]`/`.*` wildcards.
+ */
+export function evaluateJsonPath(data: unknown, expression: string): unknown[] {
+  let nodes: unknown[] = [data];
+  for (const segment of parseJsonPath(expression)) {
+    const next: unknown[] = [];
+    for (const node of nodes) {
+      if (node === null || typeof node !== "object") continue;
+      if (segment === "*") {
+        next.push(...Object.values(node));
+      } else if (typeof segment === "number") {
+        if (Array.isArray(node) && segment < node.length) {
+          next.push(node[segment]);
+        }
+      } else if (Object.hasOwn(node, segment)) {
+        next.push((node as Record<string, unknown>)[segment]);
+      }
+    }
+    nodes = next;
+  }
+  return nodes;
+}
+
+/**
+ * Replaces `${NAME}` references with environment variable values.
+ * @returns The interpolated value, or the names of unset variables.
+ */
+export function interpolateEnv(
+  value: string,
+  env: NodeJS.ProcessEnv = process.env,
+): { value: string; missing: string[] } {
+  const missing: string[] = [];
+  const interpolated = value.replace(
+    /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g,
+    (_match, name: string) => {
+      const resolved = env[name];
+      if (resolved === undefined || resolved === "") {
+        missing.push(name);
+        return "";
+      }
+      return resolved;
+    },
+  );
+  return { value: interpolated, missing };
+}
+
+function firstValue(node: unknown, expression: string): unknown {
+  return evaluateJsonPath(node, expression)[0];
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+function resolveLabel(
+  node: unknown,
+  settings: CustomProviderSettings,
+  index: number,
+  total: number,
+): string | undefined {
+  const label = settings.label;
+  if (label === undefined) {
+    return total > 1 ? `Usage ${index + 1}` : "Usage";
+  }
+  if (!label.trim().startsWith("$")) {
+    return total > 1 ? `${label} ${index + 1}` : label;
+  }
+  const value = firstValue(node, label);
+  if (typeof value === "string" && value.trim()) return value.trim();
+  if (typeof value === "number") return String(value);
+  return undefined;
+}
+
+function resolveUsedPercent(
+  node: unknown,
+  settings: CustomProviderSettings,
+): number | undefined {
+  if (settings.usedPercent) {
+    return toNumber(firstValue(node, settings.usedPercent));
+  }
+  if (settings.used && settings.limit) {
+    const used = toNumber(firstValue(node, settings.used)),
+      limit = toNumber(firstValue(node, settings.limit));
+    if (used === undefined || limit === undefined || limit <= 0) {
+      return undefined;
+    }
+    return (used / limit) * 100;
+  }
+  return undefined;
+}
+
+/**
+ * Extracts usage windows from a custom provider response using its configured paths.
+ */
+export function parseCustomUsageResponse(
+  data: unknown,
+  settings: CustomProviderSettings,
+): RateWindow[] {
+  const nodes = evaluateJsonPath(data, settings.windows ?? "$"),
+    windows: RateWindow[] = [];
+
+  for (const [index, node] of nodes.entries()) {
+    const label = resolveLabel(node, settings, index, nodes.length),
+      usedPercent = resolveUsedPercent(node, settings);
+    if (label === undefined || usedPercent === undefined) continue;
+
+    const window: RateWindow = {
+      label,
+      usedPercent: Math.min(100, Math.max(0, usedPercent)),
+    };
+    if (settings.resetsAt) {
+      const resetsAt = parseResetDate(firstValue(node, settings.resetsAt));
+      if (resetsAt) {
+        window.resetsAt = resetsAt;
+        window.resetDescription = formatReset(resetsAt);
+      }
+    }
+    windows.push(window);
+  }
+
+  return windows;
+}
+
+/**
+ * Fetches usage for a user-declared HTTP quota endpoint.
+ * @param settings The custom provider declaration from providerSettings.custom.
+ * @returns A promise resolving to the usage snapshot.
+ */
+export async function fetchCustomUsage(
+  settings: CustomProviderSettings,
+): Promise<UsageSnapshot> {
+  const provider = settings.name,
+    displayName = settings.displayName ?? settings.name,
+    errorSnapshot = (
+      error: string,
+      errorInfo?: UsageErrorInfo,
+    ): UsageSnapshot => ({
+      provider,
+      displayName,
+      windows: [],
+      error,
+      ...(errorInfo ? { errorInfo } : {}),
+    });
+
+  const url = interpolateEnv(settings.url),
+    headers: Record<string, string> = {
+      Accept: "application/json",
+    },
+    missing = new Set<string>(url.missing);
+  for (const [name, rawValue] of Object.entries(settings.headers ?? {})) {
+    const interpolated = interpolateEnv(rawValue);
+    for (const variable of interpolated.missing) missing.add(variable);
+    headers[name] = interpolated.value;
+  }
+  if (missing.size > 0) {
+    return errorSnapshot(
+      `Missing environment variable(s): ${[...missing].join(", ")}`,
+    );
+  }
+
+  try {
+    const { res, data } = await fetchWithTimeout(url.value, { headers });
+
+    if (!res.ok) {
+      const statusText = res.statusText?.trim();
+      return errorSnapshot(
+        statusText ? `HTTP ${res.status} ${statusText}` : `HTTP ${res.status}`,
+        httpErrorInfo(res),
+      );
+    }
+
+    const windows = parseCustomUsageResponse(data, settings);
+    if (windows.length === 0) {
+      return errorSnapshot(
+        "No usage windows matched the configured JSON paths",
+      );
+    }
+
+    const snapshot: UsageSnapshot = { provider, displayName, windows };
+    return snapshot;
+  } catch (error) {
+    return errorSnapshot(
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
@@ -7,6 +7,7 @@ import { writeDebugLog } from "../types.js";
 import {
   fetchWithTimeout,
   formatReset,
+  httpErrorInfo,
   parseEpochMillis,
   refreshGoogleToken,
   URLS,
@@ -449,6 +450,7 @@ export async function fetchGeminiUsage(
                   displayName: "Gemini",
                   windows: [],
                   error: `HTTP ${res.status}`,
+                  errorInfo: httpErrorInfo(res),
                   account: projectId,
                 };
                 continue;
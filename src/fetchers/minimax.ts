@@ -2,6 +2,7 @@ import type { RateWindow, UsageSnapshot } from "../types.js";
 import {
   fetchWithTimeout,
   formatReset,
+  httpErrorInfo,
   PROVIDER_DISPLAY_NAMES,
   safeDate,
   URLS,
@@ -139,6 +140,7 @@ export async function fetchMinimaxUsage(
         displayName,
         windows: [],
         error: errorMessage,
+        errorInfo: httpErrorInfo(res),
       };
       return snapshot;
     }
@@ -1,5 +1,11 @@
 import type { RateWindow, UsageSnapshot } from "../types.js";
-import { fetchWithTimeout, formatReset, safeDate, URLS } from "./common.js";
+import {
+  fetchWithTimeout,
+  formatReset,
+  httpErrorInfo,
+  safeDate,
+  URLS,
+} from "./common.js";
 
 /**
  * Resolves the z.ai API key from environment variables or configuration.
@@ -103,6 +109,7 @@ export async function fetchZaiUsage(
         displayName: "z.ai",
         windows: [],
         error: `HTTP ${res.status}`,
+        errorInfo: httpErrorInfo(res),
         account: "pi-auth",
       };
     }
@@ -0,0 +1,128 @@
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import {
+  DEFAULT_MODEL_LOCK_SERVER_PORT,
+  type ModelLockServer,
+  parseListenAddress,
+  startModelLockServer,
+} from "./model-lock-server.js";
+import type { LockServerConfig } from "./types.js";
+import { notify } from "./types.js";
+
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "::1", "localhost"]);
+
+const USAGE = "Usage: /model-lock-server [start [host:]port | stop | status]";
+
+function describeServer(server: ModelLockServer): string {
+  return `${server.url} (${server.requiresToken ? "token required" : "no token"})`;
+}
+
+/**
+ * Suggests the /model-lock-server subcommands matching a prefix.
+ */
+export function getLockServerCompletions(
+  prefix: string,
+): Array<{ value: string; label: string; description: string }> | null {
+  const items = [
+    { value: "start", label: "start", description: "start a lock server" },
+    { value: "stop", label: "stop", description: "stop the lock server" },
+    { value: "status", label: "status", description: "show the lock server" },
+  ].filter((item) => item.value.startsWith(prefix.trim()));
+  return items.length > 0 ? items : null;
+}
+
+/**
+ * Starts, stops or reports the lock server hosted by this instance. `start`
+ * listens on the given address, else `lockServer.listen`, else
+ * 127.0.0.1:7345, and requires `lockServer.token` when one is configured.
+ */
+export async function runLockServerCommand(
+  ctx: ExtensionContext,
+  args: string,
+  server: { current: ModelLockServer | null },
+  lockServer: LockServerConfig = {},
+): Promise<void> {
+  const [action = "status", address, ...rest] = args.trim().split(/\s+/);
+  if (rest.length > 0 || (address !== undefined && action !== "start")) {
+    notify(ctx, "error", USAGE);
+    return;
+  }
+
+  if (action === "status" || action === "") {
+    const client = lockServer.url
+      ? `This instance coordinates model locks through ${lockServer.url}.`
+      : "This instance coordinates model locks through the lock file.";
+    notify(
+      ctx,
+      "info",
+      server.current
+        ? `Lock server listening on ${describeServer(server.current)}. ${client}`
+        : `No lock server is running in this instance. ${client}`,
+    );
+    return;
+  }
+
+  if (action === "stop") {
+    if (!server.current) {
+      notify(ctx, "info", "No lock server is running in this instance.");
+      return;
+    }
+    const { url } = server.current;
+    await server.current.close();
+    server.current = null;
+    notify(
+      ctx,
+      "info",
+      `Lock server on ${url} stopped. Its locks were dropped.`,
+    );
+    return;
+  }
+
+  if (action !== "start") {
+    notify(ctx, "error", USAGE);
+    return;
+  }
+  if (server.current) {
+    notify(
+      ctx,
+      "warning",
+      `A lock server is already listening on ${describeServer(server.current)}.`,
+    );
+    return;
+  }
+
+  const listen = address ?? lockServer.listen,
+    target = listen
+      ? parseListenAddress(listen)
+      : { host: "127.0.0.1", port: DEFAULT_MODEL_LOCK_SERVER_PORT };
+  if (!target) {
+    notify(ctx, "error", `Invalid listen address "${listen}". ${USAGE}`);
+    return;
+  }
+
+  try {
+    server.current = await startModelLockServer({
+      ...target,
+      ...(lockServer.token !== undefined ? { token: lockServer.token } : {}),
+    });
+  } catch (err) {
+    notify(
+      ctx,
+      "error",
+      `Failed to start lock server on ${target.host}:${target.port}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+    return;
+  }
+
+  notify(
+    ctx,
+    "info",
+    `Lock server listening on ${describeServer(server.current)}. Set lockServer.url in other instances' config to coordinate through it.`,
+  );
+  if (!server.current.requiresToken && !LOOPBACK_HOSTS.has(target.host)) {
+    notify(
+      ctx,
+      "warning",
+      "The lock server accepts requests from anyone who can reach it. Set lockServer.token to require a token.",
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { formatCooldownDuration } from "./cooldown.js";
+import type {
+  ModelLockCoordinator,
+  ModelLockHolderStatus,
+} from "./model-locks.js";
+import { notify } from "./types.js";
+import { selectWrapped } from "./ui-helpers.js";
+
+const DONE = "Done";
+
+function formatAge(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return seconds < 60 ? `${seconds}s` : formatCooldownDuration(ms);
+}
+
+function describeOwner(status: ModelLockHolderStatus): string {
+  const { holder } = status;
+  if (status.own) return `this instance (pid ${holder.pid})`;
+  // Processes on other hosts cannot be probed
+  return status.pidAlive === undefined
+    ? `${holder.instanceId} (pid ${holder.pid} on ${holder.host})`
+    : `${holder.instanceId} (pid ${holder.pid}, ${status.pidAlive ? "running" : "exited"})`;
+}
+
+/**
+ * Formats one lock holder as a single line, e.g.
+ * `anthropic/opus - 123-abc (pid 4242, running), held 5 minutes, heartbeat 3s ago`.
+ */
+export function formatLockStatus(
+  status: ModelLockHolderStatus,
+  now: number,
+): string {
+  const waiting = status.waiters > 0 ? `, ${status.waiters} waiting` : "",
+    stale = status.stale ? " - stale" : "";
+  return `${status.key} - ${describeOwner(status)}, held ${formatAge(now - status.holder.acquiredAt)}, heartbeat ${formatAge(now - status.holder.heartbeatAt)} ago${waiting}${stale}`;
+}
+
+/**
+ * Formats the recorded lock holders as a plain-text report for notifications.
+ */
+export function formatLockList(
+  statuses: ModelLockHolderStatus[],
+  now: number,
+): string {
+  if (statuses.length === 0) return "No model locks are held.";
+  return [
+    `Model locks (${statuses.length}):`,
+    ...statuses.map((status) => `  ${formatLockStatus(status, now)}`),
+  ].join("\n");
+}
+
+/**
+ * Lists model lock holders and lets the user force-release entries owned by
+ * other instances, after confirmation, until they choose Done. Without a UI,
+ * the list is only reported.
+ * @returns True if any lock was force-released.
+ */
+export async function runLocksCommand(
+  ctx: ExtensionContext,
+  coordinator: ModelLockCoordinator,
+): Promise<boolean> {
+  let statuses = await coordinator.inspectLocks();
+  if (statuses.length === 0 || !ctx.hasUI) {
+    notify(ctx, "info", formatLockList(statuses, Date.now()));
+    return false;
+  }
+
+  let changed = false;
+  while (statuses.length > 0) {
+    const now = Date.now(),
+      options = statuses.map(
+        (status, index) => `${index + 1}. ${formatLockStatus(status, now)}`,
+      ),
+      choice = await selectWrapped(ctx, "Model locks", [...options, DONE]);
+    const status = choice ? statuses[options.indexOf(choice)] : undefined;
+    if (!status) break;
+
+    if (status.own) {
+      notify(
+        ctx,
+        "info",
+        `${status.key} is held by this instance. It is released when this instance switches models or exits.`,
+      );
+      continue;
+    }
+
+    const warning = status.stale
+        ? "Its owner has exited or stopped sending heartbeats."
+        : "Its owner is still running and may keep using the model.",
+      confirmed = await ctx.ui.confirm(
+        `Force-release ${status.key}?`,
+        `Held by ${describeOwner(status)}. ${warning}`,
+      );
+    if (confirmed) {
+      const released = await coordinator.forceRelease(
+        status.key,
+        status.holder.instanceId,
+      );
+      notify(
+        ctx,
+        "info",
+        released
+          ? `Released ${status.key} held by ${status.holder.instanceId}.`
+          : `${status.key} was already released by ${status.holder.instanceId}.`,
+      );
+      changed = changed || released;
+    }
+    statuses = await coordinator.inspectLocks();
+  }
+  return changed;
+}
@@ -0,0 +1,338 @@
+import { timingSafeEqual } from "node:crypto";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  applyModelLockRequest,
+  DEFAULT_MODEL_LOCK_HARD_STALE_MS,
+  DEFAULT_MODEL_LOCK_LEASE_MS,
+  FileModelLockBackend,
+  type ModelLockBackend,
+  type ModelLockLiveness,
+  type ModelLockRequest,
+  type ModelLockResults,
+  type ModelLockSnapshot,
+} from "./model-locks.js";
+import type { LockServerConfig } from "./types.js";
+
+/** Port the lock server listens on when none is given. */
+export const DEFAULT_MODEL_LOCK_SERVER_PORT = 7345;
+
+const DEFAULT_SERVER_HOST = "127.0.0.1",
+  DEFAULT_REQUEST_TIMEOUT_MS = 5_000,
+  MAX_REQUEST_BYTES = 16 * 1024,
+  LOCKS_PATH = "/locks";
+
+/**
+ * Options for a lock server started in this process.
+ */
+export interface ModelLockServerOptions {
+  /** Interface to bind (default: 127.0.0.1). */
+  host?: string;
+  /** Port to bind; 0 picks a free port (default: 7345). */
+  port?: number;
+  /** Bearer token clients must send. Without one, any client is accepted. */
+  token?: string;
+  /**
+   * Rules for reclaiming stale holders. Holders are never probed by pid, so
+   * they are reclaimed once their lease runs out.
+   */
+  liveness?: Partial<Pick<ModelLockLiveness, "leaseMs">>;
+  /** Clock source used for timestamps. */
+  now?: () => number;
+}
+
+/**
+ * A running lock server.
+ */
+export interface ModelLockServer {
+  /** Base URL clients should use, e.g. `http://127.0.0.1:7345`. */
+  url: string;
+  /** Bound interface. */
+  host: string;
+  /** Bound port. */
+  port: number;
+  /** Whether clients must authenticate. */
+  requiresToken: boolean;
+  /** Stops accepting requests and drops all lock state. */
+  close(): Promise<void>;
+}
+
+/**
+ * Options for the client backend talking to a lock server.
+ */
+export interface HttpModelLockBackendOptions {
+  /** Base URL of the lock server. */
+  url: string;
+  /** Bearer token sent with every request. */
+  token?: string;
+  /** Time allowed for one request before it fails (default: 5s). */
+  timeoutMs?: number;
+}
+
+/**
+ * Parses a `port` or `host:port` listen address. IPv6 hosts are written in
+ * brackets, e.g. `[::1]:7345`.
+ * @returns Undefined when the address is malformed.
+ */
+export function parseListenAddress(
+  value: string,
+): { host: string; port: number } | undefined {
+  const match = /^(?:(\[[^\]]+\]|[^:]+):)?(\d{1,5})$/.exec(value.trim());
+  if (!match?.[2]) return undefined;
+  const port = Number(match[2]);
+  if (port > 65_535) return undefined;
+  const host = match[1]?.replace(/^\[(.*)\]$/, "$1") ?? DEFAULT_SERVER_HOST;
+  return { host, port };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function requireString(raw: Record<string, unknown>, field: string): string {
+  const value = raw[field];
+  if (typeof value !== "string" || value === "") {
+    throw new Error(`${field} must be a non-empty string`);
+  }
+  return value;
+}
+
+/**
+ * Validates a lock request received over the network.
+ * @throws Error describing the first invalid field.
+ */
+export function parseModelLockRequest(raw: unknown): ModelLockRequest {
+  if (!isRecord(raw)) throw new Error("request must be a JSON object");
+
+  switch (raw.op) {
+    case "acquire": {
+      const holder = raw.holder;
+      if (!isRecord(holder)) throw new Error("holder must be an object");
+      if (!Number.isInteger(holder.pid)) {
+        throw new Error("holder.pid must be an integer");
+      }
+      if (!Number.isInteger(raw.slots) || (raw.slots as number) < 1) {
+        throw new Error("slots must be a positive integer");
+      }
+      if (typeof raw.queue !== "boolean") {
+        throw new Error("queue must be a boolean");
+      }
+      return {
+        op: "acquire",
+        key: requireString(raw, "key"),
+        holder: {
+          instanceId: requireString(holder, "instanceId"),
+          pid: holder.pid as number,
+          host: requireString(holder, "host"),
+        },
+        slots: raw.slots as number,
+        queue: raw.queue,
+      };
+    }
+    case "refresh":
+    case "release":
+    case "forceRelease":
+      return {
+        op: raw.op,
+        key: requireString(raw, "key"),
+        instanceId: requireString(raw, "instanceId"),
+      };
+    case "releaseAll":
+      return { op: "releaseAll", instanceId: requireString(raw, "instanceId") };
+    case "leaveQueue":
+      return {
+        op: "leaveQueue",
+        instanceId: requireString(raw, "instanceId"),
+        ...(raw.key !== undefined ? { key: requireString(raw, "key") } : {}),
+      };
+    case "snapshot":
+      return { op: "snapshot" };
+    default:
+      throw new Error(`unknown op ${JSON.stringify(raw.op)}`);
+  }
+}
+
+function tokenMatches(header: string | undefined, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`),
+    actual = Buffer.from(header ?? "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_REQUEST_BYTES) {
+        // Keep draining so the 413 response can still be delivered
+        reject(new Error("request body too large"));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    request.on("error", reject);
+  });
+}
+
+function sendJson(
+  response: http.ServerResponse,
+  status: number,
+  body: unknown,
+): void {
+  response.writeHead(status, { "content-type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Starts an HTTP lock server holding lock state in memory. Clients send one
+ * JSON {@link ModelLockRequest} per `POST /locks` and receive
+ * `{ "result": ... }`, with the same lease and queue rules as the lock file.
+ * Holders are never probed by pid, even when they report the server's host
+ * name, since a dev container can share it while running in its own pid
+ * namespace. They are reclaimed once their lease runs out.
+ */
+export function startModelLockServer(
+  options: ModelLockServerOptions = {},
+): Promise<ModelLockServer> {
+  const host = options.host ?? DEFAULT_SERVER_HOST,
+    token = options.token,
+    now = options.now ?? Date.now,
+    // Without isPidAlive, holders are judged by heartbeat and lease alone
+    liveness: ModelLockLiveness = {
+      leaseMs: options.liveness?.leaseMs ?? DEFAULT_MODEL_LOCK_LEASE_MS,
+      hardStaleMs: DEFAULT_MODEL_LOCK_HARD_STALE_MS,
+    },
+    state: ModelLockSnapshot = { locks: {}, waiters: {} };
+
+  const server = http.createServer((request, response) => {
+    if (request.url !== LOCKS_PATH) {
+      sendJson(response, 404, { error: "not found" });
+      return;
+    }
+    if (request.method !== "POST") {
+      sendJson(response, 405, { error: "method not allowed" });
+      return;
+    }
+    if (
+      token !== undefined &&
+      !tokenMatches(request.headers.authorization, token)
+    ) {
+      sendJson(response, 401, { error: "invalid or missing token" });
+      return;
+    }
+
+    readBody(request).then(
+      (body) => {
+        let lockRequest: ModelLockRequest;
+        try {
+          lockRequest = parseModelLockRequest(JSON.parse(body));
+        } catch (error) {
+          sendJson(response, 400, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return;
+        }
+        // Requests are applied synchronously, so each one is atomic
+        const result = applyModelLockRequest(
+          state,
+          lockRequest,
+          now(),
+          liveness,
+        );
+        sendJson(response, 200, { result });
+      },
+      (error: unknown) => {
+        sendJson(response, 413, { error: String(error) });
+      },
+    );
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? DEFAULT_MODEL_LOCK_SERVER_PORT, host, () => {
+      server.off("error", reject);
+      const address = server.address() as AddressInfo,
+        urlHost =
+          address.family === "IPv6" ? `[${address.address}]` : address.address;
+      resolve({
+        url: `http://${urlHost}:${address.port}`,
+        host: address.address,
+        port: address.port,
+        requiresToken: token !== undefined,
+        close: () =>
+          new Promise<void>((resolveClose, rejectClose) => {
+            server.close((error) =>
+              error ? rejectClose(error) : resolveClose(),
+            );
+            server.closeAllConnections();
+          }),
+      });
+    });
+  });
+}
+
+/**
+ * Lock store on a {@link startModelLockServer} server, shared by every
+ * instance that can reach it over the network.
+ */
+export class HttpModelLockBackend implements ModelLockBackend {
+  readonly remote = true;
+  private readonly endpoint: string;
+  private readonly token: string | undefined;
+  private readonly timeoutMs: number;
+
+  /**
+   * Creates a client for the server at `options.url`.
+   */
+  constructor(options: HttpModelLockBackendOptions) {
+    this.endpoint = `${options.url.replace(/\/+$/, "")}${LOCKS_PATH}`;
+    this.token = options.token;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  }
+
+  /**
+   * Sends one lock operation to the server.
+   * @throws Error when the server is unreachable or rejects the request.
+   */
+  async execute<R extends ModelLockRequest>(
+    request: R,
+  ): Promise<ModelLockResults[R["op"]]> {
+    const response = await fetch(this.endpoint, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          ...(this.token !== undefined
+            ? { authorization: `Bearer ${this.token}` }
+            : {}),
+        },
+        body: JSON.stringify(request),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      }),
+      body = (await response.json().catch(() => ({}))) as {
+        result?: ModelLockResults[R["op"]];
+        error?: string;
+      };
+    if (!response.ok || body.result === undefined) {
+      throw new Error(
+        `Lock server ${this.endpoint} rejected ${request.op}: ${body.error ?? `HTTP ${response.status}`}`,
+      );
+    }
+    return body.result;
+  }
+}
+
+/**
+ * Creates the backend selected by the `lockServer` config: the lock server at
+ * `lockServer.url` when set, otherwise the shared lock file.
+ */
+export function createModelLockBackend(
+  lockServer?: LockServerConfig,
+): ModelLockBackend {
+  if (!lockServer?.url) return new FileModelLockBackend();
+  return new HttpModelLockBackend({
+    url: lockServer.url,
+    ...(lockServer.token !== undefined ? { token: lockServer.token } : {}),
+  });
+}
@@ -3,24 +3,66 @@ import type { FileHandle } from "node:fs/promises";
 import * as os from "node:os";
 import * as path from "node:path";
 import { EXTENSION_DIR } from "./adapter.js";
+import type { LoadedConfig, MappingEntry } from "./types.js";
 
 /**
- * Persisted owner record for a locked provider/model pair.
+ * Persisted holder record for one slot of a locked provider/model pair.
  */
 export interface ModelLockEntry {
   /** Unique coordinator instance that owns the lock. */
   instanceId: string;
   /** Process id for the owning coordinator. */
   pid: number;
+  /** Host the owner runs on; absent in entries written by older versions. */
+  host?: string;
   /** Timestamp when the lock was first acquired. */
   acquiredAt: number;
   /** Timestamp of the owner's latest heartbeat. */
   heartbeatAt: number;
 }
 
+/**
+ * Persisted record for an instance queued behind a fully held model lock.
+ */
+export interface ModelLockWaiter {
+  /** Coordinator instance waiting for a slot. */
+  instanceId: string;
+  /** Process id for the waiting coordinator. */
+  pid: number;
+  /** Host the waiter runs on; absent in entries written by older versions. */
+  host?: string;
+  /** Timestamp when the instance joined the queue. */
+  enqueuedAt: number;
+  /** Timestamp of the waiter's latest acquisition attempt. */
+  heartbeatAt: number;
+}
+
+/**
+ * One lock holder as shown by /model-locks, including entries that the next
+ * state change would reclaim.
+ */
+export interface ModelLockHolderStatus {
+  /** Lock key in `provider/model` form. */
+  key: string;
+  /** Recorded holder of one of the key's slots. */
+  holder: ModelLockEntry;
+  /**
+   * Whether the holder's process is still running. Undefined for holders on
+   * other hosts, whose processes cannot be probed.
+   */
+  pidAlive?: boolean;
+  /** Whether the holder is the inspecting coordinator itself. */
+  own: boolean;
+  /** Whether the holder's process exited or its heartbeat is too old. */
+  stale: boolean;
+  /** Number of instances queued for the key. */
+  waiters: number;
+}
+
 interface ModelLockState {
-  version: 1;
-  locks: Record<string, ModelLockEntry>;
+  version: 2;
+  locks: Record<string, ModelLockEntry[]>;
+  waiters: Record<string, ModelLockWaiter[]>;
 }
 
 /**
@@ -31,6 +73,14 @@ export interface AcquireModelLockOptions {
   timeoutMs?: number;
   /** Delay between acquisition attempts while waiting. */
   pollMs?: number;
+  /** Number of instances that may hold the lock at once (default: 1). */
+  slots?: number;
+  /**
+   * Keep a place in the key's waiter queue after a failed attempt. Implied
+   * while waiting with a timeout; callers polling with `timeoutMs: 0` must
+   * call `leaveQueue` once they stop waiting.
+   */
+  queue?: boolean;
 }
 
 /**
@@ -41,20 +91,28 @@ export interface AcquireModelLockResult {
   acquired: boolean;
   /** Elapsed time spent attempting to acquire the lock. */
   waitedMs: number;
-  /** Current owner when acquisition failed because another instance holds it. */
+  /** Longest-standing holder when acquisition failed because every slot is taken. */
   heldBy?: ModelLockEntry;
+  /** All holders when acquisition failed because every slot is taken. */
+  holders?: ModelLockEntry[];
+  /** 1-based place in the key's waiter queue when the attempt was queued. */
+  queuePosition?: number;
 }
 
 /**
  * Dependency and timing overrides for model lock coordination.
  */
 export interface ModelLockCoordinatorOptions {
+  /** Lock store to use instead of the shared state file. */
+  backend?: ModelLockBackend;
   /** Path to the shared model-lock state file. */
   statePath?: string;
   /** Stable id for this coordinator instance. */
   instanceId?: string;
   /** Process id recorded for locks owned by this coordinator. */
   pid?: number;
+  /** Host name recorded for locks owned by this coordinator. */
+  host?: string;
   /** Heartbeat age allowed before a lock can be considered stale. */
   leaseMs?: number;
   /** Maximum heartbeat age before a live owner is forcefully reclaimed. */
@@ -80,9 +138,13 @@ export const MODEL_LOCK_STATE_PATH = path.join(
   "model-selector-model-locks.json",
 );
 
-const DEFAULT_LEASE_MS = 15_000,
-  DEFAULT_HARD_STALE_MS = 5 * 60_000,
-  DEFAULT_STATE_LOCK_TIMEOUT_MS = 5_000,
+/** Heartbeat age allowed before a lock can be considered stale, by default. */
+export const DEFAULT_MODEL_LOCK_LEASE_MS = 15_000;
+
+/** Maximum heartbeat age before a live owner is reclaimed, by default. */
+export const DEFAULT_MODEL_LOCK_HARD_STALE_MS = 5 * 60_000;
+
+const DEFAULT_STATE_LOCK_TIMEOUT_MS = 5_000,
   DEFAULT_STATE_LOCK_POLL_MS = 25,
   DEFAULT_STATE_LOCK_STALE_MS = 10_000,
   DEFAULT_ACQUIRE_POLL_MS = 1_250;
@@ -107,41 +169,96 @@ function defaultIsPidAlive(pid: number): boolean {
   }
 }
 
+function sanitizeEntry(value: unknown): ModelLockEntry | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const entry = value as Partial<ModelLockEntry>;
+  if (
+    typeof entry.instanceId !== "string" ||
+    typeof entry.pid !== "number" ||
+    typeof entry.acquiredAt !== "number" ||
+    typeof entry.heartbeatAt !== "number"
+  ) {
+    return undefined;
+  }
+  return {
+    instanceId: entry.instanceId,
+    pid: entry.pid,
+    ...(typeof entry.host === "string" ? { host: entry.host } : {}),
+    acquiredAt: entry.acquiredAt,
+    heartbeatAt: entry.heartbeatAt,
+  };
+}
+
+function sanitizeWaiter(value: unknown): ModelLockWaiter | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const waiter = value as Partial<ModelLockWaiter>;
+  if (
+    typeof waiter.instanceId !== "string" ||
+    typeof waiter.pid !== "number" ||
+    typeof waiter.enqueuedAt !== "number" ||
+    typeof waiter.heartbeatAt !== "number"
+  ) {
+    return undefined;
+  }
+  return {
+    instanceId: waiter.instanceId,
+    pid: waiter.pid,
+    ...(typeof waiter.host === "string" ? { host: waiter.host } : {}),
+    enqueuedAt: waiter.enqueuedAt,
+    heartbeatAt: waiter.heartbeatAt,
+  };
+}
+
+function emptyState(): ModelLockState {
+  return { version: 2, locks: {}, waiters: {} };
+}
+
 function sanitizeState(raw: unknown): ModelLockState {
   if (!raw || typeof raw !== "object") {
-    return { version: 1, locks: {} };
+    return emptyState();
   }
 
   const parsed = raw as {
       version?: unknown;
       locks?: unknown;
+      waiters?: unknown;
     },
     sourceLocks =
-      parsed.version === 1 && parsed.locks && typeof parsed.locks === "object"
+      (parsed.version === 1 || parsed.version === 2) &&
+      parsed.locks &&
+      typeof parsed.locks === "object"
         ? (parsed.locks as Record<string, unknown>)
         : {},
-    locks: Record<string, ModelLockEntry> = {};
+    locks: Record<string, ModelLockEntry[]> = {};
 
   for (const [key, value] of Object.entries(sourceLocks)) {
-    if (!value || typeof value !== "object") continue;
-    const entry = value as Partial<ModelLockEntry>;
-    if (
-      typeof entry.instanceId !== "string" ||
-      typeof entry.pid !== "number" ||
-      typeof entry.acquiredAt !== "number" ||
-      typeof entry.heartbeatAt !== "number"
-    ) {
-      continue;
+    // Version 1 files store a single holder per key
+    const holders = (Array.isArray(value) ? value : [value])
+      .map(sanitizeEntry)
+      .filter((entry): entry is ModelLockEntry => entry !== undefined);
+    if (holders.length > 0) {
+      locks[key] = holders;
+    }
+  }
+
+  const sourceWaiters =
+      parsed.version === 2 &&
+      parsed.waiters &&
+      typeof parsed.waiters === "object"
+        ? (parsed.waiters as Record<string, unknown>)
+        : {},
+    waiters: Record<string, ModelLockWaiter[]> = {};
+  for (const [key, value] of Object.entries(sourceWaiters)) {
+    if (!Array.isArray(value)) continue;
+    const queue = value
+      .map(sanitizeWaiter)
+      .filter((waiter): waiter is ModelLockWaiter => waiter !== undefined);
+    if (queue.length > 0) {
+      waiters[key] = queue;
     }
-    locks[key] = {
-      instanceId: entry.instanceId,
-      pid: entry.pid,
-      acquiredAt: entry.acquiredAt,
-      heartbeatAt: entry.heartbeatAt,
-    };
   }
 
-  return { version: 1, locks };
+  return { version: 2, locks, waiters };
 }
 
 /**
@@ -152,154 +269,456 @@ export function modelLockKey(provider: string, modelId: string): string {
 }
 
 /**
- * Coordinates file-backed model locks across concurrent Pi instances.
+ * Resolves how many instances may hold a model's lock at once. The given
+ * mapping's `model.concurrency` wins, then the first mapping targeting the same
+ * model with a concurrency; otherwise `lockConcurrency` is checked for the
+ * `provider/model` key, the mapping's usage provider and the model provider.
  */
-export class ModelLockCoordinator {
-  private readonly statePath: string;
-  private readonly stateLockPath: string;
-  private readonly instanceId: string;
-  private readonly pid: number;
-  private readonly leaseMs: number;
-  private readonly hardStaleMs: number;
-  private readonly stateLockTimeoutMs: number;
-  private readonly stateLockPollMs: number;
-  private readonly stateLockStaleMs: number;
-  private readonly isPidAlive: (pid: number) => boolean;
-  private readonly now: () => number;
-  private readonly sleep: (ms: number) => Promise<void>;
+export function resolveModelLockSlots(
+  config: Pick<LoadedConfig, "mappings" | "lockConcurrency">,
+  provider: string,
+  modelId: string,
+  mapping?: MappingEntry,
+): number {
+  const mapped =
+    mapping?.model?.concurrency ??
+    config.mappings.find(
+      (entry) =>
+        entry.model?.provider === provider &&
+        entry.model.id === modelId &&
+        entry.model.concurrency !== undefined,
+    )?.model?.concurrency;
+  if (mapped !== undefined) return mapped;
+
+  const table = config.lockConcurrency ?? {};
+  return (
+    table[modelLockKey(provider, modelId)] ??
+    (mapping ? table[mapping.usage.provider] : undefined) ??
+    table[provider] ??
+    1
+  );
+}
 
+/**
+ * Process identity a backend records for a lock holder or waiter.
+ */
+export interface ModelLockIdentity {
+  /** Unique coordinator instance. */
+  instanceId: string;
+  /** Process id of the coordinator. */
+  pid: number;
+  /** Host the coordinator runs on. */
+  host: string;
+}
+
+/**
+ * Serializable lock operation sent to a {@link ModelLockBackend}.
+ */
+export type ModelLockRequest =
+  | {
+      op: "acquire";
+      key: string;
+      holder: ModelLockIdentity;
+      slots: number;
+      queue: boolean;
+    }
+  | { op: "refresh"; key: string; instanceId: string }
+  | { op: "release"; key: string; instanceId: string }
+  | { op: "releaseAll"; instanceId: string }
+  | { op: "leaveQueue"; instanceId: string; key?: string }
+  | { op: "forceRelease"; key: string; instanceId: string }
+  | { op: "snapshot" };
+
+/**
+ * Outcome of a single acquisition attempt on a backend.
+ */
+export interface ModelLockAttempt {
+  /** Whether the requester now holds a slot. */
+  acquired: boolean;
+  /** Holders of every slot when the attempt failed. */
+  holders: ModelLockEntry[];
+  /** 1-based place in the waiter queue when the attempt was queued. */
+  queuePosition?: number;
+}
+
+/**
+ * Every recorded holder and waiter, stale ones included.
+ */
+export interface ModelLockSnapshot {
+  locks: Record<string, ModelLockEntry[]>;
+  waiters: Record<string, ModelLockWaiter[]>;
+}
+
+/**
+ * Result type of each {@link ModelLockRequest} operation.
+ */
+export interface ModelLockResults {
+  acquire: ModelLockAttempt;
+  refresh: boolean;
+  release: boolean;
+  releaseAll: number;
+  leaveQueue: number;
+  forceRelease: boolean;
+  snapshot: ModelLockSnapshot;
+}
+
+/**
+ * Storage for shared lock state. Each request is applied atomically; the file
+ * backend serializes through a state-file lock, the HTTP backend through the
+ * lock server.
+ */
+export interface ModelLockBackend {
   /**
-   * Creates a coordinator with production defaults or test overrides.
+   * Whether holders reach the store over the network. Their pids may belong to
+   * another pid namespace, such as a dev container, so only heartbeats and
+   * leases decide whether they are live.
    */
-  constructor(options: ModelLockCoordinatorOptions = {}) {
-    this.statePath = options.statePath ?? MODEL_LOCK_STATE_PATH;
-    this.stateLockPath = `${this.statePath}.lock`;
-    this.instanceId =
-      options.instanceId ??
-      `${process.pid}-${Math.random().toString(36).slice(2)}-${Date.now().toString(36)}`;
-    this.pid = options.pid ?? process.pid;
-    this.leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
-    this.hardStaleMs = options.hardStaleMs ?? DEFAULT_HARD_STALE_MS;
-    this.stateLockTimeoutMs =
-      options.stateLockTimeoutMs ?? DEFAULT_STATE_LOCK_TIMEOUT_MS;
-    this.stateLockPollMs =
-      options.stateLockPollMs ?? DEFAULT_STATE_LOCK_POLL_MS;
-    this.stateLockStaleMs =
-      options.stateLockStaleMs ?? DEFAULT_STATE_LOCK_STALE_MS;
-    this.isPidAlive = options.isPidAlive ?? defaultIsPidAlive;
-    this.now = options.now ?? defaultNow;
-    this.sleep = options.sleep ?? defaultSleep;
-  }
+  readonly remote?: boolean;
+  /** Applies one lock operation and returns its result. */
+  execute<R extends ModelLockRequest>(
+    request: R,
+  ): Promise<ModelLockResults[R["op"]]>;
+}
 
+/**
+ * Rules for deciding whether a recorded holder or waiter is still live.
+ */
+export interface ModelLockLiveness {
+  /** Heartbeat age allowed before a lock can be considered stale. */
+  leaseMs: number;
+  /** Maximum heartbeat age before a live owner is forcefully reclaimed. */
+  hardStaleMs: number;
   /**
-   * Attempts to acquire exclusive ownership of a model lock.
+   * Process liveness probe, only used for entries recorded on `host`. Without
+   * it, holders are judged by heartbeat and lease alone.
    */
-  async acquire(
-    key: string,
-    options: AcquireModelLockOptions = {},
-  ): Promise<AcquireModelLockResult> {
-    const timeoutMs = Math.max(0, options.timeoutMs ?? 0),
-      pollMs = Math.max(10, options.pollMs ?? DEFAULT_ACQUIRE_POLL_MS),
-      startedAt = this.now();
+  isPidAlive?: (pid: number) => boolean;
+  /** Host whose processes `isPidAlive` can probe (default: this machine). */
+  host?: string;
+}
 
-    let heldBy: ModelLockEntry | undefined;
+let cachedHostName: string | undefined;
 
-    while (true) {
-      const attempt = await this.withStateMutation((state) => {
-        const existing = state.locks[key];
-
-        if (!existing || existing.instanceId === this.instanceId) {
-          const now = this.now();
-          state.locks[key] = {
-            instanceId: this.instanceId,
-            pid: this.pid,
-            acquiredAt: existing?.acquiredAt ?? now,
-            heartbeatAt: now,
-          };
-          return { acquired: true } as const;
-        }
+function localHostName(): string {
+  cachedHostName ??= os.hostname();
+  return cachedHostName;
+}
 
-        return { acquired: false, heldBy: existing } as const;
-      });
+// Returns whether the entry's process is running, or undefined when it cannot
+// be probed from here
+function probeEntryPid(
+  entry: { host?: string; pid: number },
+  liveness: ModelLockLiveness,
+): boolean | undefined {
+  if (!liveness.isPidAlive) return undefined;
+  // Entries written before hosts were recorded come from this machine
+  const local =
+    entry.host === undefined ||
+    entry.host === (liveness.host ?? localHostName());
+  return local ? liveness.isPidAlive(entry.pid) : undefined;
+}
 
-      if (attempt.acquired) {
-        return {
-          acquired: true,
-          waitedMs: this.now() - startedAt,
-        };
-      }
+// Liveness rules for holders that reach a store over the network
+function withoutPidProbe(liveness: ModelLockLiveness): ModelLockLiveness {
+  const { isPidAlive: _probe, host: _host, ...rules } = liveness;
+  return rules;
+}
+
+/**
+ * Returns whether a holder keeps its slot. The requester's own entries always
+ * do. Holders on this host are reclaimed as soon as their process exits;
+ * holders on other hosts cannot be probed and are reclaimed once their lease
+ * runs out.
+ */
+export function isLiveModelLockHolder(
+  entry: ModelLockEntry,
+  now: number,
+  requesterId: string | undefined,
+  liveness: ModelLockLiveness,
+): boolean {
+  if (entry.instanceId === requesterId) return true;
 
-      heldBy = attempt.heldBy;
+  // Reclaim immediately if the owning process is gone, even when the
+  // heartbeat is still fresh. This avoids short-lived invocations (e.g.
+  // wrapper scripts spawning `pi` repeatedly) blocking follow-up runs for
+  // an entire lease interval.
+  const alive = probeEntryPid(entry, liveness);
+  if (alive === false) return false;
 
-      if (timeoutMs === 0 || this.now() - startedAt >= timeoutMs) {
-        return {
-          acquired: false,
-          waitedMs: this.now() - startedAt,
-          heldBy,
-        };
-      }
+  // Keep live owners through the normal lease window.
+  const heartbeatAge = now - entry.heartbeatAt;
+  if (heartbeatAge <= liveness.leaseMs) return true;
 
-      const remainingMs = timeoutMs - (this.now() - startedAt);
-      await this.sleep(Math.min(pollMs, Math.max(10, remainingMs)));
+  // If a live owner stops heartbeating for too long, force cleanup.
+  return alive === true && heartbeatAge <= liveness.hardStaleMs;
+}
+
+function pruneStaleEntries(
+  state: ModelLockSnapshot,
+  now: number,
+  requesterId: string | undefined,
+  liveness: ModelLockLiveness,
+): void {
+  for (const [key, holders] of Object.entries(state.locks)) {
+    const live = holders.filter((entry) =>
+      isLiveModelLockHolder(entry, now, requesterId, liveness),
+    );
+    if (live.length > 0) {
+      state.locks[key] = live;
+    } else {
+      delete state.locks[key];
     }
   }
 
-  /**
-   * Updates this coordinator's heartbeat for a lock it already owns.
-   */
-  async refresh(key: string): Promise<boolean> {
-    return this.withStateMutation((state) => {
-      const existing = state.locks[key];
-      if (!existing || existing.instanceId !== this.instanceId) {
-        return false;
+  // Waiters retry every poll interval, so one that has not retried within a
+  // lease has stopped waiting without leaving the queue.
+  for (const [key, queue] of Object.entries(state.waiters)) {
+    const live = queue.filter(
+      (waiter) =>
+        waiter.instanceId === requesterId ||
+        (probeEntryPid(waiter, liveness) !== false &&
+          now - waiter.heartbeatAt <= liveness.leaseMs),
+    );
+    if (live.length > 0) {
+      state.waiters[key] = live;
+    } else {
+      delete state.waiters[key];
+    }
+  }
+}
+
+function removeHolder(
+  state: ModelLockSnapshot,
+  key: string,
+  instanceId: string,
+): number {
+  const existing = state.locks[key] ?? [],
+    remaining = existing.filter((entry) => entry.instanceId !== instanceId);
+  if (remaining.length > 0) {
+    state.locks[key] = remaining;
+  } else {
+    delete state.locks[key];
+  }
+  return existing.length - remaining.length;
+}
+
+function removeWaiter(
+  state: ModelLockSnapshot,
+  key: string,
+  instanceId: string,
+): number {
+  const queue = state.waiters[key] ?? [],
+    remaining = queue.filter((waiter) => waiter.instanceId !== instanceId);
+  if (remaining.length > 0) {
+    state.waiters[key] = remaining;
+  } else {
+    delete state.waiters[key];
+  }
+  return queue.length - remaining.length;
+}
+
+function applyAcquire(
+  state: ModelLockSnapshot,
+  request: Extract<ModelLockRequest, { op: "acquire" }>,
+  now: number,
+): ModelLockAttempt {
+  const { key, holder } = request,
+    existing = state.locks[key] ?? [],
+    own = existing.find((entry) => entry.instanceId === holder.instanceId);
+
+  if (own) {
+    own.heartbeatAt = now;
+    removeWaiter(state, key, holder.instanceId);
+    return { acquired: true, holders: [] };
+  }
+
+  // A free slot goes to queued waiters first, so an attempt only succeeds
+  // when there are more free slots than waiters ahead of the requester.
+  const waiters = state.waiters[key] ?? [],
+    ownIndex = waiters.findIndex(
+      (waiter) => waiter.instanceId === holder.instanceId,
+    ),
+    ahead = ownIndex === -1 ? waiters.length : ownIndex;
+  if (existing.length + ahead < request.slots) {
+    removeWaiter(state, key, holder.instanceId);
+    state.locks[key] = [
+      ...existing,
+      { ...holder, acquiredAt: now, heartbeatAt: now },
+    ];
+    return { acquired: true, holders: [] };
+  }
+
+  if (!request.queue) {
+    return { acquired: false, holders: existing };
+  }
+  const ownWaiter = waiters[ownIndex];
+  if (ownWaiter) {
+    ownWaiter.heartbeatAt = now;
+  } else {
+    state.waiters[key] = [
+      ...waiters,
+      { ...holder, enqueuedAt: now, heartbeatAt: now },
+    ];
+  }
+  return { acquired: false, holders: existing, queuePosition: ahead + 1 };
+}
+
+/**
+ * Applies one lock operation to in-memory state. Stale holders and waiters
+ * are pruned first, except for `forceRelease` and `snapshot`, which see the
+ * state exactly as recorded.
+ */
+export function applyModelLockRequest<R extends ModelLockRequest>(
+  state: ModelLockSnapshot,
+  request: R,
+  now: number,
+  liveness: ModelLockLiveness,
+): ModelLockResults[R["op"]];
+export function applyModelLockRequest(
+  state: ModelLockSnapshot,
+  request: ModelLockRequest,
+  now: number,
+  liveness: ModelLockLiveness,
+): ModelLockResults[ModelLockRequest["op"]] {
+  switch (request.op) {
+    case "snapshot":
+      return structuredClone(state);
+    case "forceRelease":
+      return removeHolder(state, request.key, request.instanceId) > 0;
+    case "acquire":
+      pruneStaleEntries(state, now, request.holder.instanceId, liveness);
+      return applyAcquire(state, request, now);
+    default:
+      break;
+  }
+
+  pruneStaleEntries(state, now, request.instanceId, liveness);
+  switch (request.op) {
+    case "refresh": {
+      const own = state.locks[request.key]?.find(
+        (entry) => entry.instanceId === request.instanceId,
+      );
+      if (own) {
+        own.heartbeatAt = now;
       }
-      existing.heartbeatAt = this.now();
-      state.locks[key] = existing;
-      return true;
-    });
+      return own !== undefined;
+    }
+    case "release":
+      return removeHolder(state, request.key, request.instanceId) > 0;
+    case "leaveQueue": {
+      let removed = 0;
+      for (const key of request.key === undefined
+        ? Object.keys(state.waiters)
+        : [request.key]) {
+        removed += removeWaiter(state, key, request.instanceId);
+      }
+      return removed;
+    }
+    case "releaseAll": {
+      let released = 0;
+      for (const key of Object.keys(state.locks)) {
+        released += removeHolder(state, key, request.instanceId);
+      }
+      for (const key of Object.keys(state.waiters)) {
+        removeWaiter(state, key, request.instanceId);
+      }
+      return released;
+    }
   }
+}
+
+/**
+ * Options for the file-backed lock store shared through the home directory.
+ */
+export interface FileModelLockBackendOptions {
+  /** Path to the shared model-lock state file. */
+  statePath?: string;
+  /** Maximum time to wait for exclusive access to the state file. */
+  stateLockTimeoutMs?: number;
+  /** Delay between state-file lock acquisition attempts. */
+  stateLockPollMs?: number;
+  /** Age after which a stale state-file lock can be removed. */
+  stateLockStaleMs?: number;
+  /** Rules for reclaiming stale holders. */
+  liveness?: Partial<ModelLockLiveness>;
+  /** Clock source used for timestamps. */
+  now?: () => number;
+  /** Sleep function used while waiting for the state-file lock. */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Fills unset liveness rules with the defaults used by the lock file.
+ */
+export function resolveModelLockLiveness(
+  liveness: Partial<ModelLockLiveness> = {},
+): ModelLockLiveness {
+  return {
+    leaseMs: liveness.leaseMs ?? DEFAULT_MODEL_LOCK_LEASE_MS,
+    hardStaleMs: liveness.hardStaleMs ?? DEFAULT_MODEL_LOCK_HARD_STALE_MS,
+    isPidAlive: liveness.isPidAlive ?? defaultIsPidAlive,
+    ...(liveness.host !== undefined ? { host: liveness.host } : {}),
+  };
+}
+
+/**
+ * Lock store kept in a JSON file that every instance on the machine shares.
+ */
+export class FileModelLockBackend implements ModelLockBackend {
+  private readonly statePath: string;
+  private readonly stateLockPath: string;
+  private readonly stateLockTimeoutMs: number;
+  private readonly stateLockPollMs: number;
+  private readonly stateLockStaleMs: number;
+  private readonly liveness: ModelLockLiveness;
+  private readonly now: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
 
   /**
-   * Releases a lock only when it is owned by this coordinator.
+   * Creates a file backend with production defaults or test overrides.
    */
-  async release(key: string): Promise<boolean> {
-    return this.withStateMutation((state) => {
-      const existing = state.locks[key];
-      if (!existing || existing.instanceId !== this.instanceId) {
-        return false;
-      }
-      delete state.locks[key];
-      return true;
-    });
+  constructor(options: FileModelLockBackendOptions = {}) {
+    this.statePath = options.statePath ?? MODEL_LOCK_STATE_PATH;
+    this.stateLockPath = `${this.statePath}.lock`;
+    this.stateLockTimeoutMs =
+      options.stateLockTimeoutMs ?? DEFAULT_STATE_LOCK_TIMEOUT_MS;
+    this.stateLockPollMs =
+      options.stateLockPollMs ?? DEFAULT_STATE_LOCK_POLL_MS;
+    this.stateLockStaleMs =
+      options.stateLockStaleMs ?? DEFAULT_STATE_LOCK_STALE_MS;
+    this.liveness = resolveModelLockLiveness(options.liveness);
+    this.now = options.now ?? defaultNow;
+    this.sleep = options.sleep ?? defaultSleep;
   }
 
   /**
-   * Releases every lock owned by this coordinator and returns the count.
+   * Applies a lock operation under the state-file lock. Snapshots read the
+   * file without locking it.
    */
-  async releaseAll(): Promise<number> {
-    return this.withStateMutation((state) => {
-      let released = 0;
-      for (const [key, entry] of Object.entries(state.locks)) {
-        if (entry.instanceId === this.instanceId) {
-          delete state.locks[key];
-          released += 1;
-        }
-      }
-      return released;
-    });
-  }
+  async execute<R extends ModelLockRequest>(
+    request: R,
+  ): Promise<ModelLockResults[R["op"]]> {
+    if (request.op === "snapshot") {
+      return applyModelLockRequest(
+        await this.readState(),
+        request,
+        this.now(),
+        this.liveness,
+      );
+    }
 
-  private async withStateMutation<T>(
-    mutate: (state: ModelLockState) => T,
-  ): Promise<T> {
     await fs.promises.mkdir(path.dirname(this.statePath), { recursive: true });
     const fileHandle = await this.acquireStateLock();
 
     try {
       const state = await this.readState();
       const before = JSON.stringify(state);
-      this.pruneStaleLocks(state);
-      const result = mutate(state);
+      const result = applyModelLockRequest(
+        state,
+        request,
+        this.now(),
+        this.liveness,
+      );
       const after = JSON.stringify(state);
       // Only write if state actually changed to avoid unnecessary disk churn
       if (before !== after) {
@@ -311,21 +730,23 @@ export class ModelLockCoordinator {
     }
   }
 
-  private async readState(): Promise<ModelLockState> {
+  private async readState(): Promise<ModelLockSnapshot> {
     try {
-      const raw = await fs.promises.readFile(this.statePath, "utf-8");
-      return sanitizeState(JSON.parse(raw));
+      const raw = await fs.promises.readFile(this.statePath, "utf-8"),
+        { locks, waiters } = sanitizeState(JSON.parse(raw));
+      return { locks, waiters };
     } catch {
-      return { version: 1, locks: {} };
+      return { locks: {}, waiters: {} };
     }
   }
 
-  private async writeState(state: ModelLockState): Promise<void> {
-    const tempPath = `${this.statePath}.tmp.${Math.random().toString(36).slice(2)}`;
+  private async writeState(state: ModelLockSnapshot): Promise<void> {
+    const tempPath = `${this.statePath}.tmp.${Math.random().toString(36).slice(2)}`,
+      file: ModelLockState = { version: 2, ...state };
     try {
       await fs.promises.writeFile(
         tempPath,
-        JSON.stringify(state, null, 2),
+        JSON.stringify(file, null, 2),
         "utf-8",
       );
       await fs.promises.rename(tempPath, this.statePath);
@@ -339,33 +760,6 @@ export class ModelLockCoordinator {
     }
   }
 
-  private pruneStaleLocks(state: ModelLockState): void {
-    const now = this.now();
-
-    for (const [key, entry] of Object.entries(state.locks)) {
-      if (entry.instanceId === this.instanceId) continue;
-
-      const heartbeatAge = now - entry.heartbeatAt;
-
-      // Reclaim immediately if the owning process is gone, even when the
-      // heartbeat is still fresh. This avoids short-lived invocations (e.g.
-      // wrapper scripts spawning `pi` repeatedly) blocking follow-up runs for
-      // an entire lease interval.
-      if (!this.isPidAlive(entry.pid)) {
-        delete state.locks[key];
-        continue;
-      }
-
-      // Keep live owners through the normal lease window.
-      if (heartbeatAge <= this.leaseMs) continue;
-
-      // If a live owner stops heartbeating for too long, force cleanup.
-      if (heartbeatAge > this.hardStaleMs) {
-        delete state.locks[key];
-      }
-    }
-  }
-
   private async acquireStateLock(): Promise<FileHandle> {
     const startedAt = this.now();
 
@@ -412,6 +806,224 @@ export class ModelLockCoordinator {
   }
 }
 
+/**
+ * Coordinates model locks across concurrent Pi instances through a pluggable
+ * backend, the shared lock file by default. Each key holds up to the requested
+ * number of slots, one per instance. Instances waiting for a fully held key
+ * queue up and are served in arrival order.
+ */
+export class ModelLockCoordinator {
+  private backend: ModelLockBackend;
+  private readonly instanceId: string;
+  private readonly pid: number;
+  private readonly host: string | undefined;
+  private readonly liveness: ModelLockLiveness;
+  private readonly now: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  /**
+   * Creates a coordinator with production defaults or test overrides.
+   */
+  constructor(options: ModelLockCoordinatorOptions = {}) {
+    this.instanceId =
+      options.instanceId ??
+      `${process.pid}-${Math.random().toString(36).slice(2)}-${Date.now().toString(36)}`;
+    this.pid = options.pid ?? process.pid;
+    this.host = options.host;
+    this.liveness = resolveModelLockLiveness({
+      ...(options.leaseMs !== undefined ? { leaseMs: options.leaseMs } : {}),
+      ...(options.hardStaleMs !== undefined
+        ? { hardStaleMs: options.hardStaleMs }
+        : {}),
+      ...(options.isPidAlive ? { isPidAlive: options.isPidAlive } : {}),
+      ...(options.host !== undefined ? { host: options.host } : {}),
+    });
+    this.now = options.now ?? defaultNow;
+    this.sleep = options.sleep ?? defaultSleep;
+    this.backend =
+      options.backend ??
+      new FileModelLockBackend({
+        ...(options.statePath !== undefined
+          ? { statePath: options.statePath }
+          : {}),
+        ...(options.stateLockTimeoutMs !== undefined
+          ? { stateLockTimeoutMs: options.stateLockTimeoutMs }
+          : {}),
+        ...(options.stateLockPollMs !== undefined
+          ? { stateLockPollMs: options.stateLockPollMs }
+          : {}),
+        ...(options.stateLockStaleMs !== undefined
+          ? { stateLockStaleMs: options.stateLockStaleMs }
+          : {}),
+        liveness: this.liveness,
+        now: this.now,
+        sleep: this.sleep,
+      });
+  }
+
+  /**
+   * Switches to another lock backend. Callers should release held locks on the
+   * previous backend first.
+   */
+  setBackend(backend: ModelLockBackend): void {
+    this.backend = backend;
+  }
+
+  private holderLiveness(): ModelLockLiveness {
+    return this.backend.remote ? withoutPidProbe(this.liveness) : this.liveness;
+  }
+
+  /**
+   * Attempts to acquire one of a model lock's slots. Re-acquiring a slot this
+   * coordinator already holds only refreshes its heartbeat. A free slot goes to
+   * queued waiters first, so an attempt only succeeds when there are more free
+   * slots than waiters ahead of this coordinator.
+   */
+  async acquire(
+    key: string,
+    options: AcquireModelLockOptions = {},
+  ): Promise<AcquireModelLockResult> {
+    const timeoutMs = Math.max(0, options.timeoutMs ?? 0),
+      pollMs = Math.max(10, options.pollMs ?? DEFAULT_ACQUIRE_POLL_MS),
+      slots = Math.max(1, Math.floor(options.slots ?? 1)),
+      queue = options.queue === true || timeoutMs > 0,
+      startedAt = this.now();
+
+    while (true) {
+      const attempt = await this.backend.execute({
+        op: "acquire",
+        key,
+        holder: {
+          instanceId: this.instanceId,
+          pid: this.pid,
+          host: this.host ?? localHostName(),
+        },
+        slots,
+        queue,
+      });
+
+      if (attempt.acquired) {
+        return {
+          acquired: true,
+          waitedMs: this.now() - startedAt,
+        };
+      }
+
+      if (timeoutMs === 0 || this.now() - startedAt >= timeoutMs) {
+        if (timeoutMs > 0) {
+          await this.leaveQueue(key);
+        }
+        const result: AcquireModelLockResult = {
+          acquired: false,
+          waitedMs: this.now() - startedAt,
+          holders: attempt.holders,
+        };
+        if (attempt.holders[0]) {
+          result.heldBy = attempt.holders[0];
+        }
+        if (timeoutMs === 0 && attempt.queuePosition !== undefined) {
+          result.queuePosition = attempt.queuePosition;
+        }
+        return result;
+      }
+
+      const remainingMs = timeoutMs - (this.now() - startedAt);
+      await this.sleep(Math.min(pollMs, Math.max(10, remainingMs)));
+    }
+  }
+
+  /**
+   * Updates this coordinator's heartbeat for a lock slot it already holds.
+   */
+  async refresh(key: string): Promise<boolean> {
+    return this.backend.execute({
+      op: "refresh",
+      key,
+      instanceId: this.instanceId,
+    });
+  }
+
+  /**
+   * Releases this coordinator's slot of a lock, leaving other holders in place.
+   */
+  async release(key: string): Promise<boolean> {
+    return this.backend.execute({
+      op: "release",
+      key,
+      instanceId: this.instanceId,
+    });
+  }
+
+  /**
+   * Removes this coordinator from the waiter queue of one key, or of every key
+   * when none is given, and returns how many queue places were given up.
+   */
+  async leaveQueue(key?: string): Promise<number> {
+    return this.backend.execute({
+      op: "leaveQueue",
+      instanceId: this.instanceId,
+      ...(key !== undefined ? { key } : {}),
+    });
+  }
+
+  /**
+   * Releases every lock slot held by this coordinator and returns the count.
+   * Queue places are given up as well.
+   */
+  async releaseAll(): Promise<number> {
+    return this.backend.execute({
+      op: "releaseAll",
+      instanceId: this.instanceId,
+    });
+  }
+
+  /**
+   * Returns the live lock holders by key without modifying the lock state.
+   */
+  async listLocks(): Promise<Record<string, ModelLockEntry[]>> {
+    const state = await this.backend.execute({ op: "snapshot" });
+    pruneStaleEntries(
+      state,
+      this.now(),
+      this.instanceId,
+      this.holderLiveness(),
+    );
+    return state.locks;
+  }
+
+  /**
+   * Returns every recorded lock holder, stale ones included, without
+   * modifying the lock state.
+   */
+  async inspectLocks(): Promise<ModelLockHolderStatus[]> {
+    const state = await this.backend.execute({ op: "snapshot" }),
+      now = this.now(),
+      liveness = this.holderLiveness();
+    return Object.entries(state.locks).flatMap(([key, holders]) =>
+      holders.map((holder) => {
+        const status: ModelLockHolderStatus = {
+          key,
+          holder,
+          own: holder.instanceId === this.instanceId,
+          stale: !isLiveModelLockHolder(holder, now, this.instanceId, liveness),
+          waiters: state.waiters[key]?.length ?? 0,
+        };
+        const pidAlive = probeEntryPid(holder, liveness);
+        if (pidAlive !== undefined) status.pidAlive = pidAlive;
+        return status;
+      }),
+    );
+  }
+
+  /**
+   * Removes another instance's slot of a lock regardless of its liveness.
+   * @returns False if the holder was no longer recorded.
+   */
+  async forceRelease(key: string, instanceId: string): Promise<boolean> {
+    return this.backend.execute({ op: "forceRelease", key, instanceId });
+  }
+}
+
 /**
  * Creates a model-lock coordinator using the supplied overrides.
  */
@@ -0,0 +1,135 @@
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import {
+  BASE_PROFILE_ARG,
+  PROFILE_ENV_VAR,
+  saveActiveProfile,
+} from "./profiles.js";
+import type { LoadedConfig } from "./types.js";
+import { notify } from "./types.js";
+import { selectWrapped } from "./ui-helpers.js";
+
+const USAGE = `Usage: /model-profile [name | ${BASE_PROFILE_ARG}]`,
+  BASE_OPTION = "Base config (no profile)";
+
+function describeProfiles(config: LoadedConfig, names: string[]): string {
+  const active = config.profile
+    ? `Active profile: ${config.profile}.`
+    : "No profile is active.";
+  return `${active} Profiles: ${names.join(", ")}. Use /model-profile <name> to switch, or /model-profile ${BASE_PROFILE_ARG} for the base config.`;
+}
+
+/**
+ * Suggests the profile names matching a prefix, plus `none` for the base
+ * config.
+ */
+export function getProfileCompletions(
+  prefix: string,
+  profiles: string[],
+): Array<{ value: string; label: string; description: string }> | null {
+  const items = [
+    ...profiles.map((name) => ({
+      value: name,
+      label: name,
+      description: "switch to this profile",
+    })),
+    {
+      value: BASE_PROFILE_ARG,
+      label: BASE_PROFILE_ARG,
+      description: "use the base config",
+    },
+  ].filter((item) => item.value.startsWith(prefix.trim()));
+  return items.length > 0 ? items : null;
+}
+
+/**
+ * Shows or switches the project's active profile. Without an argument, the
+ * profile is picked from a list, or the profiles are listed when there is no
+ * UI. The choice is remembered for the project directory.
+ * @returns True if the active profile changed.
+ */
+export async function runProfileCommand(
+  ctx: ExtensionContext,
+  args: string,
+  config: LoadedConfig,
+): Promise<boolean> {
+  const names = config.profiles ?? [],
+    words = args.trim().split(/\s+/).filter(Boolean);
+  if (words.length > 1) {
+    notify(ctx, "error", USAGE);
+    return false;
+  }
+  if (names.length === 0) {
+    notify(
+      ctx,
+      "info",
+      `No profiles are defined. Add a "profiles" object to ${config.sources.globalPath} or ${config.sources.projectPath}.`,
+    );
+    return false;
+  }
+
+  // Listing stays available; switching would not outlast the variable
+  if (process.env[PROFILE_ENV_VAR]?.trim() && (words[0] || ctx.hasUI)) {
+    notify(
+      ctx,
+      "error",
+      `${PROFILE_ENV_VAR} selects the profile for this session. Unset it to switch profiles.`,
+    );
+    return false;
+  }
+
+  let target = words[0];
+  if (target === undefined) {
+    if (!ctx.hasUI) {
+      notify(ctx, "info", describeProfiles(config, names));
+      return false;
+    }
+    const options = names.map((name) =>
+        name === config.profile ? `${name} (active)` : name,
+      ),
+      choice = await selectWrapped(ctx, "Select a profile", [
+        ...options,
+        BASE_OPTION,
+      ]);
+    if (choice === undefined) return false;
+    target =
+      choice === BASE_OPTION
+        ? BASE_PROFILE_ARG
+        : names[options.indexOf(choice)];
+    if (target === undefined) return false;
+  }
+
+  const next = target === BASE_PROFILE_ARG ? undefined : target;
+  if (next !== undefined && !names.includes(next)) {
+    notify(
+      ctx,
+      "error",
+      `Unknown profile "${next}". Defined profiles: ${names.join(", ")}.`,
+    );
+    return false;
+  }
+  if (next === config.profile) {
+    notify(
+      ctx,
+      "info",
+      next ? `Profile "${next}" is already active.` : "No profile is active.",
+    );
+    return false;
+  }
+
+  try {
+    await saveActiveProfile(ctx.cwd, next ?? null);
+  } catch (err) {
+    notify(
+      ctx,
+      "error",
+      `Failed to save the active profile: ${err instanceof Error ? err.message : String(err)}`,
+    );
+    return false;
+  }
+  notify(
+    ctx,
+    "info",
+    next ? `Switched to profile "${next}".` : "Switched to the base config.",
+  );
+  return true;
+}
@@ -0,0 +1,78 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { EXTENSION_DIR } from "./adapter.js";
+
+const PROFILE_STATE_PATH = path.join(
+  os.homedir(),
+  EXTENSION_DIR,
+  "model-selector-profiles.json",
+);
+
+/** Profile names are used as command arguments, so they stay shell-friendly. */
+export const PROFILE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/** Environment variable naming the profile to use, ahead of /model-profile. */
+export const PROFILE_ENV_VAR = "PI_MODEL_SELECTOR_PROFILE";
+
+/** Argument of /model-profile that switches back to the base config. */
+export const BASE_PROFILE_ARG = "none";
+
+// Active profile per project directory
+type ProfileState = Record<string, string>;
+
+async function readProfileState(): Promise<ProfileState> {
+  try {
+    const parsed = JSON.parse(
+        await fs.promises.readFile(PROFILE_STATE_PATH, "utf-8"),
+      ) as { projects?: unknown },
+      state: ProfileState = {};
+    if (parsed.projects && typeof parsed.projects === "object") {
+      for (const [cwd, name] of Object.entries(parsed.projects)) {
+        if (typeof name === "string") state[cwd] = name;
+      }
+    }
+    return state;
+  } catch {
+    // Missing or unreadable state means no profile is active anywhere
+    return {};
+  }
+}
+
+/**
+ * Returns the profile last activated for a project directory, if any.
+ */
+export async function loadActiveProfile(
+  cwd: string,
+): Promise<string | undefined> {
+  return (await readProfileState())[path.resolve(cwd)];
+}
+
+/**
+ * Persists the active profile of a project directory, or clears it when
+ * `name` is null.
+ * @throws Error when the state file cannot be written.
+ */
+export async function saveActiveProfile(
+  cwd: string,
+  name: string | null,
+): Promise<void> {
+  const projects = await readProfileState(),
+    key = path.resolve(cwd);
+  if (name === null) {
+    delete projects[key];
+  } else {
+    projects[key] = name;
+  }
+
+  await fs.promises.mkdir(path.dirname(PROFILE_STATE_PATH), {
+    recursive: true,
+  });
+  const tempPath = `${PROFILE_STATE_PATH}.tmp.${Math.random().toString(36).slice(2)}`;
+  await fs.promises.writeFile(
+    tempPath,
+    JSON.stringify({ projects }, null, 2),
+    "utf-8",
+  );
+  await fs.promises.rename(tempPath, PROFILE_STATE_PATH);
+}
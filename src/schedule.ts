@@ -0,0 +1,116 @@
+import { DateTime, IANAZone } from "luxon";
+import type { MappingSchedule, Weekday } from "./types.js";
+import { WEEKDAYS } from "./types.js";
+
+/**
+ * Start and end of a schedule's daily hours, in minutes after midnight.
+ */
+export interface ScheduleHours {
+  start: number;
+  end: number;
+}
+
+const HOURS_PATTERN =
+    /^([01]\d|2[0-3]):([0-5]\d)\s*-\s*([01]\d|2[0-4]):([0-5]\d)$/,
+  MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Parses schedule hours written as `HH:MM-HH:MM`. `24:00` may end a range,
+ * and an end before the start means the hours run past midnight.
+ * @returns The parsed range, or null if the text is malformed or empty.
+ */
+export function parseScheduleHours(hours: string): ScheduleHours | null {
+  const match = HOURS_PATTERN.exec(hours.trim());
+  if (!match) return null;
+  const start = Number(match[1]) * 60 + Number(match[2]),
+    end = Number(match[3]) * 60 + Number(match[4]);
+  if (end > MINUTES_PER_DAY || start === end) return null;
+  return { start, end };
+}
+
+/**
+ * Returns whether luxon can resolve the name as an IANA timezone.
+ */
+export function isValidTimezone(timezone: string): boolean {
+  return IANAZone.isValidZone(timezone);
+}
+
+function scheduleHours(schedule: MappingSchedule): ScheduleHours {
+  return (
+    (schedule.hours && parseScheduleHours(schedule.hours)) || {
+      start: 0,
+      end: MINUTES_PER_DAY,
+    }
+  );
+}
+
+function isActiveAt(schedule: MappingSchedule, time: DateTime): boolean {
+  const { start, end } = scheduleHours(schedule),
+    minute = time.hour * 60 + time.minute;
+  // luxon numbers weekdays from 1 (Monday) to 7 (Sunday)
+  let weekday = time.weekday;
+  if (start < end) {
+    if (minute < start || minute >= end) return false;
+  } else if (minute < end) {
+    // Past midnight, the hours still belong to the day they started on
+    weekday = weekday === 1 ? 7 : weekday - 1;
+  } else if (minute < start) {
+    return false;
+  }
+  return (
+    !schedule.weekdays ||
+    schedule.weekdays.includes(WEEKDAYS[weekday - 1] as Weekday)
+  );
+}
+
+function zonedTime(schedule: MappingSchedule, now: number): DateTime {
+  return DateTime.fromMillis(
+    now,
+    schedule.timezone ? { zone: schedule.timezone } : {},
+  );
+}
+
+/**
+ * Returns whether a schedule allows selection at the given time.
+ */
+export function isScheduleActive(
+  schedule: MappingSchedule,
+  now = Date.now(),
+): boolean {
+  return isActiveAt(schedule, zonedTime(schedule, now));
+}
+
+/**
+ * Returns when a schedule that is inactive at the given time becomes active.
+ * @returns A timestamp, or undefined while the schedule is active.
+ */
+export function getScheduleStart(
+  schedule: MappingSchedule,
+  now = Date.now(),
+): number | undefined {
+  const time = zonedTime(schedule, now);
+  if (isActiveAt(schedule, time)) return undefined;
+
+  const { start } = scheduleHours(schedule);
+  for (let days = 0; days <= WEEKDAYS.length; days++) {
+    const next = time
+      .startOf("day")
+      .plus({ days })
+      .set({ hour: Math.floor(start / 60), minute: start % 60 });
+    if (next.toMillis() > now && isActiveAt(schedule, next)) {
+      return next.toMillis();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Formats a schedule for status output, e.g. `09:00-18:00
+ * mon,tue (Europe/Berlin)`.
+ */
+export function formatSchedule(schedule: MappingSchedule): string {
+  const parts = [schedule.hours?.replace(/\s+/g, "") ?? "all day"];
+  if (schedule.weekdays) parts.push(schedule.weekdays.join(","));
+  if (schedule.timezone) parts.push(`(${schedule.timezone})`);
+  return parts.join(" ");
+}
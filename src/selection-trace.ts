@@ -0,0 +1,252 @@
+import { compareCandidates, selectionReason } from "./candidates.js";
+import type { SelectorReason } from "./selector.js";
+import type {
+  LoadedConfig,
+  PriorityRule,
+  UsageCandidate,
+  UsageSnapshot,
+} from "./types.js";
+import { formatReset } from "./usage-fetchers.js";
+
+/** Summary of one fetched usage snapshot. */
+export interface TraceUsage {
+  provider: string;
+  displayName: string;
+  account?: string;
+  windowCount: number;
+  error?: string;
+}
+
+/** A usage bucket removed before ranking, with the filter that removed it. */
+export interface TraceDrop {
+  candidate: string;
+  reason: "ignored" | "cooldown" | "schedule" | "reserve" | "exhausted";
+  detail?: string;
+}
+
+/** Position of an eligible bucket and the rule that placed it below its predecessor. */
+export interface TraceRank {
+  rank: number;
+  candidate: string;
+  remainingPercent: number;
+  /** Rule from compareCandidates that ordered the previous rank ahead of this one. */
+  decidedBy?: PriorityRule | "isMapped" | "tied";
+  detail?: string;
+}
+
+/** Result of one model lock attempt during selection. */
+export interface TraceLockAttempt {
+  key: string;
+  rank: number;
+  acquired: boolean;
+  heldBy?: { instanceId: string; pid: number };
+}
+
+/** Final result of a selector run. */
+export interface TraceOutcome {
+  status: "selected" | "already-selected" | "fallback" | "failed";
+  message: string;
+  model?: { provider: string; id: string };
+  lockKey?: string;
+  waitedForLockMs?: number;
+}
+
+/** Structured record of every decision made during one selector run. */
+export interface SelectionTrace {
+  reason: SelectorReason;
+  startedAt: number;
+  usages: TraceUsage[];
+  drops: TraceDrop[];
+  ranking: TraceRank[];
+  locks: TraceLockAttempt[];
+  /** Side effects worth surfacing, such as cooldown resets or 429 detection. */
+  notes: string[];
+  outcome?: TraceOutcome;
+}
+
+let lastSelectionTrace: SelectionTrace | null = null;
+
+/** Starts a new trace and makes it the one returned by getLastSelectionTrace. */
+export function beginSelectionTrace(
+  reason: SelectorReason,
+  now = Date.now(),
+): SelectionTrace {
+  lastSelectionTrace = {
+    reason,
+    startedAt: now,
+    usages: [],
+    drops: [],
+    ranking: [],
+    locks: [],
+    notes: [],
+  };
+  return lastSelectionTrace;
+}
+
+/** Returns the trace of the most recent selector run in this process. */
+export function getLastSelectionTrace(): SelectionTrace | null {
+  return lastSelectionTrace;
+}
+
+/** Clears the stored trace. */
+export function resetSelectionTrace(): void {
+  lastSelectionTrace = null;
+}
+
+/** Returns the label used for a candidate throughout the trace. */
+export function traceCandidateLabel(candidate: UsageCandidate): string {
+  const account =
+    candidate.account && candidate.account !== "none"
+      ? ` (${candidate.account})`
+      : "";
+  return `${candidate.displayName}/${candidate.windowLabel}${account}`;
+}
+
+/** Records a summary of each fetched usage snapshot. */
+export function traceUsages(
+  trace: SelectionTrace,
+  usages: UsageSnapshot[],
+): void {
+  trace.usages = usages.map((usage) => {
+    const entry: TraceUsage = {
+      provider: usage.provider,
+      displayName: usage.displayName,
+      windowCount: usage.windows.length,
+    };
+    if (usage.account !== undefined) entry.account = usage.account;
+    if (usage.error !== undefined) entry.error = usage.error;
+    return entry;
+  });
+}
+
+/** Records the ranked candidates and the pairwise rule that ordered each one. */
+export function traceRanking(
+  trace: SelectionTrace,
+  rankedCandidates: UsageCandidate[],
+  config: LoadedConfig,
+): void {
+  trace.ranking = rankedCandidates.map((candidate, index) => {
+    const entry: TraceRank = {
+      rank: index + 1,
+      candidate: traceCandidateLabel(candidate),
+      remainingPercent: candidate.remainingPercent,
+    };
+    const previous = rankedCandidates[index - 1];
+    if (previous) {
+      const result = compareCandidates(
+        previous,
+        candidate,
+        config.priority,
+        config.mappings,
+      );
+      entry.decidedBy = result.rule && result.diff !== 0 ? result.rule : "tied";
+      entry.detail = selectionReason(
+        previous,
+        candidate,
+        config.priority,
+        config.mappings,
+      );
+    }
+    return entry;
+  });
+}
+
+/** Records the outcome of the run, keeping the first outcome if one was already set. */
+export function traceOutcome(
+  trace: SelectionTrace | undefined,
+  outcome: TraceOutcome,
+): void {
+  if (trace && !trace.outcome) {
+    trace.outcome = outcome;
+  }
+}
+
+function formatAge(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  return `${Math.floor(minutes / 60)}h ago`;
+}
+
+/** Formats a trace as the multi-line report shown by /model-explain. */
+export function formatSelectionTrace(
+  trace: SelectionTrace,
+  now = Date.now(),
+): string {
+  const lines = [
+    `Last model selection (reason: ${trace.reason}, ${formatAge(now - trace.startedAt)})`,
+    "Usages:",
+  ];
+
+  if (trace.usages.length === 0) {
+    lines.push("  none fetched");
+  }
+  for (const usage of trace.usages) {
+    const account = usage.account ? ` (${usage.account})` : "";
+    lines.push(
+      usage.error
+        ? `  ${usage.displayName}${account}: error - ${usage.error}`
+        : `  ${usage.displayName}${account}: ${usage.windowCount} window${usage.windowCount === 1 ? "" : "s"}`,
+    );
+  }
+
+  if (trace.drops.length > 0) {
+    lines.push("Dropped:");
+    for (const drop of trace.drops) {
+      lines.push(
+        `  ${drop.candidate}: ${drop.reason}${drop.detail ? ` (${drop.detail})` : ""}`,
+      );
+    }
+  }
+
+  if (trace.ranking.length > 0) {
+    lines.push("Ranking:");
+    for (const entry of trace.ranking) {
+      const decision =
+        entry.decidedBy === undefined
+          ? ""
+          : entry.decidedBy === "tied"
+            ? " - tied with previous rank"
+            : ` - below #${entry.rank - 1} by ${entry.decidedBy}: ${entry.detail}`;
+      lines.push(
+        `  #${entry.rank} ${entry.candidate}: ${entry.remainingPercent.toFixed(0)}% left${decision}`,
+      );
+    }
+  }
+
+  if (trace.locks.length > 0) {
+    lines.push("Locks:");
+    for (const attempt of trace.locks) {
+      const result = attempt.acquired
+        ? "acquired"
+        : attempt.heldBy
+          ? `busy, held by ${attempt.heldBy.instanceId} (pid ${attempt.heldBy.pid})`
+          : "busy";
+      lines.push(`  ${attempt.key} (rank #${attempt.rank}): ${result}`);
+    }
+  }
+
+  for (const note of trace.notes) {
+    lines.push(`Note: ${note}`);
+  }
+
+  const outcome = trace.outcome;
+  if (!outcome) {
+    lines.push("Outcome: still running");
+  } else {
+    lines.push(`Outcome: ${outcome.status} - ${outcome.message}`);
+  }
+
+  return lines.join("\n");
+}
+
+/** Formats a cooldown expiry for a dropped bucket. */
+export function formatCooldownDetail(expiry: number | undefined): string {
+  return expiry === undefined ? "" : `for ${formatReset(new Date(expiry))}`;
+}
+
+/** Formats when a bucket outside its schedule becomes active. */
+export function formatScheduleDetail(start: number): string {
+  return `active in ${formatReset(new Date(start))}`;
+}
@@ -11,16 +11,35 @@ import {
   findIgnoreMapping,
   findModelMapping,
   getReserveThreshold,
+  getScheduleStartFor,
   selectionReason,
   sortCandidates,
 } from "./candidates.js";
 import { loadConfig } from "./config.js";
-import type { CooldownManager } from "./cooldown.js";
+import {
+  type CooldownManager,
+  formatCooldownDuration,
+  rateLimitCooldownDuration,
+} from "./cooldown.js";
+import { getRegisteredUsageFetchers } from "./fetcher-registry.js";
 
 import {
   createModelLockCoordinator as createModelLockCoordinatorImpl,
   modelLockKey,
+  resolveModelLockSlots,
 } from "./model-locks.js";
+import {
+  beginSelectionTrace,
+  formatCooldownDetail,
+  formatScheduleDetail,
+  type SelectionTrace,
+  type TraceLockAttempt,
+  type TraceOutcome,
+  traceCandidateLabel,
+  traceOutcome,
+  traceRanking,
+  traceUsages,
+} from "./selection-trace.js";
 
 import type {
   LoadedConfig,
@@ -35,12 +54,16 @@ import {
   writeDebugLog,
 } from "./types.js";
 import { isProviderIgnored } from "./ui-helpers.js";
-import { fetchAllUsages } from "./usage-fetchers.js";
+import { fetchAllUsages, formatReset } from "./usage-fetchers.js";
 import { clearWidget, renderUsageWidget, updateWidgetState } from "./widget.js";
 
 const MODEL_LOCK_WAIT_TIMEOUT_MS = 10 * 60 * 1000;
 const MODEL_LOCK_POLL_MS = 1250;
 
+function isRateLimited(usage: UsageSnapshot): boolean {
+  return usage.errorInfo?.status === 429 || !!usage.error?.includes("429");
+}
+
 /**
  * Optional inputs and lock behavior overrides for a selector run.
  */
@@ -68,9 +91,10 @@ export interface ModelLockCoordinator {
    */
   acquire(
     key: string,
-    options?: { timeoutMs?: number },
+    options?: { timeoutMs?: number; slots?: number; queue?: boolean },
   ): Promise<{
     acquired: boolean;
+    queuePosition?: number;
     heldBy?: {
       instanceId: string;
       pid: number;
@@ -90,6 +114,10 @@ export interface ModelLockCoordinator {
    * Releases all locks owned by this coordinator.
    */
   releaseAll(): Promise<number>;
+  /**
+   * Gives up this coordinator's places in the lock waiter queues.
+   */
+  leaveQueue(key?: string): Promise<number>;
 }
 
 /**
@@ -104,6 +132,29 @@ export function createModelLockCoordinator(): ModelLockCoordinator {
   return createModelLockCoordinatorImpl();
 }
 
+/**
+ * Returns the configured disabled providers plus every provider without a mapping,
+ * since fetching usage for unmapped providers cannot affect selection.
+ */
+export function getEffectiveDisabledProviders(config: LoadedConfig): string[] {
+  const mappedUsageProviders = new Set(
+      config.mappings.map((mapping) => mapping.usage.provider),
+    ),
+    implicitDisabledProviders = [
+      ...ALL_PROVIDERS,
+      ...(config.providerSettings?.custom ?? []).map((custom) => custom.name),
+      ...(config.providerSettings?.commands ?? []).map(
+        (command) => command.name,
+      ),
+      ...getRegisteredUsageFetchers().map(
+        (registration) => registration.provider,
+      ),
+    ].filter((provider) => !mappedUsageProviders.has(provider));
+  return [
+    ...new Set([...config.disabledProviders, ...implicitDisabledProviders]),
+  ];
+}
+
 /**
  * Selects the best available model, updates Pi state, and refreshes selector UI.
  */
@@ -119,7 +170,8 @@ export async function runSelector(
   pi: ExtensionAPI,
   selfInitiatedModelChange?: { current: boolean },
 ): Promise<boolean> {
-  let lockKeyForErrorCleanup: string | undefined;
+  let lockKeyForErrorCleanup: string | undefined,
+    trace: SelectionTrace | undefined;
 
   try {
     // Load persisted cooldowns on startup (for print-mode support)
@@ -129,23 +181,35 @@ export async function runSelector(
     if (!config) return false;
     setGlobalConfig(config);
     writeDebugLog(`Running selector (reason: ${reason})`);
+    trace = beginSelectionTrace(reason);
 
-    const mappedUsageProviders = new Set(
-        config.mappings.map((mapping) => mapping.usage.provider),
-      ),
-      implicitDisabledProviders = ALL_PROVIDERS.filter(
-        (provider) => !mappedUsageProviders.has(provider),
-      ),
-      effectiveDisabledProviders = [
-        ...new Set([...config.disabledProviders, ...implicitDisabledProviders]),
-      ],
+    const effectiveDisabledProviders = getEffectiveDisabledProviders(config),
+      failureBackoff = config.failureBackoff?.enabled
+        ? config.failureBackoff
+        : undefined,
+      // Providers still backing off after repeated failures are not fetched at all
+      backedOffProviders =
+        failureBackoff && !options.preloadedUsages
+          ? cooldownManager
+              .getBackedOffProviders()
+              .filter(
+                (provider) => !effectiveDisabledProviders.includes(provider),
+              )
+          : [],
       usages =
         options.preloadedUsages ||
         (await fetchAllUsages(
           ctx.modelRegistry,
-          effectiveDisabledProviders,
+          [...effectiveDisabledProviders, ...backedOffProviders],
           config.providerSettings,
+          config.usageCache,
         ));
+    traceUsages(trace, usages);
+    for (const provider of backedOffProviders) {
+      trace.notes.push(
+        `Skipped the usage fetch for ${provider} while its failure backoff runs`,
+      );
+    }
 
     // Clean up stale cooldowns first so fresh 429s can always re-arm cooldowns.
     cooldownManager.pruneExpiredCooldowns();
@@ -158,27 +222,67 @@ export async function runSelector(
     for (const usage of usages) {
       // Detect 429 errors and apply provider-wide cooldown
       // Skip ignored providers to avoid noisy UX for intentionally-ignored providers
-      if (usage.error?.includes("429")) {
+      if (isRateLimited(usage)) {
         if (
           !isProviderIgnored(usage.provider, usage.account, config.mappings)
         ) {
-          const updated = cooldownManager.setOrExtendProviderCooldown(
-            usage.provider,
-            usage.account,
-            now,
-          );
+          // Size the cooldown from Retry-After/reset headers when the provider sent them
+          const durationMs = rateLimitCooldownDuration(usage.errorInfo, now),
+            updated = cooldownManager.setOrExtendProviderCooldown(
+              usage.provider,
+              usage.account,
+              now,
+              durationMs,
+            );
           if (updated) {
             saveNeeded = true;
+            trace.notes.push(
+              `Rate limit (429) for ${usage.displayName} started a provider-wide cooldown`,
+            );
             notify(
               ctx,
               "warning",
-              `Rate limit (429) detected for ${usage.displayName}. Pausing this provider for 1 hour.`,
+              `Rate limit (429) detected for ${usage.displayName}. Pausing this provider for ${formatCooldownDuration(durationMs)}.`,
             );
           }
         }
       }
     }
 
+    // Back off providers whose usage fetches keep failing; a success resets them
+    const backoffStarted = new Map<UsageSnapshot, number>();
+    if (failureBackoff) {
+      for (const usage of usages) {
+        if (!usage.error) {
+          if (
+            cooldownManager.recordProviderSuccess(usage.provider, usage.account)
+          ) {
+            saveNeeded = true;
+          }
+          continue;
+        }
+        if (
+          isRateLimited(usage) ||
+          isProviderIgnored(usage.provider, usage.account, config.mappings)
+        ) {
+          continue;
+        }
+        const durationMs = cooldownManager.recordProviderFailure(
+          usage.provider,
+          usage.account,
+          now,
+          failureBackoff,
+        );
+        if (durationMs !== undefined) {
+          saveNeeded = true;
+          backoffStarted.set(usage, durationMs);
+          trace.notes.push(
+            `Usage check for ${usage.displayName} failed; backing off for ${formatCooldownDuration(durationMs)}`,
+          );
+        }
+      }
+    }
+
     if (saveNeeded) {
       await cooldownManager.persistCooldowns();
     }
@@ -188,7 +292,7 @@ export async function runSelector(
       for (const usage of usages) {
         if (
           usage.error &&
-          !usage.error.includes("429") &&
+          !isRateLimited(usage) &&
           !isProviderIgnored(usage.provider, usage.account, config.mappings)
         ) {
           // Suppress warnings if provider is already on cooldown
@@ -197,12 +301,25 @@ export async function runSelector(
             usage.account,
           );
 
-          if (!wildcardExpiry || wildcardExpiry <= now) {
+          if (wildcardExpiry && wildcardExpiry > now) continue;
+
+          if (!failureBackoff) {
             notify(
               ctx,
               "warning",
               `Usage check failed for ${usage.displayName}: ${usage.error}`,
             );
+            continue;
+          }
+
+          // Only warn when a new backoff period starts, not on every prompt
+          const durationMs = backoffStarted.get(usage);
+          if (durationMs !== undefined) {
+            notify(
+              ctx,
+              "warning",
+              `Usage check failed for ${usage.displayName}: ${usage.error}. Retrying in ${formatCooldownDuration(durationMs)}.`,
+            );
           }
         }
       }
@@ -215,19 +332,31 @@ export async function runSelector(
       buildCandidates(usages),
       config.mappings,
     );
-    let eligibleCandidates = candidates.filter(
-      (candidate: UsageCandidate) =>
-        !findIgnoreMapping(candidate, config.mappings),
-    );
+    let eligibleCandidates = candidates.filter((candidate: UsageCandidate) => {
+      if (!findIgnoreMapping(candidate, config.mappings)) return true;
+      trace?.drops.push({
+        candidate: traceCandidateLabel(candidate),
+        reason: "ignored",
+      });
+      return false;
+    });
 
     // Filter out cooldowns - reuse the now captured earlier for consistency
     const cooldownCount = eligibleCandidates.filter((c: UsageCandidate) =>
       cooldownManager.isOnCooldown(c, now),
     ).length;
     if (cooldownCount > 0) {
-      eligibleCandidates = eligibleCandidates.filter(
-        (c: UsageCandidate) => !cooldownManager.isOnCooldown(c, now),
-      );
+      eligibleCandidates = eligibleCandidates.filter((c: UsageCandidate) => {
+        if (!cooldownManager.isOnCooldown(c, now)) return true;
+        trace?.drops.push({
+          candidate: traceCandidateLabel(c),
+          reason: "cooldown",
+          detail: formatCooldownDetail(
+            cooldownManager.getCooldownExpiry(c, now),
+          ),
+        });
+        return false;
+      });
       if (reason === "command") {
         notify(
           ctx,
@@ -246,6 +375,10 @@ export async function runSelector(
         );
         cooldownManager.clear();
         await cooldownManager.persistCooldowns();
+        trace.notes.push(
+          "All eligible candidates were on cooldown, so cooldowns were reset",
+        );
+        trace.drops = trace.drops.filter((drop) => drop.reason !== "cooldown");
         eligibleCandidates = candidates.filter(
           (candidate: UsageCandidate) =>
             !findIgnoreMapping(candidate, config.mappings),
@@ -256,6 +389,7 @@ export async function runSelector(
             ? "No usage windows found. Check provider credentials and connectivity."
             : "All usage buckets are ignored. Remove an ignore mapping or add a model mapping.";
         notify(ctx, "error", detail);
+        traceOutcome(trace, { status: "failed", message: detail });
         clearWidget(ctx);
         return false;
       }
@@ -264,20 +398,52 @@ export async function runSelector(
     // Save candidates for widget display (includes exhausted buckets)
     const displayCandidates = eligibleCandidates.slice();
 
+    // Buckets outside their mapping's schedule stay in the widget, which shows when they become active
+    const outsideSchedule = new Set<UsageCandidate>();
+    eligibleCandidates = eligibleCandidates.filter(
+      (candidate: UsageCandidate) => {
+        const scheduleStart = getScheduleStartFor(
+          candidate,
+          config.mappings,
+          now,
+        );
+        if (scheduleStart === undefined) return true;
+        outsideSchedule.add(candidate);
+        trace?.drops.push({
+          candidate: traceCandidateLabel(candidate),
+          reason: "schedule",
+          detail: formatScheduleDetail(scheduleStart),
+        });
+        return false;
+      },
+    );
+
     // Hard filter: never pick buckets at or below their reserve threshold for model selection.
     // This naturally handles 0% exhaustion when reserve defaults to 0.
     eligibleCandidates = eligibleCandidates.filter(
-      (candidate: UsageCandidate) =>
-        candidate.remainingPercent >
-        getReserveThreshold(candidate, config.mappings),
+      (candidate: UsageCandidate) => {
+        const reserve = getReserveThreshold(candidate, config.mappings);
+        if (candidate.remainingPercent > reserve) return true;
+        trace?.drops.push({
+          candidate: traceCandidateLabel(candidate),
+          reason: candidate.remainingPercent <= 0 ? "exhausted" : "reserve",
+          detail: `${candidate.remainingPercent.toFixed(0)}% left, reserve ${reserve}%`,
+        });
+        return false;
+      },
     );
 
-    // Sort display candidates for the widget (includes exhausted buckets)
-    const rankedDisplayCandidates = sortCandidates(
-      displayCandidates,
-      config.priority,
-      config.mappings,
-    );
+    // Sort display candidates for the widget (includes exhausted buckets),
+    // listing buckets outside their schedule after the ones usable now
+    const sortedDisplayCandidates = sortCandidates(
+        displayCandidates,
+        config.priority,
+        config.mappings,
+      ),
+      rankedDisplayCandidates = [
+        ...sortedDisplayCandidates.filter((c) => !outsideSchedule.has(c)),
+        ...sortedDisplayCandidates.filter((c) => outsideSchedule.has(c)),
+      ];
 
     // Update widget with all non-ignored, non-cooldown candidates (including exhausted)
     updateWidgetState({
@@ -301,6 +467,7 @@ export async function runSelector(
         autoSelectionDisabled,
         displayCandidates,
         selfInitiatedModelChange,
+        trace,
       );
     }
 
@@ -310,6 +477,7 @@ export async function runSelector(
       config.priority,
       config.mappings,
     );
+    traceRanking(trace, rankedCandidates, config);
 
     const initialBest = rankedCandidates[0];
     if (!initialBest) {
@@ -346,9 +514,18 @@ export async function runSelector(
         rankedCandidates,
         options.waitForModelLock || false,
         activeModelLockKey,
+        trace,
       );
 
       if (!lockResult.selected) {
+        traceOutcome(trace, {
+          status: "failed",
+          message:
+            lockResult.waitedForLockMs > 0
+              ? `No model lock could be acquired after waiting ${(lockResult.waitedForLockMs / 1000).toFixed(1)}s`
+              : "No model lock could be acquired",
+          waitedForLockMs: lockResult.waitedForLockMs,
+        });
         return false;
       }
 
@@ -392,6 +569,7 @@ export async function runSelector(
       waitedForLockMs,
       reason,
       selfInitiatedModelChange,
+      trace,
     );
   } catch (error: unknown) {
     if (lockKeyForErrorCleanup) {
@@ -403,6 +581,7 @@ export async function runSelector(
     }
 
     const errorMessage = String(error);
+    traceOutcome(trace, { status: "failed", message: errorMessage });
     writeDebugLog(`runSelector failed (reason: ${reason}): ${errorMessage}`);
     notify(
       ctx,
@@ -452,41 +631,61 @@ async function handleExhaustedCandidates(
   _autoSelectionDisabled: boolean,
   candidates: UsageCandidate[],
   selfInitiatedModelChange?: { current: boolean },
+  trace?: SelectionTrace,
 ): Promise<boolean> {
   void _lockKeyForErrorCleanup;
   void _autoSelectionDisabled;
 
+  // Buckets outside their schedule would otherwise read as exhausted
+  const scheduleStarts = candidates
+      .map((c) => getScheduleStartFor(c, config.mappings))
+      .filter((start) => start !== undefined),
+    allOutsideSchedule =
+      candidates.length > 0 && scheduleStarts.length === candidates.length,
+    inSchedule = candidates.filter(
+      (c) => getScheduleStartFor(c, config.mappings) === undefined,
+    );
+
   if (!config.fallback) {
+    if (allOutsideSchedule) {
+      const message = `All non-ignored usage buckets are outside their schedules; the next one becomes active in ${formatReset(new Date(Math.min(...scheduleStarts)))}.`;
+      notify(ctx, "error", message);
+      traceOutcome(trace, { status: "failed", message });
+      return false;
+    }
+
     // Distinguish between exhausted (0%) and below reserve (>0% but below threshold)
-    const allExhausted = candidates.every((c) => c.remainingPercent === 0);
+    const allExhausted = inSchedule.every((c) => c.remainingPercent === 0);
 
     if (
       !allExhausted &&
-      candidates.some(
+      inSchedule.some(
         (c) =>
           c.remainingPercent > 0 &&
           c.remainingPercent <= getReserveThreshold(c, config.mappings),
       )
     ) {
-      notify(
-        ctx,
-        "error",
-        "All non-ignored usage buckets are at or below their reserve thresholds.",
-      );
+      const message =
+        "All non-ignored usage buckets are at or below their reserve thresholds.";
+      notify(ctx, "error", message);
+      traceOutcome(trace, { status: "failed", message });
     } else {
-      notify(
-        ctx,
-        "error",
-        "All non-ignored usage buckets are exhausted (0% remaining).",
-      );
+      const message =
+        "All non-ignored usage buckets are exhausted (0% remaining).";
+      notify(ctx, "error", message);
+      traceOutcome(trace, { status: "failed", message });
     }
     return false;
   }
 
   // Distinguish between exhausted (0%) and below reserve (>0% but below threshold)
-  const allExhausted = candidates.every((c) => c.remainingPercent === 0);
+  const allExhausted = inSchedule.every((c) => c.remainingPercent === 0);
 
-  if (allExhausted) {
+  if (allOutsideSchedule) {
+    writeDebugLog(
+      "All candidates outside their schedules, attempting fallback model",
+    );
+  } else if (allExhausted) {
     writeDebugLog("All candidates exhausted, attempting fallback model");
   } else {
     writeDebugLog(
@@ -498,11 +697,9 @@ async function handleExhaustedCandidates(
     config.fallback.id,
   );
   if (!fallbackModel) {
-    notify(
-      ctx,
-      "error",
-      `Fallback model not found: ${config.fallback.provider}/${config.fallback.id}.`,
-    );
+    const message = `Fallback model not found: ${config.fallback.provider}/${config.fallback.id}.`;
+    notify(ctx, "error", message);
+    traceOutcome(trace, { status: "failed", message });
     return false;
   }
 
@@ -511,9 +708,30 @@ async function handleExhaustedCandidates(
     const lockKey = modelLockKey(config.fallback.provider, config.fallback.id);
     const result = await modelLockCoordinator.acquire(lockKey, {
       timeoutMs: 0,
+      slots: resolveModelLockSlots(
+        config,
+        config.fallback.provider,
+        config.fallback.id,
+      ),
     });
+    const attempt: TraceLockAttempt = {
+      key: lockKey,
+      rank: candidates.length + 1,
+      acquired: result.acquired,
+    };
+    if (result.heldBy) {
+      attempt.heldBy = {
+        instanceId: result.heldBy.instanceId,
+        pid: result.heldBy.pid,
+      };
+    }
+    trace?.locks.push(attempt);
     if (!result.acquired) {
       notify(ctx, "error", "Fallback model lock is busy.");
+      traceOutcome(trace, {
+        status: "failed",
+        message: "Fallback model lock is busy.",
+      });
       return false;
     }
     fallbackLockKey = lockKey;
@@ -533,11 +751,9 @@ async function handleExhaustedCandidates(
       selfInitiatedModelChange,
     );
     if (!success) {
-      notify(
-        ctx,
-        "error",
-        `Failed to set fallback model to ${config.fallback.provider}/${config.fallback.id}. Check provider status or credentials.`,
-      );
+      const message = `Failed to set fallback model to ${config.fallback.provider}/${config.fallback.id}. Check provider status or credentials.`;
+      notify(ctx, "error", message);
+      traceOutcome(trace, { status: "failed", message });
       if (fallbackLockKey) {
         await modelLockCoordinator.release(fallbackLockKey);
       }
@@ -573,11 +789,15 @@ async function handleExhaustedCandidates(
     );
   }
 
-  notify(
-    ctx,
-    "info",
-    `Set model to ${config.fallback.provider}/${config.fallback.id} (last-resort fallback; all quota-tracked models ${allExhausted ? "exhausted (0% remaining)" : "at or below reserve thresholds"})`,
-  );
+  const fallbackMessage = `Set model to ${config.fallback.provider}/${config.fallback.id} (last-resort fallback; all quota-tracked models ${allOutsideSchedule ? "outside their schedules" : allExhausted ? "exhausted (0% remaining)" : "at or below reserve thresholds"})`;
+  notify(ctx, "info", fallbackMessage);
+  const fallbackOutcome: TraceOutcome = {
+    status: "fallback",
+    message: fallbackMessage,
+    model: { provider: config.fallback.provider, id: config.fallback.id },
+  };
+  if (fallbackLockKey) fallbackOutcome.lockKey = fallbackLockKey;
+  traceOutcome(trace, fallbackOutcome);
 
   // Set a synthetic candidate key to avoid confusing cooldown state
   cooldownManager.setLastSelectedKey(
@@ -595,6 +815,7 @@ async function acquireModelLock(
   rankedCandidates: UsageCandidate[],
   waitForLock: boolean,
   _activeModelLockKey: { current: string | null },
+  trace?: SelectionTrace,
 ): Promise<{
   selected?: {
     candidate: UsageCandidate;
@@ -611,6 +832,7 @@ async function acquireModelLock(
     mapping: NonNullable<ReturnType<typeof findModelMapping>>;
     model: ReturnType<ExtensionContext["modelRegistry"]["find"]>;
     lockKey: string;
+    slots: number;
     index: number;
   };
 
@@ -639,6 +861,12 @@ async function acquireModelLock(
       mapping: candidateMapping,
       model: candidateModel,
       lockKey: candidateLockKey,
+      slots: resolveModelLockSlots(
+        config,
+        candidateMapping.model.provider,
+        candidateMapping.model.id,
+        candidateMapping,
+      ),
       index,
     });
   }
@@ -676,6 +904,11 @@ async function acquireModelLock(
         },
         model: fallbackModel,
         lockKey: modelLockKey(config.fallback.provider, config.fallback.id),
+        slots: resolveModelLockSlots(
+          config,
+          config.fallback.provider,
+          config.fallback.id,
+        ),
         index: lockableCandidates.length,
       });
     }
@@ -694,13 +927,30 @@ async function acquireModelLock(
   }
 
   const loggedBusyLocks = new Set<string>();
+  let queuePosition: number | undefined;
 
+  // While waiting, every attempt keeps this instance's place in each busy
+  // model's waiter queue so contended locks are handed out in arrival order.
   const tryAcquireLock = async (): Promise<LockableCandidate | undefined> => {
+    queuePosition = undefined;
     for (const candidate of lockableCandidates) {
       const result = await modelLockCoordinator.acquire(candidate.lockKey, {
         timeoutMs: 0,
+        slots: candidate.slots,
+        queue: waitForLock,
       });
+      if (result.queuePosition !== undefined) {
+        queuePosition = Math.min(
+          queuePosition ?? result.queuePosition,
+          result.queuePosition,
+        );
+      }
       if (result.acquired) {
+        trace?.locks.push({
+          key: candidate.lockKey,
+          rank: candidate.index + 1,
+          acquired: true,
+        });
         return candidate;
       }
 
@@ -714,6 +964,12 @@ async function acquireModelLock(
         continue;
       }
       loggedBusyLocks.add(signature);
+      trace?.locks.push({
+        key: candidate.lockKey,
+        rank: candidate.index + 1,
+        acquired: false,
+        heldBy: { instanceId: heldBy.instanceId, pid: heldBy.pid },
+      });
 
       const nowMs = Date.now();
       const heartbeatAgeSeconds = Math.max(
@@ -725,42 +981,55 @@ async function acquireModelLock(
         Math.floor((nowMs - heldBy.acquiredAt) / 1000),
       );
 
+      const slotsNote =
+        candidate.slots > 1 ? `, all ${candidate.slots} slots taken` : "";
+
       writeDebugLog(
-        `Model lock busy for key "${candidate.lockKey}" (rank #${candidate.index + 1}); held by instance "${heldBy.instanceId}" (pid ${heldBy.pid}), lock age ${lockAgeSeconds}s, heartbeat age ${heartbeatAgeSeconds}s.`,
+        `Model lock busy for key "${candidate.lockKey}" (rank #${candidate.index + 1}${slotsNote}); held by instance "${heldBy.instanceId}" (pid ${heldBy.pid}), lock age ${lockAgeSeconds}s, heartbeat age ${heartbeatAgeSeconds}s.`,
       );
     }
     return undefined;
   };
 
-  let selectedWithLock = await tryAcquireLock();
+  let selectedWithLock: LockableCandidate | undefined;
   let waitedForLockMs = 0;
 
-  if (!selectedWithLock && waitForLock) {
-    const waitStart = Date.now();
-    notify(
-      ctx,
-      "info",
-      "All mapped models are busy. Waiting for an available model lock...",
-    );
+  try {
+    selectedWithLock = await tryAcquireLock();
 
-    while (Date.now() - waitStart < MODEL_LOCK_WAIT_TIMEOUT_MS) {
-      const elapsedMs = Date.now() - waitStart;
-      if (ctx.hasUI && typeof ctx.ui.setStatus === "function") {
-        ctx.ui.setStatus(
-          "model-selector-lock",
-          `Waiting for available model lock (${Math.floor(elapsedMs / 1000)}s)...`,
-        );
-      }
-      await new Promise((resolve) => {
-        setTimeout(resolve, MODEL_LOCK_POLL_MS);
-      });
+    if (!selectedWithLock && waitForLock) {
+      const waitStart = Date.now();
+      notify(
+        ctx,
+        "info",
+        "All mapped models are busy. Waiting for an available model lock...",
+      );
 
-      selectedWithLock = await tryAcquireLock();
-      if (selectedWithLock) {
-        waitedForLockMs = Date.now() - waitStart;
-        break;
+      while (Date.now() - waitStart < MODEL_LOCK_WAIT_TIMEOUT_MS) {
+        const elapsedMs = Date.now() - waitStart,
+          queueNote =
+            queuePosition !== undefined ? `, #${queuePosition} in queue` : "";
+        if (ctx.hasUI && typeof ctx.ui.setStatus === "function") {
+          ctx.ui.setStatus(
+            "model-selector-lock",
+            `Waiting for available model lock (${Math.floor(elapsedMs / 1000)}s${queueNote})...`,
+          );
+        }
+        await new Promise((resolve) => {
+          setTimeout(resolve, MODEL_LOCK_POLL_MS);
+        });
+
+        selectedWithLock = await tryAcquireLock();
+        if (selectedWithLock) {
+          waitedForLockMs = Date.now() - waitStart;
+          break;
+        }
       }
     }
+  } finally {
+    if (waitForLock) {
+      await modelLockCoordinator.leaveQueue();
+    }
   }
 
   if (!selectedWithLock) {
@@ -842,6 +1111,7 @@ async function finalizeSelection(
   waitedForLockMs: number,
   reason: SelectorReason,
   selfInitiatedModelChange?: { current: boolean },
+  trace?: SelectionTrace,
 ): Promise<boolean> {
   if (!mapping?.model) {
     const usage = { provider: best.provider } as {
@@ -875,6 +1145,10 @@ async function finalizeSelection(
       "error",
       `No model mapping for best usage bucket ${best.provider}/${best.windowLabel} (${best.remainingPercent.toFixed(0)}% remaining, ${best.displayName}).\nAdd a mapping to ${config.sources.projectPath} or ${config.sources.globalPath}:\n${suggestedMapping}\n\nOr ignore this bucket:\n${suggestedIgnore}`,
     );
+    traceOutcome(trace, {
+      status: "failed",
+      message: `No model mapping for ${traceCandidateLabel(best)}`,
+    });
     if (lockKey) {
       await modelLockCoordinator.release(lockKey);
     }
@@ -882,11 +1156,9 @@ async function finalizeSelection(
   }
 
   if (!model) {
-    notify(
-      ctx,
-      "error",
-      `Mapped model not found: ${mapping.model.provider}/${mapping.model.id}.`,
-    );
+    const message = `Mapped model not found: ${mapping.model.provider}/${mapping.model.id}.`;
+    notify(ctx, "error", message);
+    traceOutcome(trace, { status: "failed", message });
     if (lockKey) {
       await modelLockCoordinator.release(lockKey);
     }
@@ -915,11 +1187,9 @@ async function finalizeSelection(
       selfInitiatedModelChange,
     );
     if (!success) {
-      notify(
-        ctx,
-        "error",
-        `Failed to set model to ${mapping.model.provider}/${mapping.model.id}. Check provider status or credentials.`,
-      );
+      const message = `Failed to set model to ${mapping.model.provider}/${mapping.model.id}. Check provider status or credentials.`;
+      notify(ctx, "error", message);
+      traceOutcome(trace, { status: "failed", message });
       if (lockKey) {
         await modelLockCoordinator.release(lockKey);
       }
@@ -983,6 +1253,20 @@ async function finalizeSelection(
         ? "last-resort fallback"
         : `${best.displayName}/${best.windowLabel} (${best.remainingPercent.toFixed(0)}% left)`;
 
+  const outcome: TraceOutcome = {
+    status:
+      best.windowLabel === "fallback"
+        ? "fallback"
+        : isAlreadySelected
+          ? "already-selected"
+          : "selected",
+    message: `${selectionMsg} via ${bucketMsg}. Reason: ${reasonDetail}.`,
+    model: { provider: mapping.model.provider, id: mapping.model.id },
+  };
+  if (lockKey) outcome.lockKey = lockKey;
+  if (waitedForLockMs > 0) outcome.waitedForLockMs = waitedForLockMs;
+  traceOutcome(trace, outcome);
+
   const shouldNotifySelection =
     reason !== "request" ||
     !isAlreadySelected ||
@@ -0,0 +1,313 @@
+import type { AutocompleteItem } from "@mariozechner/pi-tui";
+import { candidateKey, findModelMapping } from "./candidates.js";
+import { formatCooldownDuration, getProviderSkipKey } from "./cooldown.js";
+import type { MappingEntry, UsageCandidate } from "./types.js";
+
+/**
+ * What a /model-skip cooldown covers: one usage bucket, every bucket of a
+ * provider, or every bucket of one provider account.
+ */
+export type SkipScope = "bucket" | "provider" | "account";
+
+/**
+ * How long a skip lasts, in milliseconds, or until the skipped bucket resets.
+ */
+export type SkipDuration = number | "until-reset";
+
+/**
+ * Parsed /model-skip arguments. Omitted fields fall back to the last selected
+ * bucket, one hour, and a scope derived from the target.
+ */
+export interface SkipRequest {
+  target?: string;
+  duration?: SkipDuration;
+  scope?: SkipScope;
+}
+
+/**
+ * One cooldown to write for a skip request.
+ */
+export interface SkipEntry {
+  key: string;
+  expiresAt: number;
+  label: string;
+}
+
+const SKIP_SCOPES: readonly SkipScope[] = ["bucket", "provider", "account"];
+
+const SUGGESTED_DURATIONS = ["30m", "1h", "4h", "until-reset"];
+
+const DURATION_PATTERN = /^(?:(\d+)d)?(?:(\d+)h)?(?:(\d+)m)?$/i;
+
+/** Usage shown when /model-skip arguments cannot be parsed. */
+export const SKIP_USAGE =
+  "Usage: /model-skip [provider[/bucket-or-model]] [30m|4h|until-reset] [bucket|provider|account]";
+
+function tokenize(input: string): { tokens: string[]; unterminated: boolean } {
+  const tokens: string[] = [];
+  let current = "",
+    inQuotes = false,
+    hasToken = false;
+  for (const char of input) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+      hasToken = true;
+    } else if (!inQuotes && /\s/.test(char)) {
+      if (hasToken) tokens.push(current);
+      current = "";
+      hasToken = false;
+    } else {
+      current += char;
+      hasToken = true;
+    }
+  }
+  if (hasToken) tokens.push(current);
+  return { tokens, unterminated: inQuotes };
+}
+
+function quoteToken(token: string): string {
+  return /\s/.test(token) ? `"${token}"` : token;
+}
+
+/**
+ * Parses a skip duration such as `30m`, `4h`, `1d2h` or `until-reset`.
+ * @returns The duration, or undefined if the token is not a duration.
+ */
+export function parseSkipDuration(token: string): SkipDuration | undefined {
+  if (token.toLowerCase() === "until-reset") return "until-reset";
+  const match = DURATION_PATTERN.exec(token);
+  if (!match || !(match[1] || match[2] || match[3])) return undefined;
+  const [, days, hours, minutes] = match.map((part) => Number(part ?? 0));
+  return (
+    ((days ?? 0) * 24 * 60 + (hours ?? 0) * 60 + (minutes ?? 0)) * 60 * 1000
+  );
+}
+
+/**
+ * Parses /model-skip arguments. Tokens may appear in any order; targets with
+ * spaces in their bucket name must be quoted.
+ * @throws If a token is repeated, a duration is zero, or quotes are unbalanced.
+ */
+export function parseSkipArgs(args: string): SkipRequest {
+  const { tokens, unterminated } = tokenize(args);
+  if (unterminated) throw new Error(`Unterminated quote. ${SKIP_USAGE}`);
+
+  const request: SkipRequest = {};
+  for (const token of tokens) {
+    const duration = parseSkipDuration(token);
+    if (duration !== undefined) {
+      if (request.duration !== undefined) {
+        throw new Error(`Only one duration may be given. ${SKIP_USAGE}`);
+      }
+      if (duration === 0) {
+        throw new Error(
+          `Skip duration must be longer than zero. ${SKIP_USAGE}`,
+        );
+      }
+      request.duration = duration;
+      continue;
+    }
+
+    const scope = SKIP_SCOPES.find((value) => value === token.toLowerCase());
+    if (scope) {
+      if (request.scope) {
+        throw new Error(`Only one scope may be given. ${SKIP_USAGE}`);
+      }
+      request.scope = scope;
+      continue;
+    }
+
+    if (request.target !== undefined) {
+      throw new Error(
+        `Only one target may be given, got "${request.target}" and "${token}". ${SKIP_USAGE}`,
+      );
+    }
+    request.target = token;
+  }
+  return request;
+}
+
+/**
+ * Finds the candidates a skip target refers to. `provider/name` matches a usage
+ * bucket first and a mapped model second; a bare provider matches all its buckets.
+ * Matching is case-insensitive.
+ */
+export function resolveSkipTargets(
+  target: string,
+  candidates: UsageCandidate[],
+  mappings: MappingEntry[],
+): UsageCandidate[] {
+  const normalized = target.toLowerCase(),
+    slash = normalized.indexOf("/");
+  if (slash === -1) {
+    return candidates.filter((c) => c.provider.toLowerCase() === normalized);
+  }
+
+  const provider = normalized.slice(0, slash),
+    name = normalized.slice(slash + 1),
+    buckets = candidates.filter(
+      (c) =>
+        c.provider.toLowerCase() === provider &&
+        c.windowLabel.toLowerCase() === name,
+    );
+  if (buckets.length > 0) return buckets;
+
+  return candidates.filter((c) => {
+    const model = findModelMapping(c, mappings)?.model;
+    return (
+      model?.provider.toLowerCase() === provider &&
+      model.id.toLowerCase() === name
+    );
+  });
+}
+
+function bucketLabel(candidate: UsageCandidate): string {
+  const account =
+    candidate.account && candidate.account !== "none"
+      ? ` (${candidate.account})`
+      : "";
+  return `${candidate.displayName}/${candidate.windowLabel}${account}`;
+}
+
+function latestReset(candidates: UsageCandidate[]): number | undefined {
+  const resets = candidates
+    .map((c) => c.resetsAt?.getTime())
+    .filter(
+      (time): time is number => time !== undefined && Number.isFinite(time),
+    );
+  return resets.length > 0 ? Math.max(...resets) : undefined;
+}
+
+/**
+ * Builds the cooldowns for skipping the given candidates.
+ * Provider and account scopes write one entry per provider or account; with
+ * `until-reset` they last until the latest reset among the targeted buckets.
+ * @throws If `until-reset` is requested for buckets without a known reset time.
+ */
+export function buildSkipEntries(
+  targets: UsageCandidate[],
+  scope: SkipScope,
+  duration: SkipDuration,
+  now: number,
+): SkipEntry[] {
+  const groups = new Map<
+    string,
+    { label: string; members: UsageCandidate[] }
+  >();
+  for (const target of targets) {
+    const key =
+        scope === "bucket"
+          ? candidateKey(target)
+          : scope === "provider"
+            ? getProviderSkipKey(target.provider)
+            : getProviderSkipKey(target.provider, target.account),
+      label =
+        scope === "bucket"
+          ? `usage bucket ${bucketLabel(target)}`
+          : scope === "provider"
+            ? `provider ${target.displayName}`
+            : `account ${target.account ?? "(default)"} of ${target.displayName}`,
+      group = groups.get(key);
+    if (group) {
+      group.members.push(target);
+    } else {
+      groups.set(key, { label, members: [target] });
+    }
+  }
+
+  return [...groups].map(([key, { label, members }]) => {
+    if (duration !== "until-reset") {
+      return { key, expiresAt: now + duration, label };
+    }
+    const resetAt = latestReset(members);
+    if (resetAt === undefined || resetAt <= now) {
+      throw new Error(
+        `Cannot skip ${label} until reset: its reset time is unknown.`,
+      );
+    }
+    return { key, expiresAt: resetAt, label };
+  });
+}
+
+/**
+ * Describes how long a skip lasts, for notifications.
+ */
+export function describeSkipDuration(
+  duration: SkipDuration,
+  entries: SkipEntry[],
+  now: number,
+): string {
+  if (duration !== "until-reset") return formatCooldownDuration(duration);
+  const until = Math.max(...entries.map((entry) => entry.expiresAt));
+  return `until reset, ${formatCooldownDuration(until - now)}`;
+}
+
+function parseSkipArgsLenient(tokens: string[]): SkipRequest {
+  const request: SkipRequest = {};
+  for (const token of tokens) {
+    const duration = parseSkipDuration(token),
+      scope = SKIP_SCOPES.find((value) => value === token.toLowerCase());
+    if (duration !== undefined) request.duration = duration;
+    else if (scope) request.scope = scope;
+    else request.target = token;
+  }
+  return request;
+}
+
+/**
+ * Suggests completions for the /model-skip argument text from the current
+ * candidates: buckets, mapped models and providers, durations, and scopes.
+ * Each suggestion carries the full argument text with the last token completed.
+ */
+export function getSkipCompletions(
+  prefix: string,
+  candidates: UsageCandidate[],
+  mappings: MappingEntry[],
+): AutocompleteItem[] | null {
+  const { tokens } = tokenize(prefix),
+    completing = prefix.length > 0 && !/\s$/.test(prefix),
+    partial = completing ? (tokens.pop() ?? "") : "",
+    existing = parseSkipArgsLenient(tokens),
+    options: AutocompleteItem[] = [];
+
+  if (existing.target === undefined) {
+    const seen = new Set<string>();
+    const add = (value: string, description: string) => {
+      if (seen.has(value.toLowerCase())) return;
+      seen.add(value.toLowerCase());
+      options.push({ value, label: value, description });
+    };
+    for (const c of candidates) {
+      add(`${c.provider}/${c.windowLabel}`, `bucket of ${c.displayName}`);
+    }
+    for (const c of candidates) {
+      const model = findModelMapping(c, mappings)?.model;
+      if (model) add(`${model.provider}/${model.id}`, "mapped model");
+    }
+    for (const c of candidates) {
+      add(c.provider, "every bucket of this provider");
+    }
+  }
+  if (existing.duration === undefined) {
+    for (const value of SUGGESTED_DURATIONS) {
+      options.push({ value, label: value, description: "skip duration" });
+    }
+  }
+  if (existing.scope === undefined) {
+    for (const value of SKIP_SCOPES) {
+      options.push({ value, label: value, description: "skip scope" });
+    }
+  }
+
+  const lowered = partial.toLowerCase(),
+    head = tokens.map(quoteToken).join(" "),
+    matches = options
+      .filter((option) => option.value.toLowerCase().startsWith(lowered))
+      .map((option) => ({
+        ...option,
+        value: head
+          ? `${head} ${quoteToken(option.value)}`
+          : quoteToken(option.value),
+      }));
+  return matches.length > 0 ? matches : null;
+}
@@ -0,0 +1,211 @@
+import {
+  findIgnoreMapping,
+  findModelMapping,
+  getReserveThreshold,
+  getScheduleStartFor,
+  sortCandidates,
+} from "./candidates.js";
+import type { CooldownManager } from "./cooldown.js";
+import {
+  type ModelLockEntry,
+  modelLockKey,
+  resolveModelLockSlots,
+} from "./model-locks.js";
+import { formatSchedule } from "./schedule.js";
+import type { LoadedConfig, MappingEntry, UsageCandidate } from "./types.js";
+import { formatReset } from "./usage-fetchers.js";
+
+/**
+ * Reason a candidate is excluded from model selection.
+ */
+export type CandidateExclusion =
+  | "ignored"
+  | "cooldown"
+  | "schedule"
+  | "exhausted"
+  | "reserve";
+
+/**
+ * Full selection state for one usage candidate, as shown by /model-status.
+ */
+export interface CandidateStatusRow {
+  candidate: UsageCandidate;
+  /** 1-based selection rank; only set for candidates eligible for selection. */
+  rank?: number;
+  /** Model mapping that applies to the candidate, if any. */
+  mapping?: MappingEntry;
+  ignored: boolean;
+  reserve: number;
+  /** Expiry timestamp of the cooldown currently blocking the candidate. */
+  cooldownUntil?: number;
+  /** When the mapping's schedule next allows the candidate, while it is outside it. */
+  scheduleStart?: number;
+  /** Lock key of the mapped model, when the candidate has a model mapping. */
+  lockKey?: string;
+  /** Current holders of the mapped model's lock slots. */
+  lockHolders?: ModelLockEntry[];
+  /** Number of instances that may hold the mapped model's lock at once. */
+  lockSlots?: number;
+  excludedBy?: CandidateExclusion;
+}
+
+/**
+ * Builds status rows for every candidate, eligible ones first in selection order.
+ */
+export function buildCandidateStatusRows(
+  candidates: UsageCandidate[],
+  config: LoadedConfig,
+  cooldownManager: CooldownManager,
+  locks: Record<string, ModelLockEntry[]>,
+  now = Date.now(),
+): CandidateStatusRow[] {
+  const ranked = sortCandidates(candidates, config.priority, config.mappings),
+    eligible: CandidateStatusRow[] = [],
+    excluded: CandidateStatusRow[] = [];
+
+  for (const candidate of ranked) {
+    const mapping = findModelMapping(candidate, config.mappings),
+      ignored = findIgnoreMapping(candidate, config.mappings) !== undefined,
+      reserve = getReserveThreshold(candidate, config.mappings),
+      cooldownUntil = cooldownManager.getCooldownExpiry(candidate, now),
+      scheduleStart = getScheduleStartFor(candidate, config.mappings, now),
+      row: CandidateStatusRow = { candidate, ignored, reserve };
+
+    if (mapping) {
+      row.mapping = mapping;
+    }
+    if (cooldownUntil !== undefined) {
+      row.cooldownUntil = cooldownUntil;
+    }
+    if (scheduleStart !== undefined) {
+      row.scheduleStart = scheduleStart;
+    }
+    if (mapping?.model) {
+      row.lockKey = modelLockKey(mapping.model.provider, mapping.model.id);
+      row.lockSlots = resolveModelLockSlots(
+        config,
+        mapping.model.provider,
+        mapping.model.id,
+        mapping,
+      );
+      const holders = locks[row.lockKey];
+      if (holders && holders.length > 0) {
+        row.lockHolders = holders;
+      }
+    }
+
+    if (ignored) {
+      row.excludedBy = "ignored";
+    } else if (cooldownUntil !== undefined) {
+      row.excludedBy = "cooldown";
+    } else if (scheduleStart !== undefined) {
+      row.excludedBy = "schedule";
+    } else if (candidate.remainingPercent <= 0) {
+      row.excludedBy = "exhausted";
+    } else if (candidate.remainingPercent <= reserve) {
+      row.excludedBy = "reserve";
+    }
+
+    if (row.excludedBy) {
+      excluded.push(row);
+    } else {
+      row.rank = eligible.length + 1;
+      eligible.push(row);
+    }
+  }
+
+  return [...eligible, ...excluded];
+}
+
+function describeCandidate(candidate: UsageCandidate): string {
+  const account = candidate.account ? ` (${candidate.account})` : "",
+    reset = candidate.resetsAt
+      ? `, resets ${formatReset(candidate.resetsAt)}`
+      : "";
+  return `${candidate.displayName}/${candidate.windowLabel}${account}: ${candidate.remainingPercent.toFixed(0)}% left${reset}`;
+}
+
+function describeExclusion(row: CandidateStatusRow): string {
+  switch (row.excludedBy) {
+    case "ignored":
+      return "ignored";
+    case "cooldown":
+      return `cooldown for ${formatReset(new Date(row.cooldownUntil ?? 0))}`;
+    case "schedule":
+      return `outside schedule, active in ${formatReset(new Date(row.scheduleStart ?? 0))}`;
+    case "exhausted":
+      return "exhausted";
+    case "reserve":
+      return `at or below reserve (${row.reserve}%)`;
+    default:
+      return "";
+  }
+}
+
+function describeLock(row: CandidateStatusRow, ownPid: number): string {
+  if (!row.lockKey) return "";
+  const slots = row.lockSlots ?? 1,
+    holders = row.lockHolders ?? [];
+  if (holders.length === 0) {
+    return slots > 1 ? `${slots} lock slots free` : "lock free";
+  }
+  const owners = holders
+    .map((holder) =>
+      holder.pid === ownPid
+        ? "this process"
+        : `${holder.instanceId}, pid ${holder.pid}`,
+    )
+    .join(" and ");
+  return slots > 1
+    ? `${holders.length}/${slots} lock slots held by ${owners}`
+    : `locked by ${owners}`;
+}
+
+/**
+ * Formats status rows as a multi-line report for notifications.
+ */
+export function formatCandidateStatusReport(
+  rows: CandidateStatusRow[],
+  config: LoadedConfig,
+  ownPid = process.pid,
+): string {
+  const lines = [
+    `Model selector status (${rows.length} candidate${rows.length === 1 ? "" : "s"}; priority: ${config.priority.join(" → ")})`,
+  ];
+
+  if (rows.length === 0) {
+    lines.push("No usage windows found.");
+  }
+
+  for (const row of rows) {
+    const prefix = row.rank !== undefined ? `#${row.rank}` : "--",
+      target = row.mapping?.model
+        ? `${row.mapping.model.provider}/${row.mapping.model.id}`
+        : row.ignored
+          ? ""
+          : "no model mapping",
+      details = [
+        target,
+        row.reserve > 0 && row.excludedBy !== "reserve"
+          ? `reserve ${row.reserve}%`
+          : "",
+        row.mapping?.schedule
+          ? `schedule ${formatSchedule(row.mapping.schedule)}`
+          : "",
+        describeExclusion(row),
+        describeLock(row, ownPid),
+      ].filter((part) => part.length > 0);
+
+    lines.push(
+      `${prefix} ${describeCandidate(row.candidate)}${details.length > 0 ? ` → ${details.join("; ")}` : ""}`,
+    );
+  }
+
+  if (config.fallback) {
+    lines.push(
+      `Fallback: ${config.fallback.provider}/${config.fallback.id}${config.fallback.lock === false ? " (unlocked)" : ""}`,
+    );
+  }
+
+  return lines.join("\n");
+}
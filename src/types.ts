@@ -14,6 +14,16 @@ export interface RateWindow {
   usedPercent: number;
   resetDescription?: string;
   resetsAt?: Date;
+  windowMs?: number; // Total length of the quota window, when the provider reports it
+}
+
+/**
+ * Structured details of a failed usage request, taken from the HTTP response.
+ */
+export interface UsageErrorInfo {
+  status?: number;
+  retryAfterMs?: number; // Delay requested by the Retry-After header
+  resetsAt?: number; // Epoch milliseconds from rate-limit reset headers
 }
 
 /**
@@ -25,6 +35,7 @@ export interface UsageSnapshot {
   windows: RateWindow[];
   plan?: string;
   error?: string;
+  errorInfo?: UsageErrorInfo;
   account?: string;
 }
 
@@ -44,6 +55,33 @@ export interface UsageMappingKey {
 export interface ModelMappingTarget {
   provider: string;
   id: string;
+  concurrency?: number; // Pi instances that may hold this model's lock at once (default: 1)
+}
+
+/**
+ * Weekday names accepted by mapping schedules, Monday first.
+ */
+export const WEEKDAYS = [
+  "mon",
+  "tue",
+  "wed",
+  "thu",
+  "fri",
+  "sat",
+  "sun",
+] as const;
+/**
+ * Day of the week a mapping schedule can be active on.
+ */
+export type Weekday = (typeof WEEKDAYS)[number];
+
+/**
+ * Times a mapped bucket may be selected; outside them it is skipped.
+ */
+export interface MappingSchedule {
+  hours?: string; // "HH:MM-HH:MM"; an end before the start runs past midnight (default: all day)
+  weekdays?: Weekday[]; // Days the hours start on (default: every day)
+  timezone?: string; // IANA timezone the hours are read in (default: the system timezone)
 }
 
 /**
@@ -55,6 +93,7 @@ export interface MappingEntry {
   ignore?: boolean;
   combine?: string;
   reserve?: number; // Minimum remaining percentage (0-99) to preserve; candidate excluded if remainingPercent <= reserve
+  schedule?: MappingSchedule;
 }
 
 /**
@@ -63,7 +102,8 @@ export interface MappingEntry {
 export type PriorityRule =
   | "fullAvailability"
   | "remainingPercent"
-  | "earliestReset";
+  | "earliestReset"
+  | "pacing";
 
 /**
  * Model to select when all mapped candidates are exhausted.
@@ -74,6 +114,68 @@ export interface FallbackConfig {
   lock?: boolean; // default: true
 }
 
+/**
+ * Cache lifetimes for one provider's usage results, in seconds.
+ */
+export interface UsageCachePolicy {
+  ttlSeconds?: number; // How long results are served without refetching
+  staleSeconds?: number; // How long past the TTL results are served while refreshing in the background
+}
+
+/**
+ * Usage fetch cache settings shared across Pi instances.
+ */
+export interface UsageCacheConfig extends UsageCachePolicy {
+  enabled?: boolean;
+  providers?: Record<string, UsageCachePolicy>; // Per-provider overrides keyed by usage provider name
+}
+
+/**
+ * Backoff applied to a provider whose usage fetches keep failing.
+ */
+export interface FailureBackoffConfig {
+  enabled?: boolean;
+  baseSeconds?: number; // Pause after the first failure; doubles with every further failure
+  maxSeconds?: number; // Upper bound for a single pause
+}
+
+/**
+ * Debug log settings. A relative path resolves against the project directory,
+ * or against the global config's directory for the global file.
+ */
+export interface DebugLogConfig {
+  enabled?: boolean;
+  path?: string;
+}
+
+/**
+ * Shared lock server used instead of the lock file in the home directory.
+ */
+export interface LockServerConfig {
+  url?: string; // Lock server to coordinate through, e.g. http://10.0.0.5:7345
+  token?: string; // Bearer token required by the server, and sent to it
+  listen?: string; // Default [host:]port for /model-lock-server start
+}
+
+/**
+ * Reloading of the config files when they change on disk.
+ */
+export interface HotReloadConfig {
+  enabled?: boolean; // default: true
+  reselect?: boolean; // Re-run selection after a reload (default: false)
+}
+
+/**
+ * Named selection strategy switched with /model-profile. Each field it sets
+ * replaces the merged base value while the profile is active.
+ */
+export interface ConfigProfile {
+  mappings?: MappingEntry[];
+  priority?: PriorityRule[];
+  fallback?: FallbackConfig;
+  disabledProviders?: string[]; // Built-in, custom, command or registered providers
+}
+
 /**
  * User-facing model selector configuration loaded from global and project files.
  */
@@ -85,8 +187,37 @@ export interface ModelSelectorConfig {
   enableModelLocking?: boolean;
   fallback?: FallbackConfig;
   preserveDefaultModel?: boolean;
+  usageCache?: UsageCacheConfig;
+  failureBackoff?: FailureBackoffConfig;
+  lockConcurrency?: Record<string, number>;
+  lockServer?: LockServerConfig;
+  debugLog?: DebugLogConfig;
+  disabledProviders?: string[]; // Built-in, custom, command or registered providers
+  providerSettings?: ProviderSettings;
+  profiles?: Record<string, ConfigProfile>;
+  hotReload?: HotReloadConfig;
+  /**
+   * Config files merged beneath this one, in order. Relative paths resolve
+   * against this file's directory; a `*` in the file name matches every file
+   * of that directory.
+   */
+  extends?: string[];
+  /**
+   * Config format version the file was written for. Files without one are
+   * version 1; older files are migrated to {@link CONFIG_VERSION} on load.
+   */
+  version?: number;
 }
 
+/**
+ * Config keys that hold settings, as opposed to `extends`, which only pulls
+ * in other files, and `version`, which describes the file itself.
+ */
+export type ConfigValueKey = Exclude<
+  keyof ModelSelectorConfig,
+  "extends" | "version"
+>;
+
 /**
  * Widget display options for usage candidates in the Pi UI.
  */
@@ -106,6 +237,7 @@ export interface UsageCandidate {
   usedPercent: number;
   remainingPercent: number;
   resetsAt?: Date;
+  windowMs?: number;
   account?: string;
   isSynthetic?: boolean;
 }
@@ -117,11 +249,43 @@ export interface MinimaxSettings {
   groupId?: string;
 }
 
+/**
+ * User-declared HTTP quota endpoint for a provider without a built-in fetcher.
+ * Path fields are JSON paths (`$.data.quotas[*]`); the URL and header values
+ * may reference environment variables as `${NAME}`.
+ */
+export interface CustomProviderSettings {
+  name: string; // Usage provider name referenced by mappings
+  displayName?: string;
+  url: string;
+  headers?: Record<string, string>;
+  windows?: string; // Path selecting one node per usage window (default: "$")
+  label?: string; // Path relative to each window node, or a literal label
+  usedPercent?: string;
+  used?: string;
+  limit?: string;
+  resetsAt?: string; // Epoch seconds/milliseconds or a date string
+}
+
+/**
+ * User-declared command that prints usage for a provider without a built-in fetcher.
+ * Stdout is either a JSON usage snapshot or one `Label: 42%` line per window.
+ */
+export interface CommandProviderSettings {
+  name: string; // Usage provider name referenced by mappings
+  displayName?: string;
+  command: string; // Executable, run without a shell
+  args?: string[];
+  timeoutMs?: number;
+}
+
 /**
  * Per-provider settings consumed by usage fetchers.
  */
 export interface ProviderSettings {
   minimax?: MinimaxSettings;
+  custom?: CustomProviderSettings[];
+  commands?: CommandProviderSettings[];
 }
 
 /**
@@ -134,17 +298,50 @@ export interface LoadedConfig {
   autoRun: boolean;
   enableModelLocking: boolean;
   preserveDefaultModel?: boolean;
-  disabledProviders: ProviderName[];
+  disabledProviders: string[];
   providerSettings?: ProviderSettings;
   debugLog?: {
     enabled: boolean;
     path: string;
   };
   fallback?: FallbackConfig;
-  sources: { globalPath: string; projectPath: string };
+  usageCache?: Required<UsageCacheConfig>;
+  failureBackoff?: Required<FailureBackoffConfig>;
+  /** Lock slots per `provider/model` key or per provider name. */
+  lockConcurrency?: Record<string, number>;
+  lockServer?: LockServerConfig;
+  hotReload?: Required<HotReloadConfig>;
+  /** Names of the profiles defined in either config file. */
+  profiles?: string[];
+  /** Profile applied on top of the base config, if any. */
+  profile?: string;
+  sources: {
+    globalPath: string;
+    projectPath: string;
+    /** Highest-precedence layer that set each top-level key. */
+    values?: Record<ConfigValueKey, ConfigValueSource>;
+    /** Config file that last set each top-level key, if a file did. */
+    files?: Partial<Record<ConfigValueKey, string>>;
+    /** Files pulled in through `extends`, in merge order. */
+    includes?: string[];
+    /** Directories searched by `extends` patterns, for new files. */
+    includeDirs?: string[];
+  };
   raw: { global: Record<string, unknown>; project: Record<string, unknown> };
 }
 
+/**
+ * Layer a loaded config value came from, from lowest to highest precedence.
+ * Files pulled in with `extends` belong to the layer of the file extending
+ * them.
+ */
+export type ConfigValueSource =
+  | "default"
+  | "global"
+  | "project"
+  | "profile"
+  | "env";
+
 /**
  * Provider names known to the selector.
  */
@@ -301,21 +498,53 @@ export const DEFAULT_WIDGET_CONFIG: Required<WidgetConfig> = {
   showCount: 3,
 };
 
+/**
+ * Default usage cache settings used when config omits usageCache options.
+ */
+export const DEFAULT_USAGE_CACHE_CONFIG: Required<UsageCacheConfig> = {
+  enabled: true,
+  ttlSeconds: 60,
+  staleSeconds: 300,
+  providers: {},
+};
+
+/**
+ * Default failure backoff settings used when config omits failureBackoff options.
+ */
+export const DEFAULT_FAILURE_BACKOFF_CONFIG: Required<FailureBackoffConfig> = {
+  enabled: true,
+  baseSeconds: 60,
+  maxSeconds: 3600,
+};
+
+/**
+ * Hot reload settings used when the config does not set them.
+ */
+export const DEFAULT_HOT_RELOAD_CONFIG: Required<HotReloadConfig> = {
+  enabled: true,
+  reselect: false,
+};
+
+/**
+ * Current config format version, written to new and migrated config files.
+ */
+export const CONFIG_VERSION = 2;
+
 /**
  * Built-in mappings for common provider usage windows and models.
  */
 export const DEFAULT_MAPPINGS: MappingEntry[] = [
   {
     usage: { provider: "anthropic", window: "Sonnet" },
-    model: { provider: "anthropic", id: "claude-3-5-sonnet-latest" },
+    model: { provider: "anthropic", id: "claude-sonnet-4-5" },
   },
   {
     usage: { provider: "anthropic", window: "Opus" },
-    model: { provider: "anthropic", id: "claude-3-opus-latest" },
+    model: { provider: "anthropic", id: "claude-opus-4-1" },
   },
   {
     usage: { provider: "anthropic", window: "Shared" },
-    model: { provider: "anthropic", id: "claude-3-5-sonnet-latest" },
+    model: { provider: "anthropic", id: "claude-sonnet-4-5" },
   },
   {
     usage: { provider: "anthropic", window: "5h" },
@@ -327,7 +556,7 @@ export const DEFAULT_MAPPINGS: MappingEntry[] = [
   },
   {
     usage: { provider: "gemini", window: "Flash" },
-    model: { provider: "google", id: "gemini-1.5-flash" },
+    model: { provider: "google", id: "gemini-2.5-flash" },
   },
   {
     usage: { provider: "copilot", window: "Chat" },
@@ -0,0 +1,291 @@
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { EXTENSION_DIR } from "./adapter.js";
+import { formatReset } from "./fetchers/common.js";
+import type {
+  RateWindow,
+  UsageCacheConfig,
+  UsageCachePolicy,
+  UsageSnapshot,
+} from "./types.js";
+import { writeDebugLog } from "./types.js";
+
+/** Default path for the usage cache shared across Pi instances. */
+export const USAGE_CACHE_PATH = path.join(
+  os.homedir(),
+  EXTENSION_DIR,
+  "model-selector-usage-cache.json",
+);
+
+// Entries this old are dropped on write even if no policy would still serve them
+const MAX_ENTRY_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Storage location and clock overrides for the usage cache.
+ */
+export interface UsageCacheOptions {
+  path?: string;
+  now?: () => number;
+}
+
+/**
+ * Lifetimes for one cache key, in milliseconds.
+ */
+export interface ResolvedCachePolicy {
+  ttlMs: number;
+  staleMs: number;
+}
+
+type CachedWindow = Omit<RateWindow, "resetsAt" | "resetDescription"> & {
+  resetsAt?: number;
+};
+
+type CachedSnapshot = Omit<UsageSnapshot, "windows"> & {
+  windows: CachedWindow[];
+};
+
+interface CacheEntry {
+  fetchedAt: number;
+  snapshots: CachedSnapshot[];
+}
+
+function serializeSnapshot(snapshot: UsageSnapshot): CachedSnapshot {
+  return {
+    ...snapshot,
+    windows: snapshot.windows.map((window) => {
+      const { resetsAt, resetDescription: _description, ...rest } = window,
+        cached: CachedWindow = rest,
+        resetMs = resetsAt?.getTime();
+      if (resetMs !== undefined && Number.isFinite(resetMs)) {
+        cached.resetsAt = resetMs;
+      }
+      return cached;
+    }),
+  };
+}
+
+function deserializeSnapshot(snapshot: CachedSnapshot): UsageSnapshot {
+  return {
+    ...snapshot,
+    windows: snapshot.windows.map((window) => {
+      const { resetsAt, ...rest } = window,
+        restored: RateWindow = rest;
+      if (typeof resetsAt === "number") {
+        // Reset descriptions are relative, so they are rebuilt on every read
+        restored.resetsAt = new Date(resetsAt);
+        restored.resetDescription = formatReset(restored.resetsAt);
+      }
+      return restored;
+    }),
+  };
+}
+
+function isCacheEntry(value: unknown): value is CacheEntry {
+  if (!value || typeof value !== "object") return false;
+  const entry = value as Partial<CacheEntry>;
+  return (
+    typeof entry.fetchedAt === "number" &&
+    Array.isArray(entry.snapshots) &&
+    entry.snapshots.every(
+      (snapshot) =>
+        snapshot &&
+        typeof snapshot.provider === "string" &&
+        Array.isArray(snapshot.windows),
+    )
+  );
+}
+
+/**
+ * Returns the cache lifetimes for a provider, applying its overrides to the defaults.
+ */
+export function resolveUsageCachePolicy(
+  config: Required<UsageCacheConfig>,
+  provider: string,
+): ResolvedCachePolicy {
+  const override: UsageCachePolicy = config.providers[provider] ?? {};
+  return {
+    ttlMs: (override.ttlSeconds ?? config.ttlSeconds) * 1000,
+    staleMs: (override.staleSeconds ?? config.staleSeconds) * 1000,
+  };
+}
+
+/**
+ * Returns the cache key for a provider. The settings that decide what gets
+ * fetched are hashed into the key, so two configs declaring a provider under
+ * the same name never serve each other's usage.
+ */
+export function usageCacheKey(provider: string, settings?: object): string {
+  if (settings === undefined) return provider;
+  // Keys are sorted so the hash does not depend on declaration order
+  const canonical = JSON.stringify(settings, (_key, value: unknown) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.entries(value).sort(([a], [b]) =>
+            a < b ? -1 : a > b ? 1 : 0,
+          ),
+        )
+      : value,
+  );
+  return `${provider}#${createHash("sha256").update(canonical).digest("hex").slice(0, 16)}`;
+}
+
+/**
+ * File-backed usage cache with stale-while-revalidate semantics.
+ * Fresh entries are served as-is; stale entries are served while one background
+ * fetch per key refreshes them. Results containing errors are never stored, so a
+ * failing provider is retried on the next lookup.
+ */
+export class UsageCache {
+  private readonly cachePath: string;
+  private readonly now: () => number;
+  private readonly revalidations = new Map<string, Promise<void>>();
+  private writeChain: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a cache with production defaults or test overrides.
+   */
+  constructor(options: UsageCacheOptions = {}) {
+    this.cachePath = options.path ?? USAGE_CACHE_PATH;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Returns cached snapshots for a key, fetching them when missing or expired.
+   */
+  async resolve(
+    key: string,
+    policy: ResolvedCachePolicy,
+    fetch: () => Promise<UsageSnapshot[]>,
+  ): Promise<UsageSnapshot[]> {
+    const entry = (await this.readEntries())[key];
+    if (entry) {
+      const age = this.now() - entry.fetchedAt;
+      if (age >= 0 && age < policy.ttlMs) {
+        return entry.snapshots.map(deserializeSnapshot);
+      }
+      if (age >= 0 && age < policy.ttlMs + policy.staleMs) {
+        writeDebugLog(`Serving stale usage for ${key} while revalidating`);
+        this.revalidate(key, fetch);
+        return entry.snapshots.map(deserializeSnapshot);
+      }
+    }
+    return await this.fetchAndStore(key, fetch);
+  }
+
+  /**
+   * Resolves once every background revalidation started so far has finished.
+   */
+  async settle(): Promise<void> {
+    await Promise.all([...this.revalidations.values()]);
+    await this.writeChain;
+  }
+
+  /**
+   * Removes the cache file.
+   */
+  async clear(): Promise<void> {
+    await this.writeChain;
+    try {
+      await fs.promises.unlink(this.cachePath);
+    } catch {
+      // Ignore missing file
+    }
+  }
+
+  private revalidate(key: string, fetch: () => Promise<UsageSnapshot[]>): void {
+    if (this.revalidations.has(key)) return;
+    const run = this.fetchAndStore(key, fetch)
+      .then(
+        () => undefined,
+        (error: unknown) => {
+          writeDebugLog(
+            `Background usage refresh failed for ${key}: ${String(error)}`,
+          );
+        },
+      )
+      .finally(() => {
+        this.revalidations.delete(key);
+      });
+    this.revalidations.set(key, run);
+  }
+
+  private async fetchAndStore(
+    key: string,
+    fetch: () => Promise<UsageSnapshot[]>,
+  ): Promise<UsageSnapshot[]> {
+    const snapshots = await fetch();
+    if (
+      snapshots.length > 0 &&
+      snapshots.every((snapshot) => !snapshot.error)
+    ) {
+      await this.store(key, {
+        fetchedAt: this.now(),
+        snapshots: snapshots.map(serializeSnapshot),
+      });
+    }
+    return snapshots;
+  }
+
+  private async readEntries(): Promise<Record<string, CacheEntry>> {
+    try {
+      const parsed = JSON.parse(
+          await fs.promises.readFile(this.cachePath, "utf-8"),
+        ) as { entries?: Record<string, unknown> },
+        entries: Record<string, CacheEntry> = {};
+      for (const [key, value] of Object.entries(parsed.entries ?? {})) {
+        if (isCacheEntry(value)) entries[key] = value;
+      }
+      return entries;
+    } catch {
+      // Missing or corrupt cache files behave like an empty cache
+      return {};
+    }
+  }
+
+  private store(key: string, entry: CacheEntry): Promise<void> {
+    // Serialize read-modify-write cycles so parallel fetches do not drop entries
+    this.writeChain = this.writeChain.then(async () => {
+      try {
+        const entries = await this.readEntries(),
+          cutoff = this.now() - MAX_ENTRY_AGE_MS;
+        entries[key] = entry;
+        for (const [existingKey, existing] of Object.entries(entries)) {
+          if (existing.fetchedAt < cutoff) delete entries[existingKey];
+        }
+
+        await fs.promises.mkdir(path.dirname(this.cachePath), {
+          recursive: true,
+        });
+        const tempPath = `${this.cachePath}.tmp.${Math.random().toString(36).slice(2)}`;
+        await fs.promises.writeFile(
+          tempPath,
+          JSON.stringify({ entries }),
+          "utf-8",
+        );
+        await fs.promises.rename(tempPath, this.cachePath);
+      } catch (error: unknown) {
+        writeDebugLog(`Failed to write usage cache: ${String(error)}`);
+      }
+    });
+    return this.writeChain;
+  }
+}
+
+/**
+ * Creates a usage cache using the supplied overrides.
+ */
+export function createUsageCache(options: UsageCacheOptions = {}): UsageCache {
+  return new UsageCache(options);
+}
+
+let defaultCache: UsageCache | undefined;
+
+/**
+ * Returns the shared usage cache backed by the default cache path.
+ */
+export function getUsageCache(): UsageCache {
+  defaultCache ??= new UsageCache();
+  return defaultCache;
+}
@@ -1,7 +1,12 @@
 import { isOmp } from "./adapter.js";
+import { getRegisteredUsageFetchers } from "./fetcher-registry.js";
 import { fetchClaudeUsage } from "./fetchers/anthropic.js";
 import { fetchAntigravityUsage } from "./fetchers/antigravity.js";
 import { fetchAllCodexUsages } from "./fetchers/codex.js";
+import {
+  DEFAULT_COMMAND_TIMEOUT_MS,
+  fetchCommandUsage,
+} from "./fetchers/command.js";
 import {
   formatReset,
   loadPiAuth,
@@ -9,12 +14,23 @@ import {
   safeDate,
 } from "./fetchers/common.js";
 import { fetchCopilotUsage } from "./fetchers/copilot.js";
+import { fetchCustomUsage } from "./fetchers/custom.js";
 import { fetchGeminiUsage } from "./fetchers/gemini.js";
 import { fetchKiroUsage } from "./fetchers/kiro.js";
 import { fetchMinimaxUsage } from "./fetchers/minimax.js";
 import { fetchZaiUsage } from "./fetchers/zai.js";
-import type { ProviderSettings, UsageSnapshot } from "./types.js";
+import type {
+  ProviderSettings,
+  UsageCacheConfig,
+  UsageSnapshot,
+} from "./types.js";
 import { writeDebugLog } from "./types.js";
+import {
+  getUsageCache,
+  resolveUsageCachePolicy,
+  usageCacheKey,
+} from "./usage-cache.js";
+import { getUsageHistoryStore } from "./usage-history.js";
 
 // ============================================================================
 // OMP Provider Name Normalization
@@ -170,6 +186,10 @@ function convertLimitsToWindows(
       usedPercent: Math.max(0, Math.min(100, usedPercent)),
     };
 
+    if (limit.window?.durationMs !== undefined && limit.window.durationMs > 0) {
+      window.windowMs = limit.window.durationMs;
+    }
+
     if (limit.window?.resetsAt !== undefined) {
       const resetsAtDate = safeDate(limit.window.resetsAt);
       if (resetsAtDate) {
@@ -199,23 +219,33 @@ async function fetchOmpUsages(
     }) => Promise<OmpUsageReport[] | null>;
   },
   disabledProviders: string[] = [],
+  providerSettings?: ProviderSettings,
+  usageCache?: Required<UsageCacheConfig>,
 ): Promise<UsageSnapshot[]> {
-  writeDebugLog("Fetching usage via OMP authStorage.fetchUsageReports()");
-
   const disabled = new Set(disabledProviders.map((p) => p.toLowerCase()));
-  let ompSnapshots: UsageSnapshot[] = [];
-
-  try {
-    const reports = await authStorage.fetchUsageReports?.();
-    if (reports && reports.length > 0) {
-      ompSnapshots = convertOmpUsageReports(reports);
-      writeDebugLog(
-        `OMP returned ${reports.length} reports -> ${ompSnapshots.length} snapshots`,
-      );
-    }
-  } catch (err) {
-    writeDebugLog(`OMP fetchUsageReports failed: ${String(err)}`);
-  }
+
+  // OMP reports every provider in one call, so they share a single cache entry
+  let ompSnapshots = await cachedFetch(
+    "omp",
+    undefined,
+    usageCache,
+    async () => {
+      writeDebugLog("Fetching usage via OMP authStorage.fetchUsageReports()");
+      try {
+        const reports = await authStorage.fetchUsageReports?.();
+        if (reports && reports.length > 0) {
+          const snapshots = convertOmpUsageReports(reports);
+          writeDebugLog(
+            `OMP returned ${reports.length} reports -> ${snapshots.length} snapshots`,
+          );
+          return snapshots;
+        }
+      } catch (err) {
+        writeDebugLog(`OMP fetchUsageReports failed: ${String(err)}`);
+      }
+      return [];
+    },
+  );
 
   // Filter out disabled providers from OMP results
   ompSnapshots = ompSnapshots.filter((s) => !disabled.has(s.provider));
@@ -227,6 +257,9 @@ async function fetchOmpUsages(
   // (e.g. kiro uses CLI subprocess, which OMP doesn't have)
   const fallbackFetchers: {
     provider: string;
+    displayName?: string;
+    timeoutMs?: number;
+    settings?: object;
     fetch: () => Promise<UsageSnapshot | UsageSnapshot[]>;
   }[] = [];
 
@@ -238,42 +271,61 @@ async function fetchOmpUsages(
     });
   }
 
+  // Command providers and fetchers registered by other extensions are
+  // unknown to OMP, so they always run here
+  fallbackFetchers.push(
+    ...[
+      ...commandFetchers(disabled, providerSettings),
+      ...externalFetchers(disabled),
+    ].filter((f) => !ompCoveredProviders.has(f.provider)),
+  );
+
   // Run fallback fetchers with timeout
   if (fallbackFetchers.length > 0) {
     const results = await Promise.all(
-      fallbackFetchers.map((f) => {
-        const displayName = PROVIDER_DISPLAY_NAMES[f.provider] || f.provider;
-        const getFallback = (error: string): UsageSnapshot => ({
-          provider: f.provider,
-          displayName,
-          windows: [],
-          error,
-        });
+      fallbackFetchers.map((f) =>
+        cachedFetch(f.provider, f.settings, usageCache, () => {
+          const displayName =
+            f.displayName ?? (PROVIDER_DISPLAY_NAMES[f.provider] || f.provider);
+          const getFallback = (error: string): UsageSnapshot => ({
+            provider: f.provider,
+            displayName,
+            windows: [],
+            error,
+          });
+
+          let timer: ReturnType<typeof setTimeout>;
+          const timeoutPromise = new Promise<UsageSnapshot[]>((resolve) => {
+            timer = setTimeout(
+              () => resolve([getFallback("Timeout")]),
+              f.timeoutMs ?? 30000,
+            );
+          });
+          const safePromise = f.fetch().catch((err) => {
+            writeDebugLog(
+              `Fallback fetcher error (${f.provider}): ${String(err)}`,
+            );
+            return getFallback(String(err));
+          });
+
+          // Handle fetchers that return arrays (e.g. one snapshot per account)
+          const normalizedPromise = safePromise.then((result) =>
+            Array.isArray(result)
+              ? result.length > 0
+                ? result
+                : [getFallback("Empty result")]
+              : [result],
+          );
 
-        let timer: ReturnType<typeof setTimeout>;
-        const timeoutPromise = new Promise<UsageSnapshot>((resolve) => {
-          timer = setTimeout(() => resolve(getFallback("Timeout")), 30000);
-        });
-        const safePromise = f.fetch().catch((err) => {
-          writeDebugLog(
-            `Fallback fetcher error (${f.provider}): ${String(err)}`,
+          return Promise.race([normalizedPromise, timeoutPromise]).finally(
+            () => {
+              if (timer) clearTimeout(timer);
+            },
           );
-          return getFallback(String(err));
-        });
-
-        // Handle fetchers that return arrays (e.g. codex returns UsageSnapshot[])
-        const normalizedPromise = safePromise.then((result) =>
-          Array.isArray(result)
-            ? (result[0] ?? getFallback("Empty result"))
-            : result,
-        );
-
-        return Promise.race([normalizedPromise, timeoutPromise]).finally(() => {
-          if (timer) clearTimeout(timer);
-        });
-      }),
+        }),
+      ),
     );
-    ompSnapshots.push(...results);
+    ompSnapshots.push(...results.flat());
   }
 
   return ompSnapshots;
@@ -283,15 +335,108 @@ async function fetchOmpUsages(
 // Main Fetch Entry Point
 // ============================================================================
 
+/**
+ * Runs a fetch through the usage cache when it is enabled and records freshly
+ * fetched snapshots in the usage history. Cache hits are not recorded again.
+ * Entries are keyed by the provider and a hash of its settings.
+ */
+async function cachedFetch(
+  provider: string,
+  settings: object | undefined,
+  usageCache: Required<UsageCacheConfig> | undefined,
+  fetch: () => Promise<UsageSnapshot[]>,
+): Promise<UsageSnapshot[]> {
+  const fetchAndRecord = async () => {
+    const snapshots = await fetch();
+    await getUsageHistoryStore().record(snapshots);
+    return snapshots;
+  };
+  if (!usageCache?.enabled) return await fetchAndRecord();
+  return await getUsageCache().resolve(
+    usageCacheKey(provider, settings),
+    resolveUsageCachePolicy(usageCache, provider),
+    fetchAndRecord,
+  );
+}
+
+/**
+ * Builds fetchers for every enabled command declared in providerSettings.commands.
+ * Each fallback timeout matches the command's own kill timeout.
+ */
+function commandFetchers(
+  disabled: Set<string>,
+  providerSettings?: ProviderSettings,
+): {
+  provider: string;
+  displayName: string;
+  timeoutMs: number;
+  settings: object;
+  fetch: () => Promise<UsageSnapshot>;
+}[] {
+  return (providerSettings?.commands ?? [])
+    .filter((command) => !disabled.has(command.name.toLowerCase()))
+    .map((command) => ({
+      provider: command.name,
+      displayName: command.displayName ?? command.name,
+      timeoutMs: command.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS,
+      settings: command,
+      fetch: () => fetchCommandUsage(command),
+    }));
+}
+
+/**
+ * Builds fetchers for every enabled provider registered by another extension.
+ */
+function externalFetchers(disabled: Set<string>): {
+  provider: string;
+  displayName: string;
+  fetch: () => Promise<UsageSnapshot | UsageSnapshot[]>;
+}[] {
+  return getRegisteredUsageFetchers()
+    .filter(
+      (registration) => !disabled.has(registration.provider.toLowerCase()),
+    )
+    .map((registration) => ({
+      provider: registration.provider,
+      displayName: registration.displayName,
+      // Async wrapper turns synchronous throws into rejections for the fallback path
+      fetch: async () => registration.fetch(),
+    }));
+}
+
+/**
+ * Fetches usage for every enabled provider declared in providerSettings.custom.
+ * Custom endpoints are independent of Pi/OMP auth, so both runtime paths use this.
+ */
+async function fetchCustomUsages(
+  disabledProviders: string[],
+  providerSettings?: ProviderSettings,
+  usageCache?: Required<UsageCacheConfig>,
+): Promise<UsageSnapshot[]> {
+  const disabled = new Set(disabledProviders.map((p) => p.toLowerCase())),
+    results = await Promise.all(
+      (providerSettings?.custom ?? [])
+        .filter((custom) => !disabled.has(custom.name.toLowerCase()))
+        .map((custom) =>
+          cachedFetch(custom.name, custom, usageCache, async () => [
+            await fetchCustomUsage(custom),
+          ]),
+        ),
+    );
+  return results.flat();
+}
+
 /**
  * Aggregates usage data from all enabled providers.
  * When running under OMP, delegates to authStorage.fetchUsageReports().
  * Falls back to extension-managed HTTP fetchers for legacy Pi.
+ * Passing an enabled usageCache config serves results from the shared cache.
  */
 export async function fetchAllUsages(
   modelRegistry: unknown,
   disabledProviders: string[] = [],
   providerSettings?: ProviderSettings,
+  usageCache?: Required<UsageCacheConfig>,
 ): Promise<UsageSnapshot[]> {
   // OMP path: use built-in usage reports
   if (isOmp) {
@@ -303,7 +448,16 @@ export async function fetchAllUsages(
       };
     };
     if (mr?.authStorage?.fetchUsageReports) {
-      return fetchOmpUsages(mr.authStorage, disabledProviders);
+      const [ompSnapshots, customSnapshots] = await Promise.all([
+        fetchOmpUsages(
+          mr.authStorage,
+          disabledProviders,
+          providerSettings,
+          usageCache,
+        ),
+        fetchCustomUsages(disabledProviders, providerSettings, usageCache),
+      ]);
+      return [...ompSnapshots, ...customSnapshots];
     }
     writeDebugLog(
       "OMP detected but authStorage.fetchUsageReports unavailable, falling back to extension fetchers",
@@ -317,9 +471,9 @@ export async function fetchAllUsages(
       promise: Promise<T>,
       ms: number,
       provider: string,
+      displayName = PROVIDER_DISPLAY_NAMES[provider] || provider,
     ) => {
       let timer: ReturnType<typeof setTimeout>;
-      const displayName = PROVIDER_DISPLAY_NAMES[provider] || provider;
       const getFallback = (error: string): T => {
         const snapshot: UsageSnapshot = {
           provider,
@@ -347,6 +501,9 @@ export async function fetchAllUsages(
     },
     fetchers: {
       provider: string;
+      displayName?: string;
+      timeoutMs?: number;
+      settings?: object;
       fetch: () => Promise<UsageSnapshot | UsageSnapshot[]>;
     }[] = [
       {
@@ -373,21 +530,40 @@ export async function fetchAllUsages(
       { provider: "zai", fetch: () => fetchZaiUsage(modelRegistry, piAuth) },
       {
         provider: "minimax",
+        ...(providerSettings?.minimax
+          ? { settings: providerSettings.minimax }
+          : {}),
         fetch: () =>
           fetchMinimaxUsage(piAuth, providerSettings?.minimax?.groupId),
       },
+      ...commandFetchers(disabled, providerSettings),
+      ...externalFetchers(disabled),
     ],
     activeFetchers = fetchers.filter((f) => !disabled.has(f.provider)),
-    results = await Promise.all(
-      activeFetchers.map((f) => timeout(f.fetch(), 30000, f.provider)),
-    );
-
-  return results.flat();
+    [results, customSnapshots] = await Promise.all([
+      Promise.all(
+        activeFetchers.map((f) =>
+          cachedFetch(f.provider, f.settings, usageCache, async () => {
+            const result = await timeout(
+              f.fetch(),
+              f.timeoutMs ?? 30000,
+              f.provider,
+              f.displayName,
+            );
+            return Array.isArray(result) ? result : [result];
+          }),
+        ),
+      ),
+      fetchCustomUsages(disabledProviders, providerSettings, usageCache),
+    ]);
+
+  return [...results.flat(), ...customSnapshots];
 }
 
 export { fetchClaudeUsage } from "./fetchers/anthropic.js";
 export { fetchAntigravityUsage } from "./fetchers/antigravity.js";
 export { fetchAllCodexUsages } from "./fetchers/codex.js";
+export { fetchCommandUsage } from "./fetchers/command.js";
 // Re-export utility functions for backward compatibility if needed,
 // though most should now come from ./fetchers/common.js
 export {
@@ -397,6 +573,7 @@ export {
   safeDate,
 } from "./fetchers/common.js";
 export { fetchCopilotUsage } from "./fetchers/copilot.js";
+export { fetchCustomUsage } from "./fetchers/custom.js";
 export { fetchGeminiUsage } from "./fetchers/gemini.js";
 export { fetchKiroUsage } from "./fetchers/kiro.js";
 export { fetchMinimaxUsage } from "./fetchers/minimax.js";
@@ -0,0 +1,251 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { EXTENSION_DIR } from "./adapter.js";
+import type { UsageSnapshot } from "./types.js";
+import { writeDebugLog } from "./types.js";
+
+/**
+ * Single usage window observation recorded after a usage fetch.
+ */
+export interface UsageHistoryEntry {
+  /** Timestamp of the fetch that produced this observation. */
+  timestamp: number;
+  /** Usage provider name (e.g. "anthropic"). */
+  provider: string;
+  /** Provider account, when the fetcher reports one. */
+  account?: string;
+  /** Usage window label (e.g. "5h", "Sonnet"). */
+  window: string;
+  /** Percentage of the window consumed at fetch time. */
+  usedPercent: number;
+  /** Reset timestamp reported for the window, when known. */
+  resetsAt?: number;
+}
+
+/**
+ * Filters for reading recorded usage history.
+ */
+export interface UsageHistoryQuery {
+  provider?: string;
+  account?: string;
+  window?: string;
+  /** Inclusive lower bound for entry timestamps. */
+  since?: number;
+  /** Inclusive upper bound for entry timestamps. */
+  until?: number;
+  /** Maximum number of entries to return, keeping the most recent ones. */
+  limit?: number;
+}
+
+/**
+ * Storage location and size overrides for the usage history store.
+ */
+export interface UsageHistoryStoreOptions {
+  /** Path to the active history file; the rotated file uses a `.1` suffix. */
+  path?: string;
+  /** Size at which the active file is rotated. */
+  maxFileBytes?: number;
+  /** Clock source used to timestamp recorded entries. */
+  now?: () => number;
+}
+
+/** Default path for persisted usage history. */
+export const USAGE_HISTORY_PATH = path.join(
+  os.homedir(),
+  EXTENSION_DIR,
+  "model-selector-usage-history.jsonl",
+);
+
+const DEFAULT_MAX_FILE_BYTES = 1024 * 1024;
+
+function sanitizeEntry(raw: unknown): UsageHistoryEntry | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const entry = raw as Partial<UsageHistoryEntry>;
+  if (
+    typeof entry.timestamp !== "number" ||
+    typeof entry.provider !== "string" ||
+    typeof entry.window !== "string" ||
+    typeof entry.usedPercent !== "number"
+  ) {
+    return undefined;
+  }
+  const result: UsageHistoryEntry = {
+    timestamp: entry.timestamp,
+    provider: entry.provider,
+    window: entry.window,
+    usedPercent: entry.usedPercent,
+  };
+  if (typeof entry.account === "string") {
+    result.account = entry.account;
+  }
+  if (typeof entry.resetsAt === "number") {
+    result.resetsAt = entry.resetsAt;
+  }
+  return result;
+}
+
+function matchesQuery(
+  entry: UsageHistoryEntry,
+  query: UsageHistoryQuery,
+): boolean {
+  if (query.provider !== undefined && entry.provider !== query.provider) {
+    return false;
+  }
+  if (query.account !== undefined && entry.account !== query.account) {
+    return false;
+  }
+  if (query.window !== undefined && entry.window !== query.window) {
+    return false;
+  }
+  if (query.since !== undefined && entry.timestamp < query.since) return false;
+  if (query.until !== undefined && entry.timestamp > query.until) return false;
+  return true;
+}
+
+/**
+ * Append-only, size-bounded store of usage observations shared across Pi instances.
+ * Entries are written as JSON lines; once the active file reaches its size limit
+ * it replaces the single rotated file, so at most two files are kept on disk.
+ */
+export class UsageHistoryStore {
+  private readonly historyPath: string;
+  private readonly rotatedPath: string;
+  private readonly maxFileBytes: number;
+  private readonly now: () => number;
+
+  /**
+   * Creates a store with production defaults or test overrides.
+   */
+  constructor(options: UsageHistoryStoreOptions = {}) {
+    this.historyPath = options.path ?? USAGE_HISTORY_PATH;
+    this.rotatedPath = `${this.historyPath}.1`;
+    this.maxFileBytes = options.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Records every window of the successful snapshots and returns the entry count.
+   * Failures are logged and never thrown so selection is not affected.
+   */
+  async record(usages: UsageSnapshot[]): Promise<number> {
+    const timestamp = this.now(),
+      lines: string[] = [];
+
+    for (const usage of usages) {
+      if (usage.error) continue;
+      for (const window of usage.windows) {
+        if (!Number.isFinite(window.usedPercent)) continue;
+        const entry: UsageHistoryEntry = {
+          timestamp,
+          provider: usage.provider,
+          window: window.label,
+          usedPercent: window.usedPercent,
+        };
+        if (usage.account !== undefined) {
+          entry.account = usage.account;
+        }
+        const resetsAt = window.resetsAt?.getTime();
+        if (resetsAt !== undefined && Number.isFinite(resetsAt)) {
+          entry.resetsAt = resetsAt;
+        }
+        lines.push(`${JSON.stringify(entry)}\n`);
+      }
+    }
+
+    if (lines.length === 0) return 0;
+
+    try {
+      const payload = lines.join("");
+      await fs.promises.mkdir(path.dirname(this.historyPath), {
+        recursive: true,
+      });
+      await this.rotateIfNeeded(Buffer.byteLength(payload));
+      await fs.promises.appendFile(this.historyPath, payload, "utf-8");
+      return lines.length;
+    } catch (error: unknown) {
+      writeDebugLog(`Failed to record usage history: ${String(error)}`);
+      return 0;
+    }
+  }
+
+  /**
+   * Returns recorded entries matching the filter in chronological order.
+   */
+  async query(query: UsageHistoryQuery = {}): Promise<UsageHistoryEntry[]> {
+    const entries: UsageHistoryEntry[] = [];
+
+    for (const filePath of [this.rotatedPath, this.historyPath]) {
+      let data: string;
+      try {
+        data = await fs.promises.readFile(filePath, "utf-8");
+      } catch {
+        continue;
+      }
+      for (const line of data.split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          const entry = sanitizeEntry(JSON.parse(line));
+          if (entry && matchesQuery(entry, query)) {
+            entries.push(entry);
+          }
+        } catch {
+          // Skip partially written or corrupt lines
+        }
+      }
+    }
+
+    entries.sort((a, b) => a.timestamp - b.timestamp);
+    if (query.limit !== undefined && query.limit >= 0) {
+      return query.limit === 0 ? [] : entries.slice(-query.limit);
+    }
+    return entries;
+  }
+
+  /**
+   * Removes both the active and rotated history files.
+   */
+  async clear(): Promise<void> {
+    for (const filePath of [this.historyPath, this.rotatedPath]) {
+      try {
+        await fs.promises.unlink(filePath);
+      } catch {
+        // Ignore missing files
+      }
+    }
+  }
+
+  private async rotateIfNeeded(incomingBytes: number): Promise<void> {
+    let size: number;
+    try {
+      size = (await fs.promises.stat(this.historyPath)).size;
+    } catch {
+      return;
+    }
+    if (size === 0 || size + incomingBytes <= this.maxFileBytes) return;
+    try {
+      await fs.promises.rename(this.historyPath, this.rotatedPath);
+    } catch {
+      // Another instance may have rotated the file first
+    }
+  }
+}
+
+/**
+ * Creates a usage history store using the supplied overrides.
+ */
+export function createUsageHistoryStore(
+  options: UsageHistoryStoreOptions = {},
+): UsageHistoryStore {
+  return new UsageHistoryStore(options);
+}
+
+let defaultStore: UsageHistoryStore | undefined;
+
+/**
+ * Returns the shared usage history store backed by the default history path.
+ */
+export function getUsageHistoryStore(): UsageHistoryStore {
+  defaultStore ??= new UsageHistoryStore();
+  return defaultStore;
+}
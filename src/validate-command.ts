@@ -0,0 +1,227 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import {
+  getGlobalConfigPath,
+  getProjectConfigPath,
+  loadConfig,
+  migrateConfigRaw,
+  readConfigFile,
+} from "./config.js";
+import { CONFIG_FILE_NAMES } from "./config-format.js";
+import { validateAgainstSchema } from "./config-schema.js";
+import { getKnownProviderNames } from "./fetcher-registry.js";
+import type { ConfigValueKey, LoadedConfig } from "./types.js";
+import { notify } from "./types.js";
+
+/**
+ * One problem found in a config file.
+ */
+export interface ConfigProblem {
+  file: string;
+  /** JSON pointer (RFC 6901) to the offending value, `""` for the whole file. */
+  pointer: string;
+  message: string;
+}
+
+// Normalizer messages name the setting first, e.g. `fallback.id must ...` or
+// `mappings[3].reserve must ...`
+const SETTING_PATH = /^([A-Za-z]\w*(?:\.\w+|\[\d+\]|\["[^"]*"\])*)/;
+
+function pointerFromMessage(message: string): string {
+  const profile = /^profiles\.([\w-]+): (.*)$/s.exec(message);
+  if (profile?.[1] && profile[2] !== undefined) {
+    return `/profiles/${profile[1]}${pointerFromMessage(profile[2])}`;
+  }
+  const setting = SETTING_PATH.exec(message)?.[1];
+  if (!setting) return "";
+  return setting
+    .split(/\.|\[|\]/)
+    .filter((token) => token !== "")
+    .map(
+      (token) =>
+        `/${token
+          .replace(/^"(.*)"$/, "$1")
+          .replace(/~/g, "~0")
+          .replace(/\//g, "~1")}`,
+    )
+    .join("");
+}
+
+async function checkFile(
+  file: string,
+  files: Map<string, Record<string, unknown>>,
+  problems: ConfigProblem[],
+): Promise<boolean> {
+  const readErrors: string[] = [],
+    raw = await readConfigFile(file, readErrors);
+  for (const message of readErrors) {
+    problems.push({ file, pointer: "", message });
+  }
+  if (raw === null) return readErrors.length === 0;
+  // Older files are checked as the loader sees them once migrated, so keys a
+  // migration removes, such as the legacy "examples" block, are not flagged.
+  // A broken version is reported by the schema on the original.
+  const migrated = structuredClone(raw),
+    checked = migrateConfigRaw(migrated, file, []) ? migrated : raw;
+  files.set(file, checked);
+  for (const problem of validateAgainstSchema(checked)) {
+    problems.push({ file, ...problem });
+  }
+  return true;
+}
+
+// The schema accepts any name in disabledProviders, since custom, command and
+// registered providers are only known once the config loads
+function checkDisabledProviders(
+  file: string,
+  raw: Record<string, unknown>,
+  known: Set<string>,
+  problems: ConfigProblem[],
+): void {
+  const lists: Array<[string, unknown]> = [
+    ["", raw.disabledProviders],
+    ...Object.entries(
+      raw.profiles && typeof raw.profiles === "object" ? raw.profiles : {},
+    ).map(([name, profile]): [string, unknown] => [
+      `/profiles/${name}`,
+      (profile as { disabledProviders?: unknown } | null)?.disabledProviders,
+    ]),
+  ];
+  for (const [prefix, list] of lists) {
+    if (!Array.isArray(list)) continue;
+    list.forEach((name, index) => {
+      if (typeof name !== "string" || known.has(name.toLowerCase())) return;
+      problems.push({
+        file,
+        pointer: `${prefix}/disabledProviders/${index}`,
+        message: `"${name}" is not a built-in, custom, command or registered provider`,
+      });
+    });
+  }
+}
+
+/**
+ * Checks the global and project config files against the published schema,
+ * then runs the full `loadConfig` normalization for files without schema
+ * problems, so semantic errors such as conflicting mapping fields are caught
+ * as well. Files pulled in with `extends` are checked against the schema once
+ * the config loads, and every file's disabledProviders against the providers
+ * it declares or other extensions registered.
+ */
+export async function collectConfigProblems(ctx: ExtensionContext): Promise<{
+  files: string[];
+  problems: ConfigProblem[];
+  config?: LoadedConfig;
+}> {
+  const paths = [await getGlobalConfigPath(), getProjectConfigPath(ctx.cwd)],
+    files = new Map<string, Record<string, unknown>>(),
+    problems: ConfigProblem[] = [];
+  let unreadable = false;
+
+  for (const file of paths) {
+    if (!(await checkFile(file, files, problems))) unreadable = true;
+    if (!CONFIG_FILE_NAMES.includes(path.basename(file))) continue;
+    for (const name of CONFIG_FILE_NAMES) {
+      const other = path.join(path.dirname(file), name);
+      if (other !== file && fs.existsSync(other)) {
+        problems.push({
+          file: other,
+          pointer: "",
+          message: `is ignored because ${path.basename(file)} takes precedence`,
+        });
+      }
+    }
+  }
+  if (unreadable) return { files: [...files.keys()], problems };
+
+  const errors: string[] = [],
+    // Schema problems already explain what normalization would reject there
+    flagged = new Set(problems.map((problem) => problem.file));
+  const config = await loadConfig(ctx, {
+    requireMappings: false,
+    seedGlobal: false,
+    saveMigrations: false,
+    errors,
+  });
+  for (const error of errors) {
+    const match = /^\[(.+?)\] (.*)$/s.exec(error),
+      file = match?.[1] ?? "",
+      message = match?.[2] ?? error;
+    if (flagged.has(file)) continue;
+    problems.push({ file, pointer: pointerFromMessage(message), message });
+  }
+  for (const file of config?.sources.includes ?? []) {
+    await checkFile(file, files, problems);
+  }
+  if (config) {
+    const known = getKnownProviderNames([config.providerSettings ?? {}]);
+    for (const [file, raw] of files) {
+      checkDisabledProviders(file, raw, known, problems);
+    }
+  }
+  return {
+    files: [...files.keys()],
+    problems,
+    ...(config ? { config } : {}),
+  };
+}
+
+// One line per key that is not left at its default, naming where it is set
+function describeSources(config: LoadedConfig): string[] {
+  const { values = {}, files = {} } = config.sources;
+  return Object.entries(values)
+    .filter(([, source]) => source !== "default")
+    .map(([key, source]) => {
+      const file = files[key as ConfigValueKey];
+      return `  ${key}: ${source}${file ? ` (${file})` : ""}`;
+    });
+}
+
+/**
+ * Formats config problems grouped by file, one `pointer: message` line each.
+ */
+export function formatConfigProblems(problems: ConfigProblem[]): string {
+  const byFile = new Map<string, ConfigProblem[]>();
+  for (const problem of problems) {
+    byFile.set(problem.file, [...(byFile.get(problem.file) ?? []), problem]);
+  }
+  return [
+    `Config problems (${problems.length}):`,
+    ...[...byFile].flatMap(([file, fileProblems]) => [
+      `  ${file || "(unknown file)"}`,
+      ...fileProblems.map(
+        (problem) => `    ${problem.pointer || "(root)"}: ${problem.message}`,
+      ),
+    ]),
+  ].join("\n");
+}
+
+/**
+ * Validates the config files and reports every problem, or confirms which
+ * files are valid and where each configured setting comes from.
+ * @returns True if no problems were found.
+ */
+export async function runValidateCommand(
+  ctx: ExtensionContext,
+): Promise<boolean> {
+  const { files, problems, config } = await collectConfigProblems(ctx);
+  if (problems.length > 0) {
+    notify(ctx, "error", formatConfigProblems(problems));
+    return false;
+  }
+  if (files.length === 0) {
+    notify(ctx, "info", "No config files found; the defaults are used.");
+    return true;
+  }
+  const sources = config ? describeSources(config) : [];
+  notify(
+    ctx,
+    "info",
+    [
+      `Config is valid: ${files.join(", ")}`,
+      ...(sources.length > 0 ? ["Settings:", ...sources] : []),
+    ].join("\n"),
+  );
+  return true;
+}
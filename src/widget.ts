@@ -1,6 +1,7 @@
 import type { ExtensionContext, Theme } from "@mariozechner/pi-coding-agent";
 import { truncateToWidth } from "./adapter.js";
 import { findIgnoreMapping, findModelMapping } from "./candidates.js";
+import { getScheduleStart } from "./schedule.js";
 import type { LoadedConfig, MappingEntry, UsageCandidate } from "./types.js";
 import { formatReset } from "./usage-fetchers.js";
 
@@ -84,13 +85,20 @@ function formatCandidate(
     reserveStr = ` ${theme.fg("warning", `◆ reserve: ${reserve}%`)}`;
   }
 
+  // Schedule indicator, while the bucket is outside its schedule
+  let scheduleStr = "";
+  const scheduleStart = mapping?.schedule && getScheduleStart(mapping.schedule);
+  if (scheduleStart !== undefined) {
+    scheduleStr = ` ${theme.fg("warning", `◷ active in ${formatReset(new Date(scheduleStart))}`)}`;
+  }
+
   // Time left
   let resetStr = "";
   if (candidate.resetsAt) {
     resetStr = ` ${theme.fg("dim", `(${formatReset(candidate.resetsAt)})`)}`;
   }
 
-  return `${statusIcon} ${providerWindow} ${bar} ${percentStr}${reserveStr}${resetStr}`;
+  return `${statusIcon} ${providerWindow} ${bar} ${percentStr}${reserveStr}${scheduleStr}${resetStr}`;
 }
 
 // ============================================================================
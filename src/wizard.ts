@@ -21,6 +21,7 @@ import {
   upsertMapping,
 } from "./config.js";
 import { hasProviderCredential, PROVIDER_LABELS } from "./credential-check.js";
+import { getKnownProviderNames } from "./fetcher-registry.js";
 import { sortModelsForUsageProvider } from "./model-provider-affinity.js";
 
 import type {
@@ -65,6 +66,26 @@ function parseReserveInput(input: string): number | undefined {
   return reserveValue;
 }
 
+// The model mapping that saving a mapping for `usage` replaces: the one with
+// the same usage key, or an exact mapping of the same bucket
+function findReplacedModelMapping(
+  mappings: MappingEntry[],
+  usage: MappingEntry["usage"],
+): MappingEntry | undefined {
+  const key = mappingKey({ usage });
+  return mappings.find(
+    (mapping) =>
+      mapping.model !== undefined &&
+      (mappingKey(mapping) === key ||
+        (usage.window !== undefined &&
+          mapping.usage.windowPattern === undefined &&
+          mapping.usage.provider === usage.provider &&
+          mapping.usage.window === usage.window &&
+          (mapping.usage.account === undefined ||
+            mapping.usage.account === usage.account))),
+  );
+}
+
 /** Runs the interactive configuration wizard for model selector mappings and options. */
 async function runMappingWizard(ctx: ExtensionContext): Promise<void> {
   if (!ctx.hasUI) {
@@ -117,7 +138,11 @@ async function runMappingWizard(ctx: ExtensionContext): Promise<void> {
         if (config.disabledProviders.length > 0) {
           const piAuth = await loadAuth();
           const disabledWithCredentials: ProviderName[] = [];
-          for (const provider of config.disabledProviders) {
+          // Only built-in providers have credentials to detect
+          for (const provider of config.disabledProviders.filter(
+            (name): name is ProviderName =>
+              (ALL_PROVIDERS as readonly string[]).includes(name),
+          )) {
             if (
               await hasProviderCredential(provider, piAuth, ctx.modelRegistry)
             ) {
@@ -714,15 +739,21 @@ async function runMappingWizard(ctx: ExtensionContext): Promise<void> {
             actionChoice === "Map by pattern") &&
           selectedModel
         ) {
+          // The wizard does not ask for schedules or lock concurrency, so
+          // a remap keeps those of the mapping it replaces
+          const replaced = findReplacedModelMapping(targetMappings, usageDesc),
+            concurrency = replaced?.model?.concurrency;
           mappingEntry = {
             usage: usageDesc,
             model: {
               provider: selectedModel.provider,
               id: selectedModel.id,
+              ...(concurrency !== undefined ? { concurrency } : {}),
             },
             ...(selectedReserve !== undefined
               ? { reserve: selectedReserve }
               : {}),
+            ...(replaced?.schedule ? { schedule: replaced.schedule } : {}),
           };
         } else if (combineName) {
           mappingEntry = {
@@ -1025,13 +1056,17 @@ async function runMappingWizard(ctx: ExtensionContext): Promise<void> {
           ? config.sources.projectPath
           : config.sources.globalPath;
 
-      const currentRawDisabled = Array.isArray(targetRaw.disabledProviders)
-        ? (targetRaw.disabledProviders as unknown[]).filter(
-            (value: unknown): value is ProviderName =>
-              typeof value === "string" &&
-              (ALL_PROVIDERS as readonly string[]).includes(value),
-          )
-        : [];
+      // Custom, command and registered providers listed here are kept
+      const knownProviders = getKnownProviderNames([
+          config.providerSettings ?? {},
+        ]),
+        currentRawDisabled = Array.isArray(targetRaw.disabledProviders)
+          ? (targetRaw.disabledProviders as unknown[]).filter(
+              (value: unknown): value is string =>
+                typeof value === "string" &&
+                knownProviders.has(value.toLowerCase()),
+            )
+          : [];
 
       const credentialChecks = await Promise.all(
         ALL_PROVIDERS.map((provider: ProviderName) =>
@@ -1274,14 +1309,17 @@ async function runMappingWizard(ctx: ExtensionContext): Promise<void> {
 
       if (mappedUsageProviders.size > 0) {
         const piAuth = await loadAuth();
-        const existingDisabled = Array.isArray(candidateRaw.disabledProviders)
-          ? candidateRaw.disabledProviders
-              .filter((value): value is string => typeof value === "string")
-              .filter((p): p is ProviderName =>
-                ALL_PROVIDERS.includes(p as ProviderName),
+        const knownProviders = getKnownProviderNames([
+            config.providerSettings ?? {},
+          ]),
+          existingDisabled = Array.isArray(candidateRaw.disabledProviders)
+            ? candidateRaw.disabledProviders.filter(
+                (value): value is string =>
+                  typeof value === "string" &&
+                  knownProviders.has(value.toLowerCase()),
               )
-          : [];
-        const disabledSet = new Set<ProviderName>(existingDisabled);
+            : [];
+        const disabledSet = new Set<string>(existingDisabled);
 
         for (const provider of mappedUsageProviders) {
           if (disabledSet.has(provider)) continue;
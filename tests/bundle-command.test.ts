@@ -0,0 +1,453 @@
+// biome-ignore-all lint/suspicious/noTemplateCurlyInString: ${NAME} placeholders are interpolated by the custom provider
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createConfigBundle,
+  runExportCommand,
+  runImportCommand,
+} from "../src/bundle-command.js";
+import { loadConfig } from "../src/config.js";
+import type { ProviderSettings } from "../src/types.js";
+import { CONFIG_VERSION } from "../src/types.js";
+import {
+  createContext,
+  readJson,
+  removeTempHome,
+  resetTempHome,
+  tempHome,
+  writeConfig,
+} from "./helpers/temp-home.js";
+
+vi.mock("node:os", async () =>
+  (await import("./helpers/temp-home.js")).mockHomedir(),
+);
+
+describe("Config bundles", () => {
+  const globalPath = path.join(tempHome.home, ".pi", "model-selector.json"),
+    projectPath = path.join(tempHome.project, ".pi", "model-selector.json"),
+    sonnet = {
+      usage: { provider: "anthropic", window: "Sonnet" },
+      model: { provider: "anthropic", id: "claude-sonnet-4-5" },
+    },
+    team = {
+      version: CONFIG_VERSION,
+      mappings: [
+        sonnet,
+        {
+          usage: { provider: "acme", window: "Daily" },
+          model: { provider: "acme", id: "acme-large" },
+          reserve: 20,
+        },
+      ],
+      priority: ["earliestReset", "remainingPercent"],
+      fallback: { provider: "anthropic", id: "claude-haiku-4-5", lock: true },
+      providerSettings: {
+        minimax: { groupId: "group-123" },
+        custom: [
+          {
+            name: "acme",
+            url: "https://usage.acme.test/quota",
+            usedPercent: "$.percent",
+            headers: {
+              Authorization: "Bearer ${ACME_TOKEN}",
+              "X-Api-Key": "sk-live-secret",
+            },
+          },
+        ],
+      },
+    };
+
+  const loadTeamConfig = async () => {
+    writeConfig(globalPath, team);
+    const config = await loadConfig(createContext(), { seedGlobal: false });
+    if (!config) throw new Error("config did not load");
+    return config;
+  };
+
+  beforeEach(resetTempHome);
+  afterAll(removeTempHome);
+
+  it("leaves secrets out of the bundle", async () => {
+    const { bundle, redacted } = createConfigBundle(await loadTeamConfig());
+
+    expect(bundle).toEqual({
+      version: CONFIG_VERSION,
+      mappings: team.mappings,
+      priority: team.priority,
+      fallback: team.fallback,
+      providerSettings: {
+        custom: [
+          {
+            name: "acme",
+            url: "https://usage.acme.test/quota",
+            usedPercent: "$.percent",
+            headers: { Authorization: "Bearer ${ACME_TOKEN}" },
+          },
+        ],
+      },
+    });
+    expect(redacted).toEqual([
+      "Minimax groupId",
+      'header "X-Api-Key" of custom provider "acme"',
+    ]);
+  });
+
+  it("leaves literal query values and command arguments out", async () => {
+    writeConfig(globalPath, {
+      version: CONFIG_VERSION,
+      mappings: [sonnet],
+      providerSettings: {
+        custom: [
+          {
+            name: "acme",
+            url: "https://usage.acme.test/quota?org=${ACME_ORG}&key=sk-query-secret&verbose#daily",
+            usedPercent: "$.percent",
+          },
+          {
+            name: "beta",
+            url: "https://usage.beta.test/quota?token=beta-secret",
+            usedPercent: "$.percent",
+          },
+        ],
+        commands: [
+          {
+            name: "proxy",
+            command: "/usr/local/bin/proxy-quota",
+            args: ["--team", "platform", "--token=arg-secret", "${PROXY_KEY}"],
+          },
+          {
+            name: "local",
+            command: "/usr/local/bin/local-quota",
+            args: ["local-secret"],
+          },
+        ],
+      },
+    });
+    const config = await loadConfig(createContext(), { seedGlobal: false });
+    if (!config) throw new Error("config did not load");
+
+    const { bundle, redacted } = createConfigBundle(config);
+
+    expect(bundle.providerSettings).toEqual({
+      custom: [
+        {
+          name: "acme",
+          url: "https://usage.acme.test/quota?org=${ACME_ORG}&verbose#daily",
+          usedPercent: "$.percent",
+        },
+        {
+          name: "beta",
+          url: "https://usage.beta.test/quota",
+          usedPercent: "$.percent",
+        },
+      ],
+      commands: [
+        {
+          name: "proxy",
+          command: "/usr/local/bin/proxy-quota",
+          args: ["--team", "${PROXY_KEY}"],
+        },
+        { name: "local", command: "/usr/local/bin/local-quota" },
+      ],
+    });
+    expect(redacted).toEqual([
+      'query parameter "key" of custom provider "acme"',
+      'query parameter "token" of custom provider "beta"',
+      'argument 2 of command provider "proxy"',
+      'argument 3 of command provider "proxy"',
+      'argument 1 of command provider "local"',
+    ]);
+  });
+
+  it("exports to the file given, in its format", async () => {
+    const config = await loadTeamConfig(),
+      ctx = createContext(),
+      bundlePath = path.join(tempHome.project, "shared", "team.yaml");
+
+    expect(await runExportCommand(ctx, "shared/team.yaml", config)).toBe(true);
+    expect(fs.readFileSync(bundlePath, "utf-8")).toMatch(
+      /^version: 2\nmappings:\n {2}- usage:\n/,
+    );
+    expect(fs.readFileSync(bundlePath, "utf-8")).not.toContain("secret");
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      [
+        `[model-selector] Exported 2 mappings with the priority, fallback and provider settings to ${bundlePath}.`,
+        'Left out secrets: Minimax groupId, header "X-Api-Key" of custom provider "acme". Whoever imports the bundle sets them in their own config.',
+      ].join("\n"),
+      "info",
+    );
+
+    // An existing file is only replaced after confirmation
+    const declined = createContext({ confirm: false });
+    expect(await runExportCommand(declined, "shared/team.yaml", config)).toBe(
+      false,
+    );
+    expect(declined.ui.notify).toHaveBeenCalledWith(
+      "[model-selector] Export cancelled.",
+      "info",
+    );
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => undefined);
+    expect(
+      await runExportCommand(
+        createContext({ hasUI: false }),
+        "shared/team.yaml",
+        config,
+      ),
+    ).toBe(false);
+    expect(consoleError).toHaveBeenCalledWith(
+      `[model-selector] ${bundlePath} already exists. Export to another file.`,
+    );
+    consoleError.mockRestore();
+
+    expect(await runExportCommand(ctx, "", config)).toBe(true);
+    expect(
+      readJson(path.join(tempHome.project, "model-selector.bundle.json")),
+    ).toMatchObject({ version: CONFIG_VERSION, priority: team.priority });
+  });
+
+  it("merges a bundle into the chosen config file", async () => {
+    const bundlePath = path.join(tempHome.root, "team bundle.json"),
+      { bundle } = createConfigBundle(await loadTeamConfig());
+    writeConfig(bundlePath, {
+      ...bundle,
+      providerSettings: {
+        ...(bundle.providerSettings as object),
+        commands: [{ name: "proxy", command: "proxy-quota" }],
+      },
+      widget: { enabled: false },
+    });
+    writeConfig(globalPath, { version: CONFIG_VERSION, mappings: [] });
+    writeConfig(projectPath, {
+      version: CONFIG_VERSION,
+      mappings: [
+        { ...sonnet, model: { provider: "anthropic", id: "claude-opus-4-1" } },
+        { usage: { provider: "codex" }, ignore: true },
+      ],
+      providerSettings: { minimax: { groupId: "mine" } },
+    });
+    const ctx = createContext();
+
+    expect(await runImportCommand(ctx, `${bundlePath} project`)).toBe(true);
+
+    expect(readJson(projectPath)).toEqual({
+      version: CONFIG_VERSION,
+      mappings: [
+        { usage: { provider: "codex" }, ignore: true },
+        ...team.mappings,
+      ],
+      providerSettings: { minimax: { groupId: "mine" } },
+      priority: team.priority,
+      fallback: team.fallback,
+    });
+    const summary = [
+      "• 1 mapping added, 1 replaced",
+      "• priority: earliestReset → remainingPercent",
+      "• fallback: anthropic/claude-haiku-4-5",
+      "• skipped custom providers (acme): only the global config may declare them",
+      "• skipped command providers (proxy): only the global config may declare them",
+      "• ignored: widget",
+    ].join("\n");
+    expect(ctx.ui.confirm).toHaveBeenCalledWith(
+      "Import bundle?",
+      `This will update ${projectPath}:\n${summary}`,
+    );
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      `[model-selector] Imported ${bundlePath} into ${projectPath}:\n${summary}`,
+      "info",
+    );
+    expect(readJson(globalPath)).toEqual({
+      version: CONFIG_VERSION,
+      mappings: [],
+    });
+  });
+
+  it("imports into the global config without a UI", async () => {
+    const bundlePath = path.join(tempHome.root, "team.json"),
+      acme = {
+        name: "acme",
+        url: "https://usage.acme.test/quota",
+        usedPercent: "$.percent",
+      },
+      other = { name: "other", url: "https://other.test", usedPercent: "$.p" };
+    writeConfig(bundlePath, {
+      mappings: [sonnet],
+      providerSettings: { custom: [acme] },
+    });
+    writeConfig(globalPath, {
+      version: CONFIG_VERSION,
+      mappings: [],
+      providerSettings: {
+        custom: [
+          { name: "acme", url: "https://old.acme.test", usedPercent: "$.p" },
+          other,
+        ],
+      },
+    });
+
+    expect(
+      await runImportCommand(createContext({ hasUI: false }), bundlePath),
+    ).toBe(true);
+    expect(readJson(globalPath)).toEqual({
+      version: CONFIG_VERSION,
+      mappings: [sonnet],
+      providerSettings: { custom: [acme, other] },
+    });
+  });
+
+  it("keeps the importer's secrets when updating providers of the same name", async () => {
+    const bundlePath = path.join(tempHome.root, "team.json"),
+      acme = {
+        name: "acme",
+        url: "https://usage.acme.test/quota?key=sk-query-secret",
+        usedPercent: "$.percent",
+        headers: {
+          Authorization: "Bearer sk-live-secret",
+          "X-Team": "${ACME_TEAM}",
+        },
+      },
+      proxy = {
+        name: "proxy",
+        command: "/usr/local/bin/proxy-quota",
+        args: ["--token", "arg-secret"],
+      };
+    writeConfig(globalPath, {
+      version: CONFIG_VERSION,
+      mappings: [sonnet],
+      providerSettings: { custom: [acme], commands: [proxy] },
+    });
+    const config = await loadConfig(createContext(), { seedGlobal: false });
+    if (!config) throw new Error("config did not load");
+    const { bundle } = createConfigBundle(config),
+      shared = bundle.providerSettings as ProviderSettings;
+    writeConfig(bundlePath, {
+      ...bundle,
+      providerSettings: {
+        custom: [{ ...shared.custom?.[0], usedPercent: "$.used_percent" }],
+        commands: [
+          { ...shared.commands?.[0], timeoutMs: 5000 },
+          { name: "local", command: "local-quota", args: ["--team", "a b"] },
+        ],
+      },
+    });
+    const ctx = createContext();
+
+    expect(await runImportCommand(ctx, `${bundlePath} global`)).toBe(true);
+
+    expect(readJson(globalPath).providerSettings).toEqual({
+      custom: [{ ...acme, usedPercent: "$.used_percent" }],
+      commands: [
+        { ...proxy, timeoutMs: 5000 },
+        { name: "local", command: "local-quota", args: ["--team", "a b"] },
+      ],
+    });
+    expect(ctx.ui.confirm).toHaveBeenCalledWith(
+      "Import bundle?",
+      [
+        `This will update ${globalPath}:`,
+        "• 0 mappings added, 1 replaced",
+        "• priority: fullAvailability → earliestReset → remainingPercent",
+        "• custom provider acme (updated): https://usage.acme.test/quota",
+        "• command provider proxy (updated): /usr/local/bin/proxy-quota --token",
+        '• command provider local: local-quota --team "a b"',
+      ].join("\n"),
+    );
+  });
+
+  it("replaces the importer's values the bundle changes", async () => {
+    const bundlePath = path.join(tempHome.root, "team.json");
+    writeConfig(globalPath, {
+      version: CONFIG_VERSION,
+      mappings: [],
+      providerSettings: {
+        custom: [
+          {
+            name: "acme",
+            url: "https://usage.acme.test/quota?key=sk-query-secret",
+            usedPercent: "$.percent",
+            headers: {
+              Authorization: "Bearer ${ACME_TOKEN}",
+              "X-Api-Key": "sk-live-secret",
+            },
+          },
+        ],
+        commands: [
+          { name: "proxy", command: "proxy-quota", args: ["arg-secret"] },
+        ],
+      },
+    });
+    writeConfig(bundlePath, {
+      mappings: [],
+      providerSettings: {
+        custom: [
+          {
+            name: "acme",
+            url: "https://usage.acme.example/v2",
+            usedPercent: "$.percent",
+          },
+        ],
+        commands: [{ name: "proxy", command: "other-quota" }],
+      },
+    });
+
+    expect(
+      await runImportCommand(createContext({ hasUI: false }), bundlePath),
+    ).toBe(true);
+    // The bundle points at another host, so none of the importer's headers
+    // are sent there
+    expect(readJson(globalPath).providerSettings).toEqual({
+      custom: [
+        {
+          name: "acme",
+          url: "https://usage.acme.example/v2",
+          usedPercent: "$.percent",
+        },
+      ],
+      commands: [{ name: "proxy", command: "other-quota" }],
+    });
+  });
+
+  it("rejects invalid bundles before touching the config", async () => {
+    const bundlePath = path.join(tempHome.root, "broken.json"),
+      ctx = createContext();
+
+    expect(await runImportCommand(ctx, "")).toBe(false);
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      "[model-selector] Usage: /model-select-import <file> [global|project]",
+      "error",
+    );
+
+    expect(await runImportCommand(ctx, bundlePath)).toBe(false);
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      `[model-selector] ${bundlePath} was not found.`,
+      "error",
+    );
+
+    writeConfig(bundlePath, { priority: ["fastest"] });
+    expect(await runImportCommand(ctx, `${bundlePath} global`)).toBe(false);
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      expect.stringContaining("/priority/0: must be one of"),
+      "error",
+    );
+
+    writeConfig(bundlePath, { version: 9 });
+    expect(await runImportCommand(ctx, bundlePath)).toBe(false);
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      expect.stringContaining("version 9 is newer than the supported version"),
+      "error",
+    );
+
+    writeConfig(bundlePath, { mappings: [sonnet] });
+    const declined = createContext({ confirm: false });
+    expect(await runImportCommand(declined, `${bundlePath} project`)).toBe(
+      false,
+    );
+    expect(declined.ui.notify).toHaveBeenLastCalledWith(
+      "[model-selector] Import cancelled.",
+      "info",
+    );
+    expect(fs.existsSync(projectPath)).toBe(false);
+  });
+});
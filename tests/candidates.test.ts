@@ -1,10 +1,13 @@
-import { describe, expect, it } from "vitest";
+import { afterEach, describe, expect, it, vi } from "vitest";
 import {
   buildCandidates,
+  combineCandidates,
   compareCandidates,
   dedupeCandidates,
   findModelMapping,
   getReserveThreshold,
+  inferWindowMs,
+  pacingScore,
   selectionReason,
 } from "../src/candidates.js";
 import type {
@@ -372,4 +375,146 @@ describe("Candidate Logic", () => {
       expect(getReserveThreshold(candidate, mappings)).toBe(25);
     });
   });
+
+  describe("pacing", () => {
+    const HOUR = 60 * 60 * 1000;
+    const DAY = 24 * HOUR;
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("infers window lengths from duration labels", () => {
+      expect(inferWindowMs("5h")).toBe(5 * HOUR);
+      expect(inferWindowMs("1w")).toBe(7 * DAY);
+      expect(inferWindowMs("1.5h")).toBe(1.5 * HOUR);
+      expect(inferWindowMs("Week")).toBe(7 * DAY);
+      expect(inferWindowMs("daily")).toBe(DAY);
+      expect(inferWindowMs("Monthly")).toBe(30 * DAY);
+      expect(inferWindowMs("0h")).toBeUndefined();
+      expect(inferWindowMs("Sonnet")).toBeUndefined();
+    });
+
+    it("prefers explicit window lengths and carries them through combining", () => {
+      const candidates = buildCandidates([
+        {
+          provider: "p1",
+          displayName: "P1",
+          windows: [
+            { label: "5h", usedPercent: 10 },
+            { label: "Sonnet", usedPercent: 20, windowMs: 7 * DAY },
+            { label: "Chat", usedPercent: 30 },
+          ],
+        },
+      ]);
+      expect(candidates.map((c) => c.windowMs)).toEqual([
+        5 * HOUR,
+        7 * DAY,
+        undefined,
+      ]);
+
+      const combined = combineCandidates(candidates.slice(0, 2), [
+        { usage: { provider: "p1", windowPattern: ".*" }, combine: "All" },
+      ]);
+      expect(combined[0]!.windowMs).toBe(7 * DAY);
+    });
+
+    it("scores candidates against an even burn rate", () => {
+      const now = new Date("2026-01-01T00:00:00Z").getTime();
+      const nearlyReset = {
+        usedPercent: 70,
+        resetsAt: new Date(now + 10 * 60 * 1000),
+        windowMs: 5 * HOUR,
+      } as UsageCandidate;
+      const burningFast = {
+        usedPercent: 60,
+        resetsAt: new Date(now + 6 * DAY),
+        windowMs: 7 * DAY,
+      } as UsageCandidate;
+
+      expect(pacingScore(nearlyReset, now)).toBeCloseTo(26.67, 1);
+      expect(pacingScore(burningFast, now)).toBeCloseTo(-45.71, 1);
+      expect(
+        pacingScore({ usedPercent: 10 } as UsageCandidate, now),
+      ).toBeUndefined();
+      // Resets further out than the window length clamp to zero elapsed time
+      expect(
+        pacingScore(
+          {
+            usedPercent: 10,
+            resetsAt: new Date(now + 2 * DAY),
+            windowMs: DAY,
+          } as UsageCandidate,
+          now,
+        ),
+      ).toBe(-10);
+    });
+
+    it("ranks under-consumed buckets ahead of buckets burning too fast", () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+      const now = Date.now();
+      const weekly = {
+        provider: "p1",
+        windowLabel: "Week",
+        usedPercent: 60,
+        remainingPercent: 40,
+        resetsAt: new Date(now + 6 * DAY),
+        windowMs: 7 * DAY,
+      } as UsageCandidate;
+      const fiveHour = {
+        provider: "p1",
+        windowLabel: "5h",
+        usedPercent: 70,
+        remainingPercent: 30,
+        resetsAt: new Date(now + 10 * 60 * 1000),
+        windowMs: 5 * HOUR,
+      } as UsageCandidate;
+
+      const result = compareCandidates(
+        fiveHour,
+        weekly,
+        ["pacing", "remainingPercent"],
+        [],
+      );
+      expect(result.rule).toBe("pacing");
+      expect(result.diff).toBeGreaterThan(0);
+      expect(
+        selectionReason(fiveHour, weekly, ["pacing", "remainingPercent"], []),
+      ).toBe("better pacing (+27% vs -46%)");
+    });
+
+    it("treats unknown pacing as on-curve and skips when both are unknown", () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+      const now = Date.now();
+      const unknown = {
+        provider: "p1",
+        windowLabel: "Chat",
+        usedPercent: 50,
+        remainingPercent: 50,
+      } as UsageCandidate;
+      const ahead = {
+        provider: "p1",
+        windowLabel: "5h",
+        usedPercent: 0,
+        remainingPercent: 100,
+        resetsAt: new Date(now + HOUR),
+        windowMs: 5 * HOUR,
+      } as UsageCandidate;
+
+      expect(compareCandidates(ahead, unknown, ["pacing"], []).diff).toBe(80);
+      expect(
+        selectionReason(unknown, { ...ahead, usedPercent: 90 }, ["pacing"], []),
+      ).toBe("better pacing (unknown vs -10%)");
+      expect(
+        compareCandidates(
+          unknown,
+          { ...unknown, remainingPercent: 40 },
+          ["pacing", "remainingPercent"],
+          [],
+        ).rule,
+      ).toBe("remainingPercent");
+    });
+  });
 });
@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_COMMAND_TIMEOUT_MS,
+  fetchCommandUsage,
+  parseCommandOutput,
+} from "../src/fetchers/command.js";
+import * as common from "../src/fetchers/common.js";
+
+vi.mock("../src/fetchers/common.js", async () => {
+  const actual = await vi.importActual("../src/fetchers/common.js");
+  return {
+    ...(actual as any),
+    execFileAsync: vi.fn(),
+  };
+});
+
+describe("Command provider", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("parses the line format", () => {
+    const snapshot = parseCommandOutput(
+      [
+        "# quota for the company proxy",
+        "account: work",
+        "plan: Team",
+        "Daily: 42.5%",
+        "Monthly: 300/1200 resets 1772859600",
+        "Broken: 5/0",
+        "not a usage line",
+        "Burst: 150%",
+      ].join("\n"),
+      "proxy",
+      "Company Proxy",
+    );
+
+    expect(snapshot).toMatchObject({
+      provider: "proxy",
+      displayName: "Company Proxy",
+      account: "work",
+      plan: "Team",
+    });
+    expect(snapshot.error).toBeUndefined();
+    expect(
+      snapshot.windows.map((w) => [w.label, w.usedPercent, w.resetsAt]),
+    ).toEqual([
+      ["Daily", 42.5, undefined],
+      ["Monthly", 25, new Date(1772859600000)],
+      ["Burst", 100, undefined],
+    ]);
+  });
+
+  it("parses JSON in the UsageSnapshot shape", () => {
+    const snapshot = parseCommandOutput(
+      JSON.stringify({
+        provider: "ignored",
+        displayName: "Dashboard",
+        windows: [
+          {
+            label: "5h",
+            usedPercent: 10,
+            resetsAt: "2026-03-07T05:00:00Z",
+            windowMs: 18000000,
+          },
+          { label: "", usedPercent: 5 },
+          { label: "Weekly", usedPercent: "high" },
+          null,
+        ],
+      }),
+      "dash",
+      "dash",
+    );
+
+    // The configured name always wins so mappings keep matching
+    expect(snapshot.provider).toBe("dash");
+    expect(snapshot.displayName).toBe("Dashboard");
+    expect(snapshot.windows).toHaveLength(1);
+    expect(snapshot.windows[0]).toMatchObject({
+      label: "5h",
+      usedPercent: 10,
+      windowMs: 18000000,
+    });
+    expect(snapshot.windows[0]?.resetsAt?.toISOString()).toBe(
+      "2026-03-07T05:00:00.000Z",
+    );
+  });
+
+  it("reports errors printed by the command and rejects unusable output", () => {
+    expect(parseCommandOutput("error: token expired", "p", "P").error).toBe(
+      "token expired",
+    );
+    expect(
+      parseCommandOutput('{"error":"dashboard down"}', "p", "P").error,
+    ).toBe("dashboard down");
+    expect(() => parseCommandOutput("", "p", "P")).toThrow(
+      "Command output contained no usage windows",
+    );
+    expect(() => parseCommandOutput("{oops", "p", "P")).toThrow(
+      "Invalid JSON output",
+    );
+    expect(() => parseCommandOutput('{"windows":{}}', "p", "P")).toThrow(
+      "windows must be an array",
+    );
+  });
+
+  it("runs the command without a shell and parses stdout", async () => {
+    vi.mocked(common.execFileAsync).mockResolvedValue({
+      stdout: "Daily: 20%\n",
+      stderr: "",
+    } as any);
+
+    const snapshot = await fetchCommandUsage({
+      name: "proxy",
+      command: "quota",
+      args: ["--plain"],
+    });
+
+    expect(common.execFileAsync).toHaveBeenCalledWith(
+      "quota",
+      ["--plain"],
+      expect.objectContaining({ timeout: DEFAULT_COMMAND_TIMEOUT_MS }),
+    );
+    expect(snapshot.displayName).toBe("proxy");
+    expect(snapshot.windows[0]?.usedPercent).toBe(20);
+  });
+
+  it("lets command failures propagate to the caller", async () => {
+    vi.mocked(common.execFileAsync).mockRejectedValue(
+      new Error("spawn quota ENOENT"),
+    );
+
+    await expect(
+      fetchCommandUsage({ name: "proxy", command: "quota", timeoutMs: 500 }),
+    ).rejects.toThrow("spawn quota ENOENT");
+    expect(common.execFileAsync).toHaveBeenCalledWith(
+      "quota",
+      [],
+      expect.objectContaining({ timeout: 500 }),
+    );
+  });
+});
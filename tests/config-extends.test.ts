@@ -0,0 +1,158 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { loadConfig } from "../src/config.js";
+import {
+  createContext,
+  removeTempHome,
+  resetTempHome,
+  tempHome,
+  writeConfig,
+} from "./helpers/temp-home.js";
+
+vi.mock("node:os", async () =>
+  (await import("./helpers/temp-home.js")).mockHomedir(),
+);
+
+describe("Config extends", () => {
+  // The project sits in a repo so it can extend a file from the repo root
+  const repoDir = path.join(tempHome.root, "repo"),
+    projectDir = path.join(repoDir, "app"),
+    piDir = path.join(tempHome.home, ".pi"),
+    dropInDir = path.join(piDir, "model-selector.d"),
+    globalPath = path.join(piDir, "model-selector.json"),
+    projectPath = path.join(projectDir, ".pi", "model-selector.json"),
+    teamPath = path.join(repoDir, "team.json");
+
+  const mapping = (window: string, id: string) => ({
+    usage: { provider: "anthropic", window },
+    model: { provider: "anthropic", id },
+  });
+
+  const loadErrors = async () => {
+    const errors: string[] = [];
+    expect(
+      await loadConfig(createContext({ cwd: projectDir }), {
+        seedGlobal: false,
+        errors,
+      }),
+    ).toBeNull();
+    return errors;
+  };
+
+  beforeEach(() => {
+    resetTempHome();
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  afterAll(removeTempHome);
+
+  it("merges extended files beneath the file extending them", async () => {
+    writeConfig(path.join(dropInDir, "10-base.json"), {
+      mappings: [mapping("Sonnet", "base-sonnet"), mapping("Opus", "opus")],
+      priority: ["remainingPercent"],
+      disabledProviders: ["kiro"],
+      debugLog: { enabled: true },
+    });
+    writeConfig(path.join(dropInDir, "20-team.json"), {
+      widget: { showCount: 5 },
+      autoRun: true,
+    });
+    fs.writeFileSync(path.join(dropInDir, "notes.txt"), "not config");
+    writeConfig(globalPath, {
+      extends: ["~/.pi/model-selector.d/*.json"],
+      mappings: [mapping("Sonnet", "personal-sonnet")],
+      disabledProviders: ["zai"],
+    });
+    writeConfig(teamPath, {
+      extends: ["~/.pi/model-selector.d/10-base.json"],
+      priority: ["earliestReset"],
+    });
+    writeConfig(projectPath, {
+      extends: ["../../team.json"],
+      widget: { enabled: false },
+    });
+
+    const config = await loadConfig(createContext({ cwd: projectDir }), {
+      seedGlobal: false,
+    });
+
+    expect(config?.mappings.map((entry) => entry.model?.id)).toEqual([
+      "personal-sonnet",
+      "opus",
+    ]);
+    expect(config?.priority).toEqual(["earliestReset"]);
+    expect(config?.widget).toEqual({
+      enabled: false,
+      placement: "belowEditor",
+      showCount: 5,
+    });
+    expect(config?.autoRun).toBe(true);
+    expect(config?.disabledProviders).toEqual(["kiro", "zai"]);
+    expect(config?.debugLog).toEqual({
+      enabled: true,
+      path: path.join(dropInDir, "model-selector.log"),
+    });
+    // 10-base.json is merged once, where the global config first pulls it in
+    expect(config?.sources.includes).toEqual([
+      path.join(dropInDir, "10-base.json"),
+      path.join(dropInDir, "20-team.json"),
+      teamPath,
+    ]);
+    expect(config?.sources.includeDirs).toEqual([dropInDir]);
+    expect(config?.sources.values).toMatchObject({
+      mappings: "global",
+      priority: "project",
+      widget: "project",
+      autoRun: "global",
+      fallback: "default",
+    });
+    expect(config?.sources.files).toMatchObject({
+      mappings: globalPath,
+      priority: teamPath,
+      widget: projectPath,
+      autoRun: path.join(dropInDir, "20-team.json"),
+    });
+    expect(config?.sources.files?.fallback).toBeUndefined();
+    expect(config?.raw.global).not.toHaveProperty("mappings.1");
+  });
+
+  it("labels errors with the file they come from", async () => {
+    writeConfig(path.join(dropInDir, "bad.json"), { priority: ["fastest"] });
+    writeConfig(globalPath, { extends: ["model-selector.d/*.json"] });
+
+    expect(await loadErrors()).toEqual([
+      `[${path.join(dropInDir, "bad.json")}] priority contains invalid value: fastest`,
+    ]);
+  });
+
+  it("rejects missing files, malformed entries and cycles", async () => {
+    writeConfig(globalPath, { extends: "team.json" });
+    writeConfig(teamPath, { extends: ["./app/.pi/model-selector.json"] });
+    writeConfig(projectPath, {
+      extends: ["../../team.json", "missing.json", "*/model-selector.json"],
+    });
+
+    expect(await loadErrors()).toEqual([
+      `[${globalPath}] extends must be an array of file paths`,
+      `[${projectPath}] extends "missing.json" was not found`,
+      `[${projectPath}] extends "*/model-selector.json" may only use * in the file name`,
+      `[${teamPath}] extends cycle: ${projectPath} -> ${teamPath} -> ${projectPath}`,
+    ]);
+  });
+
+  it("treats a missing drop-in directory as empty", async () => {
+    writeConfig(globalPath, {
+      extends: ["model-selector.d/*.json"],
+      mappings: [mapping("Sonnet", "sonnet")],
+    });
+
+    const config = await loadConfig(createContext({ cwd: projectDir }), {
+      seedGlobal: false,
+    });
+
+    expect(config?.mappings).toHaveLength(1);
+    expect(config?.sources.includes).toBeUndefined();
+    expect(config?.sources.includeDirs).toEqual([dropInDir]);
+  });
+});
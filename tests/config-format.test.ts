@@ -0,0 +1,286 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { loadConfig, saveConfigFile, upsertMapping } from "../src/config.js";
+import {
+  getConfigFormat,
+  parseConfigText,
+  stringifyConfig,
+  updateConfigText,
+} from "../src/config-format.js";
+import {
+  createContext,
+  removeTempHome,
+  resetTempHome,
+  tempHome,
+  writeConfig,
+} from "./helpers/temp-home.js";
+
+vi.mock("node:os", async () =>
+  (await import("./helpers/temp-home.js")).mockHomedir(),
+);
+
+const JSONC_CONFIG = `// Personal model selector config
+{
+  "priority": ["remainingPercent", "earliestReset"], // tie-breakers
+  "mappings": [
+    // Reviews need the big window
+    {
+      "usage": { "provider": "anthropic", "window": "Sonnet" },
+      "model": { "provider": "anthropic", "id": "claude-sonnet" },
+      "reserve": 30 // keep some for code review
+    },
+    /* Flash is too small to be useful */
+    { "usage": { "provider": "gemini", "window": "Flash" }, "ignore": true },
+  ],
+  "autoRun": true
+}
+`;
+
+const YAML_CONFIG = `# Personal model selector config
+priority: [remainingPercent, earliestReset] # tie-breakers
+mappings:
+  - usage: { provider: anthropic, window: Sonnet }
+    model: { provider: anthropic, id: claude-sonnet }
+    reserve: 30 # keep some for code review
+  # Flash is too small to be useful
+  - usage: { provider: gemini, window: Flash }
+    ignore: true
+autoRun: true
+`;
+
+describe("Config file formats", () => {
+  const sonnet = {
+      usage: { provider: "anthropic", window: "Sonnet" },
+      model: { provider: "anthropic", id: "claude-sonnet" },
+    },
+    flash = { usage: { provider: "gemini", window: "Flash" }, ignore: true },
+    codex = { usage: { provider: "codex" }, ignore: true };
+
+  beforeEach(resetTempHome);
+  afterAll(removeTempHome);
+
+  it("picks the format from the extension", () => {
+    expect(getConfigFormat("/a/model-selector.json")).toBe("json");
+    expect(getConfigFormat("/a/model-selector.jsonc")).toBe("jsonc");
+    expect(getConfigFormat("/a/model-selector.YAML")).toBe("yaml");
+    expect(getConfigFormat("/a/model-selector.yml")).toBe("yaml");
+    expect(getConfigFormat("/a/team-config")).toBe("json");
+  });
+
+  it("parses comments and trailing commas", () => {
+    const expected = {
+      priority: ["remainingPercent", "earliestReset"],
+      mappings: [{ ...sonnet, reserve: 30 }, flash],
+      autoRun: true,
+    };
+    expect(parseConfigText(JSONC_CONFIG, "jsonc")).toEqual(expected);
+    expect(parseConfigText(YAML_CONFIG, "yaml")).toEqual(expected);
+    expect(parseConfigText("# nothing yet\n", "yaml")).toEqual({});
+    expect(
+      parseConfigText('{ "__proto__": { "x": 1 }, "n": -1.5e2 }', "jsonc"),
+    ).toEqual(JSON.parse('{ "__proto__": { "x": 1 }, "n": -1.5e2 }'));
+  });
+
+  it("reports where malformed files break", () => {
+    expect(() => parseConfigText('{\n  "a": 1\n  "b": 2\n}', "jsonc")).toThrow(
+      new SyntaxError("CommaExpected at line 3, column 3"),
+    );
+    expect(() => parseConfigText('{ "a": [1,, 2] }', "jsonc")).toThrow(
+      "ValueExpected at line 1, column 11",
+    );
+    expect(() => parseConfigText('{ "a": "x\n" }', "jsonc")).toThrow(
+      "UnexpectedEndOfString at line 1, column 8",
+    );
+    expect(() => parseConfigText('{ "a": "\\q" }', "jsonc")).toThrow(
+      "InvalidEscapeCharacter at line 1, column 8",
+    );
+    expect(() => parseConfigText("{ /* open", "jsonc")).toThrow(
+      "UnexpectedEndOfComment at line 1, column 3",
+    );
+    expect(() => parseConfigText("{ a: 1 }", "jsonc")).toThrow(
+      "InvalidSymbol at line 1, column 3",
+    );
+    expect(() => parseConfigText('{ "a" 1 }', "jsonc")).toThrow(
+      "ColonExpected at line 1, column 7",
+    );
+    expect(() => parseConfigText("{} {}", "jsonc")).toThrow(
+      "EndOfFileExpected at line 1, column 4",
+    );
+    expect(() => parseConfigText("a: [1\nb: 2", "yaml")).toThrow(SyntaxError);
+    expect(() => updateConfigText("a: [1\nb: 2", "yaml", {})).toThrow(
+      SyntaxError,
+    );
+  });
+
+  it("keeps JSONC comments and layout through edits", () => {
+    const next = {
+      priority: ["pacing", "earliestReset"],
+      mappings: [flash, { ...sonnet, reserve: 20 }, codex],
+      widget: { enabled: false },
+    };
+
+    expect(updateConfigText(JSONC_CONFIG, "jsonc", next)).toBe(
+      `// Personal model selector config
+{
+  "priority": ["pacing", "earliestReset"], // tie-breakers
+  "mappings": [
+    /* Flash is too small to be useful */
+    { "usage": { "provider": "gemini", "window": "Flash" }, "ignore": true },
+    // Reviews need the big window
+    {
+      "usage": { "provider": "anthropic", "window": "Sonnet" },
+      "model": { "provider": "anthropic", "id": "claude-sonnet" },
+      "reserve": 20 // keep some for code review
+    },
+    {
+      "usage": {
+        "provider": "codex"
+      },
+      "ignore": true
+    },
+  ],
+  "widget": {
+    "enabled": false
+  }
+}
+`,
+    );
+    expect(
+      updateConfigText(
+        JSONC_CONFIG,
+        "jsonc",
+        parseConfigText(JSONC_CONFIG, "jsonc") as Record<string, unknown>,
+      ),
+    ).toBe(JSONC_CONFIG);
+  });
+
+  it("adds a comma before a comment that ends the line", () => {
+    const text = '{\n  "autoRun": true // for now\n}\n';
+    expect(
+      updateConfigText(text, "jsonc", { autoRun: true, mappings: [] }),
+    ).toBe('{\n  "autoRun": true, // for now\n  "mappings": []\n}\n');
+    expect(
+      updateConfigText('{\n  // none yet\n  "mappings": []\n}', "jsonc", {
+        mappings: [codex],
+      }),
+    ).toBe(
+      '{\n  // none yet\n  "mappings": [\n    {\n      "usage": {\n        "provider": "codex"\n      },\n      "ignore": true\n    }\n  ]\n}',
+    );
+    expect(
+      updateConfigText('{\n  "b": 1,\n  "d": 4\n}', "jsonc", {
+        a: 0,
+        b: 1,
+        c: 3,
+        d: 4,
+      }),
+    ).toBe('{\n  "a": 0,\n  "b": 1,\n  "c": 3,\n  "d": 4\n}');
+    expect(updateConfigText('{ "a": 1, "b": [1] }', "jsonc", { b: [] })).toBe(
+      '{ "b": [] }',
+    );
+    expect(updateConfigText('{\n  "a": 1\n}', "jsonc", {})).toBe("{}");
+  });
+
+  it("leaves JSONC entries that did not change as written", () => {
+    expect(
+      updateConfigText('{\n  "a": "\\u0041 // x",\n  "b": 1\n}', "jsonc", {
+        a: "A // x",
+        b: 2,
+      }),
+    ).toBe('{\n  "a": "\\u0041 // x",\n  "b": 2\n}');
+    expect(
+      updateConfigText(
+        "[\n  // A\n  1, // one\n  // B\n  2,\n  /* C */\n  3\n]",
+        "jsonc",
+        [1, 3] as unknown as Record<string, unknown>,
+      ),
+    ).toBe("[\n  // A\n  1, // one\n  /* C */\n  3\n]");
+    expect(
+      updateConfigText('{ "a": 1, /* b */ "b": 2 }', "jsonc", { b: 2 }),
+    ).toBe('{ /* b */ "b": 2 }');
+    expect(
+      updateConfigText('{\n  "a": 1, // one\n  "b": 2 // two\n}', "jsonc", {
+        a: 1,
+      }),
+    ).toBe('{\n  "a": 1 // one\n}');
+    expect(updateConfigText('{ "p": [1, 2] }', "jsonc", { p: [2, 1, 3] })).toBe(
+      '{ "p": [2, 1, 3] }',
+    );
+  });
+
+  it("keeps YAML comments through edits", () => {
+    const next = {
+      priority: ["remainingPercent", "earliestReset"],
+      mappings: [flash, { ...sonnet, reserve: 20 }],
+      autoRun: "yes",
+    };
+
+    expect(updateConfigText(YAML_CONFIG, "yaml", next)).toBe(
+      `# Personal model selector config
+priority: [ remainingPercent, earliestReset ] # tie-breakers
+mappings:
+  # Flash is too small to be useful
+  - usage: { provider: gemini, window: Flash }
+    ignore: true
+  - usage: { provider: anthropic, window: Sonnet }
+    model: { provider: anthropic, id: claude-sonnet }
+    reserve: 20 # keep some for code review
+autoRun: yes
+`,
+    );
+    expect(
+      updateConfigText(
+        "# yaml-language-server: $schema=x\nautoRun: true\n",
+        "yaml",
+        {
+          version: 2,
+          autoRun: true,
+        },
+      ),
+    ).toBe("# yaml-language-server: $schema=x\nversion: 2\nautoRun: true\n");
+    expect(stringifyConfig({ autoRun: true }, "yaml")).toBe("autoRun: true\n");
+    expect(stringifyConfig({ autoRun: true }, "jsonc")).toBe(
+      '{\n  "autoRun": true\n}\n',
+    );
+    expect(updateConfigText("# old\n", "json", { autoRun: true })).toBe(
+      '{\n  "autoRun": true\n}\n',
+    );
+  });
+
+  it("loads and saves a project config in its own format", async () => {
+    const projectPath = path.join(
+      tempHome.project,
+      ".pi",
+      "model-selector.yaml",
+    );
+    writeConfig(projectPath, YAML_CONFIG);
+    const ctx = createContext();
+
+    const config = await loadConfig(ctx, { seedGlobal: false });
+    expect(config?.sources.projectPath).toBe(projectPath);
+    expect(config?.raw.project?.mappings).toHaveLength(2);
+
+    upsertMapping(config?.raw.project ?? {}, codex);
+    await saveConfigFile(projectPath, config?.raw.project ?? {});
+    const saved = fs.readFileSync(projectPath, "utf-8");
+    expect(saved).toContain("reserve: 30 # keep some for code review");
+    expect(saved).toContain(
+      "- usage:\n      provider: codex\n    ignore: true",
+    );
+
+    const newPath = path.join(tempHome.home, "new", "model-selector.jsonc");
+    await saveConfigFile(newPath, { autoRun: false });
+    expect(fs.readFileSync(newPath, "utf-8")).toBe(
+      '{\n  "autoRun": false\n}\n',
+    );
+
+    fs.writeFileSync(projectPath, "mappings: [");
+    await expect(saveConfigFile(projectPath, {})).rejects.toThrow(SyntaxError);
+    fs.writeFileSync(projectPath, "- just a list\n");
+    const errors: string[] = [];
+    expect(await loadConfig(ctx, { seedGlobal: false, errors })).toBeNull();
+    expect(errors).toEqual([
+      `Failed to read ${projectPath}: expected a YAML mapping`,
+    ]);
+  });
+});
@@ -0,0 +1,200 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { loadConfig, migrateConfigRaw } from "../src/config.js";
+import { CONFIG_VERSION } from "../src/types.js";
+import {
+  createContext,
+  readJson,
+  removeTempHome,
+  resetTempHome,
+  tempHome,
+  writeConfig,
+} from "./helpers/temp-home.js";
+
+vi.mock("node:os", async () =>
+  (await import("./helpers/temp-home.js")).mockHomedir(),
+);
+
+const LEGACY_GLOBAL = `// Seeded by an older release
+{
+  "mappings": [
+    {
+      "usage": { "provider": "anthropic", "window": "Sonnet" },
+      "model": { "provider": "anthropic", "id": "claude-3-5-sonnet-latest" } // default
+    },
+    {
+      "usage": { "provider": "anthropic", "window": "Shared" },
+      "model": { "provider": "anthropic", "id": "claude-3-5-sonnet-latest" }
+    }
+  ],
+  "debugLog": { "enabled": false, "path": ".pi/model-selector.log" },
+  "examples": {}
+}
+`;
+
+describe("Config migrations", () => {
+  const globalPath = path.join(tempHome.home, ".pi", "model-selector.jsonc"),
+    projectPath = path.join(tempHome.project, ".pi", "model-selector.json");
+
+  beforeEach(resetTempHome);
+  afterAll(removeTempHome);
+
+  it("upgrades older files, keeps a backup and summarizes the changes", async () => {
+    const legacyProject = {
+      $schema: "../schema.json",
+      profiles: {
+        cheap: { fallback: { provider: "google", id: "gemini-1.5-flash" } },
+      },
+    };
+    writeConfig(globalPath, LEGACY_GLOBAL);
+    writeConfig(projectPath, legacyProject);
+    const ctx = createContext();
+
+    const config = await loadConfig(ctx);
+
+    expect(config?.mappings.map((mapping) => mapping.model?.id)).toEqual([
+      "claude-sonnet-4-5",
+      "claude-sonnet-4-5",
+    ]);
+    expect(fs.readFileSync(`${globalPath}.v1.bak`, "utf-8")).toBe(
+      LEGACY_GLOBAL,
+    );
+    expect(
+      fs.readFileSync(globalPath, "utf-8"),
+    ).toBe(`// Seeded by an older release
+{
+  "version": 2,
+  "mappings": [
+    {
+      "usage": { "provider": "anthropic", "window": "Sonnet" },
+      "model": { "provider": "anthropic", "id": "claude-sonnet-4-5" } // default
+    },
+    {
+      "usage": { "provider": "anthropic", "window": "Shared" },
+      "model": { "provider": "anthropic", "id": "claude-sonnet-4-5" }
+    }
+  ],
+  "debugLog": { "enabled": false, "path": "model-selector.log" }
+}
+`);
+    // The project file is only upgraded in memory
+    expect(readJson(projectPath)).toEqual(legacyProject);
+    expect(fs.existsSync(`${projectPath}.v1.bak`)).toBe(false);
+    expect(config?.raw.project).toEqual({
+      $schema: "../schema.json",
+      version: CONFIG_VERSION,
+      profiles: {
+        cheap: { fallback: { provider: "google", id: "gemini-2.5-flash" } },
+      },
+    });
+    expect(Object.keys(config?.raw.project ?? {})).toEqual([
+      "$schema",
+      "version",
+      "profiles",
+    ]);
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      [
+        `[model-selector] Migrated ${globalPath} from config version 1 to 2; the original is saved as ${globalPath}.v1.bak.`,
+        '- Removed unused top-level "examples" block.',
+        '- Fixed global debug log path from ".pi/model-selector.log" to "model-selector.log".',
+        '- Replaced retired model "anthropic/claude-3-5-sonnet-latest" with "anthropic/claude-sonnet-4-5" (2 places).',
+      ].join("\n"),
+      "info",
+    );
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      [
+        `[model-selector] ${projectPath} is written for config version 1 and is upgraded to 2 each time it loads. /model-select-config saves the upgrade the next time it writes to the file:`,
+        '- Replaced retired model "google/gemini-1.5-flash" with "google/gemini-2.5-flash" (1 place).',
+      ].join("\n"),
+      "info",
+    );
+
+    // The global file is current now, and the project file was reported
+    ctx.ui.notify.mockClear();
+    await loadConfig(ctx);
+    expect(ctx.ui.notify).not.toHaveBeenCalled();
+  });
+
+  it("only upgrades extended files in memory", async () => {
+    const sharedPath = path.join(tempHome.home, "shared.json"),
+      shared = {
+        mappings: [
+          {
+            usage: { provider: "gemini", window: "Flash" },
+            model: { provider: "google", id: "gemini-1.5-flash" },
+          },
+        ],
+      };
+    writeConfig(sharedPath, shared);
+    writeConfig(projectPath, {
+      version: 2,
+      extends: ["../../home/shared.json"],
+    });
+
+    const config = await loadConfig(createContext());
+
+    expect(
+      config?.mappings.find((mapping) => mapping.usage.provider === "gemini")
+        ?.model?.id,
+    ).toBe("gemini-2.5-flash");
+    expect(JSON.parse(fs.readFileSync(sharedPath, "utf-8"))).toEqual(shared);
+    expect(fs.existsSync(`${sharedPath}.v1.bak`)).toBe(false);
+  });
+
+  it("does not rewrite files when only the version changes", async () => {
+    const current = {
+      mappings: [
+        {
+          usage: { provider: "anthropic", window: "Sonnet" },
+          model: { provider: "anthropic", id: "claude-sonnet-4-5" },
+        },
+      ],
+    };
+    writeConfig(globalPath, current);
+    const ctx = createContext();
+
+    const config = await loadConfig(ctx);
+
+    expect(config?.raw.global).toEqual({ version: CONFIG_VERSION, ...current });
+    expect(fs.readFileSync(globalPath, "utf-8")).toBe(JSON.stringify(current));
+    expect(fs.existsSync(`${globalPath}.v1.bak`)).toBe(false);
+    expect(ctx.ui.notify).not.toHaveBeenCalled();
+  });
+
+  it("leaves files untouched when saving migrations is off", async () => {
+    writeConfig(projectPath, { autoRun: true });
+    const ctx = createContext();
+
+    const config = await loadConfig(ctx, {
+      seedGlobal: false,
+      saveMigrations: false,
+    });
+
+    expect(config?.raw.project).toEqual({ version: 2, autoRun: true });
+    expect(fs.readFileSync(projectPath, "utf-8")).toBe('{"autoRun":true}');
+    expect(ctx.ui.notify).not.toHaveBeenCalled();
+  });
+
+  it("rejects invalid and newer versions", async () => {
+    const errors: string[] = [];
+    expect(migrateConfigRaw({ version: "2" }, "a.json", errors)).toBeNull();
+    expect(migrateConfigRaw({ version: 3 }, "b.json", errors)).toBeNull();
+    expect(errors).toEqual([
+      "[a.json] version must be a positive integer",
+      "[b.json] version 3 is newer than the supported version 2; update pi-model-selector to load this file",
+    ]);
+
+    writeConfig(projectPath, { version: 0 });
+    const loadErrors: string[] = [];
+    expect(
+      await loadConfig(createContext(), {
+        seedGlobal: false,
+        errors: loadErrors,
+      }),
+    ).toBeNull();
+    expect(loadErrors).toEqual([
+      `[${projectPath}] version must be a positive integer`,
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+import * as fs from "node:fs";
+import { describe, expect, it } from "vitest";
+import {
+  MODEL_SELECTOR_CONFIG_SCHEMA,
+  validateAgainstSchema,
+} from "../src/config-schema.js";
+
+describe("config schema", () => {
+  it("matches the published schema file", async () => {
+    // Regenerate with `npm run schema`
+    await expect(
+      `${JSON.stringify(MODEL_SELECTOR_CONFIG_SCHEMA, null, 2)}\n`,
+    ).toMatchFileSnapshot("../config/model-selector.schema.json");
+  });
+
+  it("accepts the example config", () => {
+    const example: unknown = JSON.parse(
+      fs.readFileSync(
+        new URL("../config/model-selector.example.json", import.meta.url),
+        "utf-8",
+      ),
+    );
+    expect(validateAgainstSchema(example)).toEqual([]);
+  });
+
+  it("reports unknown keys with suggestions and JSON pointers", () => {
+    expect(
+      validateAgainstSchema({
+        mappings: [
+          { usage: { provider: "codex", windowPatern: "5h" }, ignore: true },
+        ],
+        providerSettings: {
+          custom: [{ name: "x", url: "https://x", "a/b": 1 }],
+        },
+        colour: "red",
+      }),
+    ).toEqual([
+      {
+        pointer: "/mappings/0/usage/windowPatern",
+        message: 'is not a known key (did you mean "windowPattern"?)',
+      },
+      {
+        pointer: "/providerSettings/custom/0/a~1b",
+        message: "is not a known key",
+      },
+      { pointer: "/colour", message: "is not a known key" },
+    ]);
+  });
+
+  it("reports every invalid value instead of stopping at the first", () => {
+    expect(
+      validateAgainstSchema({
+        priority: [],
+        widget: { placement: "sideways", showCount: 1.5 },
+        fallback: { provider: "" },
+        mappings: [
+          {
+            usage: { windowPattern: "(" },
+            model: { provider: "p", id: "m", concurrency: 0 },
+            reserve: 100,
+          },
+          "oops",
+        ],
+        failureBackoff: { baseSeconds: 0 },
+        lockServer: { url: "localhost:7345" },
+        disabledProviders: ["kiro", ""],
+      }).map(({ pointer, message }) => `${pointer}: ${message}`),
+    ).toEqual([
+      "/priority: must have at least 1 item(s)",
+      '/widget/placement: must be one of "aboveEditor", "belowEditor" (got "sideways")',
+      "/widget/showCount: must be an integer (got number)",
+      "/fallback/id: is required",
+      "/fallback/provider: must not be empty",
+      "/mappings/0/usage/provider: is required",
+      "/mappings/0/usage/windowPattern: is not a valid regular expression: Unterminated group",
+      "/mappings/0/model/concurrency: must be >= 1 (got 0)",
+      "/mappings/0/reserve: must be <= 99 (got 100)",
+      "/mappings/1: must be an object (got string)",
+      "/failureBackoff/baseSeconds: must be > 0 (got 0)",
+      "/lockServer/url: must be an http:// or https:// URL",
+      "/disabledProviders/1: must not be empty",
+    ]);
+  });
+});
@@ -0,0 +1,172 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import {
+  afterAll,
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { ConfigWatcher } from "../src/config-watcher.js";
+import { CONFIG_VERSION, type LoadedConfig } from "../src/types.js";
+import {
+  createContext,
+  removeTempHome,
+  resetTempHome,
+  tempHome,
+  writeConfig,
+} from "./helpers/temp-home.js";
+
+vi.mock("node:os", async () =>
+  (await import("./helpers/temp-home.js")).mockHomedir(),
+);
+
+// Changes are only seen on the next poll, which takes longer under load
+describe("ConfigWatcher", { timeout: 5_000 }, () => {
+  const globalPath = path.join(tempHome.home, ".pi", "model-selector.json"),
+    projectPath = path.join(tempHome.project, ".pi", "model-selector.json"),
+    mapping = {
+      usage: { provider: "anthropic", window: "Sonnet" },
+      model: { provider: "anthropic", id: "claude-sonnet" },
+    };
+  let watcher: ConfigWatcher;
+  let onReload: ReturnType<
+    typeof vi.fn<(ctx: ExtensionContext, config: LoadedConfig) => Promise<void>>
+  >;
+
+  beforeEach(() => {
+    resetTempHome();
+    writeConfig(globalPath, { version: CONFIG_VERSION, mappings: [mapping] });
+    onReload = vi.fn(async () => undefined);
+    watcher = new ConfigWatcher({ onReload, intervalMs: 10, debounceMs: 20 });
+  });
+
+  afterEach(() => {
+    watcher.stop();
+  });
+
+  afterAll(removeTempHome);
+
+  it("serves the cached config and reloads it when a file changes", async () => {
+    const ctx = createContext(),
+      started = await watcher.start(ctx);
+    expect(started?.autoRun).toBe(false);
+    expect(await watcher.load(ctx)).toBe(started);
+
+    // A project file that did not exist yet is picked up as well
+    writeConfig(projectPath, { autoRun: true });
+    await vi.waitFor(() => expect(onReload).toHaveBeenCalledTimes(1), {
+      timeout: 2_000,
+    });
+    await watcher.flush();
+
+    const reloaded = onReload.mock.calls[0]?.[1];
+    expect(reloaded?.autoRun).toBe(true);
+    expect(await watcher.load(ctx)).toBe(reloaded);
+    expect(
+      await watcher.load({ ...ctx, cwd: tempHome.home } as ExtensionContext),
+    ).not.toBe(reloaded);
+  });
+
+  it("keeps the last valid config and reports an invalid edit once", async () => {
+    const ctx = createContext(),
+      started = await watcher.start(ctx);
+
+    writeConfig(projectPath, "{broken");
+    await vi.waitFor(() => expect(ctx.ui.notify).toHaveBeenCalledTimes(1), {
+      timeout: 2_000,
+    });
+    await watcher.flush();
+    const [message, level] = ctx.ui.notify.mock.calls[0] ?? [];
+    expect(level).toBe("error");
+    expect(message).toMatch(
+      /^\[model-selector\] Config change not applied; the last valid config stays in use:\nFailed to read .*project\/\.pi\/model-selector\.json: SyntaxError/,
+    );
+    expect(await watcher.load(ctx)).toBe(started);
+
+    // The same broken content saved again is not reported twice
+    writeConfig(projectPath, "{broken ");
+    writeConfig(projectPath, "{broken");
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    await watcher.flush();
+    expect(ctx.ui.notify).toHaveBeenCalledTimes(1);
+    expect(onReload).not.toHaveBeenCalled();
+
+    writeConfig(projectPath, { priority: ["earliestReset"] });
+    await vi.waitFor(() => expect(onReload).toHaveBeenCalledTimes(1), {
+      timeout: 2_000,
+    });
+    expect(onReload.mock.calls[0]?.[1].priority).toEqual(["earliestReset"]);
+  });
+
+  it("watches files added to a drop-in directory", async () => {
+    const dropInDir = path.join(tempHome.home, ".pi", "model-selector.d");
+    writeConfig(globalPath, {
+      extends: ["model-selector.d/*.json"],
+      mappings: [mapping],
+    });
+    const ctx = createContext();
+    await watcher.start(ctx);
+
+    writeConfig(path.join(dropInDir, "team.json"), { autoRun: true });
+    await vi.waitFor(() => expect(onReload).toHaveBeenCalledTimes(1), {
+      timeout: 2_000,
+    });
+    await watcher.flush();
+    expect(onReload.mock.calls[0]?.[1].autoRun).toBe(true);
+
+    // The newly extended file is watched from now on
+    writeConfig(path.join(dropInDir, "team.json"), { autoRun: false });
+    await vi.waitFor(() => expect(onReload).toHaveBeenCalledTimes(2), {
+      timeout: 2_000,
+    });
+    expect(onReload.mock.calls[1]?.[1].autoRun).toBe(false);
+  });
+
+  it("seeds a missing global config on the first load that asks for it", async () => {
+    fs.rmSync(globalPath);
+    const ctx = createContext(),
+      started = await watcher.start(ctx);
+
+    expect(fs.existsSync(globalPath)).toBe(false);
+    expect(await watcher.load(ctx, { seedGlobal: false })).toBe(started);
+    expect(fs.existsSync(globalPath)).toBe(false);
+
+    const seeded = await watcher.load(ctx);
+    expect(seeded).not.toBe(started);
+    expect(fs.existsSync(globalPath)).toBe(true);
+    expect(await watcher.load(ctx)).toBe(seeded);
+  });
+
+  it("loads from disk every time when hot reload is off", async () => {
+    writeConfig(projectPath, { hotReload: { enabled: false } });
+    const ctx = createContext(),
+      started = await watcher.start(ctx);
+
+    expect(started?.hotReload).toEqual({ enabled: false, reselect: false });
+    const loaded = await watcher.load(ctx);
+    expect(loaded).not.toBe(started);
+    expect(loaded).toEqual(started);
+  });
+
+  it("reports missing mappings only when they are required", async () => {
+    writeConfig(globalPath, { mappings: [] });
+    const ctx = createContext(),
+      started = await watcher.start(ctx);
+
+    expect(await watcher.load(ctx, { requireMappings: false })).toBe(started);
+    expect(await watcher.load(ctx)).toBeNull();
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      expect.stringContaining("No model selector mappings found"),
+      "error",
+    );
+
+    watcher.invalidate();
+    const reloaded = await watcher.load(ctx, { requireMappings: false });
+    expect(reloaded).not.toBe(started);
+    expect(await watcher.load(ctx, { requireMappings: false })).toBe(reloaded);
+  });
+});
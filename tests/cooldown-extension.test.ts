@@ -1,6 +1,13 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { candidateKey } from "../src/candidates.js";
-import { CooldownManager } from "../src/cooldown.js";
+import {
+  COOLDOWN_DURATION,
+  CooldownManager,
+  failureBackoffDuration,
+  formatCooldownDuration,
+  getProviderSkipKey,
+  rateLimitCooldownDuration,
+} from "../src/cooldown.js";
 
 describe("Cooldown Manager - Extension Branches", () => {
   let cooldownManager: CooldownManager;
@@ -136,6 +143,151 @@ describe("Cooldown Manager - Extension Branches", () => {
 
       expect(expiry).toBe(now + 3600000); // 1 hour in milliseconds
     });
+
+    it("uses a custom duration when one is supplied", () => {
+      const now = Date.now();
+
+      expect(
+        cooldownManager.setOrExtendProviderCooldown("p", "a", now, 120000),
+      ).toBe(true);
+      expect((cooldownManager as any).modelCooldowns.get("p|a|*")).toBe(
+        now + 120000,
+      );
+
+      // A shorter hint never shortens the existing cooldown
+      expect(
+        cooldownManager.setOrExtendProviderCooldown("p", "a", now, 60000),
+      ).toBe(false);
+    });
+  });
+
+  describe("rateLimitCooldownDuration", () => {
+    const now = 1_700_000_000_000;
+
+    it("prefers Retry-After over reset timestamps", () => {
+      expect(
+        rateLimitCooldownDuration(
+          { retryAfterMs: 300000, resetsAt: now + 7200000 },
+          now,
+        ),
+      ).toBe(300000);
+    });
+
+    it("uses the reset timestamp when Retry-After is absent", () => {
+      expect(rateLimitCooldownDuration({ resetsAt: now + 7200000 }, now)).toBe(
+        7200000,
+      );
+    });
+
+    it("clamps hints to between one minute and one day", () => {
+      expect(rateLimitCooldownDuration({ retryAfterMs: 5000 }, now)).toBe(
+        60000,
+      );
+      expect(rateLimitCooldownDuration({ resetsAt: now - 1000 }, now)).toBe(
+        60000,
+      );
+      expect(
+        rateLimitCooldownDuration({ retryAfterMs: 3 * 86400000 }, now),
+      ).toBe(86400000);
+    });
+
+    it("falls back to the default cooldown without hints", () => {
+      expect(rateLimitCooldownDuration(undefined, now)).toBe(COOLDOWN_DURATION);
+      expect(rateLimitCooldownDuration({ status: 429 }, now)).toBe(
+        COOLDOWN_DURATION,
+      );
+    });
+  });
+
+  describe("formatCooldownDuration", () => {
+    it("formats minutes and hours", () => {
+      expect(formatCooldownDuration(1000)).toBe("1 minute");
+      expect(formatCooldownDuration(300000)).toBe("5 minutes");
+      expect(formatCooldownDuration(3600000)).toBe("1 hour");
+      expect(formatCooldownDuration(7500000)).toBe("2 hours 5 minutes");
+    });
+  });
+
+  describe("failure backoff", () => {
+    const config = { enabled: true, baseSeconds: 60, maxSeconds: 600 };
+
+    it("doubles the pause per failure up to the cap", () => {
+      expect(failureBackoffDuration(1, config)).toBe(60000);
+      expect(failureBackoffDuration(2, config)).toBe(120000);
+      expect(failureBackoffDuration(4, config)).toBe(480000);
+      expect(failureBackoffDuration(5, config)).toBe(600000);
+      expect(failureBackoffDuration(50, config)).toBe(600000);
+    });
+
+    it("counts a failure only once the previous backoff has ended", () => {
+      const now = Date.now();
+
+      expect(
+        cooldownManager.recordProviderFailure("kiro", undefined, now, config),
+      ).toBe(60000);
+      expect(
+        cooldownManager.recordProviderFailure(
+          "kiro",
+          undefined,
+          now + 1000,
+          config,
+        ),
+      ).toBeUndefined();
+      expect(
+        cooldownManager.recordProviderFailure(
+          "kiro",
+          undefined,
+          now + 60000,
+          config,
+        ),
+      ).toBe(120000);
+      expect(cooldownManager.getProviderBackoff("kiro", undefined)).toEqual({
+        failures: 2,
+        until: now + 180000,
+      });
+    });
+
+    it("lists only providers with a running provider-level backoff", () => {
+      const now = Date.now();
+      cooldownManager.recordProviderFailure("kiro", undefined, now, config);
+      cooldownManager.recordProviderFailure("codex", "work", now, config);
+
+      expect(cooldownManager.getBackedOffProviders(now)).toEqual(["kiro"]);
+      expect(cooldownManager.getBackedOffProviders(now + 60000)).toEqual([]);
+    });
+
+    it("resets on success, including the provider-level entry", () => {
+      const now = Date.now();
+      cooldownManager.recordProviderFailure("codex", undefined, now, config);
+      cooldownManager.recordProviderFailure("codex", "work", now, config);
+
+      expect(cooldownManager.recordProviderSuccess("codex", "work")).toBe(true);
+      expect(
+        cooldownManager.getProviderBackoff("codex", undefined),
+      ).toBeUndefined();
+      expect(
+        cooldownManager.getProviderBackoff("codex", "work"),
+      ).toBeUndefined();
+      expect(cooldownManager.recordProviderSuccess("codex", "work")).toBe(
+        false,
+      );
+    });
+
+    it("forgets failure counts a day after the last backoff ended", () => {
+      const now = Date.now();
+      cooldownManager.recordProviderFailure("kiro", undefined, now, config);
+
+      expect(cooldownManager.pruneExpiredCooldowns(now + 120000)).toBe(false);
+      expect(
+        cooldownManager.getProviderBackoff("kiro", undefined),
+      ).toBeDefined();
+      expect(
+        cooldownManager.pruneExpiredCooldowns(now + 60000 + 86400000),
+      ).toBe(true);
+      expect(
+        cooldownManager.getProviderBackoff("kiro", undefined),
+      ).toBeUndefined();
+    });
   });
 
   describe("getWildcardExpiry", () => {
@@ -316,6 +468,92 @@ describe("Cooldown Manager - Extension Branches", () => {
     });
   });
 
+  describe("getCooldownExpiry", () => {
+    it("returns the latest active expiry across candidate and wildcard keys", () => {
+      vi.setSystemTime(new Date("2024-01-01T00:00:00.000Z"));
+      const now = Date.now();
+      const candidate = {
+        provider: "anthropic",
+        displayName: "Claude",
+        windowLabel: "Sonnet",
+        usedPercent: 50,
+        remainingPercent: 50,
+      };
+
+      expect(cooldownManager.getCooldownExpiry(candidate, now)).toBeUndefined();
+
+      cooldownManager.addCooldown(candidateKey(candidate));
+      expect(cooldownManager.getCooldownExpiry(candidate, now)).toBe(
+        now + 60 * 60 * 1000,
+      );
+
+      cooldownManager.setOrExtendProviderCooldown(
+        "anthropic",
+        undefined,
+        now + 30 * 60 * 1000,
+      );
+      expect(cooldownManager.getCooldownExpiry(candidate, now)).toBe(
+        now + 90 * 60 * 1000,
+      );
+
+      // Expired entries are ignored even before they are pruned
+      expect(
+        cooldownManager.getCooldownExpiry(candidate, now + 2 * 60 * 60 * 1000),
+      ).toBeUndefined();
+    });
+  });
+
+  describe("provider skip keys", () => {
+    const candidate = {
+      provider: "codex",
+      displayName: "Codex",
+      windowLabel: "5h",
+      usedPercent: 50,
+      remainingPercent: 50,
+      account: "work",
+    };
+
+    it("blocks every bucket of a skipped provider or account", () => {
+      const now = Date.now();
+
+      cooldownManager.addCooldown(
+        getProviderSkipKey("codex", "work"),
+        now + 1000,
+      );
+      expect(cooldownManager.getCooldownExpiry(candidate, now)).toBe(
+        now + 1000,
+      );
+      expect(
+        cooldownManager.isOnCooldown({ ...candidate, account: "home" }, now),
+      ).toBe(false);
+
+      cooldownManager.addCooldown(getProviderSkipKey("codex"), now + 5000);
+      expect(
+        cooldownManager.getCooldownExpiry(
+          { ...candidate, account: "home" },
+          now,
+        ),
+      ).toBe(now + 5000);
+    });
+
+    it("is removed by clearSkipCooldowns", () => {
+      cooldownManager.addCooldown(getProviderSkipKey("codex"));
+      cooldownManager.setOrExtendProviderCooldown(
+        "codex",
+        undefined,
+        Date.now(),
+      );
+
+      expect(cooldownManager.clearSkipCooldowns()).toBe(1);
+      expect(
+        cooldownManager.getWildcardExpiry("codex", undefined),
+      ).toBeDefined();
+      expect((cooldownManager as any).modelCooldowns.has("codex||*|skip")).toBe(
+        false,
+      );
+    });
+  });
+
   describe("pruneExpiredCooldowns", () => {
     it("returns true when it removes expired cooldowns", () => {
       vi.setSystemTime(new Date("2024-01-01T00:00:00.000Z"));
@@ -39,12 +39,12 @@ describe("Cooldown State Loading", () => {
   it("loads cooldown state with invalid shapes safely", async () => {
     vi.mocked(fs.promises.access).mockResolvedValue(undefined);
     vi.mocked(fs.promises.readFile).mockResolvedValue(
-      JSON.stringify({ cooldowns: "nope", lastSelected: 123 }),
+      JSON.stringify({ cooldowns: "nope", lastSelected: 123, backoff: "nope" }),
     );
 
     const state = await cooldownMod.loadCooldownState();
 
-    expect(state).toEqual({ cooldowns: {}, lastSelected: null });
+    expect(state).toEqual({ cooldowns: {}, lastSelected: null, backoff: {} });
   });
 
   it("migrates legacy cooldown keys and skips expired entries", async () => {
@@ -59,6 +59,7 @@ describe("Cooldown State Loading", () => {
           "p1|acc|w1": now + 10000,
           "p1|acc|w1|raw": now + 20000,
           "p1|acc|*": now + 30000,
+          "p2|acc|*|skip": now + 30000,
           "expired|acc|w2": now - 1000,
         },
         lastSelected: "p1|acc|w1",
@@ -75,8 +76,49 @@ describe("Cooldown State Loading", () => {
 
     expect(cooldowns.has("p1|acc|w1|raw")).toBe(true);
     expect(cooldowns.has("p1|acc|*")).toBe(true);
+    expect(cooldowns.has("p2|acc|*|skip")).toBe(true);
+    expect(cooldowns.has("p2|acc|*|skip|raw")).toBe(false);
     expect(cooldowns.has("expired|acc|w2")).toBe(false);
     expect(manager.getLastSelectedKey()).toBe("p1|acc|w1|raw");
     expect(fs.promises.readFile).toHaveBeenCalledTimes(1);
   });
+
+  it("restores and persists failure backoff alongside cooldowns", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-01T00:00:00.000Z"));
+    const now = Date.now();
+
+    vi.mocked(fs.promises.access).mockResolvedValue(undefined);
+    vi.mocked(fs.promises.readFile).mockResolvedValue(
+      JSON.stringify({
+        cooldowns: {},
+        lastSelected: null,
+        backoff: {
+          "kiro||*": { failures: 2, until: now + 60000 },
+          "gemini|acc|*": { failures: 1, until: now - 1000 },
+          "broken||*": { failures: "many", until: now },
+        },
+      }),
+    );
+
+    const manager = new cooldownMod.CooldownManager();
+    await manager.loadPersistedCooldowns();
+
+    expect(manager.getProviderBackoff("kiro", undefined)).toEqual({
+      failures: 2,
+      until: now + 60000,
+    });
+    expect(manager.getProviderBackoff("broken", undefined)).toBeUndefined();
+    expect(manager.getBackedOffProviders(now)).toEqual(["kiro"]);
+
+    await manager.persistCooldowns();
+
+    const written = JSON.parse(
+      vi.mocked(fs.promises.writeFile).mock.calls[0]?.[1] as string,
+    );
+    expect(written.backoff).toEqual({
+      "kiro||*": { failures: 2, until: now + 60000 },
+      "gemini|acc|*": { failures: 1, until: now - 1000 },
+    });
+  });
 });
@@ -0,0 +1,136 @@
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CooldownManager, getProviderSkipKey } from "../src/cooldown.js";
+import {
+  formatCooldownEntry,
+  formatCooldownList,
+  parseCooldownKey,
+  runCooldownsCommand,
+} from "../src/cooldowns-command.js";
+
+describe("/model-cooldowns", () => {
+  const now = Date.UTC(2026, 0, 1);
+  let manager: CooldownManager;
+
+  const createContext = (hasUI = true) =>
+    ({
+      hasUI,
+      ui: { notify: vi.fn(), select: vi.fn() },
+    }) as unknown as ExtensionContext & {
+      ui: {
+        notify: ReturnType<typeof vi.fn>;
+        select: ReturnType<typeof vi.fn>;
+      };
+    };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+    manager = new CooldownManager();
+    vi.spyOn(manager, "loadPersistedCooldowns").mockResolvedValue(undefined);
+    vi.spyOn(manager, "persistCooldowns").mockResolvedValue(undefined);
+    manager.addCooldown("anthropic||Opus|raw", now + 45 * 60000);
+    manager.setOrExtendProviderCooldown("gemini", "work", now);
+    manager.addCooldown(getProviderSkipKey("codex"), now + 2 * 3600000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("parses every kind of cooldown key", () => {
+    expect(parseCooldownKey("anthropic|acct|Opus|raw")).toEqual({
+      kind: "skip",
+      provider: "anthropic",
+      account: "acct",
+      window: "Opus",
+    });
+    expect(parseCooldownKey("anthropic||Opus")).toEqual({
+      kind: "skip",
+      provider: "anthropic",
+      window: "Opus",
+    });
+    expect(parseCooldownKey("gemini|work|*")).toEqual({
+      kind: "rate-limit",
+      provider: "gemini",
+      account: "work",
+    });
+    expect(parseCooldownKey("codex||*|skip")).toEqual({
+      kind: "provider-skip",
+      provider: "codex",
+    });
+  });
+
+  it("lists active cooldowns soonest first", () => {
+    manager.addCooldown("expired||w|raw", now - 1);
+
+    expect(formatCooldownList(manager.listCooldowns(now), now)).toBe(
+      [
+        "Active cooldowns (3):",
+        "  anthropic/Opus - bucket skip, 45 minutes left",
+        "  gemini (work) - rate limit, 1 hour left",
+        "  codex (all accounts) - provider skip, 2 hours left",
+      ].join("\n"),
+    );
+    expect(formatCooldownList([], now)).toBe("No active cooldowns.");
+  });
+
+  it("only reports the list without a UI", async () => {
+    const ctx = createContext(false),
+      log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+    expect(await runCooldownsCommand(ctx, manager)).toBe(false);
+    expect(log).toHaveBeenCalledWith(
+      expect.stringContaining("Active cooldowns (3):"),
+    );
+    expect(ctx.ui.select).not.toHaveBeenCalled();
+    log.mockRestore();
+  });
+
+  it("extends, shortens and clears entries until Done", async () => {
+    const ctx = createContext(),
+      rateLimit = `2. ${formatCooldownEntry({ key: "gemini|work|*", expiresAt: now + 3600000 }, now)}`;
+    ctx.ui.select
+      .mockResolvedValueOnce(rateLimit)
+      .mockResolvedValueOnce("Extend by 4 hours")
+      .mockResolvedValueOnce("1. anthropic/Opus - bucket skip, 45 minutes left")
+      .mockResolvedValueOnce("Shorten by 1 hour")
+      .mockResolvedValueOnce(
+        "1. codex (all accounts) - provider skip, 2 hours left",
+      )
+      .mockResolvedValueOnce("Back")
+      .mockResolvedValueOnce("Done");
+
+    expect(await runCooldownsCommand(ctx, manager)).toBe(true);
+
+    expect(manager.getWildcardExpiry("gemini", "work")).toBe(now + 5 * 3600000);
+    expect(manager.listCooldowns(now).map((entry) => entry.key)).toEqual([
+      "codex||*|skip",
+      "gemini|work|*",
+    ]);
+    expect(manager.persistCooldowns).toHaveBeenCalledTimes(2);
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      "[model-selector] The rate limit for gemini (work) now ends in 5 hours.",
+      "info",
+    );
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      "[model-selector] Cleared bucket skip for anthropic/Opus.",
+      "info",
+    );
+  });
+
+  it("stops when the list is cancelled or emptied", async () => {
+    const ctx = createContext();
+    ctx.ui.select.mockResolvedValueOnce(undefined);
+    expect(await runCooldownsCommand(ctx, manager)).toBe(false);
+
+    manager.clear();
+    manager.addCooldown("anthropic||Opus|raw", now + 60000);
+    ctx.ui.select
+      .mockResolvedValueOnce("1. anthropic/Opus - bucket skip, 1 minute left")
+      .mockResolvedValueOnce("Clear");
+    expect(await runCooldownsCommand(ctx, manager)).toBe(true);
+    expect(ctx.ui.select).toHaveBeenCalledTimes(3);
+    expect(manager.listCooldowns(now)).toEqual([]);
+  });
+});
@@ -0,0 +1,195 @@
+// biome-ignore-all lint/suspicious/noTemplateCurlyInString: ${NAME} placeholders are interpolated by the custom provider
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as common from "../src/fetchers/common.js";
+import {
+  evaluateJsonPath,
+  fetchCustomUsage,
+  interpolateEnv,
+  parseCustomUsageResponse,
+} from "../src/fetchers/custom.js";
+import type { CustomProviderSettings } from "../src/types.js";
+
+vi.mock("../src/fetchers/common.js", async () => {
+  const actual = await vi.importActual("../src/fetchers/common.js");
+  return {
+    ...(actual as any),
+    fetchWithTimeout: vi.fn(),
+  };
+});
+
+describe("Custom HTTP provider", () => {
+  const gateway: CustomProviderSettings = {
+    name: "gateway",
+    displayName: "LLM Gateway",
+    url: "https://gateway.internal/quota?team=${GATEWAY_TEAM}",
+    headers: { Authorization: "Bearer ${GATEWAY_TOKEN}" },
+    windows: "$.data.quotas[*]",
+    label: "$.name",
+    used: "$.consumed",
+    limit: "$['max']",
+    resetsAt: "$.reset_at",
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    process.env.GATEWAY_TOKEN = "secret-token";
+    process.env.GATEWAY_TEAM = "platform";
+  });
+
+  afterEach(() => {
+    delete process.env.GATEWAY_TOKEN;
+    delete process.env.GATEWAY_TEAM;
+  });
+
+  it("evaluates JSON paths with names, indexes and wildcards", () => {
+    const data = {
+      a: { "b-c": [{ v: 1 }, { v: 2 }] },
+      list: [10, 20],
+    };
+
+    expect(evaluateJsonPath(data, "$")).toEqual([data]);
+    expect(evaluateJsonPath(data, "$.a['b-c'][*].v")).toEqual([1, 2]);
+    expect(evaluateJsonPath(data, "$.list[1]")).toEqual([20]);
+    expect(evaluateJsonPath(data, "$.list[5]")).toEqual([]);
+    expect(evaluateJsonPath(data, "$.a.*")).toEqual([data.a["b-c"]]);
+    expect(evaluateJsonPath(data, "$.missing.deeper")).toEqual([]);
+    expect(() => evaluateJsonPath(data, "a.b")).toThrow("must start with");
+    expect(() => evaluateJsonPath(data, "$.a[")).toThrow("at position 3");
+  });
+
+  it("interpolates environment variables and reports missing ones", () => {
+    expect(interpolateEnv("Bearer ${TOKEN}", { TOKEN: "abc" })).toEqual({
+      value: "Bearer abc",
+      missing: [],
+    });
+    expect(interpolateEnv("${A}-${B}", { A: "x", B: "" })).toEqual({
+      value: "x-",
+      missing: ["B"],
+    });
+  });
+
+  it("parses percent-based responses with literal labels", () => {
+    const windows = parseCustomUsageResponse(
+      { usage: { percent: "42.5", reset: 1772859600 } },
+      {
+        name: "simple",
+        url: "https://example.com",
+        label: "Daily",
+        usedPercent: "$.usage.percent",
+        resetsAt: "$.usage.reset",
+      },
+    );
+
+    expect(windows).toHaveLength(1);
+    expect(windows[0]?.label).toBe("Daily");
+    expect(windows[0]?.usedPercent).toBe(42.5);
+    // Epoch seconds are converted to milliseconds
+    expect(windows[0]?.resetsAt?.getTime()).toBe(1772859600000);
+  });
+
+  it("numbers literal and default labels when several windows match", () => {
+    const data = [{ p: 10 }, { p: 150 }, { p: "n/a" }];
+    expect(
+      parseCustomUsageResponse(data, {
+        name: "multi",
+        url: "https://example.com",
+        windows: "$[*]",
+        usedPercent: "$.p",
+      }).map((w) => [w.label, w.usedPercent]),
+    ).toEqual([
+      ["Usage 1", 10],
+      ["Usage 2", 100],
+    ]);
+    expect(
+      parseCustomUsageResponse(data, {
+        name: "multi",
+        url: "https://example.com",
+        windows: "$[*]",
+        label: "Tier",
+        usedPercent: "$.p",
+      }).map((w) => w.label),
+    ).toEqual(["Tier 1", "Tier 2"]);
+  });
+
+  it("fetches and converts a gateway response", async () => {
+    vi.mocked(common.fetchWithTimeout).mockResolvedValue({
+      res: { ok: true } as Response,
+      data: {
+        data: {
+          quotas: [
+            {
+              name: "hourly",
+              consumed: 30,
+              max: 120,
+              reset_at: "2026-03-07T05:00:00Z",
+            },
+            { name: 7, consumed: 5, max: 0 },
+            { consumed: 1, max: 10 },
+          ],
+        },
+      },
+    });
+
+    const result = await fetchCustomUsage(gateway);
+
+    expect(common.fetchWithTimeout).toHaveBeenCalledWith(
+      "https://gateway.internal/quota?team=platform",
+      {
+        headers: {
+          Accept: "application/json",
+          Authorization: "Bearer secret-token",
+        },
+      },
+    );
+    expect(result.provider).toBe("gateway");
+    expect(result.displayName).toBe("LLM Gateway");
+    expect(result.error).toBeUndefined();
+    expect(result.windows).toHaveLength(1);
+    expect(result.windows[0]?.label).toBe("hourly");
+    expect(result.windows[0]?.usedPercent).toBe(25);
+    expect(result.windows[0]?.resetsAt?.toISOString()).toBe(
+      "2026-03-07T05:00:00.000Z",
+    );
+  });
+
+  it("returns error snapshots for missing env vars, HTTP errors and bad paths", async () => {
+    delete process.env.GATEWAY_TOKEN;
+    expect((await fetchCustomUsage(gateway)).error).toBe(
+      "Missing environment variable(s): GATEWAY_TOKEN",
+    );
+    expect(common.fetchWithTimeout).not.toHaveBeenCalled();
+
+    process.env.GATEWAY_TOKEN = "secret-token";
+    vi.mocked(common.fetchWithTimeout).mockResolvedValue({
+      res: { ok: false, status: 503, statusText: "" } as Response,
+    });
+    expect((await fetchCustomUsage(gateway)).error).toBe("HTTP 503");
+
+    vi.mocked(common.fetchWithTimeout).mockResolvedValue({
+      res: new Response(null, {
+        status: 429,
+        statusText: "Too Many Requests",
+        headers: { "retry-after": "90" },
+      }),
+    });
+    const limited = await fetchCustomUsage(gateway);
+    expect(limited.error).toBe("HTTP 429 Too Many Requests");
+    expect(limited.errorInfo).toEqual({ status: 429, retryAfterMs: 90000 });
+
+    vi.mocked(common.fetchWithTimeout).mockResolvedValue({
+      res: { ok: true } as Response,
+      data: { unexpected: true },
+    });
+    const empty = await fetchCustomUsage(gateway);
+    expect(empty.error).toBe(
+      "No usage windows matched the configured JSON paths",
+    );
+    expect(empty.displayName).toBe("LLM Gateway");
+
+    const invalid = await fetchCustomUsage({ ...gateway, windows: "$.a[" });
+    expect(invalid.error).toContain("Invalid JSON path");
+
+    vi.mocked(common.fetchWithTimeout).mockRejectedValue("socket hang up");
+    expect((await fetchCustomUsage(gateway)).error).toBe("socket hang up");
+  });
+});
@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  clearRegisteredUsageFetchers,
+  getRegisteredUsageFetchers,
+  registerUsageFetcher,
+  unregisterUsageFetcher,
+} from "../src/fetcher-registry.js";
+
+describe("Usage fetcher registry", () => {
+  beforeEach(() => {
+    clearRegisteredUsageFetchers();
+  });
+
+  it("registers fetchers in order and normalizes names", () => {
+    const fetch = vi.fn();
+    registerUsageFetcher({ provider: " vendor ", displayName: " ", fetch });
+    registerUsageFetcher({
+      provider: "other",
+      displayName: "Other Vendor",
+      fetch,
+    });
+
+    expect(
+      getRegisteredUsageFetchers().map((r) => [r.provider, r.displayName]),
+    ).toEqual([
+      ["vendor", "vendor"],
+      ["other", "Other Vendor"],
+    ]);
+  });
+
+  it("rejects empty, built-in, duplicate and fetch-less registrations", () => {
+    const fetch = vi.fn();
+    registerUsageFetcher({ provider: "vendor", displayName: "V", fetch });
+
+    expect(() =>
+      registerUsageFetcher({ provider: "  ", displayName: "x", fetch }),
+    ).toThrow("must be a non-empty string");
+    expect(() =>
+      registerUsageFetcher({ provider: "anthropic", displayName: "x", fetch }),
+    ).toThrow("conflicts with a built-in provider");
+    expect(() =>
+      registerUsageFetcher({ provider: "vendor", displayName: "x", fetch }),
+    ).toThrow("is already registered");
+    expect(() =>
+      registerUsageFetcher({
+        provider: "broken",
+        displayName: "x",
+        fetch: undefined as never,
+      }),
+    ).toThrow("must provide a fetch function");
+  });
+
+  it("unregisters only the registration a disposer created", () => {
+    const fetch = vi.fn(),
+      dispose = registerUsageFetcher({
+        provider: "vendor",
+        displayName: "V1",
+        fetch,
+      });
+
+    expect(unregisterUsageFetcher("vendor")).toBe(true);
+    expect(unregisterUsageFetcher("vendor")).toBe(false);
+
+    registerUsageFetcher({ provider: "vendor", displayName: "V2", fetch });
+    dispose();
+    expect(getRegisteredUsageFetchers()[0]?.displayName).toBe("V2");
+  });
+});
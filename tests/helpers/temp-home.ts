@@ -0,0 +1,92 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { type Mock, vi } from "vitest";
+
+// node:os is mocked by the test files using this helper, so the real module
+// is needed for the temp directory and the rest of the mock
+const actualOs = await vi.importActual<typeof import("node:os")>("node:os");
+
+const root = fs.mkdtempSync(path.join(actualOs.tmpdir(), "model-selector-"));
+
+/**
+ * Temp directories standing in for the home directory and a project.
+ * Each test file gets its own set.
+ */
+export const tempHome = {
+  root,
+  home: path.join(root, "home"),
+  project: path.join(root, "project"),
+};
+
+/**
+ * Factory for `vi.mock("node:os", ...)` pointing `homedir()` at the temp home.
+ */
+export function mockHomedir(): typeof import("node:os") {
+  return { ...actualOs, homedir: () => tempHome.home };
+}
+
+/**
+ * Empties the temp home and project between tests.
+ */
+export function resetTempHome(): void {
+  fs.rmSync(tempHome.home, { recursive: true, force: true });
+  fs.rmSync(tempHome.project, { recursive: true, force: true });
+}
+
+/**
+ * Removes every temp directory once the file's tests are done.
+ */
+export function removeTempHome(): void {
+  fs.rmSync(tempHome.root, { recursive: true, force: true });
+}
+
+/**
+ * Writes a config file, serializing anything that is not already text.
+ */
+export function writeConfig(file: string, content: unknown): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(
+    file,
+    typeof content === "string" ? content : JSON.stringify(content),
+    "utf-8",
+  );
+}
+
+/**
+ * Reads a JSON file written by a command under test.
+ */
+export function readJson(file: string): Record<string, unknown> {
+  return JSON.parse(fs.readFileSync(file, "utf-8")) as Record<string, unknown>;
+}
+
+/**
+ * Extension context whose UI methods are mocks.
+ */
+export type TestContext = ExtensionContext & {
+  ui: { notify: Mock; confirm: Mock; select: Mock };
+};
+
+/**
+ * Creates a context in the temp project. `confirm` is the answer to every
+ * confirmation prompt.
+ */
+export function createContext({
+  cwd = tempHome.project,
+  hasUI = true,
+  confirm = true,
+}: {
+  cwd?: string;
+  hasUI?: boolean;
+  confirm?: boolean;
+} = {}): TestContext {
+  return {
+    cwd,
+    hasUI,
+    ui: {
+      notify: vi.fn(),
+      confirm: vi.fn(async () => confirm),
+      select: vi.fn(),
+    },
+  } as unknown as TestContext;
+}
@@ -1,13 +1,20 @@
-import { describe, expect, it, vi } from "vitest";
+import { afterAll, describe, expect, it, vi } from "vitest";
 
 vi.mock("../src/selector.js", () => ({
   runSelector: vi.fn().mockResolvedValue(true),
 }));
+// The command seeds the global config, which must not land in the real home
+vi.mock("node:os", async () =>
+  (await import("./helpers/temp-home.js")).mockHomedir(),
+);
 
 import modelSelectorExtension from "../index.js";
 import { runSelector } from "../src/selector.js";
+import { removeTempHome } from "./helpers/temp-home.js";
 
 describe("Model selector heartbeat reference", () => {
+  afterAll(removeTempHome);
+
   it("reuses the lock heartbeat reference across selector runs", async () => {
     const runSelectorMock = vi.mocked(runSelector);
     const heartbeat = {} as NodeJS.Timeout;
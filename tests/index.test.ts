@@ -2,6 +2,12 @@ import * as fs from "node:fs";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import modelSelectorExtension from "../index.js";
 import * as configMod from "../src/config.js";
+import {
+  HttpModelLockBackend,
+  startModelLockServer,
+} from "../src/model-lock-server.js";
+import { createModelLockCoordinator } from "../src/model-locks.js";
+import type { LoadedConfig } from "../src/types.js";
 import * as usageFetchers from "../src/usage-fetchers.js";
 import * as widgetMod from "../src/widget.js";
 
@@ -58,6 +64,7 @@ vi.mock("node:fs", async (importOriginal) => {
 
 vi.mock("node:os", () => ({
   homedir: () => "/mock/home",
+  hostname: () => "mock-host",
   platform: () => "darwin",
 }));
 
@@ -539,6 +546,307 @@ describe("Model Selector Extension", () => {
     );
   });
 
+  it("skips a named target for the given duration on /model-skip", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T00:00:00.000Z"));
+    modelSelectorExtension(pi);
+    const skipHandler = commands["model-skip"];
+    if (!skipHandler) throw new Error("Command not found: model-skip");
+
+    await skipHandler("p1/w1 4h", ctx);
+
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "Added temporary cooldown (4 hours) for usage bucket Provider 1/w1",
+      ),
+      "info",
+    );
+    expect(getLastPersistedCooldownState().cooldowns["p1||w1|raw"]).toBe(
+      Date.now() + 4 * 3600000,
+    );
+    expect(pi.setModel).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: "p2", id: "m2" }),
+    );
+  });
+
+  it("skips a whole provider by mapped model and scope on /model-skip", async () => {
+    modelSelectorExtension(pi);
+    const skipHandler = commands["model-skip"];
+    if (!skipHandler) throw new Error("Command not found: model-skip");
+
+    await skipHandler("p1/m1 provider 30m", ctx);
+
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "Added temporary cooldown (30 minutes) for provider Provider 1",
+      ),
+      "info",
+    );
+    expect(getLastPersistedCooldownState().cooldowns).toHaveProperty(
+      "p1||*|skip",
+    );
+    expect(pi.setModel).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: "p2", id: "m2" }),
+    );
+  });
+
+  it("reports unknown targets and invalid arguments on /model-skip", async () => {
+    modelSelectorExtension(pi);
+    const skipHandler = commands["model-skip"];
+    if (!skipHandler) throw new Error("Command not found: model-skip");
+
+    await skipHandler("p9/nothing", ctx);
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'No usage bucket, mapped model or provider matches "p9/nothing"',
+      ),
+      "error",
+    );
+
+    await skipHandler("30m 4h", ctx);
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      expect.stringContaining("Only one duration may be given"),
+      "error",
+    );
+    expect(pi.setModel).not.toHaveBeenCalled();
+  });
+
+  it("completes /model-skip arguments from the widget candidates", () => {
+    modelSelectorExtension(pi);
+    const options = vi
+      .mocked(pi.registerCommand)
+      .mock.calls.find(([name]: [string]) => name === "model-skip")?.[1];
+
+    vi.mocked(widgetMod.getWidgetState).mockReturnValue(null);
+    expect(options.getArgumentCompletions("p")).toBeNull();
+
+    vi.mocked(widgetMod.getWidgetState).mockReturnValue({
+      candidates: [
+        {
+          provider: "p1",
+          displayName: "Provider 1",
+          windowLabel: "w1",
+          usedPercent: 10,
+          remainingPercent: 90,
+        },
+      ],
+      config: { mappings: [] } as unknown as LoadedConfig,
+    });
+    expect(
+      options
+        .getArgumentCompletions("p1/")
+        .map((item: { value: string }) => item.value),
+    ).toEqual(["p1/w1"]);
+  });
+
+  it("clears a skip on /model-cooldowns and re-runs selection", async () => {
+    modelSelectorExtension(pi);
+    const skipHandler = commands["model-skip"];
+    if (!skipHandler) throw new Error("Command not found: model-skip");
+    const cooldownsHandler = commands["model-cooldowns"];
+    if (!cooldownsHandler)
+      throw new Error("Command not found: model-cooldowns");
+
+    await skipHandler("p1/w1", ctx);
+    pi.setModel.mockClear();
+    ctx.model = { provider: "p2", id: "m2" };
+    ctx.ui.select
+      .mockResolvedValueOnce("1. p1/w1 - bucket skip, 1 hour left")
+      .mockResolvedValueOnce("Clear");
+
+    await cooldownsHandler({}, ctx);
+
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      expect.stringContaining("Cleared bucket skip for p1/w1."),
+      "info",
+    );
+    expect(getLastPersistedCooldownState().cooldowns).toEqual({});
+    expect(pi.setModel).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: "p1", id: "m1" }),
+    );
+  });
+
+  it("force-releases a crashed instance's lock on /model-locks", async () => {
+    vi.mocked(fs.promises.readFile).mockImplementation(async (filePath) => {
+      if (String(filePath).includes("model-selector-model-locks.json")) {
+        return JSON.stringify({
+          version: 2,
+          locks: {
+            "p1/m1": [
+              {
+                instanceId: "crashed-instance",
+                pid: 999999999,
+                acquiredAt: Date.now(),
+                heartbeatAt: Date.now(),
+              },
+            ],
+          },
+        });
+      }
+      return "{}";
+    });
+    modelSelectorExtension(pi);
+    const locksHandler = commands["model-locks"];
+    if (!locksHandler) throw new Error("Command not found: model-locks");
+    ctx.ui.select
+      .mockImplementationOnce(async (_title: string, options: string[]) => {
+        expect(options[0]).toContain(
+          "1. p1/m1 - crashed-instance (pid 999999999, exited)",
+        );
+        return options[0];
+      })
+      .mockResolvedValueOnce("Done");
+    ctx.ui.confirm.mockResolvedValueOnce(true);
+
+    await locksHandler({}, ctx);
+
+    const lockWrites = vi
+      .mocked(fs.promises.writeFile)
+      .mock.calls.filter(([filePath]) =>
+        String(filePath).includes("model-selector-model-locks"),
+      );
+    expect(JSON.parse(String(lockWrites.at(-1)?.[1])).locks).toEqual({});
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      "[model-selector] Released p1/m1 held by crashed-instance.",
+      "info",
+    );
+  });
+
+  it("selects under the new profile on /model-profile", async () => {
+    const config = await configMod.loadConfig(ctx);
+    if (!config) throw new Error("missing config");
+    vi.mocked(configMod.loadConfig)
+      .mockResolvedValueOnce({ ...config, profiles: ["cheap"] })
+      .mockResolvedValueOnce({
+        ...config,
+        mappings: [
+          {
+            usage: { provider: "p2", window: "w2" },
+            model: { provider: "p2", id: "m2" },
+          },
+        ],
+        profiles: ["cheap"],
+        profile: "cheap",
+      });
+    ctx.cwd = "/work/app";
+    modelSelectorExtension(pi);
+    const profileHandler = commands["model-profile"];
+    if (!profileHandler) throw new Error("Command not found: model-profile");
+
+    await profileHandler("cheap", ctx);
+
+    const stateWrite = [...persistedFiles].find(([filePath]) =>
+      filePath.includes("model-selector-profiles.json.tmp."),
+    );
+    expect(JSON.parse(String(stateWrite?.[1]))).toEqual({
+      projects: { "/work/app": "cheap" },
+    });
+    expect(pi.setModel).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: "p2", id: "m2" }),
+    );
+  });
+
+  it("reports config problems on /model-select-validate", async () => {
+    vi.mocked(configMod.getGlobalConfigPath).mockResolvedValue("/global.json");
+    vi.mocked(configMod.getProjectConfigPath).mockReturnValue("/project.json");
+    vi.mocked(configMod.readConfigFile).mockImplementation(async (filePath) =>
+      filePath === "/global.json" ? { prority: [] } : null,
+    );
+    modelSelectorExtension(pi);
+    const validateHandler = commands["model-select-validate"];
+    if (!validateHandler) {
+      throw new Error("Command not found: model-select-validate");
+    }
+
+    await validateHandler({}, ctx);
+
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      [
+        "[model-selector] Config problems (1):",
+        "  /global.json",
+        '    /prority: is not a known key (did you mean "priority"?)',
+      ].join("\n"),
+      "error",
+    );
+  });
+
+  it("coordinates through the configured lock server after session_start", async () => {
+    const server = await startModelLockServer({ port: 0 });
+    try {
+      await createModelLockCoordinator({
+        instanceId: "remote-instance",
+        host: "build-box",
+        backend: new HttpModelLockBackend({ url: server.url }),
+      }).acquire("p9/m9");
+      const config = await configMod.loadConfig(ctx);
+      if (!config) throw new Error("missing config");
+      vi.mocked(configMod.loadConfig).mockResolvedValue({
+        ...config,
+        lockServer: { url: server.url },
+      });
+      modelSelectorExtension(pi);
+      await events.session_start?.({ reason: "new" }, ctx);
+      const locksHandler = commands["model-locks"];
+      if (!locksHandler) throw new Error("Command not found: model-locks");
+      ctx.ui.select.mockResolvedValueOnce(undefined);
+
+      await locksHandler({}, ctx);
+
+      expect(ctx.ui.select).toHaveBeenCalledWith(
+        "Model locks",
+        expect.arrayContaining([
+          expect.stringContaining(
+            `1. p9/m9 - remote-instance (pid ${process.pid} on build-box)`,
+          ),
+        ]),
+      );
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should report ranked candidates on /model-status", async () => {
+    modelSelectorExtension(pi);
+    const statusHandler = commands["model-status"];
+    if (!statusHandler) throw new Error("Command not found: model-status");
+
+    await statusHandler({}, ctx);
+
+    const report = vi
+      .mocked(ctx.ui.notify)
+      .mock.calls.find(([message]: [string]) =>
+        message.includes("Model selector status"),
+      )?.[0] as string | undefined;
+    expect(report).toBeDefined();
+    expect(report).toContain("#1 Provider 1/w1");
+    expect(report).toContain("p1/m1");
+    expect(report).toContain("lock free");
+    expect(pi.setModel).not.toHaveBeenCalled();
+  });
+
+  it("should explain the last selection on /model-explain", async () => {
+    modelSelectorExtension(pi);
+    const explainHandler = commands["model-explain"];
+    if (!explainHandler) throw new Error("Command not found: model-explain");
+    const selectHandler = commands["model-select"];
+    if (!selectHandler) throw new Error("Command not found: model-select");
+
+    await selectHandler({}, ctx);
+    ctx.ui.notify.mockClear();
+    await explainHandler({}, ctx);
+
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      expect.stringContaining("Last model selection (reason: command"),
+      "info",
+    );
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "Outcome: already-selected - Already using p1/m1",
+      ),
+      "info",
+    );
+  });
+
   it("should handle skipping when no prior selection exists", async () => {
     modelSelectorExtension(pi);
     const skipHandler = commands["model-skip"];
@@ -0,0 +1,122 @@
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  getLockServerCompletions,
+  runLockServerCommand,
+} from "../src/lock-server-command.js";
+import type { ModelLockServer } from "../src/model-lock-server.js";
+
+describe("/model-lock-server", () => {
+  const server = { current: null as ModelLockServer | null };
+
+  const createContext = () =>
+    ({
+      hasUI: true,
+      ui: { notify: vi.fn() },
+    }) as unknown as ExtensionContext & {
+      ui: { notify: ReturnType<typeof vi.fn> };
+    };
+
+  afterEach(async () => {
+    await server.current?.close();
+    server.current = null;
+  });
+
+  it("starts, reports and stops a server", async () => {
+    const ctx = createContext();
+
+    await runLockServerCommand(ctx, "", server, {});
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      "[model-selector] No lock server is running in this instance. This instance coordinates model locks through the lock file.",
+      "info",
+    );
+
+    await runLockServerCommand(ctx, "start 127.0.0.1:0", server, {
+      token: "s3cret",
+      url: "http://10.0.0.5:7345",
+    });
+    const url = server.current?.url;
+    expect(url).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      `[model-selector] Lock server listening on ${url} (token required). Set lockServer.url in other instances' config to coordinate through it.`,
+      "info",
+    );
+
+    await runLockServerCommand(ctx, "start", server, {});
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      `[model-selector] A lock server is already listening on ${url} (token required).`,
+      "warning",
+    );
+    await runLockServerCommand(ctx, "status", server, {
+      url: "http://10.0.0.5:7345",
+    });
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      `[model-selector] Lock server listening on ${url} (token required). This instance coordinates model locks through http://10.0.0.5:7345.`,
+      "info",
+    );
+
+    await runLockServerCommand(ctx, "stop", server, {});
+    expect(server.current).toBeNull();
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      `[model-selector] Lock server on ${url} stopped. Its locks were dropped.`,
+      "info",
+    );
+    await runLockServerCommand(ctx, "stop", server, {});
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      "[model-selector] No lock server is running in this instance.",
+      "info",
+    );
+  });
+
+  it("warns about open servers on other interfaces", async () => {
+    const ctx = createContext();
+
+    await runLockServerCommand(ctx, "start", server, { listen: "0.0.0.0:0" });
+    expect(server.current?.requiresToken).toBe(false);
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      "[model-selector] The lock server accepts requests from anyone who can reach it. Set lockServer.token to require a token.",
+      "warning",
+    );
+  });
+
+  it("rejects bad arguments and unavailable ports", async () => {
+    const ctx = createContext();
+
+    await runLockServerCommand(ctx, "stop now", server, {});
+    await runLockServerCommand(ctx, "restart", server, {});
+    expect(ctx.ui.notify).toHaveBeenCalledTimes(2);
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      "[model-selector] Usage: /model-lock-server [start [host:]port | stop | status]",
+      "error",
+    );
+
+    await runLockServerCommand(ctx, "start nowhere:", server, {});
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      expect.stringContaining('Invalid listen address "nowhere:"'),
+      "error",
+    );
+
+    await runLockServerCommand(ctx, "start 127.0.0.1:0", server, {});
+    const other = { current: null as ModelLockServer | null };
+    await runLockServerCommand(
+      ctx,
+      `start 127.0.0.1:${server.current?.port}`,
+      other,
+      {},
+    );
+    expect(other.current).toBeNull();
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      expect.stringContaining("Failed to start lock server on 127.0.0.1:"),
+      "error",
+    );
+  });
+
+  it("completes subcommands", () => {
+    expect(getLockServerCompletions("st")?.map((item) => item.value)).toEqual([
+      "start",
+      "stop",
+      "status",
+    ]);
+    expect(getLockServerCompletions("x")).toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  formatLockList,
+  formatLockStatus,
+  runLocksCommand,
+} from "../src/locks-command.js";
+import {
+  createModelLockCoordinator,
+  type ModelLockCoordinator,
+} from "../src/model-locks.js";
+
+describe("/model-locks", () => {
+  const now = Date.UTC(2026, 0, 1);
+  let dir: string;
+  let statePath: string;
+  let coordinator: ModelLockCoordinator;
+
+  const createContext = (hasUI = true) =>
+    ({
+      hasUI,
+      ui: { notify: vi.fn(), select: vi.fn(), confirm: vi.fn() },
+    }) as unknown as ExtensionContext & {
+      ui: {
+        notify: ReturnType<typeof vi.fn>;
+        select: ReturnType<typeof vi.fn>;
+        confirm: ReturnType<typeof vi.fn>;
+      };
+    };
+
+  const holder = (instanceId: string, pid: number, ageMs: number) => ({
+    instanceId,
+    pid,
+    acquiredAt: now - 5 * 60_000,
+    heartbeatAt: now - ageMs,
+  });
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(now);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "locks-command-test-"));
+    statePath = path.join(dir, "locks.json");
+    await fs.promises.writeFile(
+      statePath,
+      JSON.stringify({
+        version: 2,
+        locks: {
+          "anthropic/opus": [holder("mine", 100, 2_000)],
+          "openai/gpt-5": [holder("crashed", 200, 3_000)],
+          "google/gemini": [holder("busy", 300, 1_000)],
+        },
+        waiters: {
+          "google/gemini": [
+            {
+              instanceId: "queued",
+              pid: 300,
+              enqueuedAt: now,
+              heartbeatAt: now,
+            },
+          ],
+        },
+      }),
+      "utf-8",
+    );
+    coordinator = createModelLockCoordinator({
+      statePath,
+      instanceId: "mine",
+      pid: 100,
+      isPidAlive: (pid) => pid !== 200,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("formats holders with ages, liveness and waiters", async () => {
+    const statuses = await coordinator.inspectLocks();
+
+    expect(formatLockList(statuses, now)).toBe(
+      [
+        "Model locks (3):",
+        "  anthropic/opus - this instance (pid 100), held 5 minutes, heartbeat 2s ago",
+        "  openai/gpt-5 - crashed (pid 200, exited), held 5 minutes, heartbeat 3s ago - stale",
+        "  google/gemini - busy (pid 300, running), held 5 minutes, heartbeat 1s ago, 1 waiting",
+      ].join("\n"),
+    );
+    expect(formatLockList([], now)).toBe("No model locks are held.");
+    const [own] = statuses;
+    if (!own) throw new Error("missing lock status");
+    expect(formatLockStatus(own, now + 2 * 3600_000)).toContain(
+      "held 2 hours 5 minutes",
+    );
+  });
+
+  it("only reports the list without a UI", async () => {
+    const ctx = createContext(false),
+      log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+    expect(await runLocksCommand(ctx, coordinator)).toBe(false);
+    expect(log).toHaveBeenCalledWith(
+      expect.stringContaining("Model locks (3):"),
+    );
+    expect(ctx.ui.select).not.toHaveBeenCalled();
+    log.mockRestore();
+  });
+
+  it("force-releases foreign locks only after confirmation", async () => {
+    const ctx = createContext(),
+      statuses = await coordinator.inspectLocks(),
+      options = statuses.map(
+        (status, index) => `${index + 1}. ${formatLockStatus(status, now)}`,
+      );
+    ctx.ui.select
+      .mockResolvedValueOnce(options[0])
+      .mockResolvedValueOnce(options[2])
+      .mockResolvedValueOnce(options[1])
+      .mockResolvedValueOnce("Done");
+    ctx.ui.confirm.mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+
+    expect(await runLocksCommand(ctx, coordinator)).toBe(true);
+
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      "[model-selector] anthropic/opus is held by this instance. It is released when this instance switches models or exits.",
+      "info",
+    );
+    expect(ctx.ui.confirm).toHaveBeenNthCalledWith(
+      1,
+      "Force-release google/gemini?",
+      "Held by busy (pid 300, running). Its owner is still running and may keep using the model.",
+    );
+    expect(ctx.ui.confirm).toHaveBeenNthCalledWith(
+      2,
+      "Force-release openai/gpt-5?",
+      "Held by crashed (pid 200, exited). Its owner has exited or stopped sending heartbeats.",
+    );
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      "[model-selector] Released openai/gpt-5 held by crashed.",
+      "info",
+    );
+    expect(
+      (await coordinator.inspectLocks()).map((status) => status.key),
+    ).toEqual(["anthropic/opus", "google/gemini"]);
+  });
+
+  it("reports holders that disappeared before the release", async () => {
+    const ctx = createContext(),
+      [, crashed] = await coordinator.inspectLocks();
+    if (!crashed) throw new Error("missing lock status");
+    ctx.ui.select
+      .mockResolvedValueOnce(`2. ${formatLockStatus(crashed, now)}`)
+      .mockResolvedValueOnce(undefined);
+    ctx.ui.confirm.mockImplementationOnce(async () => {
+      await coordinator.forceRelease("openai/gpt-5", "crashed");
+      return true;
+    });
+
+    expect(await runLocksCommand(ctx, coordinator)).toBe(false);
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      "[model-selector] openai/gpt-5 was already released by crashed.",
+      "info",
+    );
+  });
+});
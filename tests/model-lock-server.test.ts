@@ -0,0 +1,232 @@
+import * as os from "node:os";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  createModelLockBackend,
+  HttpModelLockBackend,
+  type ModelLockServer,
+  parseListenAddress,
+  parseModelLockRequest,
+  startModelLockServer,
+} from "../src/model-lock-server.js";
+import {
+  createModelLockCoordinator,
+  FileModelLockBackend,
+} from "../src/model-locks.js";
+
+describe("model lock server", () => {
+  let server: ModelLockServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  const connect = (
+    instanceId: string,
+    options: {
+      token?: string;
+      now?: () => number;
+      pid?: number;
+      host?: string;
+    } = {},
+  ) => {
+    if (!server) throw new Error("server not started");
+    return createModelLockCoordinator({
+      instanceId,
+      pid: options.pid ?? process.pid,
+      host: options.host ?? "client-box",
+      ...(options.now ? { now: options.now } : {}),
+      backend: new HttpModelLockBackend({
+        url: server.url,
+        ...(options.token !== undefined ? { token: options.token } : {}),
+      }),
+    });
+  };
+
+  it("shares slots and queues waiters on loopback", async () => {
+    server = await startModelLockServer({ port: 0 });
+    expect(server.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+    const first = connect("first"),
+      second = connect("second"),
+      third = connect("third");
+
+    expect((await first.acquire("openai/gpt-5", { slots: 2 })).acquired).toBe(
+      true,
+    );
+    expect((await second.acquire("openai/gpt-5", { slots: 2 })).acquired).toBe(
+      true,
+    );
+    const blocked = await third.acquire("openai/gpt-5", {
+      slots: 2,
+      queue: true,
+    });
+    expect(blocked).toMatchObject({ acquired: false, queuePosition: 1 });
+    expect(blocked.holders?.map((holder) => holder.instanceId)).toEqual([
+      "first",
+      "second",
+    ]);
+
+    expect(await first.refresh("openai/gpt-5")).toBe(true);
+    expect(await third.refresh("openai/gpt-5")).toBe(false);
+    expect(await first.release("openai/gpt-5")).toBe(true);
+    expect((await third.acquire("openai/gpt-5", { slots: 2 })).acquired).toBe(
+      true,
+    );
+    expect(
+      (await third.listLocks())["openai/gpt-5"]?.map(
+        (holder) => holder.instanceId,
+      ),
+    ).toEqual(["second", "third"]);
+
+    expect(await second.forceRelease("openai/gpt-5", "third")).toBe(true);
+    expect(await second.releaseAll()).toBe(1);
+    expect(await second.inspectLocks()).toEqual([]);
+  });
+
+  it("reclaims remote holders once their lease runs out", async () => {
+    let now = Date.UTC(2026, 0, 1);
+    server = await startModelLockServer({
+      port: 0,
+      now: () => now,
+      liveness: { leaseMs: 1_000 },
+    });
+    const owner = connect("owner", { now: () => now }),
+      contender = connect("contender", { now: () => now });
+
+    expect((await owner.acquire("anthropic/opus")).acquired).toBe(true);
+    now += 900;
+    expect((await contender.acquire("anthropic/opus")).acquired).toBe(false);
+    now += 200;
+    expect((await contender.acquire("anthropic/opus")).acquired).toBe(true);
+  });
+
+  it("never probes holders by pid, even when they report the server's host", async () => {
+    let now = Date.UTC(2026, 0, 1);
+    server = await startModelLockServer({
+      port: 0,
+      now: () => now,
+      liveness: { leaseMs: 1_000 },
+    });
+    // A dev container can share the host name while its pids mean nothing
+    // here, so a pid that is not running on this machine must not matter
+    const owner = connect("owner", {
+        now: () => now,
+        pid: 2 ** 22 + 1,
+        host: os.hostname(),
+      }),
+      contender = connect("contender", { now: () => now, host: os.hostname() });
+
+    expect((await owner.acquire("anthropic/opus")).acquired).toBe(true);
+    expect((await contender.acquire("anthropic/opus")).acquired).toBe(false);
+    expect(Object.keys(await contender.listLocks())).toEqual([
+      "anthropic/opus",
+    ]);
+    const [status] = await contender.inspectLocks();
+    expect(status).toMatchObject({ stale: false });
+    expect(status?.pidAlive).toBeUndefined();
+
+    now += 1_100;
+    expect((await contender.acquire("anthropic/opus")).acquired).toBe(true);
+  });
+
+  it("rejects requests without the token or with an invalid body", async () => {
+    server = await startModelLockServer({ port: 0, token: "s3cret" });
+    expect(server.requiresToken).toBe(true);
+
+    await expect(connect("anonymous").acquire("a/b")).rejects.toThrow(
+      "rejected acquire: invalid or missing token",
+    );
+    await expect(
+      connect("wrong", { token: "guess" }).acquire("a/b"),
+    ).rejects.toThrow("invalid or missing token");
+    expect(
+      (await connect("member", { token: "s3cret" }).acquire("a/b")).acquired,
+    ).toBe(true);
+
+    const post = (path: string, body: string) =>
+      fetch(`${server?.url}${path}`, {
+        method: "POST",
+        headers: { authorization: "Bearer s3cret" },
+        body,
+      });
+    const invalid = await post("/locks", '{"op":"acquire","key":"a/b"}');
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toEqual({
+      error: "holder must be an object",
+    });
+    expect((await post("/locks", "{not-json")).status).toBe(400);
+    expect((await post("/locks", "x".repeat(20_000))).status).toBe(413);
+    expect((await post("/other", "{}")).status).toBe(404);
+    expect((await fetch(`${server.url}/locks`)).status).toBe(405);
+  });
+
+  it("validates lock requests", () => {
+    expect(
+      parseModelLockRequest({ op: "leaveQueue", instanceId: "a", key: "k" }),
+    ).toEqual({ op: "leaveQueue", instanceId: "a", key: "k" });
+    expect(parseModelLockRequest({ op: "snapshot", extra: 1 })).toEqual({
+      op: "snapshot",
+    });
+    expect(() => parseModelLockRequest([])).toThrow("JSON object");
+    expect(() => parseModelLockRequest({ op: "steal" })).toThrow(
+      'unknown op "steal"',
+    );
+    expect(() =>
+      parseModelLockRequest({ op: "release", key: "k", instanceId: "" }),
+    ).toThrow("instanceId must be a non-empty string");
+    const acquire = {
+      op: "acquire",
+      key: "k",
+      holder: { instanceId: "a", pid: 1, host: "h" },
+      slots: 1,
+      queue: false,
+    };
+    expect(parseModelLockRequest(acquire)).toEqual(acquire);
+    expect(() => parseModelLockRequest({ ...acquire, slots: 0 })).toThrow(
+      "slots must be a positive integer",
+    );
+    expect(() =>
+      parseModelLockRequest({ ...acquire, holder: { instanceId: "a" } }),
+    ).toThrow("holder.pid must be an integer");
+    expect(() => parseModelLockRequest({ ...acquire, queue: "yes" })).toThrow(
+      "queue must be a boolean",
+    );
+  });
+
+  it("parses listen addresses", () => {
+    expect(parseListenAddress("7345")).toEqual({
+      host: "127.0.0.1",
+      port: 7345,
+    });
+    expect(parseListenAddress("0.0.0.0:80")).toEqual({
+      host: "0.0.0.0",
+      port: 80,
+    });
+    expect(parseListenAddress("[::1]:7345")).toEqual({
+      host: "::1",
+      port: 7345,
+    });
+    expect(parseListenAddress("host:99999")).toBeUndefined();
+    expect(parseListenAddress("host:")).toBeUndefined();
+  });
+
+  it("reports an unreachable server and picks backends from config", async () => {
+    server = await startModelLockServer({ port: 0 });
+    const { url } = server;
+    await server.close();
+    server = undefined;
+
+    await expect(
+      new HttpModelLockBackend({ url, timeoutMs: 500 }).execute({
+        op: "snapshot",
+      }),
+    ).rejects.toThrow();
+    expect(createModelLockBackend({ url })).toBeInstanceOf(
+      HttpModelLockBackend,
+    );
+    expect(createModelLockBackend({ token: "t" })).toBeInstanceOf(
+      FileModelLockBackend,
+    );
+    expect(createModelLockBackend()).toBeInstanceOf(FileModelLockBackend);
+  });
+});
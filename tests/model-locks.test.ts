@@ -5,6 +5,7 @@ import { afterEach, describe, expect, it, vi } from "vitest";
 import {
   createModelLockCoordinator,
   modelLockKey,
+  resolveModelLockSlots,
 } from "../src/model-locks.js";
 
 function createTempStatePath(): { dir: string; statePath: string } {
@@ -141,6 +142,224 @@ describe("model locks", () => {
     expect(await other.release("anthropic/opus")).toBe(false);
   });
 
+  it("lists live lock holders without taking ownership", async () => {
+    const { statePath } = createTempStatePath();
+    const owner = createTestCoordinator({
+      statePath,
+      instanceId: "owner",
+      pid: 4101,
+    });
+    const observer = createTestCoordinator({
+      statePath,
+      instanceId: "observer",
+      pid: 4102,
+    });
+
+    expect(await observer.listLocks()).toEqual({});
+
+    await owner.acquire("anthropic/sonnet", { timeoutMs: 0 });
+    const locks = await observer.listLocks();
+
+    expect(Object.keys(locks)).toEqual(["anthropic/sonnet"]);
+    expect(locks["anthropic/sonnet"]?.[0]?.instanceId).toBe("owner");
+    expect(locks["anthropic/sonnet"]?.[0]?.pid).toBe(4101);
+  });
+
+  it("shares a lock between as many holders as it has slots", async () => {
+    const { statePath } = createTempStatePath();
+    const [first, second, third] = ["first", "second", "third"].map(
+      (instanceId, index) =>
+        createTestCoordinator({ statePath, instanceId, pid: 4201 + index }),
+    );
+    if (!first || !second || !third) throw new Error("missing coordinator");
+
+    const options = { timeoutMs: 0, slots: 2 };
+    expect((await first.acquire("openai/gpt-5", options)).acquired).toBe(true);
+    expect((await first.acquire("openai/gpt-5", options)).acquired).toBe(true);
+    expect((await second.acquire("openai/gpt-5", options)).acquired).toBe(true);
+
+    const blocked = await third.acquire("openai/gpt-5", options);
+    expect(blocked.acquired).toBe(false);
+    expect(blocked.heldBy?.instanceId).toBe("first");
+    expect(blocked.holders?.map((holder) => holder.instanceId)).toEqual([
+      "first",
+      "second",
+    ]);
+
+    expect(await first.release("openai/gpt-5")).toBe(true);
+    expect(
+      (await third.listLocks())["openai/gpt-5"]?.map((h) => h.instanceId),
+    ).toEqual(["second"]);
+    expect((await third.acquire("openai/gpt-5", options)).acquired).toBe(true);
+    expect(await second.refresh("openai/gpt-5")).toBe(true);
+    expect(await first.refresh("openai/gpt-5")).toBe(false);
+  });
+
+  it("serves queued waiters in arrival order", async () => {
+    const { statePath } = createTempStatePath();
+    const [owner, early, late] = ["owner", "early", "late"].map(
+      (instanceId, index) =>
+        createTestCoordinator({ statePath, instanceId, pid: 4401 + index }),
+    );
+    if (!owner || !early || !late) throw new Error("missing coordinator");
+
+    const queued = { timeoutMs: 0, queue: true };
+    await owner.acquire("openai/gpt-5", { timeoutMs: 0 });
+    expect(await early.acquire("openai/gpt-5", queued)).toMatchObject({
+      acquired: false,
+      queuePosition: 1,
+    });
+    expect(await late.acquire("openai/gpt-5", queued)).toMatchObject({
+      acquired: false,
+      queuePosition: 2,
+    });
+
+    await owner.release("openai/gpt-5");
+    // The free slot is reserved for the head of the queue
+    expect((await late.acquire("openai/gpt-5", queued)).acquired).toBe(false);
+    expect(
+      (await owner.acquire("openai/gpt-5", { timeoutMs: 0 })).acquired,
+    ).toBe(false);
+    expect((await early.acquire("openai/gpt-5", queued)).acquired).toBe(true);
+
+    await early.release("openai/gpt-5");
+    expect((await late.acquire("openai/gpt-5", queued)).acquired).toBe(true);
+    const saved = JSON.parse(await fs.promises.readFile(statePath, "utf-8"));
+    expect(saved.waiters).toEqual({});
+  });
+
+  it("evicts waiters whose process exited or stopped retrying", async () => {
+    const { statePath } = createTempStatePath();
+    let now = 1_000_000;
+    const alive = new Set([4501, 4502, 4503, 4504]);
+    const create = (instanceId: string, pid: number) =>
+      createModelLockCoordinator({
+        statePath,
+        instanceId,
+        pid,
+        leaseMs: 10_000,
+        now: () => now,
+        isPidAlive: (candidate) => alive.has(candidate),
+      });
+    const owner = create("owner", 4501),
+      crashed = create("crashed", 4502),
+      idle = create("idle", 4503),
+      patient = create("patient", 4504),
+      queued = { timeoutMs: 0, queue: true };
+
+    await owner.acquire("anthropic/opus", { timeoutMs: 0 });
+    await crashed.acquire("anthropic/opus", queued);
+    await idle.acquire("anthropic/opus", queued);
+    expect(
+      (await patient.acquire("anthropic/opus", queued)).queuePosition,
+    ).toBe(3);
+
+    alive.delete(4502);
+    now += 5_000;
+    expect(
+      (await patient.acquire("anthropic/opus", queued)).queuePosition,
+    ).toBe(2);
+
+    now += 6_000;
+    expect(
+      (await patient.acquire("anthropic/opus", queued)).queuePosition,
+    ).toBe(1);
+  });
+
+  it("leaves the queue when a timed wait gives up or on request", async () => {
+    const { statePath } = createTempStatePath();
+    const owner = createTestCoordinator({
+      statePath,
+      instanceId: "owner",
+      pid: 4601,
+    });
+    const waiter = createTestCoordinator({
+      statePath,
+      instanceId: "waiter",
+      pid: 4602,
+    });
+
+    await owner.acquire("google/gemini", { timeoutMs: 0 });
+    const timedOut = await waiter.acquire("google/gemini", {
+      timeoutMs: 30,
+      pollMs: 10,
+    });
+    expect(timedOut.acquired).toBe(false);
+    expect(timedOut.queuePosition).toBeUndefined();
+    expect(
+      JSON.parse(await fs.promises.readFile(statePath, "utf-8")).waiters,
+    ).toEqual({});
+
+    await waiter.acquire("google/gemini", { timeoutMs: 0, queue: true });
+    expect(await waiter.leaveQueue("google/gemini")).toBe(1);
+    expect(await waiter.leaveQueue()).toBe(0);
+  });
+
+  it("reads single-holder locks from version 1 state files", async () => {
+    const { statePath } = createTempStatePath();
+    const now = Date.now();
+    await fs.promises.writeFile(
+      statePath,
+      JSON.stringify({
+        version: 1,
+        locks: {
+          "anthropic/opus": {
+            instanceId: "legacy",
+            pid: 4301,
+            acquiredAt: now,
+            heartbeatAt: now,
+          },
+          "anthropic/broken": { instanceId: 42 },
+        },
+      }),
+      "utf-8",
+    );
+    const coordinator = createTestCoordinator({
+      statePath,
+      instanceId: "current",
+      pid: 4302,
+    });
+
+    expect(
+      (await coordinator.acquire("anthropic/opus", { timeoutMs: 0, slots: 2 }))
+        .acquired,
+    ).toBe(true);
+    const saved = JSON.parse(await fs.promises.readFile(statePath, "utf-8"));
+    expect(saved.version).toBe(2);
+    expect(
+      saved.locks["anthropic/opus"].map(
+        (holder: { instanceId: string }) => holder.instanceId,
+      ),
+    ).toEqual(["legacy", "current"]);
+    expect(saved.locks["anthropic/broken"]).toBeUndefined();
+  });
+
+  it("resolves lock slots from mappings and lockConcurrency", () => {
+    const mapping = {
+        usage: { provider: "copilot", window: "Chat" },
+        model: { provider: "github-copilot", id: "gpt-4o", concurrency: 4 },
+      },
+      config = {
+        mappings: [mapping],
+        lockConcurrency: {
+          "anthropic/opus": 3,
+          anthropic: 2,
+          copilot: 5,
+        },
+      };
+
+    expect(resolveModelLockSlots(config, "github-copilot", "gpt-4o")).toBe(4);
+    expect(
+      resolveModelLockSlots(config, "github-copilot", "gpt-4o-mini", {
+        usage: { provider: "copilot" },
+        model: { provider: "github-copilot", id: "gpt-4o-mini" },
+      }),
+    ).toBe(5);
+    expect(resolveModelLockSlots(config, "anthropic", "opus")).toBe(3);
+    expect(resolveModelLockSlots(config, "anthropic", "sonnet")).toBe(2);
+    expect(resolveModelLockSlots({ mappings: [] }, "google", "flash")).toBe(1);
+  });
+
   it("reclaims stale locks when owner pid is dead", async () => {
     const { statePath } = createTempStatePath();
     const now = Date.now();
@@ -257,6 +476,38 @@ describe("model locks", () => {
     ).toBe(true);
   });
 
+  it("keeps holders on other hosts until their lease runs out", async () => {
+    const { statePath } = createTempStatePath();
+    let now = Date.UTC(2026, 0, 1);
+    const remote = createModelLockCoordinator({
+        statePath,
+        instanceId: "remote",
+        pid: 4242,
+        host: "build-box",
+        now: () => now,
+      }),
+      local = createModelLockCoordinator({
+        statePath,
+        instanceId: "local",
+        pid: 4243,
+        host: "laptop",
+        leaseMs: 1_000,
+        // The remote pid does not exist here and must not be probed
+        isPidAlive: (pid) => pid === 4243,
+        now: () => now,
+      });
+
+    expect((await remote.acquire("openai/gpt-5")).acquired).toBe(true);
+    expect((await local.acquire("openai/gpt-5")).acquired).toBe(false);
+    const [status] = await local.inspectLocks();
+    expect(status?.holder.host).toBe("build-box");
+    expect(status?.pidAlive).toBeUndefined();
+    expect(status?.stale).toBe(false);
+
+    now += 1_001;
+    expect((await local.acquire("openai/gpt-5")).acquired).toBe(true);
+  });
+
   it("cleans up stale state lock files", async () => {
     const { statePath } = createTempStatePath();
     const staleLockPath = `${statePath}.lock`;
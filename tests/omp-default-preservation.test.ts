@@ -15,7 +15,8 @@ interface FakeOmpSettings {
   flush: Mock<() => Promise<void>>;
 }
 
-describe("OMP default model preservation", () => {
+// Every test imports the selector afresh, which takes a while on a cold start
+describe("OMP default model preservation", { timeout: 5_000 }, () => {
   beforeEach(() => {
     vi.resetModules();
     vi.clearAllMocks();
@@ -302,6 +303,7 @@ function createModelLockCoordinator() {
     refresh: vi.fn().mockResolvedValue(true),
     release: vi.fn().mockResolvedValue(true),
     releaseAll: vi.fn().mockResolvedValue(0),
+    leaveQueue: vi.fn().mockResolvedValue(0),
   };
 }
 
@@ -357,4 +357,56 @@ describe("fetchAllUsages — OMP kiro fallback", () => {
     const kiroSnapshots = result.filter((s) => s.provider === "kiro");
     expect(kiroSnapshots).toHaveLength(1);
   });
+
+  it("runs registered fetchers OMP does not cover and keeps every snapshot", async () => {
+    vi.doMock("../src/adapter.js", () => ({
+      isOmp: true,
+      EXTENSION_DIR: ".omp",
+    }));
+
+    const fetchUsageReports = vi
+      .fn()
+      .mockResolvedValue([makeOmpReport("anthropic", 0.5)]);
+
+    const { registerUsageFetcher } = await import("../src/fetcher-registry.js");
+    const { fetchAllUsages } = await import("../src/usage-fetchers.js");
+    registerUsageFetcher({
+      provider: "vendor",
+      displayName: "Vendor",
+      fetch: async () => [
+        {
+          provider: "vendor",
+          displayName: "Vendor",
+          account: "a",
+          windows: [],
+        },
+        {
+          provider: "vendor",
+          displayName: "Vendor",
+          account: "b",
+          windows: [],
+        },
+      ],
+    });
+    registerUsageFetcher({
+      provider: "empty",
+      displayName: "Empty",
+      fetch: async () => [],
+    });
+
+    const result = await fetchAllUsages(
+      { authStorage: { fetchUsageReports } },
+      ["kiro"],
+    );
+
+    expect(
+      result
+        .filter((s) => s.provider !== "anthropic")
+        .map((s) => [s.provider, s.account, s.error]),
+    ).toEqual([
+      ["vendor", "a", undefined],
+      ["vendor", "b", undefined],
+      ["empty", undefined, "Empty result"],
+    ]);
+  });
 });
@@ -0,0 +1,161 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  getProfileCompletions,
+  runProfileCommand,
+} from "../src/profile-command.js";
+import { loadActiveProfile, saveActiveProfile } from "../src/profiles.js";
+import type { LoadedConfig } from "../src/types.js";
+import {
+  createContext,
+  removeTempHome,
+  resetTempHome,
+  tempHome,
+} from "./helpers/temp-home.js";
+
+vi.mock("node:os", async () =>
+  (await import("./helpers/temp-home.js")).mockHomedir(),
+);
+
+describe("/model-profile", () => {
+  const statePath = path.join(
+    tempHome.home,
+    ".pi",
+    "model-selector-profiles.json",
+  );
+
+  const createConfig = (overrides: Partial<LoadedConfig> = {}) =>
+    ({
+      mappings: [],
+      priority: ["remainingPercent"],
+      widget: { enabled: true, placement: "belowEditor", showCount: 3 },
+      autoRun: false,
+      enableModelLocking: true,
+      disabledProviders: [],
+      profiles: ["cheap", "deep-work"],
+      sources: { globalPath: "/home/.pi/g.json", projectPath: "/p.json" },
+      raw: { global: {}, project: {} },
+      ...overrides,
+    }) as LoadedConfig;
+
+  beforeEach(resetTempHome);
+  afterAll(removeTempHome);
+
+  it("switches profiles per project and back to the base config", async () => {
+    const ctx = createContext();
+
+    expect(await runProfileCommand(ctx, "cheap", createConfig())).toBe(true);
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      '[model-selector] Switched to profile "cheap".',
+      "info",
+    );
+    await saveActiveProfile("/work/other", "deep-work");
+    expect(await loadActiveProfile(`${tempHome.project}/`)).toBe("cheap");
+    expect(await loadActiveProfile("/work/other")).toBe("deep-work");
+
+    expect(
+      await runProfileCommand(ctx, "cheap", createConfig({ profile: "cheap" })),
+    ).toBe(false);
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      '[model-selector] Profile "cheap" is already active.',
+      "info",
+    );
+
+    expect(
+      await runProfileCommand(
+        ctx,
+        " none ",
+        createConfig({ profile: "cheap" }),
+      ),
+    ).toBe(true);
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      "[model-selector] Switched to the base config.",
+      "info",
+    );
+    expect(JSON.parse(fs.readFileSync(statePath, "utf-8"))).toEqual({
+      projects: { "/work/other": "deep-work" },
+    });
+  });
+
+  it("picks a profile from a list, or lists them without a UI", async () => {
+    const ctx = createContext();
+    ctx.ui.select.mockImplementationOnce(
+      async (_title: string, options: string[]) => {
+        expect(options).toEqual([
+          "cheap (active)",
+          "deep-work",
+          "Base config (no profile)",
+        ]);
+        return "deep-work";
+      },
+    );
+
+    expect(
+      await runProfileCommand(ctx, "", createConfig({ profile: "cheap" })),
+    ).toBe(true);
+    expect(await loadActiveProfile(tempHome.project)).toBe("deep-work");
+
+    ctx.ui.select.mockResolvedValueOnce(undefined);
+    expect(await runProfileCommand(ctx, "", createConfig())).toBe(false);
+
+    const headless = createContext({ hasUI: false }),
+      log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+    expect(await runProfileCommand(headless, "", createConfig())).toBe(false);
+    expect(log).toHaveBeenCalledWith(
+      "[model-selector] No profile is active. Profiles: cheap, deep-work. Use /model-profile <name> to switch, or /model-profile none for the base config.",
+    );
+    log.mockRestore();
+  });
+
+  it("rejects unknown profiles and extra arguments", async () => {
+    const ctx = createContext();
+
+    expect(await runProfileCommand(ctx, "fast", createConfig())).toBe(false);
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      '[model-selector] Unknown profile "fast". Defined profiles: cheap, deep-work.',
+      "error",
+    );
+    expect(await runProfileCommand(ctx, "cheap now", createConfig())).toBe(
+      false,
+    );
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      "[model-selector] Usage: /model-profile [name | none]",
+      "error",
+    );
+    expect(
+      await runProfileCommand(ctx, "cheap", createConfig({ profiles: [] })),
+    ).toBe(false);
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      '[model-selector] No profiles are defined. Add a "profiles" object to /home/.pi/g.json or /p.json.',
+      "info",
+    );
+    expect(fs.existsSync(statePath)).toBe(false);
+  });
+
+  it("leaves the profile to PI_MODEL_SELECTOR_PROFILE when it is set", async () => {
+    vi.stubEnv("PI_MODEL_SELECTOR_PROFILE", "cheap");
+    const ctx = createContext();
+
+    expect(await runProfileCommand(ctx, "deep-work", createConfig())).toBe(
+      false,
+    );
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      "[model-selector] PI_MODEL_SELECTOR_PROFILE selects the profile for this session. Unset it to switch profiles.",
+      "error",
+    );
+    expect(ctx.ui.select).not.toHaveBeenCalled();
+    expect(fs.existsSync(statePath)).toBe(false);
+    vi.unstubAllEnvs();
+  });
+
+  it("completes profile names", () => {
+    expect(
+      getProfileCompletions("c", ["cheap", "ci", "deep-work"])?.map(
+        (item) => item.value,
+      ),
+    ).toEqual(["cheap", "ci"]);
+    expect(getProfileCompletions("n", [])?.[0]?.value).toBe("none");
+    expect(getProfileCompletions("x", ["cheap"])).toBeNull();
+  });
+});
@@ -0,0 +1,181 @@
+import * as path from "node:path";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { loadConfig } from "../src/config.js";
+import { validateAgainstSchema } from "../src/config-schema.js";
+import {
+  formatSchedule,
+  getScheduleStart,
+  isScheduleActive,
+  parseScheduleHours,
+} from "../src/schedule.js";
+import type { MappingSchedule } from "../src/types.js";
+import {
+  createContext,
+  removeTempHome,
+  resetTempHome,
+  tempHome,
+  writeConfig,
+} from "./helpers/temp-home.js";
+
+vi.mock("node:os", async () =>
+  (await import("./helpers/temp-home.js")).mockHomedir(),
+);
+
+// 2026-10-19 is a Monday
+const at = (time: string) => new Date(time).getTime();
+
+describe("Mapping schedules", () => {
+  const workingHours: MappingSchedule = {
+      hours: "09:00-18:00",
+      weekdays: ["mon", "tue", "wed", "thu", "fri"],
+      timezone: "Europe/Berlin",
+    },
+    overnight: MappingSchedule = {
+      hours: "22:00-06:00",
+      weekdays: ["fri"],
+      timezone: "UTC",
+    };
+
+  it("parses hours and rejects malformed ranges", () => {
+    expect(parseScheduleHours("09:00-18:00")).toEqual({
+      start: 540,
+      end: 1080,
+    });
+    expect(parseScheduleHours(" 22:30 - 06:00 ")).toEqual({
+      start: 1350,
+      end: 360,
+    });
+    expect(parseScheduleHours("00:00-24:00")).toEqual({ start: 0, end: 1440 });
+    expect(parseScheduleHours("9:00-18:00")).toBeNull();
+    expect(parseScheduleHours("09:00-24:30")).toBeNull();
+    expect(parseScheduleHours("24:00-06:00")).toBeNull();
+    expect(parseScheduleHours("10:00-10:00")).toBeNull();
+  });
+
+  it("reads the hours in the schedule's timezone", () => {
+    // 08:30 UTC is 10:30 in Berlin (CEST)
+    expect(isScheduleActive(workingHours, at("2026-10-19T08:30:00Z"))).toBe(
+      true,
+    );
+    expect(isScheduleActive(workingHours, at("2026-10-19T16:00:00Z"))).toBe(
+      false,
+    );
+    expect(getScheduleStart(workingHours, at("2026-10-19T08:30:00Z"))).toBe(
+      undefined,
+    );
+    expect(getScheduleStart(workingHours, at("2026-10-19T16:00:00Z"))).toBe(
+      at("2026-10-20T07:00:00Z"),
+    );
+    // Friday evening waits for Monday morning, after the switch to CET
+    expect(getScheduleStart(workingHours, at("2026-10-30T17:00:00Z"))).toBe(
+      at("2026-11-02T08:00:00Z"),
+    );
+  });
+
+  it("keeps hours past midnight on the day they started", () => {
+    expect(isScheduleActive(overnight, at("2026-10-23T23:00:00Z"))).toBe(true);
+    expect(isScheduleActive(overnight, at("2026-10-24T05:59:00Z"))).toBe(true);
+    expect(isScheduleActive(overnight, at("2026-10-24T06:00:00Z"))).toBe(false);
+    // Monday 02:00 belongs to Sunday night, which is not scheduled
+    expect(isScheduleActive(overnight, at("2026-10-19T02:00:00Z"))).toBe(false);
+    expect(getScheduleStart(overnight, at("2026-10-24T23:00:00Z"))).toBe(
+      at("2026-10-30T22:00:00Z"),
+    );
+    expect(
+      getScheduleStart({ weekdays: ["sun"] }, at("2026-10-19T12:00:00Z")),
+    ).toBeGreaterThan(at("2026-10-24T12:00:00Z"));
+  });
+
+  it("formats schedules for status output", () => {
+    expect(formatSchedule(workingHours)).toBe(
+      "09:00-18:00 mon,tue,wed,thu,fri (Europe/Berlin)",
+    );
+    expect(formatSchedule({ weekdays: ["sat", "sun"] })).toBe(
+      "all day sat,sun",
+    );
+  });
+
+  describe("config", () => {
+    const projectPath = path.join(
+        tempHome.project,
+        ".pi",
+        "model-selector.json",
+      ),
+      model = { provider: "anthropic", id: "claude-opus-4-1" },
+      usage = { provider: "anthropic", window: "Opus" };
+
+    const load = async (schedule: unknown, withModel = true) => {
+      writeConfig(projectPath, {
+        version: 2,
+        mappings: [
+          withModel ? { usage, model, schedule } : { usage, schedule },
+        ],
+      });
+      const errors: string[] = [],
+        config = await loadConfig(createContext(), {
+          seedGlobal: false,
+          errors,
+        });
+      return { config, errors };
+    };
+
+    beforeEach(resetTempHome);
+    afterAll(removeTempHome);
+
+    it("keeps valid schedules on model mappings", async () => {
+      const { config, errors } = await load(workingHours);
+      expect(errors).toEqual([]);
+      expect(
+        config?.mappings.find((mapping) => mapping.usage.window === "Opus")
+          ?.schedule,
+      ).toEqual(workingHours);
+    });
+
+    it("rejects invalid schedules", async () => {
+      const cases: Array<[unknown, string]> = [
+        ["weekdays", "mappings[0].schedule must be an object"],
+        [
+          { hours: "9-17" },
+          'mappings[0].schedule.hours must be "HH:MM-HH:MM" with different start and end times (got "9-17")',
+        ],
+        [
+          { weekdays: ["monday"] },
+          'mappings[0].schedule.weekdays must be a non-empty list of mon, tue, wed, thu, fri, sat, sun (got ["monday"])',
+        ],
+        [
+          { timezone: "Mars/Olympus" },
+          'mappings[0].schedule.timezone must be an IANA timezone such as "Europe/Berlin" (got "Mars/Olympus")',
+        ],
+      ];
+      for (const [schedule, message] of cases) {
+        const { config, errors } = await load(schedule);
+        expect(config).toBeNull();
+        expect(errors).toEqual([`[${projectPath}] ${message}`]);
+      }
+
+      const { errors } = await load({ hours: "09:00-18:00" }, false);
+      expect(errors).toEqual([
+        `[${projectPath}] mappings[0].schedule is only valid on mappings with a model target`,
+      ]);
+    });
+
+    it("describes schedules in the config schema", () => {
+      expect(
+        validateAgainstSchema({
+          mappings: [
+            { usage, model, schedule: { hours: "9-17", weekdays: [] } },
+          ],
+        }),
+      ).toEqual([
+        {
+          pointer: "/mappings/0/schedule/hours",
+          message: 'must be "HH:MM-HH:MM", e.g. "09:00-18:00"',
+        },
+        {
+          pointer: "/mappings/0/schedule/weekdays",
+          message: "must have at least 1 item(s)",
+        },
+      ]);
+    });
+  });
+});
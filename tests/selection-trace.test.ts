@@ -0,0 +1,286 @@
+import type {
+  ExtensionAPI,
+  ExtensionContext,
+} from "@mariozechner/pi-coding-agent";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { CooldownManager } from "../src/cooldown.js";
+import {
+  beginSelectionTrace,
+  formatSelectionTrace,
+  getLastSelectionTrace,
+  resetSelectionTrace,
+  traceOutcome,
+} from "../src/selection-trace.js";
+import { runSelector } from "../src/selector.js";
+import type {
+  LoadedConfig,
+  UsageCandidate,
+  UsageSnapshot,
+} from "../src/types.js";
+import * as usageFetchers from "../src/usage-fetchers.js";
+
+vi.mock("../src/config.js");
+vi.mock("../src/usage-fetchers.js");
+vi.mock("../src/widget.js", () => ({
+  updateWidgetState: vi.fn(),
+  renderUsageWidget: vi.fn(),
+  clearWidget: vi.fn(),
+  getWidgetState: vi.fn(),
+}));
+
+describe("Selection trace", () => {
+  const config: LoadedConfig = {
+    mappings: [
+      {
+        usage: { provider: "p1", window: "w1" },
+        model: { provider: "p1", id: "m1" },
+      },
+      {
+        usage: { provider: "p2", window: "w2" },
+        model: { provider: "p2", id: "m2" },
+      },
+      {
+        usage: { provider: "p3", window: "w3" },
+        model: { provider: "p3", id: "m3" },
+        reserve: 50,
+      },
+      {
+        usage: { provider: "p4", window: "w4" },
+        model: { provider: "p4", id: "m4" },
+      },
+      { usage: { provider: "p5", window: "w5" }, ignore: true },
+    ],
+    priority: ["remainingPercent"],
+    widget: { enabled: true, placement: "belowEditor", showCount: 3 },
+    autoRun: false,
+    enableModelLocking: true,
+    disabledProviders: [],
+    sources: { globalPath: "global.json", projectPath: "project.json" },
+    raw: { global: {}, project: {} },
+  };
+
+  const usages: UsageSnapshot[] = [
+    {
+      provider: "p1",
+      displayName: "Provider 1",
+      windows: [{ label: "w1", usedPercent: 10 }],
+    },
+    {
+      provider: "p2",
+      displayName: "Provider 2",
+      account: "work",
+      windows: [{ label: "w2", usedPercent: 40 }],
+    },
+    {
+      provider: "p3",
+      displayName: "Provider 3",
+      windows: [{ label: "w3", usedPercent: 70 }],
+    },
+    {
+      provider: "p4",
+      displayName: "Provider 4",
+      windows: [{ label: "w4", usedPercent: 5 }],
+    },
+    {
+      provider: "p5",
+      displayName: "Provider 5",
+      windows: [{ label: "w5", usedPercent: 0 }],
+    },
+    {
+      provider: "p6",
+      displayName: "Provider 6",
+      windows: [],
+      error: "Timeout",
+    },
+  ];
+
+  const createCooldownManager = (): CooldownManager =>
+    ({
+      loadPersistedCooldowns: vi.fn().mockResolvedValue(undefined),
+      pruneExpiredCooldowns: vi.fn(),
+      setOrExtendProviderCooldown: vi.fn().mockReturnValue(false),
+      getWildcardExpiry: vi.fn().mockReturnValue(undefined),
+      getCooldownExpiry: vi.fn().mockReturnValue(Date.now() + 30 * 60 * 1000),
+      isOnCooldown: vi.fn(
+        (candidate: UsageCandidate) => candidate.provider === "p4",
+      ),
+      clear: vi.fn(),
+      setLastSelectedKey: vi.fn(),
+      persistCooldowns: vi.fn().mockResolvedValue(undefined),
+    }) as unknown as CooldownManager;
+
+  const createContext = (): ExtensionContext =>
+    ({
+      modelRegistry: {
+        find: vi.fn((provider: string, id: string) => ({ provider, id })),
+      },
+      model: { provider: "other", id: "other-model" },
+      ui: { notify: vi.fn(), setStatus: vi.fn() },
+      hasUI: true,
+      cwd: "/mock/cwd",
+    }) as unknown as ExtensionContext;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(usageFetchers.formatReset).mockReturnValue("30m");
+    resetSelectionTrace();
+  });
+
+  it("records drops, ranking, lock contention and the outcome of a run", async () => {
+    const modelLockCoordinator = {
+      acquire: vi.fn(async (key: string) =>
+        key === "p1/m1"
+          ? {
+              acquired: false,
+              heldBy: {
+                instanceId: "other",
+                pid: 99,
+                acquiredAt: Date.now(),
+                heartbeatAt: Date.now(),
+              },
+            }
+          : { acquired: true },
+      ),
+      refresh: vi.fn().mockResolvedValue(true),
+      release: vi.fn().mockResolvedValue(true),
+      releaseAll: vi.fn().mockResolvedValue(0),
+      leaveQueue: vi.fn().mockResolvedValue(0),
+    };
+    const lockHeartbeatTimer = { current: null as NodeJS.Timeout | null };
+
+    const result = await runSelector(
+      createContext(),
+      createCooldownManager(),
+      modelLockCoordinator,
+      lockHeartbeatTimer,
+      { current: null },
+      false,
+      "command",
+      {
+        preloadedConfig: config,
+        preloadedUsages: usages,
+        acquireModelLock: true,
+      },
+      { setModel: vi.fn().mockResolvedValue(true) } as unknown as ExtensionAPI,
+    );
+    if (lockHeartbeatTimer.current) clearInterval(lockHeartbeatTimer.current);
+
+    expect(result).toBe(true);
+    const trace = getLastSelectionTrace();
+    expect(trace?.reason).toBe("command");
+    expect(trace?.usages).toHaveLength(6);
+    expect(trace?.usages[5]).toEqual({
+      provider: "p6",
+      displayName: "Provider 6",
+      windowCount: 0,
+      error: "Timeout",
+    });
+    expect(trace?.drops.map((drop) => [drop.candidate, drop.reason])).toEqual([
+      ["Provider 5/w5", "ignored"],
+      ["Provider 4/w4", "cooldown"],
+      ["Provider 3/w3", "reserve"],
+    ]);
+    expect(trace?.drops[1]?.detail).toBe("for 30m");
+    expect(trace?.ranking).toEqual([
+      { rank: 1, candidate: "Provider 1/w1", remainingPercent: 90 },
+      {
+        rank: 2,
+        candidate: "Provider 2/w2 (work)",
+        remainingPercent: 60,
+        decidedBy: "remainingPercent",
+        detail: "higher availability (vs 60%)",
+      },
+    ]);
+    expect(trace?.locks).toEqual([
+      {
+        key: "p1/m1",
+        rank: 1,
+        acquired: false,
+        heldBy: { instanceId: "other", pid: 99 },
+      },
+      { key: "p2/m2", rank: 2, acquired: true },
+    ]);
+    expect(trace?.outcome).toMatchObject({
+      status: "selected",
+      model: { provider: "p2", id: "m2" },
+      lockKey: "p2/m2",
+    });
+
+    const report = formatSelectionTrace(trace!, trace!.startedAt + 90_000);
+    expect(report).toContain("Last model selection (reason: command, 1m ago)");
+    expect(report).toContain("  Provider 6: error - Timeout");
+    expect(report).toContain(
+      "  Provider 3/w3: reserve (30% left, reserve 50%)",
+    );
+    expect(report).toContain(
+      "  #2 Provider 2/w2 (work): 60% left - below #1 by remainingPercent: higher availability (vs 60%)",
+    );
+    expect(report).toContain("  p1/m1 (rank #1): busy, held by other (pid 99)");
+    expect(report).toContain("Outcome: selected - Set model to p2/m2");
+  });
+
+  it("records failures when every bucket is exhausted", async () => {
+    const result = await runSelector(
+      createContext(),
+      createCooldownManager(),
+      {
+        acquire: vi.fn(),
+        refresh: vi.fn(),
+        release: vi.fn(),
+        releaseAll: vi.fn(),
+        leaveQueue: vi.fn().mockResolvedValue(0),
+      },
+      { current: null },
+      { current: null },
+      false,
+      "auto",
+      {
+        preloadedConfig: config,
+        preloadedUsages: [
+          {
+            provider: "p1",
+            displayName: "Provider 1",
+            windows: [{ label: "w1", usedPercent: 100 }],
+          },
+        ],
+      },
+      { setModel: vi.fn() } as unknown as ExtensionAPI,
+    );
+
+    expect(result).toBe(false);
+    const trace = getLastSelectionTrace();
+    expect(trace?.drops).toEqual([
+      {
+        candidate: "Provider 1/w1",
+        reason: "exhausted",
+        detail: "0% left, reserve 0%",
+      },
+    ]);
+    expect(trace?.outcome).toEqual({
+      status: "failed",
+      message: "All non-ignored usage buckets are exhausted (0% remaining).",
+    });
+  });
+
+  it("keeps the first outcome and formats runs that have not finished", () => {
+    const trace = beginSelectionTrace("startup", 0);
+    expect(formatSelectionTrace(trace, 5_000)).toBe(
+      [
+        "Last model selection (reason: startup, 5s ago)",
+        "Usages:",
+        "  none fetched",
+        "Outcome: still running",
+      ].join("\n"),
+    );
+
+    trace.notes.push("Cooldowns were reset");
+    traceOutcome(trace, { status: "failed", message: "first" });
+    traceOutcome(trace, { status: "selected", message: "second" });
+    traceOutcome(undefined, { status: "failed", message: "ignored" });
+
+    const report = formatSelectionTrace(trace, 2 * 60 * 60 * 1000);
+    expect(report).toContain("(reason: startup, 2h ago)");
+    expect(report).toContain("Note: Cooldowns were reset");
+    expect(report).toContain("Outcome: failed - first");
+  });
+});
@@ -5,7 +5,11 @@ import type {
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import * as configMod from "../src/config.js";
 import type { CooldownManager } from "../src/cooldown.js";
-import { runSelector } from "../src/selector.js";
+import {
+  clearRegisteredUsageFetchers,
+  registerUsageFetcher,
+} from "../src/fetcher-registry.js";
+import { getEffectiveDisabledProviders, runSelector } from "../src/selector.js";
 import type { LoadedConfig, UsageSnapshot } from "../src/types.js";
 import * as usageFetchers from "../src/usage-fetchers.js";
 import * as widgetMod from "../src/widget.js";
@@ -72,6 +76,7 @@ describe("Selector Branch Coverage", () => {
       pruneExpiredCooldowns: vi.fn(),
       setOrExtendProviderCooldown: vi.fn().mockReturnValue(false),
       getWildcardExpiry: vi.fn().mockReturnValue(undefined),
+      getCooldownExpiry: vi.fn().mockReturnValue(undefined),
       isOnCooldown: vi.fn().mockReturnValue(false),
       clear: vi.fn(),
       setLastSelectedKey: vi.fn(),
@@ -116,6 +121,7 @@ describe("Selector Branch Coverage", () => {
     refresh: vi.fn().mockResolvedValue(true),
     release: vi.fn().mockResolvedValue(true),
     releaseAll: vi.fn().mockResolvedValue(0),
+    leaveQueue: vi.fn().mockResolvedValue(0),
   });
 
   const createPi = (): MockExtensionAPI =>
@@ -471,6 +477,128 @@ describe("Selector Branch Coverage", () => {
     );
   });
 
+  it("sizes rate-limit cooldowns from the provider's Retry-After hint", async () => {
+    vi.mocked(usageFetchers.fetchAllUsages).mockResolvedValue([
+      {
+        provider: "p1",
+        displayName: "Provider 1",
+        windows: [
+          {
+            label: "w1",
+            usedPercent: 20,
+            resetsAt: new Date(Date.now() + 3600000),
+          },
+        ],
+      },
+      {
+        provider: "p2",
+        displayName: "Provider 2",
+        windows: [],
+        error: "HTTP 429",
+        errorInfo: { status: 429, retryAfterMs: 300000 },
+      },
+    ]);
+
+    const cooldownManager = createCooldownManager({
+      setOrExtendProviderCooldown: vi.fn().mockReturnValue(true),
+    });
+    const ctx = createContext();
+
+    const result = await runSelector(
+      ctx,
+      cooldownManager,
+      createModelLockCoordinator(),
+      { current: null } as { current: NodeJS.Timeout | null },
+      { current: null },
+      false,
+      "command",
+      {},
+      createPi(),
+    );
+
+    expect(result).toBe(true);
+    expect(cooldownManager.setOrExtendProviderCooldown).toHaveBeenCalledWith(
+      "p2",
+      undefined,
+      expect.any(Number),
+      300000,
+    );
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      expect.stringContaining("Pausing this provider for 5 minutes."),
+      "warning",
+    );
+    expect(ctx.ui.notify).not.toHaveBeenCalledWith(
+      expect.stringContaining("Usage check failed"),
+      "warning",
+    );
+  });
+
+  it("backs off failing providers and skips fetching them until it ends", async () => {
+    vi.mocked(configMod.loadConfig).mockResolvedValue({
+      ...baseConfig,
+      failureBackoff: { enabled: true, baseSeconds: 60, maxSeconds: 3600 },
+    });
+    vi.mocked(usageFetchers.fetchAllUsages).mockResolvedValue([
+      ...baseUsages,
+      {
+        provider: "p2",
+        displayName: "Provider 2",
+        windows: [],
+        error: "Timeout",
+      },
+      {
+        provider: "p4",
+        displayName: "Provider 4",
+        windows: [],
+        error: "HTTP 500",
+      },
+    ]);
+
+    const cooldownManager = createCooldownManager({
+      getBackedOffProviders: vi.fn().mockReturnValue(["p3"]),
+      recordProviderSuccess: vi.fn().mockReturnValue(true),
+      recordProviderFailure: vi
+        .fn()
+        .mockReturnValueOnce(120000)
+        .mockReturnValueOnce(undefined),
+    });
+    const ctx = createContext();
+
+    const result = await runSelector(
+      ctx,
+      cooldownManager,
+      createModelLockCoordinator(),
+      { current: null } as { current: NodeJS.Timeout | null },
+      { current: null },
+      false,
+      "command",
+      {},
+      createPi(),
+    );
+
+    expect(result).toBe(true);
+    expect(
+      vi.mocked(usageFetchers.fetchAllUsages).mock.calls[0]?.[1],
+    ).toContain("p3");
+    expect(cooldownManager.recordProviderSuccess).toHaveBeenCalledWith(
+      "p1",
+      undefined,
+    );
+    expect(cooldownManager.recordProviderFailure).toHaveBeenCalledTimes(2);
+    expect(cooldownManager.persistCooldowns).toHaveBeenCalled();
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "Usage check failed for Provider 2: Timeout. Retrying in 2 minutes.",
+      ),
+      "warning",
+    );
+    // Provider 4 was already backing off, so its failure stays quiet
+    expect(ctx.ui.notify).not.toHaveBeenCalledWith(
+      expect.stringContaining("Provider 4"),
+      "warning",
+    );
+  });
+
   it("skips usage error warnings when usages are preloaded", async () => {
     const preloadedUsages: UsageSnapshot[] = [
       {
@@ -738,6 +866,92 @@ describe("Selector Branch Coverage", () => {
     expect(modelLockCoordinator.release).toHaveBeenCalledWith("p1/old");
   });
 
+  it("requests the configured number of lock slots for each model", async () => {
+    vi.mocked(configMod.loadConfig).mockResolvedValue({
+      ...baseConfig,
+      lockConcurrency: { p1: 3 },
+    });
+    const modelLockCoordinator = createModelLockCoordinator();
+
+    const result = await runSelector(
+      createContext(),
+      createCooldownManager(),
+      modelLockCoordinator,
+      { current: null },
+      { current: null },
+      false,
+      "command",
+      { acquireModelLock: true, waitForModelLock: false },
+      createPi(),
+    );
+
+    expect(result).toBe(true);
+    expect(modelLockCoordinator.acquire).toHaveBeenCalledWith("p1/m1", {
+      timeoutMs: 0,
+      slots: 3,
+      queue: false,
+    });
+  });
+
+  it("queues for busy locks while waiting and leaves the queue afterwards", async () => {
+    vi.useFakeTimers();
+    try {
+      const ctx = createContext();
+      const modelLockCoordinator = createModelLockCoordinator();
+      const holder = {
+        instanceId: "other",
+        pid: 99,
+        acquiredAt: Date.now(),
+        heartbeatAt: Date.now(),
+      };
+      modelLockCoordinator.acquire = vi
+        .fn()
+        .mockResolvedValueOnce({
+          acquired: false,
+          heldBy: holder,
+          queuePosition: 2,
+        })
+        .mockResolvedValueOnce({
+          acquired: false,
+          heldBy: holder,
+          queuePosition: 1,
+        })
+        .mockResolvedValue({ acquired: true });
+
+      const pending = runSelector(
+        ctx,
+        createCooldownManager(),
+        modelLockCoordinator,
+        { current: null },
+        { current: null },
+        false,
+        "command",
+        { acquireModelLock: true, waitForModelLock: true },
+        createPi(),
+      );
+      await vi.advanceTimersByTimeAsync(3000);
+
+      expect(await pending).toBe(true);
+      expect(modelLockCoordinator.acquire).toHaveBeenCalledTimes(3);
+      expect(modelLockCoordinator.acquire).toHaveBeenCalledWith("p1/m1", {
+        timeoutMs: 0,
+        slots: 1,
+        queue: true,
+      });
+      expect(ctx.ui.setStatus).toHaveBeenCalledWith(
+        "model-selector-lock",
+        "Waiting for available model lock (0s, #2 in queue)...",
+      );
+      expect(ctx.ui.setStatus).toHaveBeenCalledWith(
+        "model-selector-lock",
+        "Waiting for available model lock (1s, #1 in queue)...",
+      );
+      expect(modelLockCoordinator.leaveQueue).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
   it("uses fallback when all locks are busy and fallback lock is disabled", async () => {
     vi.mocked(configMod.loadConfig).mockResolvedValue({
       ...baseConfig,
@@ -812,4 +1026,41 @@ describe("Selector Branch Coverage", () => {
       "error",
     );
   });
+
+  it("implicitly disables unmapped built-in, custom, command and registered providers", () => {
+    registerUsageFetcher({
+      provider: "external",
+      displayName: "External",
+      fetch: vi.fn(),
+    });
+    const disabled = getEffectiveDisabledProviders({
+      ...baseConfig,
+      mappings: [
+        {
+          usage: { provider: "kiro", window: "Credits" },
+          model: { provider: "kiro", id: "k1" },
+        },
+        {
+          usage: { provider: "proxy", window: "Daily" },
+          model: { provider: "proxy", id: "p1" },
+        },
+      ],
+      disabledProviders: ["kiro"],
+      providerSettings: {
+        custom: [{ name: "gateway", url: "https://x.example" }],
+        commands: [
+          { name: "proxy", command: "quota" },
+          { name: "unused", command: "quota" },
+        ],
+      },
+    });
+
+    expect(disabled).toContain("kiro");
+    expect(disabled).toContain("anthropic");
+    expect(disabled).toContain("gateway");
+    expect(disabled).toContain("unused");
+    expect(disabled).toContain("external");
+    expect(disabled).not.toContain("proxy");
+    clearRegisteredUsageFetchers();
+  });
 });
@@ -76,6 +76,7 @@ describe("Selector Heartbeat and Error Handling", () => {
       refresh: vi.fn().mockResolvedValue(true),
       release: vi.fn().mockResolvedValue(true),
       releaseAll: vi.fn().mockResolvedValue(0),
+      leaveQueue: vi.fn().mockResolvedValue(0),
     };
 
     lockHeartbeatTimer = { current: null };
@@ -114,6 +114,7 @@ describe("Selector with enableModelLocking: false", () => {
       refresh: vi.fn().mockResolvedValue(true),
       release: vi.fn().mockResolvedValue(true),
       releaseAll: vi.fn().mockResolvedValue(0),
+      leaveQueue: vi.fn().mockResolvedValue(0),
     };
 
     const result = await runSelector(
@@ -140,6 +141,7 @@ describe("Selector with enableModelLocking: false", () => {
       refresh: vi.fn().mockResolvedValue(true),
       release: vi.fn().mockResolvedValue(true),
       releaseAll: vi.fn().mockResolvedValue(0),
+      leaveQueue: vi.fn().mockResolvedValue(0),
     };
 
     // Simulate a prior run that acquired a lock and started a heartbeat
@@ -68,6 +68,7 @@ describe("Selector Reserve Threshold", () => {
     refresh: vi.fn().mockResolvedValue(true),
     release: vi.fn().mockResolvedValue(true),
     releaseAll: vi.fn().mockResolvedValue(0),
+    leaveQueue: vi.fn().mockResolvedValue(0),
   });
 
   const createContext = (): MockExtensionContext =>
@@ -0,0 +1,200 @@
+import type {
+  ExtensionAPI,
+  ExtensionContext,
+} from "@mariozechner/pi-coding-agent";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { CooldownManager } from "../src/cooldown.js";
+import { getLastSelectionTrace } from "../src/selection-trace.js";
+import { runSelector } from "../src/selector.js";
+import type { LoadedConfig, UsageSnapshot } from "../src/types.js";
+import { updateWidgetState } from "../src/widget.js";
+
+vi.mock("../src/config.js");
+vi.mock("../src/usage-fetchers.js");
+vi.mock("../src/widget.js", () => ({
+  updateWidgetState: vi.fn(),
+  renderUsageWidget: vi.fn(),
+  clearWidget: vi.fn(),
+  getWidgetState: vi.fn(),
+}));
+
+describe("Selector mapping schedules", () => {
+  // Opus only during working hours; Flash takes over outside them
+  const baseConfig: LoadedConfig = {
+    mappings: [
+      {
+        usage: { provider: "anthropic", window: "Opus" },
+        model: { provider: "anthropic", id: "claude-opus-4-1" },
+        schedule: {
+          hours: "09:00-18:00",
+          weekdays: ["mon", "tue", "wed", "thu", "fri"],
+          timezone: "UTC",
+        },
+      },
+      {
+        usage: { provider: "gemini", window: "Flash" },
+        model: { provider: "google", id: "gemini-2.5-flash" },
+      },
+    ],
+    priority: ["remainingPercent"],
+    widget: { enabled: true, placement: "belowEditor", showCount: 3 },
+    autoRun: false,
+    enableModelLocking: false,
+    disabledProviders: [],
+    sources: { globalPath: "global.json", projectPath: "project.json" },
+    raw: { global: {}, project: {} },
+  };
+
+  const usages: UsageSnapshot[] = [
+    {
+      provider: "anthropic",
+      displayName: "Claude",
+      windows: [{ label: "Opus", usedPercent: 10 }],
+    },
+    {
+      provider: "gemini",
+      displayName: "Gemini",
+      windows: [{ label: "Flash", usedPercent: 60 }],
+    },
+  ];
+
+  type MockExtensionContext = ExtensionContext & {
+    ui: ExtensionContext["ui"] & { notify: ReturnType<typeof vi.fn> };
+  };
+
+  const createContext = (): MockExtensionContext =>
+    ({
+      modelRegistry: {
+        find: vi.fn(
+          (provider: string, id: string) =>
+            ({ provider, id }) as ExtensionContext["model"],
+        ),
+      },
+      model: { provider: "other", id: "other-model" },
+      ui: { notify: vi.fn(), setStatus: vi.fn() },
+      hasUI: true,
+      cwd: "/mock/cwd",
+    }) as unknown as MockExtensionContext;
+
+  const select = async (
+    ctx: MockExtensionContext,
+    pi: ExtensionAPI,
+    config: LoadedConfig = baseConfig,
+    snapshots: UsageSnapshot[] = usages,
+  ) =>
+    await runSelector(
+      ctx,
+      {
+        loadPersistedCooldowns: vi.fn().mockResolvedValue(undefined),
+        pruneExpiredCooldowns: vi.fn(),
+        setOrExtendProviderCooldown: vi.fn().mockReturnValue(false),
+        getWildcardExpiry: vi.fn().mockReturnValue(undefined),
+        isOnCooldown: vi.fn().mockReturnValue(false),
+        clear: vi.fn(),
+        setLastSelectedKey: vi.fn(),
+        persistCooldowns: vi.fn().mockResolvedValue(undefined),
+      } as unknown as CooldownManager,
+      {
+        acquire: vi.fn().mockResolvedValue({ acquired: true }),
+        refresh: vi.fn().mockResolvedValue(true),
+        release: vi.fn().mockResolvedValue(true),
+        releaseAll: vi.fn().mockResolvedValue(0),
+        leaveQueue: vi.fn().mockResolvedValue(0),
+      },
+      { current: null },
+      { current: null },
+      false,
+      "command",
+      { preloadedConfig: config, preloadedUsages: snapshots },
+      pi,
+    );
+
+  const createPi = () =>
+    ({
+      setModel: vi.fn().mockResolvedValue(true),
+    }) as unknown as ExtensionAPI & {
+      setModel: ReturnType<typeof vi.fn>;
+    };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("selects a scheduled bucket within its hours", async () => {
+    // Monday 10:00 UTC
+    vi.setSystemTime(new Date("2026-10-19T10:00:00Z"));
+    const pi = createPi();
+
+    expect(await select(createContext(), pi)).toBe(true);
+    expect(pi.setModel).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "claude-opus-4-1" }),
+    );
+  });
+
+  it("skips a bucket outside its schedule and lists it last in the widget", async () => {
+    // Monday 20:00 UTC
+    vi.setSystemTime(new Date("2026-10-19T20:00:00Z"));
+    const pi = createPi();
+
+    expect(await select(createContext(), pi)).toBe(true);
+    expect(pi.setModel).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "gemini-2.5-flash" }),
+    );
+    expect(
+      vi
+        .mocked(updateWidgetState)
+        .mock.calls[0]?.[0]?.candidates.map(
+          (candidate) => candidate.windowLabel,
+        ),
+    ).toEqual(["Flash", "Opus"]);
+    expect(getLastSelectionTrace()?.drops).toEqual([
+      {
+        candidate: "Claude/Opus",
+        reason: "schedule",
+        detail: expect.stringMatching(/^active in /),
+      },
+    ]);
+  });
+
+  it("explains failures and fallbacks when every bucket is outside its schedule", async () => {
+    // Saturday 10:00 UTC
+    vi.setSystemTime(new Date("2026-10-24T10:00:00Z"));
+    const ctx = createContext(),
+      opusOnly = [usages[0] as UsageSnapshot];
+
+    expect(await select(ctx, createPi(), baseConfig, opusOnly)).toBe(false);
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "All non-ignored usage buckets are outside their schedules; the next one becomes active in",
+      ),
+      "error",
+    );
+
+    const pi = createPi();
+    expect(
+      await select(
+        ctx,
+        pi,
+        {
+          ...baseConfig,
+          fallback: { provider: "google", id: "gemini-2.5-pro", lock: false },
+        },
+        opusOnly,
+      ),
+    ).toBe(true);
+    expect(pi.setModel).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "gemini-2.5-pro" }),
+    );
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "all quota-tracked models outside their schedules",
+      ),
+      "info",
+    );
+  });
+});
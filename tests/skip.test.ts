@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSkipEntries,
+  describeSkipDuration,
+  getSkipCompletions,
+  parseSkipArgs,
+  parseSkipDuration,
+  resolveSkipTargets,
+} from "../src/skip.js";
+import type { MappingEntry, UsageCandidate } from "../src/types.js";
+
+const now = Date.UTC(2026, 0, 1);
+
+const candidate = (
+  provider: string,
+  windowLabel: string,
+  extra: Partial<UsageCandidate> = {},
+): UsageCandidate => ({
+  provider,
+  displayName: provider === "anthropic" ? "Claude" : provider,
+  windowLabel,
+  usedPercent: 20,
+  remainingPercent: 80,
+  ...extra,
+});
+
+const candidates = [
+  candidate("anthropic", "Opus", { resetsAt: new Date(now + 7200000) }),
+  candidate("anthropic", "Sonnet", { resetsAt: new Date(now + 3600000) }),
+  candidate("github-copilot", "Chat", { account: "work" }),
+  candidate("codex", "5h limit", {
+    account: "personal",
+    resetsAt: new Date(now + 600000),
+  }),
+];
+
+const mappings: MappingEntry[] = [
+  {
+    usage: { provider: "github-copilot", window: "Chat" },
+    model: { provider: "github-copilot", id: "gpt-4o" },
+  },
+];
+
+describe("parseSkipDuration", () => {
+  it("parses minutes, hours, days and until-reset", () => {
+    expect(parseSkipDuration("30m")).toBe(1800000);
+    expect(parseSkipDuration("4h")).toBe(14400000);
+    expect(parseSkipDuration("1d2h")).toBe(93600000);
+    expect(parseSkipDuration("1h30m")).toBe(5400000);
+    expect(parseSkipDuration("UNTIL-RESET")).toBe("until-reset");
+  });
+
+  it("rejects other tokens", () => {
+    expect(parseSkipDuration("anthropic")).toBeUndefined();
+    expect(parseSkipDuration("")).toBeUndefined();
+    expect(parseSkipDuration("30s")).toBeUndefined();
+  });
+});
+
+describe("parseSkipArgs", () => {
+  it("accepts target, duration and scope in any order", () => {
+    expect(parseSkipArgs("4h anthropic/Opus provider")).toEqual({
+      target: "anthropic/Opus",
+      duration: 14400000,
+      scope: "provider",
+    });
+    expect(parseSkipArgs("")).toEqual({});
+  });
+
+  it("supports quoted targets with spaces", () => {
+    expect(parseSkipArgs('"codex/5h limit" until-reset')).toEqual({
+      target: "codex/5h limit",
+      duration: "until-reset",
+    });
+  });
+
+  it("rejects repeated tokens, zero durations and open quotes", () => {
+    expect(() => parseSkipArgs("30m 4h")).toThrow("Only one duration");
+    expect(() => parseSkipArgs("bucket account")).toThrow("Only one scope");
+    expect(() => parseSkipArgs("anthropic codex")).toThrow(
+      'Only one target may be given, got "anthropic" and "codex"',
+    );
+    expect(() => parseSkipArgs("0m")).toThrow("longer than zero");
+    expect(() => parseSkipArgs('"codex/5h')).toThrow("Unterminated quote");
+  });
+});
+
+describe("resolveSkipTargets", () => {
+  it("matches buckets, mapped models and providers case-insensitively", () => {
+    expect(
+      resolveSkipTargets("Anthropic/opus", candidates, mappings).map(
+        (c) => c.windowLabel,
+      ),
+    ).toEqual(["Opus"]);
+    expect(
+      resolveSkipTargets("github-copilot/gpt-4o", candidates, mappings).map(
+        (c) => c.windowLabel,
+      ),
+    ).toEqual(["Chat"]);
+    expect(resolveSkipTargets("anthropic", candidates, mappings)).toHaveLength(
+      2,
+    );
+    expect(resolveSkipTargets("anthropic/Haiku", candidates, mappings)).toEqual(
+      [],
+    );
+  });
+});
+
+describe("buildSkipEntries", () => {
+  const claude = candidates.slice(0, 2);
+
+  it("writes one bucket cooldown per candidate", () => {
+    expect(buildSkipEntries(claude, "bucket", 1800000, now)).toEqual([
+      {
+        key: "anthropic||Opus|raw",
+        expiresAt: now + 1800000,
+        label: "usage bucket Claude/Opus",
+      },
+      {
+        key: "anthropic||Sonnet|raw",
+        expiresAt: now + 1800000,
+        label: "usage bucket Claude/Sonnet",
+      },
+    ]);
+  });
+
+  it("groups provider and account scopes into one entry", () => {
+    expect(buildSkipEntries(claude, "provider", "until-reset", now)).toEqual([
+      {
+        key: "anthropic||*|skip",
+        expiresAt: now + 7200000,
+        label: "provider Claude",
+      },
+    ]);
+    expect(
+      buildSkipEntries(candidates.slice(3), "account", 3600000, now),
+    ).toEqual([
+      {
+        key: "codex|personal|*|skip",
+        expiresAt: now + 3600000,
+        label: "account personal of codex",
+      },
+    ]);
+  });
+
+  it("refuses until-reset without a known reset time", () => {
+    expect(() =>
+      buildSkipEntries(candidates.slice(2, 3), "bucket", "until-reset", now),
+    ).toThrow("its reset time is unknown");
+  });
+});
+
+describe("describeSkipDuration", () => {
+  it("describes fixed and until-reset durations", () => {
+    expect(describeSkipDuration(14400000, [], now)).toBe("4 hours");
+    expect(
+      describeSkipDuration(
+        "until-reset",
+        [{ key: "k", expiresAt: now + 5400000, label: "l" }],
+        now,
+      ),
+    ).toBe("until reset, 1 hour 30 minutes");
+  });
+});
+
+describe("getSkipCompletions", () => {
+  it("suggests targets, durations and scopes for an empty prefix", () => {
+    const values = getSkipCompletions("", candidates, mappings)?.map(
+      (item) => item.value,
+    );
+    expect(values).toContain("anthropic/Opus");
+    expect(values).toContain("github-copilot/gpt-4o");
+    expect(values).toContain('"codex/5h limit"');
+    expect(values).toContain("anthropic");
+    expect(values).toContain("until-reset");
+    expect(values).toContain("account");
+    expect(values?.filter((value) => value === "anthropic")).toHaveLength(1);
+  });
+
+  it("completes the last token and keeps earlier ones", () => {
+    expect(
+      getSkipCompletions("anthropic/Opus u", candidates, mappings),
+    ).toEqual([
+      {
+        value: "anthropic/Opus until-reset",
+        label: "until-reset",
+        description: "skip duration",
+      },
+    ]);
+    const afterTarget = getSkipCompletions(
+      "anthropic/Opus ",
+      candidates,
+      mappings,
+    )?.map((item) => item.value);
+    expect(afterTarget).not.toContain("anthropic/Opus anthropic/Sonnet");
+    expect(afterTarget).toContain("anthropic/Opus 30m");
+  });
+
+  it("returns null when nothing matches", () => {
+    expect(getSkipCompletions("zzz", candidates, mappings)).toBeNull();
+  });
+});
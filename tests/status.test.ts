@@ -0,0 +1,233 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { candidateKey } from "../src/candidates.js";
+import { CooldownManager } from "../src/cooldown.js";
+import {
+  buildCandidateStatusRows,
+  formatCandidateStatusReport,
+} from "../src/status.js";
+import type { LoadedConfig, UsageCandidate } from "../src/types.js";
+
+const baseConfig: LoadedConfig = {
+  mappings: [
+    {
+      usage: { provider: "anthropic", window: "Sonnet" },
+      model: { provider: "anthropic", id: "sonnet" },
+      reserve: 20,
+    },
+    {
+      usage: { provider: "anthropic", window: "Opus" },
+      model: { provider: "anthropic", id: "opus" },
+    },
+    {
+      usage: { provider: "copilot", window: "Chat" },
+      model: { provider: "github-copilot", id: "gpt-4o" },
+      reserve: 30,
+    },
+    { usage: { provider: "anthropic", window: "5h" }, ignore: true },
+  ],
+  priority: ["remainingPercent"],
+  widget: { enabled: true, placement: "belowEditor", showCount: 3 },
+  autoRun: false,
+  enableModelLocking: true,
+  disabledProviders: [],
+  sources: { globalPath: "", projectPath: "" },
+  raw: { global: {}, project: {} },
+};
+
+function candidate(
+  provider: string,
+  windowLabel: string,
+  remainingPercent: number,
+  extra: Partial<UsageCandidate> = {},
+): UsageCandidate {
+  return {
+    provider,
+    displayName: provider,
+    windowLabel,
+    usedPercent: 100 - remainingPercent,
+    remainingPercent,
+    ...extra,
+  };
+}
+
+describe("model status rows", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("ranks eligible candidates and explains excluded ones", () => {
+    const now = Date.now();
+    const cooldownManager = new CooldownManager();
+    const opus = candidate("anthropic", "Opus", 90, { account: "work" });
+    cooldownManager.addCooldown(candidateKey(opus));
+
+    const rows = buildCandidateStatusRows(
+      [
+        candidate("anthropic", "Sonnet", 60, {
+          resetsAt: new Date(now + 2 * 60 * 60 * 1000),
+        }),
+        opus,
+        candidate("copilot", "Chat", 25),
+        candidate("anthropic", "5h", 100),
+        candidate("gemini", "Flash", 0),
+        candidate("gemini", "Pro", 40),
+      ],
+      baseConfig,
+      cooldownManager,
+      {
+        "anthropic/sonnet": [
+          {
+            instanceId: "other",
+            pid: 4242,
+            acquiredAt: now,
+            heartbeatAt: now,
+          },
+        ],
+      },
+      now,
+    );
+
+    expect(
+      rows.map((row) => [row.candidate.windowLabel, row.rank, row.excludedBy]),
+    ).toEqual([
+      ["Sonnet", 1, undefined],
+      ["Pro", 2, undefined],
+      ["Opus", undefined, "cooldown"],
+      ["Chat", undefined, "reserve"],
+      ["5h", undefined, "ignored"],
+      ["Flash", undefined, "exhausted"],
+    ]);
+    expect(rows[0]?.lockKey).toBe("anthropic/sonnet");
+    expect(rows[0]?.lockHolders?.map((holder) => holder.pid)).toEqual([4242]);
+    expect(rows[0]?.lockSlots).toBe(1);
+    expect(rows[2]?.cooldownUntil).toBe(now + 60 * 60 * 1000);
+
+    const report = formatCandidateStatusReport(rows, baseConfig, 1);
+    const lines = report.split("\n");
+    expect(lines[0]).toBe(
+      "Model selector status (6 candidates; priority: remainingPercent)",
+    );
+    expect(lines[1]).toBe(
+      "#1 anthropic/Sonnet: 60% left, resets 2h → anthropic/sonnet; reserve 20%; locked by other, pid 4242",
+    );
+    expect(lines[2]).toBe("#2 gemini/Pro: 40% left → no model mapping");
+    expect(lines[3]).toBe(
+      "-- anthropic/Opus (work): 90% left → anthropic/opus; cooldown for 1h; lock free",
+    );
+    expect(lines[4]).toBe(
+      "-- copilot/Chat: 25% left → github-copilot/gpt-4o; at or below reserve (30%); lock free",
+    );
+    expect(lines[5]).toBe("-- anthropic/5h: 100% left → ignored");
+    expect(lines[6]).toBe(
+      "-- gemini/Flash: 0% left → no model mapping; exhausted",
+    );
+  });
+
+  it("marks locks held by the current process and reports the fallback", () => {
+    const now = Date.now();
+    const rows = buildCandidateStatusRows(
+      [candidate("anthropic", "Opus", 50)],
+      baseConfig,
+      new CooldownManager(),
+      {
+        "anthropic/opus": [
+          {
+            instanceId: "mine",
+            pid: 77,
+            acquiredAt: now,
+            heartbeatAt: now,
+          },
+        ],
+      },
+      now,
+    );
+    const report = formatCandidateStatusReport(
+      rows,
+      {
+        ...baseConfig,
+        fallback: { provider: "google", id: "flash", lock: false },
+      },
+      77,
+    );
+
+    expect(report).toContain("locked by this process");
+    expect(report).toContain("Fallback: google/flash (unlocked)");
+  });
+
+  it("reports shared lock slots for models with a concurrency", () => {
+    const now = Date.now(),
+      config: LoadedConfig = {
+        ...baseConfig,
+        lockConcurrency: { anthropic: 3 },
+      },
+      holder = { acquiredAt: now, heartbeatAt: now },
+      rows = buildCandidateStatusRows(
+        [
+          candidate("anthropic", "Opus", 50),
+          candidate("anthropic", "Sonnet", 40),
+        ],
+        config,
+        new CooldownManager(),
+        {
+          "anthropic/opus": [
+            { ...holder, instanceId: "mine", pid: 77 },
+            { ...holder, instanceId: "other", pid: 88 },
+          ],
+        },
+        now,
+      ),
+      report = formatCandidateStatusReport(rows, config, 77);
+
+    expect(rows.map((row) => row.lockSlots)).toEqual([3, 3]);
+    expect(report).toContain(
+      "2/3 lock slots held by this process and other, pid 88",
+    );
+    expect(report).toContain("3 lock slots free");
+  });
+
+  it("excludes candidates outside their schedule until it starts", () => {
+    // 2026-01-01 00:00 UTC is a Thursday
+    const now = Date.now(),
+      schedule = { hours: "09:00-18:00", timezone: "UTC" },
+      config: LoadedConfig = {
+        ...baseConfig,
+        mappings: baseConfig.mappings.map((mapping) =>
+          mapping.usage.window === "Opus" ? { ...mapping, schedule } : mapping,
+        ),
+      },
+      rows = buildCandidateStatusRows(
+        [candidate("anthropic", "Opus", 90), candidate("gemini", "Pro", 40)],
+        config,
+        new CooldownManager(),
+        {},
+        now,
+      );
+
+    expect(
+      rows.map((row) => [row.candidate.windowLabel, row.rank, row.excludedBy]),
+    ).toEqual([
+      ["Pro", 1, undefined],
+      ["Opus", undefined, "schedule"],
+    ]);
+    expect(rows[1]?.scheduleStart).toBe(now + 9 * 60 * 60 * 1000);
+    expect(formatCandidateStatusReport(rows, config, 1)).toContain(
+      "-- anthropic/Opus: 90% left → anthropic/opus; schedule 09:00-18:00 (UTC); outside schedule, active in 9h; lock free",
+    );
+  });
+
+  it("reports when no candidates are available", () => {
+    const report = formatCandidateStatusReport(
+      [],
+      { ...baseConfig, fallback: { provider: "google", id: "flash" } },
+      1,
+    );
+    expect(report).toBe(
+      "Model selector status (0 candidates; priority: remainingPercent)\nNo usage windows found.\nFallback: google/flash",
+    );
+  });
+});
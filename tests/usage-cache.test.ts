@@ -0,0 +1,207 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_USAGE_CACHE_CONFIG,
+  type UsageSnapshot,
+} from "../src/types.js";
+import {
+  createUsageCache,
+  getUsageCache,
+  resolveUsageCachePolicy,
+  USAGE_CACHE_PATH,
+  usageCacheKey,
+} from "../src/usage-cache.js";
+
+function createTempCachePath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "usage-cache-test-"));
+  return path.join(dir, "cache.json");
+}
+
+afterEach(() => {
+  for (const entry of fs.readdirSync(os.tmpdir())) {
+    if (!entry.startsWith("usage-cache-test-")) continue;
+    fs.rmSync(path.join(os.tmpdir(), entry), { recursive: true, force: true });
+  }
+});
+
+const snapshot = (usedPercent: number, error?: string): UsageSnapshot => ({
+  provider: "anthropic",
+  displayName: "Claude",
+  windows: error
+    ? []
+    : [
+        {
+          label: "5h",
+          usedPercent,
+          resetsAt: new Date("2026-01-01T05:00:00Z"),
+          resetDescription: "stale text",
+        },
+      ],
+  ...(error ? { error } : {}),
+});
+
+const policy = { ttlMs: 60_000, staleMs: 300_000 };
+
+describe("UsageCache", () => {
+  it("serves fresh entries without refetching and restores dates", async () => {
+    let now = 1_000;
+    const cachePath = createTempCachePath(),
+      cache = createUsageCache({ path: cachePath, now: () => now }),
+      fetch = vi.fn().mockResolvedValue([snapshot(40)]);
+
+    expect((await cache.resolve("anthropic", policy, fetch))[0]).toEqual(
+      snapshot(40),
+    );
+    now += 59_000;
+    // A second instance reading the same file sees the shared entry
+    const other = createUsageCache({ path: cachePath, now: () => now }),
+      [cached] = await other.resolve("anthropic", policy, fetch);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(cached?.windows[0]?.resetsAt).toEqual(
+      new Date("2026-01-01T05:00:00Z"),
+    );
+    expect(cached?.windows[0]?.resetDescription).not.toBe("stale text");
+  });
+
+  it("serves stale entries while one background fetch refreshes them", async () => {
+    let now = 0;
+    const cache = createUsageCache({
+        path: createTempCachePath(),
+        now: () => now,
+      }),
+      fetch = vi
+        .fn()
+        .mockResolvedValueOnce([snapshot(10)])
+        .mockResolvedValueOnce([snapshot(20)]);
+
+    await cache.resolve("anthropic", policy, fetch);
+    now = 120_000;
+    const [first, second] = await Promise.all([
+      cache.resolve("anthropic", policy, fetch),
+      cache.resolve("anthropic", policy, fetch),
+    ]);
+    expect(first?.[0]?.windows[0]?.usedPercent).toBe(10);
+    expect(second?.[0]?.windows[0]?.usedPercent).toBe(10);
+
+    await cache.settle();
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(
+      (await cache.resolve("anthropic", policy, fetch))[0]?.windows[0]
+        ?.usedPercent,
+    ).toBe(20);
+  });
+
+  it("refetches expired entries and never stores errors", async () => {
+    let now = 0;
+    const cache = createUsageCache({
+        path: createTempCachePath(),
+        now: () => now,
+      }),
+      fetch = vi
+        .fn()
+        .mockResolvedValueOnce([snapshot(10)])
+        .mockResolvedValueOnce([snapshot(0, "HTTP 429")])
+        .mockResolvedValueOnce([snapshot(30)]);
+
+    await cache.resolve("anthropic", policy, fetch);
+    now = 400_000;
+    expect((await cache.resolve("anthropic", policy, fetch))[0]?.error).toBe(
+      "HTTP 429",
+    );
+    // The failed fetch left no fresh entry behind, so this fetches again
+    expect(
+      (await cache.resolve("anthropic", policy, fetch))[0]?.windows[0]
+        ?.usedPercent,
+    ).toBe(30);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("logs background failures and keeps serving the stale entry", async () => {
+    let now = 0;
+    const cache = createUsageCache({
+        path: createTempCachePath(),
+        now: () => now,
+      }),
+      fetch = vi
+        .fn()
+        .mockResolvedValueOnce([snapshot(10)])
+        .mockRejectedValueOnce(new Error("boom"));
+
+    await cache.resolve("anthropic", policy, fetch);
+    now = 100_000;
+    await cache.resolve("anthropic", policy, fetch);
+    await cache.settle();
+
+    expect(
+      (await cache.resolve("anthropic", policy, fetch))[0]?.windows[0]
+        ?.usedPercent,
+    ).toBe(10);
+  });
+
+  it("treats corrupt files as empty, prunes old entries and clears", async () => {
+    let now = 0;
+    const cachePath = createTempCachePath(),
+      cache = createUsageCache({ path: cachePath, now: () => now });
+    fs.writeFileSync(cachePath, "{not json");
+
+    await cache.resolve("old", policy, async () => [snapshot(1)]);
+    now = 2 * 24 * 60 * 60 * 1000;
+    await cache.resolve("new", policy, async () => [snapshot(2)]);
+
+    const stored = JSON.parse(fs.readFileSync(cachePath, "utf-8"));
+    expect(Object.keys(stored.entries)).toEqual(["new"]);
+
+    await cache.clear();
+    expect(fs.existsSync(cachePath)).toBe(false);
+    await cache.clear();
+  });
+
+  it("resolves per-provider policies over the defaults", () => {
+    const config = {
+      ...DEFAULT_USAGE_CACHE_CONFIG,
+      providers: { kiro: { ttlSeconds: 600 } },
+    };
+    expect(resolveUsageCachePolicy(config, "kiro")).toEqual({
+      ttlMs: 600_000,
+      staleMs: 300_000,
+    });
+    expect(resolveUsageCachePolicy(config, "copilot")).toEqual({
+      ttlMs: 60_000,
+      staleMs: 300_000,
+    });
+  });
+
+  it("keys entries by provider and a hash of its settings", () => {
+    const acme = {
+      name: "acme",
+      url: "https://usage.acme.test/quota",
+      headers: { Authorization: "Bearer acme-token", "X-Team": "a" },
+    };
+    expect(usageCacheKey("kiro")).toBe("kiro");
+    expect(usageCacheKey("acme", acme)).toMatch(/^acme#[0-9a-f]{16}$/);
+    expect(
+      usageCacheKey("acme", {
+        headers: { "X-Team": "a", Authorization: "Bearer acme-token" },
+        url: "https://usage.acme.test/quota",
+        name: "acme",
+      }),
+    ).toBe(usageCacheKey("acme", acme));
+    expect(
+      usageCacheKey("acme", { ...acme, url: "https://usage.other.test/quota" }),
+    ).not.toBe(usageCacheKey("acme", acme));
+    expect(
+      usageCacheKey("acme", { ...acme, headers: { "X-Team": "b" } }),
+    ).not.toBe(usageCacheKey("acme", acme));
+    expect(usageCacheKey("minimax", { groupId: "a" })).not.toBe(
+      usageCacheKey("minimax", { groupId: "b" }),
+    );
+  });
+
+  it("shares a default cache under the extension directory", () => {
+    expect(getUsageCache()).toBe(getUsageCache());
+    expect(USAGE_CACHE_PATH).toContain("model-selector-usage-cache.json");
+  });
+});
@@ -1,6 +1,7 @@
 import * as fs from "node:fs";
 import * as os from "node:os";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { httpErrorInfo, parseRateLimitReset } from "../src/fetchers/common.js";
 import { resetGlobalState } from "../src/types.js";
 import {
   fetchAllCodexUsages,
@@ -133,6 +134,60 @@ describe("Usage Fetchers Branch Coverage", () => {
     });
   });
 
+  describe("rate-limit headers", () => {
+    const now = Date.UTC(2026, 0, 1);
+
+    it("parses epoch, delta, duration and date reset values", () => {
+      expect(parseRateLimitReset("1767229200", now)).toBe(1767229200000);
+      expect(parseRateLimitReset("1767229200000", now)).toBe(1767229200000);
+      expect(parseRateLimitReset("30", now)).toBe(now + 30000);
+      expect(parseRateLimitReset("1m30s", now)).toBe(now + 90000);
+      expect(parseRateLimitReset("6ms", now)).toBe(now + 6);
+      expect(parseRateLimitReset("2026-01-01T02:00:00Z", now)).toBe(
+        now + 7200000,
+      );
+      expect(parseRateLimitReset("soon", now)).toBeUndefined();
+      expect(parseRateLimitReset(" ", now)).toBeUndefined();
+    });
+
+    it("extracts Retry-After and the latest reset from a response", () => {
+      const res = new Response(null, {
+        status: 429,
+        headers: {
+          "retry-after": "120",
+          "x-ratelimit-reset-requests": "10m",
+          "anthropic-ratelimit-tokens-reset": "2026-01-01T01:00:00Z",
+        },
+      });
+
+      expect(httpErrorInfo(res, now)).toEqual({
+        status: 429,
+        retryAfterMs: 120000,
+        resetsAt: now + 3600000,
+      });
+    });
+
+    it("accepts HTTP-date Retry-After values and ignores unparseable ones", () => {
+      const dated = new Response(null, {
+        status: 429,
+        headers: { "retry-after": new Date(now + 45000).toUTCString() },
+      });
+      expect(httpErrorInfo(dated, now)).toEqual({
+        status: 429,
+        retryAfterMs: 45000,
+      });
+
+      const garbage = new Response(null, {
+        status: 503,
+        headers: { "retry-after": "later", "x-ratelimit-reset": "?" },
+      });
+      expect(httpErrorInfo(garbage, now)).toEqual({ status: 503 });
+      expect(httpErrorInfo({ status: 500 } as Response, now)).toEqual({
+        status: 500,
+      });
+    });
+  });
+
   describe("loadPiAuth", () => {
     it("should return parsed JSON on success", async () => {
       vi.mocked(fs.promises.readFile).mockResolvedValue(
@@ -1,7 +1,13 @@
+import * as childProcess from "node:child_process";
 import * as fs from "node:fs";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  clearRegisteredUsageFetchers,
+  registerUsageFetcher,
+} from "../src/fetcher-registry.js";
 import type { RateWindow } from "../src/types.js";
-import { resetGlobalState } from "../src/types.js";
+import { DEFAULT_USAGE_CACHE_CONFIG, resetGlobalState } from "../src/types.js";
+import * as usageCache from "../src/usage-cache.js";
 import {
   fetchAllCodexUsages,
   fetchAllUsages,
@@ -30,6 +36,13 @@ vi.mock("node:fs", async () => {
   };
 });
 
+vi.mock("../src/usage-cache.js", async () => {
+  const actual = await vi.importActual<typeof import("../src/usage-cache.js")>(
+    "../src/usage-cache.js",
+  );
+  return { ...actual, getUsageCache: vi.fn() };
+});
+
 vi.mock("node:os", async () => {
   const actual = await vi.importActual<typeof import("node:os")>("node:os");
   return {
@@ -836,6 +849,221 @@ describe("Usage Fetchers", () => {
       vi.useRealTimers();
     });
 
+    it("should run command providers and record failures as fallback snapshots", async () => {
+      vi.mocked(childProcess.execFile).mockImplementation(((
+        cmd: string,
+        _args: unknown,
+        cb: (err: Error | null, stdout: string, stderr: string) => void,
+      ) => {
+        if (cmd === "quota-ok") cb(null, "Daily: 30%\n", "");
+        else cb(new Error("spawn quota-missing ENOENT"), "", "");
+      }) as any);
+
+      const result = await fetchAllUsages(
+        {},
+        [
+          "anthropic",
+          "copilot",
+          "gemini",
+          "codex",
+          "antigravity",
+          "kiro",
+          "zai",
+          "minimax",
+          "skipped",
+        ],
+        {
+          commands: [
+            { name: "ok", displayName: "OK Proxy", command: "quota-ok" },
+            {
+              name: "missing",
+              displayName: "Missing CLI",
+              command: "quota-missing",
+            },
+            { name: "skipped", command: "quota-ok" },
+          ],
+        },
+      );
+
+      expect(result).toEqual([
+        {
+          provider: "ok",
+          displayName: "OK Proxy",
+          windows: [{ label: "Daily", usedPercent: 30 }],
+        },
+        {
+          provider: "missing",
+          displayName: "Missing CLI",
+          windows: [],
+          error: "Error: spawn quota-missing ENOENT",
+        },
+      ]);
+    });
+
+    it("should call registered fetchers and record their failures", async () => {
+      registerUsageFetcher({
+        provider: "vendor",
+        displayName: "Vendor",
+        fetch: async () => [
+          { provider: "vendor", displayName: "Vendor", windows: [] },
+          {
+            provider: "vendor",
+            displayName: "Vendor",
+            account: "b",
+            windows: [],
+          },
+        ],
+      });
+      registerUsageFetcher({
+        provider: "flaky",
+        displayName: "Flaky",
+        fetch: () => {
+          throw new Error("not signed in");
+        },
+      });
+      registerUsageFetcher({
+        provider: "off",
+        displayName: "Off",
+        fetch: vi.fn(),
+      });
+
+      try {
+        const result = await fetchAllUsages({}, [
+          "anthropic",
+          "copilot",
+          "gemini",
+          "codex",
+          "antigravity",
+          "kiro",
+          "zai",
+          "minimax",
+          "off",
+        ]);
+
+        expect(result.map((s) => [s.provider, s.account, s.error])).toEqual([
+          ["vendor", undefined, undefined],
+          ["vendor", "b", undefined],
+          ["flaky", undefined, "Error: not signed in"],
+        ]);
+      } finally {
+        clearRegisteredUsageFetchers();
+      }
+    });
+
+    it("should route each provider through the usage cache when enabled", async () => {
+      const resolve = vi.fn(
+        async (
+          key: string,
+          _policy: unknown,
+          fetch: () => Promise<unknown[]>,
+        ) =>
+          key.startsWith("cached#")
+            ? [{ provider: "cached", displayName: "Cached", windows: [] }]
+            : await fetch(),
+      );
+      vi.mocked(usageCache.getUsageCache).mockReturnValue({
+        resolve,
+      } as unknown as usageCache.UsageCache);
+      vi.mocked(childProcess.execFile).mockImplementation(((
+        _cmd: string,
+        _args: unknown,
+        cb: (err: Error | null, stdout: string, stderr: string) => void,
+      ) => cb(null, "Daily: 5%", "")) as any);
+
+      const result = await fetchAllUsages(
+        {},
+        [
+          "anthropic",
+          "copilot",
+          "gemini",
+          "codex",
+          "antigravity",
+          "kiro",
+          "zai",
+          "minimax",
+        ],
+        {
+          commands: [
+            { name: "cached", command: "quota" },
+            { name: "live", command: "quota" },
+          ],
+        },
+        {
+          ...DEFAULT_USAGE_CACHE_CONFIG,
+          providers: { live: { ttlSeconds: 5 } },
+        },
+      );
+
+      expect(resolve.mock.calls.map(([key, policy]) => [key, policy])).toEqual([
+        [
+          usageCache.usageCacheKey("cached", {
+            name: "cached",
+            command: "quota",
+          }),
+          { ttlMs: 60_000, staleMs: 300_000 },
+        ],
+        [
+          usageCache.usageCacheKey("live", { name: "live", command: "quota" }),
+          { ttlMs: 5_000, staleMs: 300_000 },
+        ],
+      ]);
+      expect(result.map((s) => [s.provider, s.windows.length])).toEqual([
+        ["cached", 0],
+        ["live", 1],
+      ]);
+    });
+
+    it("should not share cached usage between configs declaring the same name", async () => {
+      const entries = new Map<string, unknown[]>(),
+        resolve = vi.fn(
+          async (
+            key: string,
+            _policy: unknown,
+            fetch: () => Promise<unknown[]>,
+          ) => {
+            if (!entries.has(key)) entries.set(key, await fetch());
+            return entries.get(key);
+          },
+        );
+      vi.mocked(usageCache.getUsageCache).mockReturnValue({
+        resolve,
+      } as unknown as usageCache.UsageCache);
+      vi.mocked(childProcess.execFile).mockImplementation(((
+        cmd: string,
+        _args: unknown,
+        cb: (err: Error | null, stdout: string, stderr: string) => void,
+      ) => cb(null, cmd === "team-a" ? "Daily: 5%" : "Daily: 80%", "")) as any);
+      const usedPercent = async (command: string) =>
+        (
+          await fetchAllUsages(
+            {},
+            [
+              "anthropic",
+              "copilot",
+              "gemini",
+              "codex",
+              "antigravity",
+              "kiro",
+              "zai",
+              "minimax",
+            ],
+            { commands: [{ name: "team", command }] },
+            DEFAULT_USAGE_CACHE_CONFIG,
+          )
+        )[0]?.windows[0]?.usedPercent;
+
+      expect(await usedPercent("team-a")).toBe(5);
+      expect(await usedPercent("team-b")).toBe(80);
+      // Each config keeps being served from its own entry
+      expect(await usedPercent("team-a")).toBe(5);
+      expect(entries.size).toBe(2);
+      expect(
+        vi
+          .mocked(childProcess.execFile)
+          .mock.calls.filter(([cmd]) => String(cmd).startsWith("team-")),
+      ).toHaveLength(2);
+    });
+
     it("should handle windows with same usage and reset time (sort by label)", async () => {
       vi.stubGlobal(
         "fetch",
@@ -0,0 +1,161 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import type { UsageSnapshot } from "../src/types.js";
+import {
+  createUsageHistoryStore,
+  getUsageHistoryStore,
+  USAGE_HISTORY_PATH,
+} from "../src/usage-history.js";
+
+function createTempHistoryPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "usage-history-test-"));
+  return path.join(dir, "history.jsonl");
+}
+
+afterEach(() => {
+  for (const entry of fs.readdirSync(os.tmpdir())) {
+    if (!entry.startsWith("usage-history-test-")) continue;
+    fs.rmSync(path.join(os.tmpdir(), entry), { recursive: true, force: true });
+  }
+});
+
+const usages: UsageSnapshot[] = [
+  {
+    provider: "anthropic",
+    displayName: "Claude",
+    account: "work",
+    windows: [
+      {
+        label: "5h",
+        usedPercent: 40,
+        resetsAt: new Date("2026-01-01T05:00:00Z"),
+      },
+      { label: "Week", usedPercent: 10 },
+      { label: "Broken", usedPercent: NaN },
+    ],
+  },
+  {
+    provider: "copilot",
+    displayName: "Copilot",
+    windows: [{ label: "Chat", usedPercent: 75 }],
+  },
+  {
+    provider: "gemini",
+    displayName: "Gemini",
+    windows: [],
+    error: "Timeout",
+  },
+];
+
+describe("usage history store", () => {
+  it("records one entry per valid window and queries them back", async () => {
+    const historyPath = createTempHistoryPath();
+    let now = 1000;
+    const store = createUsageHistoryStore({
+      path: historyPath,
+      now: () => now,
+    });
+
+    expect(await store.record(usages)).toBe(3);
+    now = 2000;
+    expect(await store.record(usages)).toBe(3);
+
+    const all = await store.query();
+    expect(all).toHaveLength(6);
+    expect(all[0]).toEqual({
+      timestamp: 1000,
+      provider: "anthropic",
+      account: "work",
+      window: "5h",
+      usedPercent: 40,
+      resetsAt: new Date("2026-01-01T05:00:00Z").getTime(),
+    });
+
+    const filtered = await store.query({
+      provider: "anthropic",
+      account: "work",
+      window: "Week",
+    });
+    expect(filtered.map((e) => e.timestamp)).toEqual([1000, 2000]);
+
+    expect(await store.query({ since: 1500 })).toHaveLength(3);
+    expect(await store.query({ until: 1500 })).toHaveLength(3);
+    expect(
+      (await store.query({ provider: "copilot", limit: 1 }))[0]?.timestamp,
+    ).toBe(2000);
+    expect(await store.query({ limit: 0 })).toEqual([]);
+  });
+
+  it("skips snapshots without usable windows", async () => {
+    const historyPath = createTempHistoryPath();
+    const store = createUsageHistoryStore({ path: historyPath });
+
+    expect(await store.record([usages[2]!])).toBe(0);
+    expect(fs.existsSync(historyPath)).toBe(false);
+    expect(await store.query()).toEqual([]);
+  });
+
+  it("rotates the active file when it exceeds the size limit", async () => {
+    const historyPath = createTempHistoryPath();
+    let now = 0;
+    const store = createUsageHistoryStore({
+      path: historyPath,
+      maxFileBytes: 300,
+      now: () => ++now,
+    });
+
+    for (let i = 0; i < 10; i++) {
+      await store.record([usages[1]!]);
+    }
+
+    expect(fs.existsSync(`${historyPath}.1`)).toBe(true);
+    expect(fs.statSync(historyPath).size).toBeLessThanOrEqual(300);
+    const entries = await store.query();
+    // Oldest entries beyond the rotated file are dropped
+    expect(entries.length).toBeLessThan(10);
+    expect(entries[0]?.timestamp).toBeGreaterThan(1);
+    expect(entries.at(-1)?.timestamp).toBe(10);
+    expect(entries.map((e) => e.timestamp)).toEqual(
+      [...entries.map((e) => e.timestamp)].sort((a, b) => a - b),
+    );
+  });
+
+  it("ignores corrupt lines and clears both files", async () => {
+    const historyPath = createTempHistoryPath();
+    fs.writeFileSync(
+      `${historyPath}.1`,
+      `${JSON.stringify({ timestamp: 1, provider: "p", window: "w", usedPercent: 5, account: 7 })}\n{"partial`,
+    );
+    fs.writeFileSync(
+      historyPath,
+      `${JSON.stringify({ timestamp: 2, provider: "p" })}\nnull\n`,
+    );
+    const store = createUsageHistoryStore({ path: historyPath });
+
+    expect(await store.query()).toEqual([
+      { timestamp: 1, provider: "p", window: "w", usedPercent: 5 },
+    ]);
+
+    await store.clear();
+    await store.clear();
+    expect(fs.existsSync(historyPath)).toBe(false);
+    expect(fs.existsSync(`${historyPath}.1`)).toBe(false);
+  });
+
+  it("swallows write failures", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "usage-history-test-"));
+    // A directory at the history path makes appendFile fail
+    const historyPath = path.join(dir, "history.jsonl");
+    fs.mkdirSync(historyPath);
+    const store = createUsageHistoryStore({ path: historyPath });
+
+    expect(await store.record(usages)).toBe(0);
+  });
+
+  it("shares a default store at the default path", () => {
+    expect(getUsageHistoryStore()).toBe(getUsageHistoryStore());
+    expect(USAGE_HISTORY_PATH).toContain("model-selector-usage-history.jsonl");
+  });
+});
@@ -0,0 +1,325 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { registerUsageFetcher } from "../src/fetcher-registry.js";
+import {
+  collectConfigProblems,
+  formatConfigProblems,
+  runValidateCommand,
+} from "../src/validate-command.js";
+import {
+  createContext,
+  removeTempHome,
+  resetTempHome,
+  tempHome,
+  writeConfig,
+} from "./helpers/temp-home.js";
+
+vi.mock("node:os", async () =>
+  (await import("./helpers/temp-home.js")).mockHomedir(),
+);
+
+describe("/model-select-validate", () => {
+  const globalPath = path.join(tempHome.home, ".pi", "model-selector.json"),
+    projectPath = path.join(tempHome.project, ".pi", "model-selector.json");
+
+  beforeEach(resetTempHome);
+  afterAll(removeTempHome);
+
+  it("confirms valid files and reports missing ones", async () => {
+    const ctx = createContext();
+    expect(await runValidateCommand(ctx)).toBe(true);
+    expect(ctx.ui.notify).toHaveBeenCalledWith(
+      "[model-selector] No config files found; the defaults are used.",
+      "info",
+    );
+
+    writeConfig(globalPath, { priority: ["remainingPercent"] });
+    writeConfig(projectPath, { autoRun: true });
+    expect(await runValidateCommand(ctx)).toBe(true);
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      [
+        `[model-selector] Config is valid: ${globalPath}, ${projectPath}`,
+        "Settings:",
+        `  priority: global (${globalPath})`,
+        `  autoRun: project (${projectPath})`,
+      ].join("\n"),
+      "info",
+    );
+  });
+
+  it("checks extended files and names the file behind each setting", async () => {
+    const sharedPath = path.join(tempHome.home, "shared.json");
+    writeConfig(sharedPath, { autoRun: true, widget: { showCont: 2 } });
+    writeConfig(globalPath, { extends: ["../shared.json"] });
+    vi.stubEnv("PI_MODEL_SELECTOR_PRIORITY", "earliestReset");
+    const ctx = createContext();
+
+    const { files, problems, config } = await collectConfigProblems(ctx);
+    expect(files).toEqual([globalPath, sharedPath]);
+    expect(problems).toEqual([
+      {
+        file: sharedPath,
+        pointer: "/widget/showCont",
+        message: 'is not a known key (did you mean "showCount"?)',
+      },
+    ]);
+    expect(config?.autoRun).toBe(true);
+
+    writeConfig(sharedPath, { autoRun: true });
+    expect(await runValidateCommand(ctx)).toBe(true);
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+      [
+        `[model-selector] Config is valid: ${globalPath}, ${sharedPath}`,
+        "Settings:",
+        "  priority: env",
+        `  autoRun: global (${sharedPath})`,
+      ].join("\n"),
+      "info",
+    );
+    vi.unstubAllEnvs();
+  });
+
+  it("reports schema and normalization problems grouped by file", async () => {
+    writeConfig(globalPath, {
+      prority: ["remainingPercent"],
+      widget: { placement: "sideways" },
+    });
+    writeConfig(projectPath, {
+      mappings: [
+        { usage: { provider: "gemini", window: "Flash" }, ignore: true },
+        {
+          usage: { provider: "anthropic", window: "Sonnet" },
+          model: { provider: "anthropic", id: "claude-sonnet" },
+          ignore: true,
+        },
+      ],
+    });
+    const ctx = createContext();
+
+    const { files, problems } = await collectConfigProblems(ctx);
+    expect(files).toEqual([globalPath, projectPath]);
+    expect(problems).toEqual([
+      {
+        file: globalPath,
+        pointer: "/prority",
+        message: 'is not a known key (did you mean "priority"?)',
+      },
+      {
+        file: globalPath,
+        pointer: "/widget/placement",
+        message: expect.stringContaining("must be one of"),
+      },
+      {
+        file: projectPath,
+        pointer: "/mappings/1",
+        message:
+          'mappings[1]: "model", "ignore: true", and "combine" are mutually exclusive',
+      },
+    ]);
+
+    expect(await runValidateCommand(ctx)).toBe(false);
+    const [message, level] = ctx.ui.notify.mock.calls[0] ?? [];
+    expect(level).toBe("error");
+    expect(message).toContain("Config problems (3):");
+    expect(message).toContain(
+      `  ${globalPath}\n    /prority: is not a known key (did you mean "priority"?)`,
+    );
+  });
+
+  it("points normalization problems inside profiles at the profile", async () => {
+    writeConfig(projectPath, {
+      profiles: { cheap: { priority: ["pacing"] } },
+    });
+
+    const { problems } = await collectConfigProblems(createContext());
+    expect(problems).toEqual([
+      {
+        file: projectPath,
+        pointer: "/profiles/cheap/priority",
+        message:
+          "profiles.cheap: priority must include at least one of remainingPercent or earliestReset",
+      },
+    ]);
+  });
+
+  it("reports only disabled providers that match no provider", async () => {
+    writeConfig(globalPath, {
+      providerSettings: {
+        custom: [
+          { name: "Acme", url: "https://acme.test", usedPercent: "$.p" },
+        ],
+        commands: [{ name: "proxy", command: "proxy-quota" }],
+      },
+    });
+    writeConfig(projectPath, {
+      disabledProviders: ["acme", "proxy", "vendor", "kiro", "antropic"],
+      profiles: { cheap: { disabledProviders: ["zai", "nope"] } },
+    });
+    const unregister = registerUsageFetcher({
+      provider: "vendor",
+      displayName: "Vendor",
+      fetch: async () => ({ provider: "vendor", displayName: "", windows: [] }),
+    });
+
+    try {
+      const { problems, config } = await collectConfigProblems(createContext());
+      expect(problems).toEqual([
+        {
+          file: projectPath,
+          pointer: "/disabledProviders/4",
+          message:
+            '"antropic" is not a built-in, custom, command or registered provider',
+        },
+        {
+          file: projectPath,
+          pointer: "/profiles/cheap/disabledProviders/1",
+          message:
+            '"nope" is not a built-in, custom, command or registered provider',
+        },
+      ]);
+      expect(config?.disabledProviders).toEqual([
+        "acme",
+        "proxy",
+        "vendor",
+        "kiro",
+        "antropic",
+      ]);
+    } finally {
+      unregister();
+    }
+  });
+
+  it("points mapping problems at the entry and field", async () => {
+    writeConfig(projectPath, {
+      mappings: [
+        { usage: { provider: "gemini", window: "Flash" }, ignore: true },
+        {
+          usage: { provider: "codex" },
+          ignore: true,
+          schedule: { hours: "09:00-18:00" },
+        },
+      ],
+    });
+
+    const { problems } = await collectConfigProblems(createContext());
+    expect(problems).toEqual([
+      {
+        file: projectPath,
+        pointer: "/mappings/1/schedule",
+        message:
+          "mappings[1].schedule is only valid on mappings with a model target",
+      },
+    ]);
+
+    writeConfig(projectPath, {
+      profiles: {
+        night: {
+          mappings: [
+            {
+              usage: { provider: "anthropic", window: "Opus" },
+              model: { provider: "anthropic", id: "claude-opus-4-1" },
+              schedule: { timezone: "Mars/Olympus" },
+            },
+          ],
+        },
+      },
+    });
+    expect((await collectConfigProblems(createContext())).problems).toEqual([
+      {
+        file: projectPath,
+        pointer: "/profiles/night/mappings/0/schedule/timezone",
+        message: expect.stringContaining(
+          "mappings[0].schedule.timezone must be an IANA timezone",
+        ),
+      },
+    ]);
+  });
+
+  it("checks older files as they load once migrated", async () => {
+    writeConfig(globalPath, {
+      examples: { mappings: [] },
+      autoRun: true,
+    });
+    writeConfig(projectPath, { version: 2, examples: {} });
+
+    const { problems } = await collectConfigProblems(createContext());
+    expect(problems).toEqual([
+      {
+        file: projectPath,
+        pointer: "/examples",
+        message: "is not a known key",
+      },
+    ]);
+    // Validation leaves the file as it is
+    expect(JSON.parse(fs.readFileSync(globalPath, "utf-8"))).toEqual({
+      examples: { mappings: [] },
+      autoRun: true,
+    });
+  });
+
+  it("stops at unreadable files", async () => {
+    writeConfig(globalPath, "{not json");
+    writeConfig(projectPath, { autoRun: "yes" });
+
+    const { files, problems } = await collectConfigProblems(createContext());
+    expect(files).toEqual([projectPath]);
+    expect(problems).toEqual([
+      { file: globalPath, pointer: "", message: expect.any(String) },
+      {
+        file: projectPath,
+        pointer: "/autoRun",
+        message: "must be a boolean (got string)",
+      },
+    ]);
+  });
+
+  it("checks JSONC files and flags config files that are ignored", async () => {
+    const jsoncPath = path.join(
+        tempHome.project,
+        ".pi",
+        "model-selector.jsonc",
+      ),
+      yamlPath = path.join(tempHome.project, ".pi", "model-selector.yaml");
+    writeConfig(
+      jsoncPath,
+      '{\n  // Disabled for now\n  "autoRun": false,\n  "widget": { "showCont": 2 },\n}\n',
+    );
+    writeConfig(yamlPath, "autoRun: true\n");
+
+    const { files, problems, config } = await collectConfigProblems(
+      createContext(),
+    );
+    expect(files).toEqual([jsoncPath]);
+    expect(problems).toEqual([
+      {
+        file: jsoncPath,
+        pointer: "/widget/showCont",
+        message: 'is not a known key (did you mean "showCount"?)',
+      },
+      {
+        file: yamlPath,
+        pointer: "",
+        message: "is ignored because model-selector.jsonc takes precedence",
+      },
+    ]);
+    expect(config?.autoRun).toBe(false);
+  });
+
+  it("formats problems at the file root", () => {
+    expect(
+      formatConfigProblems([
+        { file: "a.json", pointer: "", message: "broken" },
+        { file: "", pointer: "/x", message: "bad" },
+      ]),
+    ).toBe(
+      [
+        "Config problems (2):",
+        "  a.json",
+        "    (root): broken",
+        "  (unknown file)",
+        "    /x: bad",
+      ].join("\n"),
+    );
+  });
+});
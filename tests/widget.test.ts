@@ -560,4 +560,51 @@ describe("Widget", () => {
       expect(output[1]).not.toContain("reserve:");
     });
   });
+
+  describe("Schedule Indicator", () => {
+    const renderAt = (time: string) => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(time));
+      const setWidgetMock = vi.fn();
+      const mockCtx = {
+        hasUI: true,
+        ui: { setWidget: setWidgetMock },
+      } as unknown as ExtensionContext;
+      const config = {
+        mappings: [
+          {
+            usage: { provider: "p1", window: "W1" },
+            model: { provider: "mp", id: "mi" },
+            schedule: { hours: "09:00-18:00", timezone: "UTC" },
+          },
+        ],
+        widget: { enabled: true, showCount: 5, placement: "belowEditor" },
+      } as unknown as LoadedConfig;
+      const candidates = [
+        {
+          provider: "p1",
+          displayName: "D1",
+          windowLabel: "W1",
+          usedPercent: 50,
+          remainingPercent: 50,
+        },
+      ] as unknown as UsageCandidate[];
+      updateWidgetState({ candidates, config });
+      renderUsageWidget(mockCtx);
+      const renderFn = setWidgetMock.mock.calls![0]![1]!;
+      const output = renderFn(null, theme).render(500);
+      vi.useRealTimers();
+      return output;
+    };
+
+    it("should show when a candidate outside its schedule becomes active", () => {
+      expect(renderAt("2026-10-19T20:00:00Z")[1]).toContain(
+        "[warning]◷ active in 13h[/warning]",
+      );
+    });
+
+    it("should not show the schedule indicator within the schedule", () => {
+      expect(renderAt("2026-10-19T10:00:00Z")[1]).not.toContain("◷");
+    });
+  });
 });
@@ -521,6 +521,60 @@ describe("mapping wizard actions", () => {
     expect(mapping).not.toHaveProperty("reserve");
   });
 
+  it("keeps the schedule and concurrency of the mapping it remaps", async () => {
+    const schedule = { hours: "09:00-18:00", timezone: "UTC" },
+      initialConfig = baseConfigFor({
+        usage: { provider: "p1", window: "w1" },
+        model: { provider: "p1", id: "m0", concurrency: 2 },
+        schedule,
+      });
+
+    vi.mocked(configMod.loadConfig).mockResolvedValueOnce(initialConfig);
+    ctx.modelRegistry.getAvailable = () =>
+      Promise.resolve([{ provider: "p1", id: "m1" }]);
+
+    let menuVisits = 0;
+    ctx.ui.select = vi.fn((message: string, options: string[]) => {
+      if (message === "Model selector configuration") {
+        menuVisits += 1;
+        return Promise.resolve(menuVisits === 1 ? "Edit mappings" : "Done");
+      }
+      if (message === "Select a usage bucket to map") {
+        return Promise.resolve(options[0]);
+      }
+      if (message === "Modify mapping in") {
+        return Promise.resolve("Project (project.json)");
+      }
+      if (message.startsWith("Select action for")) {
+        return Promise.resolve("Map to model");
+      }
+      if (message.startsWith("Select model for")) {
+        return Promise.resolve("p1/m1");
+      }
+      if (message.startsWith("Set a minimum reserve to preserve?")) {
+        return Promise.resolve("No reserve (0)");
+      }
+      return Promise.resolve(undefined);
+    });
+    ctx.ui.confirm = vi.fn(() => Promise.resolve(false));
+    ctx.ui.input = vi.fn(() => Promise.resolve(undefined));
+
+    const runWizard = commands["model-select-config"];
+    if (!runWizard) throw new Error("Command not found: model-select-config");
+    await runWizard({}, ctx as unknown as Record<string, unknown>);
+
+    expect(configMod.upsertMapping).toHaveBeenCalledTimes(1);
+    const [, mapping] = vi.mocked(configMod.upsertMapping).mock.calls[0] as [
+      Record<string, unknown>,
+      MappingEntry,
+    ];
+    expect(mapping).toEqual({
+      usage: { provider: "p1", account: "acc1", window: "w1" },
+      model: { provider: "p1", id: "m1", concurrency: 2 },
+      schedule,
+    });
+  });
+
   it("shows recommended aliases first and allows codex buckets to map to openai-codex", async () => {
     const initialConfig: LoadedConfig = {
         mappings: [],
@@ -212,10 +212,13 @@ describe("mapping wizard provider configuration", () => {
       widget: { enabled: true, placement: "belowEditor", showCount: 3 },
       autoRun: false,
       enableModelLocking: true,
-      disabledProviders: ["zai"],
+      disabledProviders: ["zai", "acme"],
+      providerSettings: {
+        custom: [{ name: "acme", url: "https://acme.test" }],
+      },
       sources: { globalPath: "global.json", projectPath: "project.json" },
       raw: {
-        global: { disabledProviders: ["zai", "garbage-provider"] },
+        global: { disabledProviders: ["zai", "garbage-provider", "acme"] },
         project: {},
       },
     };
@@ -247,7 +250,8 @@ describe("mapping wizard provider configuration", () => {
     expect(configMod.saveConfigFile).toHaveBeenCalledWith(
       "global.json",
       expect.objectContaining({
-        disabledProviders: [], // Removed 'zai', and 'garbage-provider' should be filtered out
+        // Removed 'zai', filtered out 'garbage-provider' and kept the custom provider
+        disabledProviders: ["acme"],
       }),
     );
   });